@@ -0,0 +1,164 @@
+/**
+ * @module cards
+ * @description Read the cards to mint and store their metadata.
+ *
+ * The input is one of:
+ * - a JSON file holding an array of `cardData.json` entries, an array of
+ *   ERC-721 metadata objects, or a single metadata object
+ * - a directory of metadata files, such as the output of
+ *   `scripts/generate-metadata.py` (its `index.json` is skipped)
+ *
+ * An entry with an `attributes` array is taken as metadata and minted as-is;
+ * anything else is a `cardData.json` entry and is converted the way
+ * `generate-metadata.py` does. The token symbol is the entry's `symbol` if it
+ * has one, otherwise derived from the name as on the Create page.
+ *
+ * Images that point at a local file (relative, or root-relative to `IMAGE_DIR`)
+ * are uploaded alongside the metadata; URLs and `data:` URIs are kept.
+ */
+import { existsSync, readFileSync, readdirSync, statSync } from 'node:fs'
+import { dirname, extname, isAbsolute, join, resolve } from 'node:path'
+import { deriveSymbol } from '@whirlpool/sdk'
+import type { MetadataStorage } from './storage'
+
+type Json = Record<string, unknown>
+
+export interface CardInput {
+  name: string
+  symbol: string
+  metadata: Json
+  /** Where it came from, for error messages (`cards.json[3]`, `metadata/3.json`) */
+  source: string
+}
+
+/** Thrown for input that can't be read as cards */
+export class InputError extends Error {
+  name = 'InputError'
+}
+
+const IMAGE_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml',
+}
+
+/** Theme sections `generate-metadata.py` flattens into attributes */
+const THEME_SECTIONS: [string, string][] = [
+  ['header', 'Header'],
+  ['imageArea', 'Image Area'],
+  ['typeSection', 'Type Section'],
+  ['flavorText', 'Flavor Text'],
+  ['bottomSection', 'Bottom Section'],
+  ['stat', 'Stat'],
+  ['rarity', 'Rarity Badge'],
+]
+
+const isObject = (value: unknown): value is Json => typeof value === 'object' && value !== null && !Array.isArray(value)
+
+/** ERC-721 metadata for a `cardData.json` entry (a port of `build_metadata` in `generate-metadata.py`) */
+export function cardDataToMetadata(card: Json, index: number): Json {
+  const attributes: { trait_type: string; value: string }[] = []
+  const push = (trait_type: string, value: unknown) => {
+    if (value) attributes.push({ trait_type, value: String(value) })
+  }
+  push('Type', card.type)
+  push('Rarity', card.rarity)
+  push('Level', card.level)
+  push('Move', card.subtitle)
+  push('Artist', card.artist)
+
+  for (const [key, label] of [['hp', 'HP'], ['manaCost', 'Mana Cost'], ['crit', 'Crit']]) {
+    const stat = card[key]
+    if (!isObject(stat) || !stat.value) continue
+    push(label, stat.value)
+    push(`${label} Gradient`, stat.color)
+  }
+
+  const properties: Json = {}
+  const theme = card.theme
+  if (isObject(theme)) {
+    push('Card Background', theme.background)
+    for (const [key, label] of THEME_SECTIONS) {
+      const section = theme[key]
+      if (!isObject(section)) continue
+      push(`${label} Background`, section.background)
+      push(`${label} Color`, section.color)
+      push(`${label} Border`, section.border)
+      push(`${label} Accent`, section.accentColor)
+    }
+    properties.theme = theme
+  }
+
+  return {
+    name: card.name ?? `Card_${index}`,
+    description: card.flavorText || 'A Whirlpool card',
+    image: card.image ?? '',
+    external_url: 'https://howlonghasitben.github.io/cog-works/',
+    attributes,
+    ...(Object.keys(properties).length > 0 && { properties }),
+  }
+}
+
+function toInput(entry: unknown, source: string, index: number): CardInput {
+  if (!isObject(entry)) throw new InputError(`${source}: expected an object`)
+  const metadata = Array.isArray(entry.attributes) ? entry : cardDataToMetadata(entry, index)
+  const name = typeof metadata.name === 'string' ? metadata.name.trim() : ''
+  if (!name) throw new InputError(`${source}: the card has no name`)
+  const symbol = typeof entry.symbol === 'string' && entry.symbol.trim() ? entry.symbol.trim() : deriveSymbol(name)
+  return { name, symbol, metadata: { ...metadata, name }, source }
+}
+
+function readJson(file: string): unknown {
+  try {
+    return JSON.parse(readFileSync(file, 'utf8'))
+  } catch (e) {
+    throw new InputError(`${file}: ${(e as Error).message}`)
+  }
+}
+
+/**
+ * Cards to mint from a JSON file or a directory of metadata files.
+ *
+ * @throws InputError if the input is missing, malformed or has an unnamed card
+ */
+export function readCards(path: string): CardInput[] {
+  if (!existsSync(path)) throw new InputError(`${path} does not exist`)
+  if (statSync(path).isDirectory()) {
+    const files = readdirSync(path)
+      .filter(f => f.endsWith('.json') && f !== 'index.json')
+      .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }))
+    return files.map((f, i) => toInput(readJson(join(path, f)), join(path, f), i))
+  }
+  const json = readJson(path)
+  return Array.isArray(json) ? json.map((entry, i) => toInput(entry, `${path}[${i}]`, i)) : [toInput(json, path, 0)]
+}
+
+/** The local file an image reference points at, if any */
+function localImage(image: string, baseDir: string): string | undefined {
+  if (!image || /^[a-z][a-z0-9+.-]*:/i.test(image)) return undefined
+  const file = isAbsolute(image) && existsSync(image) ? image : join(baseDir, image)
+  return existsSync(file) && statSync(file).isFile() ? file : undefined
+}
+
+/**
+ * Store a card's image (if it's a local file) and metadata; resolves to the token URI.
+ *
+ * @param imageDir - base for relative and root-relative image paths
+ */
+export async function uploadCard(card: CardInput, storage: MetadataStorage, imageDir: string): Promise<string> {
+  let { image } = card.metadata
+  const file = typeof image === 'string' ? localImage(image, imageDir) : undefined
+  if (file) {
+    const type = IMAGE_TYPES[extname(file).toLowerCase()]
+    if (!type) throw new InputError(`${card.source}: unsupported image type ${extname(file) || file}`)
+    image = await storage.put(readFileSync(file), type)
+  }
+  const json = JSON.stringify({ ...card.metadata, image })
+  return storage.put(new TextEncoder().encode(json), 'application/json')
+}
+
+/** `IMAGE_DIR`, or the directory the input lives in */
+export const defaultImageDir = (input: string) => (statSync(input).isDirectory() ? resolve(input) : dirname(resolve(input)))
@@ -0,0 +1,92 @@
+/**
+ * @module config
+ * @description Batch-mint settings from environment variables, plus the
+ * deployment to mint against (read from Forge's broadcast output, like the
+ * indexer does).
+ *
+ * | Variable            | Default                  |
+ * |---------------------|--------------------------|
+ * | `RPC_URL`           | `http://127.0.0.1:8545`  |
+ * | `PRIVATE_KEY`       | Anvil's first test account (chain 31337 only) |
+ * | `METADATA_STORAGE`  | `inline` (`inline`, `local` or `ipfs`, as in the marketplace) |
+ * | `CONTENT_STORE_URL` | `http://127.0.0.1:4100`  |
+ * | `IPFS_API_URL`      | `http://127.0.0.1:5001`  |
+ * | `IMAGE_DIR`         | the input's directory (local image paths resolve against it) |
+ * | `MAX_URI_BYTES`     | `16384` (inline token URIs only) |
+ * | `BROADCAST_DIR`     | `../broadcast`           |
+ */
+import { readdirSync, readFileSync, existsSync } from 'node:fs'
+import { join, resolve } from 'node:path'
+import { TEST_ACCOUNTS, buildAddressBook, resolveDeployment } from '@whirlpool/sdk'
+import type { ForgeBroadcast, WhirlpoolDeployment } from '@whirlpool/sdk'
+import type { StorageKind } from './storage'
+
+export interface BatchMintConfig {
+  rpcUrl: string
+  privateKey?: `0x${string}`
+  storage: StorageKind
+  contentStoreUrl: string
+  ipfsApiUrl: string
+  imageDir?: string
+  maxUriBytes: number
+  broadcastDir: string
+}
+
+const STORAGE_KINDS: StorageKind[] = ['inline', 'local', 'ipfs']
+
+const ANVIL_CHAIN_ID = 31337
+
+function intEnv(name: string, fallback: number, min = 1): number {
+  const raw = process.env[name]
+  if (raw === undefined || raw === '') return fallback
+  const value = Number(raw)
+  if (!Number.isSafeInteger(value) || value < min) throw new Error(`${name} must be an integer >= ${min}, got "${raw}"`)
+  return value
+}
+
+export function loadConfig(): BatchMintConfig {
+  const storage = process.env.METADATA_STORAGE || 'inline'
+  if (!(STORAGE_KINDS as string[]).includes(storage)) {
+    throw new Error(`METADATA_STORAGE must be one of ${STORAGE_KINDS.join(', ')}, got "${storage}"`)
+  }
+  const privateKey = process.env.PRIVATE_KEY || undefined
+  if (privateKey !== undefined && !/^0x[0-9a-fA-F]{64}$/.test(privateKey)) throw new Error('PRIVATE_KEY must be a 0x-prefixed 32-byte hex key')
+  return {
+    rpcUrl: process.env.RPC_URL || 'http://127.0.0.1:8545',
+    privateKey: privateKey as `0x${string}` | undefined,
+    storage: storage as StorageKind,
+    contentStoreUrl: (process.env.CONTENT_STORE_URL || 'http://127.0.0.1:4100').replace(/\/$/, ''),
+    ipfsApiUrl: (process.env.IPFS_API_URL || 'http://127.0.0.1:5001').replace(/\/$/, ''),
+    imageDir: process.env.IMAGE_DIR ? resolve(process.env.IMAGE_DIR) : undefined,
+    maxUriBytes: intEnv('MAX_URI_BYTES', 16 * 1024),
+    broadcastDir: resolve(process.env.BROADCAST_DIR || join(import.meta.dirname, '../../broadcast')),
+  }
+}
+
+/**
+ * The minting key: `PRIVATE_KEY`, or Anvil's first test account on a local chain.
+ *
+ * @throws Error on any other chain without `PRIVATE_KEY`
+ */
+export function signerKey(config: BatchMintConfig, chainId: number): `0x${string}` {
+  if (config.privateKey) return config.privateKey
+  if (chainId === ANVIL_CHAIN_ID) return TEST_ACCOUNTS[0].pk
+  throw new Error(`Set PRIVATE_KEY to mint on chain ${chainId}`)
+}
+
+/**
+ * Resolve the Whirlpool deployment for `chainId` from
+ * `<broadcastDir>/<Script>/<chainId>/run-latest.json`.
+ *
+ * @throws DeploymentError if no broadcast exists for the chain
+ */
+export function loadDeployment(broadcastDir: string, chainId: number): WhirlpoolDeployment {
+  const manifests: Record<string, ForgeBroadcast> = {}
+  if (existsSync(broadcastDir)) {
+    for (const script of readdirSync(broadcastDir)) {
+      const file = join(broadcastDir, script, String(chainId), 'run-latest.json')
+      if (existsSync(file)) manifests[`broadcast/${script}/${chainId}/run-latest.json`] = JSON.parse(readFileSync(file, 'utf8'))
+    }
+  }
+  return resolveDeployment(buildAddressBook(manifests), chainId)
+}
@@ -0,0 +1,88 @@
+/**
+ * @module main
+ * @description Batch-mint entry point:
+ * `npm start -- <cards.json | metadata dir> [report.json]`.
+ *
+ * Resolves the deployment for the RPC's chain, then mints every card that the
+ * report (default `batch-mint-report.json`) doesn't already list as minted,
+ * rewriting the report after every step. Run the same command again to
+ * resume after a failure or Ctrl-C (which stops after the current step).
+ * Exits non-zero if any card is left unminted.
+ */
+import { existsSync, readFileSync, renameSync, writeFileSync } from 'node:fs'
+import { resolve } from 'node:path'
+import { createPublicClient, createWalletClient, formatEther, http } from 'viem'
+import { privateKeyToAccount } from 'viem/accounts'
+import { batchMint, summarizeReport } from '@whirlpool/sdk'
+import type { BatchMintEntry, BatchMintReport } from '@whirlpool/sdk'
+import { defaultImageDir, readCards, uploadCard } from './cards'
+import { loadConfig, loadDeployment, signerKey } from './config'
+import { routerClient } from './router'
+import { createStorage } from './storage'
+
+const [input, reportArg = 'batch-mint-report.json'] = process.argv.slice(2)
+if (!input) {
+  console.error('Usage: npm start -- <cards.json | metadata dir> [report.json]')
+  process.exit(2)
+}
+const reportPath = resolve(reportArg)
+
+const config = loadConfig()
+const cards = readCards(input)
+const storage = createStorage(config)
+const imageDir = config.imageDir ?? defaultImageDir(input)
+
+const publicClient = createPublicClient({ transport: http(config.rpcUrl) })
+const chainId = await publicClient.getChainId()
+const deployment = loadDeployment(config.broadcastDir, chainId)
+const router = deployment.addresses.router
+const account = privateKeyToAccount(signerKey(config, chainId))
+const wallet = createWalletClient({ account, transport: http(config.rpcUrl) })
+
+const saved = existsSync(reportPath) ? (JSON.parse(readFileSync(reportPath, 'utf8')) as BatchMintReport) : undefined
+
+/** Write via a temp file so an interrupted write never leaves a truncated report */
+function saveReport(report: BatchMintReport) {
+  writeFileSync(`${reportPath}.tmp`, `${JSON.stringify(report, null, 2)}\n`)
+  renameSync(`${reportPath}.tmp`, reportPath)
+}
+
+function logEntry(entry: BatchMintEntry) {
+  const detail = entry.status === 'minted' ? `card #${entry.cardId}, token ${entry.cardToken}`
+    : entry.status === 'sent' ? `tx ${entry.tx}`
+      : entry.status === 'failed' ? entry.error
+        : entry.uri && entry.uri.length <= 80 ? entry.uri : ''
+  console.log(`[mint] ${entry.name} (${entry.symbol}): ${entry.status}${detail ? ` — ${detail}` : ''}`)
+}
+
+const controller = new AbortController()
+process.once('SIGINT', () => {
+  console.log('[mint] stopping after the current step (Ctrl-C again to quit now)')
+  controller.abort()
+})
+
+const client = routerClient(publicClient, wallet, router, chainId)
+const fee = await client.mintFee()
+console.log(`[mint] ${cards.length} cards from ${input}, ${formatEther(fee)} ETH each, from ${account.address}`)
+console.log(`[mint] Router ${router} on chain ${chainId} (${deployment.script}), metadata to ${storage.label}`)
+if (saved) console.log(`[mint] resuming ${reportPath}: ${summarizeReport(saved).minted} already minted`)
+
+const report = await batchMint(
+  cards.map(card => ({ name: card.name, symbol: card.symbol, upload: () => uploadCard(card, storage, imageDir) })),
+  client,
+  {
+    report: saved,
+    maxUriBytes: storage.kind === 'inline' ? config.maxUriBytes : Infinity,
+    signal: controller.signal,
+    onUpdate: (next, entry) => {
+      saveReport(next)
+      logEntry(entry)
+    },
+  },
+)
+saveReport(report)
+
+const counts = summarizeReport(report)
+const unfinished = cards.filter(card => report.cards[card.name]?.status !== 'minted').length
+console.log(`[mint] ${counts.minted} minted, ${counts.failed} failed, ${unfinished} of this batch left — report in ${reportPath}`)
+process.exit(unfinished ? 1 : 0)
@@ -0,0 +1,63 @@
+/**
+ * @module router
+ * @description The {@link BatchMintClient} for a viem wallet: reads and
+ * `createCard` calls against `WhirlpoolRouter`, with the card ID and token
+ * read back from the receipt's `CardCreated` event.
+ */
+import { BaseError, TransactionNotFoundError, WaitForTransactionReceiptTimeoutError, isAddressEqual, keccak256, parseEventLogs, toBytes } from 'viem'
+import type { Account, Chain, PublicClient, Transport, WalletClient } from 'viem'
+import { MintTxError, ROUTER_ABI } from '@whirlpool/sdk'
+import type { Address, BatchMintClient } from '@whirlpool/sdk'
+
+/** How long to wait for a receipt before recording the card as failed (it's re-checked on resume) */
+const CONFIRM_TIMEOUT_MS = 120_000
+
+/** `cardNameTaken` key: keccak256 of the name with ASCII letters lower-cased, as the Router hashes it */
+const nameHash = (name: string) => keccak256(toBytes(name.replace(/[A-Z]/g, c => c.toLowerCase())))
+
+/** Whether the node still has `hash`, mined or pending */
+async function isKnown(publicClient: PublicClient, hash: `0x${string}`): Promise<boolean> {
+  try {
+    await publicClient.getTransaction({ hash })
+    return true
+  } catch (e) {
+    if (e instanceof BaseError && e.walk(err => err instanceof TransactionNotFoundError)) return false
+    throw e
+  }
+}
+
+export function routerClient(
+  publicClient: PublicClient,
+  wallet: WalletClient<Transport, Chain | undefined, Account>,
+  router: Address,
+  chainId: number,
+): BatchMintClient {
+  return {
+    chainId,
+    router,
+    mintFee: () => publicClient.readContract({ address: router, abi: ROUTER_ABI, functionName: 'MINT_FEE' }),
+    isNameTaken: name => publicClient.readContract({ address: router, abi: ROUTER_ABI, functionName: 'cardNameTaken', args: [nameHash(name)] }),
+    createCard: (name, symbol, uri, value) => wallet.writeContract({
+      address: router,
+      abi: ROUTER_ABI,
+      functionName: 'createCard',
+      args: [name, symbol, uri],
+      value,
+      chain: null,
+    }),
+    async confirmCard(hash) {
+      const receipt = await publicClient.waitForTransactionReceipt({ hash, timeout: CONFIRM_TIMEOUT_MS }).catch(async e => {
+        // No receipt in time: only a transaction the node has forgotten is safe to send again
+        if (e instanceof WaitForTransactionReceiptTimeoutError && !(await isKnown(publicClient, hash))) {
+          throw new MintTxError('The transaction was dropped')
+        }
+        throw e
+      })
+      if (receipt.status !== 'success') throw new MintTxError('Transaction reverted')
+      const [created] = parseEventLogs({ abi: ROUTER_ABI, eventName: 'CardCreated', logs: receipt.logs })
+        .filter(log => isAddressEqual(log.address, router))
+      if (!created) throw new Error('The receipt has no CardCreated event')
+      return { cardId: Number(created.args.cardId), cardToken: created.args.cardToken }
+    },
+  }
+}
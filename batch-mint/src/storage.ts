@@ -0,0 +1,75 @@
+/**
+ * @module storage
+ * @description Where cards' metadata and images go — the same three backends
+ * as the marketplace's `lib/storage.ts`, so minted URIs resolve the same way:
+ * - `inline` — a `data:` URI (kept on-chain by BidNFT, so it has to stay small)
+ * - `local` — the `content-store/` server, `ipfs://<cid>`
+ * - `ipfs` — a Kubo node's HTTP API (`/api/v0/add`, CIDv1, pinned)
+ */
+import type { BatchMintConfig } from './config'
+
+export type StorageKind = 'inline' | 'local' | 'ipfs'
+
+export interface MetadataStorage {
+  kind: StorageKind
+  /** Human-readable destination, for the log */
+  label: string
+  /** Store `bytes` and return the URI it resolves from */
+  put(bytes: Uint8Array, type: string): Promise<string>
+}
+
+/** Thrown when a backend is unreachable or rejects an upload */
+export class StorageError extends Error {
+  name = 'StorageError'
+}
+
+/** POST to a storage server, turning network and HTTP failures into {@link StorageError}s */
+async function post(url: string, init: RequestInit): Promise<Record<string, unknown>> {
+  const res = await fetch(url, { method: 'POST', ...init }).catch(() => {
+    throw new StorageError(`Could not reach ${new URL(url).host}`)
+  })
+  const body = (await res.json().catch(() => ({}))) as Record<string, unknown>
+  if (!res.ok) throw new StorageError(`Upload failed (${res.status})${body.error ? `: ${body.error}` : body.Message ? `: ${body.Message}` : ''}`)
+  return body
+}
+
+export const inlineStorage: MetadataStorage = {
+  kind: 'inline',
+  label: 'inline data: URIs (on-chain)',
+  async put(bytes, type) {
+    return `data:${type};base64,${Buffer.from(bytes).toString('base64')}`
+  },
+}
+
+export function contentStoreStorage(url: string): MetadataStorage {
+  return {
+    kind: 'local',
+    label: `local content store (${new URL(url).host})`,
+    async put(bytes, type) {
+      const { cid } = await post(`${url}/add`, { body: bytes, headers: { 'Content-Type': type } })
+      if (typeof cid !== 'string') throw new StorageError('Content store returned no CID')
+      return `ipfs://${cid}`
+    },
+  }
+}
+
+export function ipfsApiStorage(url: string): MetadataStorage {
+  return {
+    kind: 'ipfs',
+    label: `IPFS node (${new URL(url).host})`,
+    async put(bytes, type) {
+      const form = new FormData()
+      form.append('file', new Blob([bytes], { type }))
+      const { Hash } = await post(`${url}/api/v0/add?cid-version=1&pin=true`, { body: form })
+      if (typeof Hash !== 'string') throw new StorageError('IPFS node returned no CID')
+      return `ipfs://${Hash}`
+    },
+  }
+}
+
+/** The backend selected by `METADATA_STORAGE` */
+export function createStorage(config: BatchMintConfig): MetadataStorage {
+  return config.storage === 'local' ? contentStoreStorage(config.contentStoreUrl)
+    : config.storage === 'ipfs' ? ipfsApiStorage(config.ipfsApiUrl)
+      : inlineStorage
+}
@@ -0,0 +1,49 @@
+/**
+ * @module cid
+ * @description CIDv1 content identifiers for stored files.
+ *
+ * A file's CID is `b` (multibase base32, lower case, unpadded) over
+ * `0x01` (CIDv1) · `0x55` (raw codec) · `0x12 0x20` (sha2-256, 32 bytes) ·
+ * the SHA-256 of its bytes. That is exactly what `ipfs add --cid-version=1`
+ * produces for a file that fits in one 256 KiB chunk, so small uploads get
+ * the same `bafkrei…` ID here as on a real IPFS node. Larger files would be
+ * chunked into a DAG by IPFS, so their IDs differ.
+ */
+import { createHash } from 'node:crypto'
+
+const BASE32 = 'abcdefghijklmnopqrstuvwxyz234567'
+const PREFIX = Uint8Array.from([0x01, 0x55, 0x12, 0x20])
+
+/** Length of a raw sha2-256 CIDv1 in base32: `b` + ceil(36 bytes × 8 / 5) */
+const CID_LENGTH = 1 + Math.ceil(((PREFIX.length + 32) * 8) / 5)
+
+function base32(bytes: Uint8Array): string {
+  let out = ''
+  let buffer = 0
+  let bits = 0
+  for (const byte of bytes) {
+    buffer = (buffer << 8) | byte
+    bits += 8
+    while (bits >= 5) {
+      out += BASE32[(buffer >>> (bits - 5)) & 31]
+      bits -= 5
+    }
+    buffer &= (1 << bits) - 1
+  }
+  if (bits > 0) out += BASE32[(buffer << (5 - bits)) & 31]
+  return out
+}
+
+/** CIDv1 (raw, sha2-256) of `bytes` */
+export function cidFor(bytes: Uint8Array): string {
+  const digest = createHash('sha256').update(bytes).digest()
+  const cid = new Uint8Array(PREFIX.length + digest.length)
+  cid.set(PREFIX)
+  cid.set(digest, PREFIX.length)
+  return `b${base32(cid)}`
+}
+
+/** Whether `value` has the shape of a CID produced by {@link cidFor} */
+export function isCid(value: string): boolean {
+  return value.length === CID_LENGTH && value.startsWith('bafkrei') && /^b[a-z2-7]+$/.test(value)
+}
@@ -0,0 +1,36 @@
+/**
+ * @module main
+ * @description Content store entry point: serve the store until SIGINT/SIGTERM.
+ *
+ * | Variable           | Default                  |
+ * |--------------------|--------------------------|
+ * | `PORT`             | `4100`                   |
+ * | `DATA_DIR`         | `content`                |
+ * | `MAX_UPLOAD_BYTES` | `10485760` (10 MiB)      |
+ */
+import { resolve } from 'node:path'
+import { createContentServer } from './server'
+import { ContentStore } from './store'
+
+function intEnv(name: string, fallback: number): number {
+  const raw = process.env[name]
+  if (raw === undefined || raw === '') return fallback
+  const value = Number(raw)
+  if (!Number.isSafeInteger(value) || value < 1) throw new Error(`${name} must be a positive integer, got "${raw}"`)
+  return value
+}
+
+const port = intEnv('PORT', 4100)
+const store = new ContentStore(resolve(process.env.DATA_DIR || 'content'))
+const server = createContentServer(store, intEnv('MAX_UPLOAD_BYTES', 10 * 1024 * 1024))
+
+console.log(`[store] files in ${store.dir}`)
+server.listen(port, () => console.log(`[store] listening on http://localhost:${port}`))
+
+function shutdown() {
+  console.log('[store] shutting down')
+  server.close()
+}
+
+process.once('SIGINT', shutdown)
+process.once('SIGTERM', shutdown)
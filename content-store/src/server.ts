@@ -0,0 +1,112 @@
+/**
+ * @module server
+ * @description HTTP front of the {@link ContentStore} (plain `node:http`).
+ *
+ * | Route              | Does |
+ * |--------------------|------|
+ * | `POST /add`        | Stores the request body under its CID; the `Content-Type` header is kept for serving. Returns `{ cid, size, uri }` with `uri = ipfs://<cid>` |
+ * | `GET /ipfs/:cid`   | Serves a stored file, like an IPFS gateway |
+ *
+ * Because reads use the gateway path, pointing the marketplace's
+ * `VITE_IPFS_GATEWAY` here resolves `ipfs://` token URIs against this store.
+ * Stored files never change, so they are served with an immutable cache
+ * header and the CID as ETag.
+ *
+ * Uploads are unauthenticated and keep the type they were sent with, so a
+ * stored `text/html` or `image/svg+xml` file must never run as a page on the
+ * store's origin: files are served with `nosniff` and a sandboxing CSP that
+ * allows nothing. Embedding them (`<img src>`, `fetch`) is unaffected.
+ */
+import { createServer } from 'node:http'
+import type { IncomingMessage, Server, ServerResponse } from 'node:http'
+import type { ContentStore } from './store'
+
+class HttpError extends Error {
+  readonly status: number
+
+  constructor(status: number, message: string) {
+    super(message)
+    this.status = status
+  }
+}
+
+const CORS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, HEAD, POST',
+  'Access-Control-Allow-Headers': 'Content-Type',
+}
+
+/** Served with every stored file — see the module doc */
+const CONTENT_SECURITY = {
+  'X-Content-Type-Options': 'nosniff',
+  'Content-Security-Policy': "default-src 'none'; sandbox",
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { ...CORS, 'Content-Type': 'application/json' })
+  res.end(JSON.stringify(body))
+}
+
+async function readBody(req: IncomingMessage, maxBytes: number): Promise<Buffer> {
+  const declared = Number(req.headers['content-length'])
+  if (declared > maxBytes) throw new HttpError(413, `Uploads are limited to ${maxBytes} bytes`)
+  const chunks: Buffer[] = []
+  let size = 0
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length
+    if (size > maxBytes) throw new HttpError(413, `Uploads are limited to ${maxBytes} bytes`)
+    chunks.push(chunk as Buffer)
+  }
+  return Buffer.concat(chunks)
+}
+
+export function createContentServer(store: ContentStore, maxUploadBytes: number): Server {
+  async function handle(req: IncomingMessage, res: ServerResponse) {
+    const url = new URL(req.url ?? '/', 'http://localhost')
+    const parts = url.pathname.split('/').filter(Boolean)
+
+    if (parts.length === 1 && parts[0] === 'add') {
+      if (req.method !== 'POST') throw new HttpError(405, 'Use POST to add content')
+      const bytes = await readBody(req, maxUploadBytes)
+      if (bytes.length === 0) throw new HttpError(400, 'Request body is empty')
+      const type = req.headers['content-type']?.split(';')[0].trim() || undefined
+      const cid = store.put(bytes, type)
+      console.log(`[store] ${cid} (${bytes.length} bytes, ${type ?? 'untyped'})`)
+      sendJson(res, 200, { cid, size: bytes.length, uri: `ipfs://${cid}` })
+      return
+    }
+
+    if (parts.length === 2 && parts[0] === 'ipfs') {
+      if (req.method !== 'GET' && req.method !== 'HEAD') throw new HttpError(405, 'Use GET to read content')
+      const file = store.get(parts[1])
+      if (!file) throw new HttpError(404, `No content stored under ${parts[1]}`)
+      res.writeHead(200, {
+        ...CORS,
+        ...CONTENT_SECURITY,
+        'Content-Type': file.type,
+        'Content-Length': file.bytes.length,
+        'Cache-Control': 'public, max-age=31536000, immutable',
+        ETag: `"${file.cid}"`,
+      })
+      res.end(req.method === 'HEAD' ? undefined : file.bytes)
+      return
+    }
+
+    throw new HttpError(404, `No route for ${url.pathname}`)
+  }
+
+  return createServer((req, res) => {
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, CORS)
+      res.end()
+      return
+    }
+    handle(req, res).catch(error => {
+      if (error instanceof HttpError) sendJson(res, error.status, { error: error.message })
+      else {
+        console.error('[store]', error)
+        sendJson(res, 500, { error: 'Internal error' })
+      }
+    })
+  })
+}
@@ -0,0 +1,51 @@
+/**
+ * @module store
+ * @description Files on disk, named by their CID.
+ *
+ * `<dir>/<cid>` holds the bytes and `<dir>/<cid>.type` the content type they
+ * were uploaded with (the raw codec doesn't record one). Writes go through a
+ * temporary file and a rename, so a crash never leaves a partial file under
+ * a CID. Storing the same bytes twice is a no-op.
+ */
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { cidFor, isCid } from './cid'
+
+export interface StoredFile {
+  cid: string
+  type: string
+  bytes: Buffer
+}
+
+const DEFAULT_TYPE = 'application/octet-stream'
+
+export class ContentStore {
+  readonly dir: string
+
+  constructor(dir: string) {
+    this.dir = dir
+    mkdirSync(dir, { recursive: true })
+  }
+
+  /** Store `bytes`, returning their CID */
+  put(bytes: Uint8Array, type = DEFAULT_TYPE): string {
+    const cid = cidFor(bytes)
+    const path = join(this.dir, cid)
+    if (!existsSync(path)) {
+      const tmp = `${path}.${process.pid}.tmp`
+      writeFileSync(tmp, bytes)
+      writeFileSync(`${path}.type`, type)
+      renameSync(tmp, path)
+    }
+    return cid
+  }
+
+  /** The file stored under `cid`, if any */
+  get(cid: string): StoredFile | undefined {
+    if (!isCid(cid)) return undefined
+    const path = join(this.dir, cid)
+    if (!existsSync(path)) return undefined
+    const type = existsSync(`${path}.type`) ? readFileSync(`${path}.type`, 'utf8') : DEFAULT_TYPE
+    return { cid, type, bytes: readFileSync(path) }
+  }
+}
@@ -1,20 +1,27 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
-import { useAccount, useConnect, useDisconnect, useWriteContract } from 'wagmi';
+import { useAccount, useConnect, useDisconnect, useSwitchChain, useWriteContract } from 'wagmi';
 import { injected } from 'wagmi/connectors';
-import { createPublicClient, http, formatEther, parseEther, maxUint256 } from 'viem';
+import { BaseError, createPublicClient, http, formatEther, parseEther, maxUint256 } from 'viem';
 import {
-  WHIRLPOOL_ADDRESS, WAVES_ADDRESS, WETH_ADDRESS, SURFSWAP_ADDRESS, ROUTER_ADDRESS,
   WHIRLPOOL_ABI, WAVES_ABI, CARD_TOKEN_ABI, WETH_ABI, SURFSWAP_ABI, ROUTER_ABI,
-  TEST_ACCOUNTS,
-} from './contracts';
-import { anvilChain } from './wagmi-config';
+  TEST_ACCOUNTS, DEFAULT_SLIPPAGE_BPS, minAmountOut, quoteSwap,
+} from '@whirlpool/sdk';
+import type { SwapAsset, SwapPools } from '@whirlpool/sdk';
+import { activeNetwork, chainRegistry, WHIRLPOOL_ADDRESS, WAVES_ADDRESS, WETH_ADDRESS, SURFSWAP_ADDRESS, ROUTER_ADDRESS } from './deployment';
+import { CardLoader } from './card-loader';
+import type { CardState } from './card-loader';
 import './App.css';
 
+const RPC_URL = activeNetwork.chain.rpcUrls.default.http[0];
+
+// JSON-RPC batching folds the loader's parallel multicall chunks into one request
 const publicClient = createPublicClient({
-  chain: anvilChain as any,
-  transport: http('http://192.168.0.82:8545'),
+  chain: activeNetwork.chain,
+  transport: http(RPC_URL, { batch: true }),
 });
 
+const cardLoader = new CardLoader(publicClient);
+
 type LogType = 'success' | 'error' | 'warn' | 'info' | 'ownership' | 'system' | 'default';
 type LogFilter = 'all' | 'transfers' | 'ownership' | 'errors';
 
@@ -27,23 +34,11 @@ interface LogEntry {
   category: 'transfer' | 'ownership' | 'error' | 'system' | 'other';
 }
 
-interface CardState {
-  id: number;
-  name: string;
-  symbol: string;
-  address: `0x${string}`;
-  owner: string;
-  price: string;
-  wavesReserve: string;
-  cardReserve: string;
-  myStake: string;
-  myBalance: string;
-}
-
 let logCounter = 0;
 
 function App() {
-  const { address, isConnected } = useAccount();
+  const { address, isConnected, chainId: walletChainId } = useAccount();
+  const { switchChain, isPending: switchingChain } = useSwitchChain();
   const { connect } = useConnect();
   const { disconnect } = useDisconnect();
   const { writeContractAsync } = useWriteContract();
@@ -65,6 +60,7 @@ function App() {
   const [swapIn, setSwapIn] = useState('waves');
   const [swapOut, setSwapOut] = useState('');
   const [swapAmount, setSwapAmount] = useState('');
+  const [swapSlippage, setSwapSlippage] = useState(String(DEFAULT_SLIPPAGE_BPS / 100));
   const [swapSource, setSwapSource] = useState<'wallet' | 'staked'>('wallet');
   const [swapInBalance, setSwapInBalance] = useState({ wallet: '0', staked: '0' });
   const [stakeCardId, setStakeCardId] = useState(0);
@@ -99,75 +95,26 @@ function App() {
   }, [logs, scrollLocked]);
 
   /**
-   * Load all card data from on-chain contracts.
-   * Queries Router.totalCards() then iterates to fetch each card's token address,
-   * name, symbol, owner, price, reserves, and user-specific stake/balance.
-   * Also fetches user's WAVES, WETH, WETH stake, and pending global rewards.
-   * Called on mount, every 5s via interval, and after every transaction.
+   * Sync card data and the user's balances from chain.
+   * The first call (and any call after the wallet changes) reads every card;
+   * later calls only re-read cards touched by events since the last sync —
+   * see {@link CardLoader}. Called on mount, every 5s via interval, and after
+   * every transaction.
    */
   const loadCards = useCallback(async () => {
     try {
-      const totalBig = await publicClient.readContract({
-        address: ROUTER_ADDRESS, abi: ROUTER_ABI, functionName: 'totalCards',
-      }) as bigint;
-      const total = Number(totalBig);
-      const cardData: CardState[] = [];
-
-      for (let i = 0; i < total; i++) {
-        try {
-          const tokenAddr = await publicClient.readContract({
-            address: ROUTER_ADDRESS, abi: ROUTER_ABI, functionName: 'cardToken', args: [BigInt(i)],
-          }) as `0x${string}`;
-
-          const [name, symbol, owner, price, reserves] = await Promise.all([
-            publicClient.readContract({ address: tokenAddr, abi: CARD_TOKEN_ABI, functionName: 'name' }),
-            publicClient.readContract({ address: tokenAddr, abi: CARD_TOKEN_ABI, functionName: 'symbol' }),
-            publicClient.readContract({ address: WHIRLPOOL_ADDRESS, abi: WHIRLPOOL_ABI, functionName: 'ownerOfCard', args: [BigInt(i)] }),
-            publicClient.readContract({ address: SURFSWAP_ADDRESS, abi: SURFSWAP_ABI, functionName: 'getPrice', args: [BigInt(i)] }),
-            publicClient.readContract({ address: SURFSWAP_ADDRESS, abi: SURFSWAP_ABI, functionName: 'getReserves', args: [BigInt(i)] }),
-          ]);
-
-          let myStake = '0';
-          let myBalance = '0';
-          if (address) {
-            const [s, b] = await Promise.all([
-              publicClient.readContract({ address: WHIRLPOOL_ADDRESS, abi: WHIRLPOOL_ABI, functionName: 'stakeOf', args: [BigInt(i), address] }),
-              publicClient.readContract({ address: tokenAddr, abi: CARD_TOKEN_ABI, functionName: 'balanceOf', args: [address] }),
-            ]);
-            myStake = formatEther(s as bigint);
-            myBalance = formatEther(b as bigint);
-          }
-
-          const [wavesR, cardsR] = reserves as [bigint, bigint];
-          cardData.push({
-            id: i, name: name as string, symbol: symbol as string, address: tokenAddr,
-            owner: owner as string,
-            price: formatEther(price as bigint),
-            wavesReserve: formatEther(wavesR),
-            cardReserve: formatEther(cardsR),
-            myStake, myBalance,
-          });
-        } catch (e: any) {
-          console.error(`Error loading card ${i}:`, e);
-          addLog(`⚠ Error loading card ${i}: ${e.shortMessage || e.message}`, 'error');
-        }
+      const { cards: cardData, balances, failures } = await cardLoader.refresh(address);
+      for (const { cardId, error } of failures) {
+        console.error(`Error loading card ${cardId}:`, error);
+        addLog(`⚠ Error loading card ${cardId}: ${error instanceof BaseError ? error.shortMessage : error.message}`, 'error');
       }
       setCards(cardData);
 
-      // Load user balances
-      if (address) {
-        try {
-          const [wb, wethb, ws, pg] = await Promise.all([
-            publicClient.readContract({ address: WAVES_ADDRESS, abi: WAVES_ABI, functionName: 'balanceOf', args: [address] }),
-            publicClient.readContract({ address: WETH_ADDRESS, abi: WETH_ABI, functionName: 'balanceOf', args: [address] }),
-            publicClient.readContract({ address: WHIRLPOOL_ADDRESS, abi: WHIRLPOOL_ABI, functionName: 'userWethStake', args: [address] }),
-            publicClient.readContract({ address: WHIRLPOOL_ADDRESS, abi: WHIRLPOOL_ABI, functionName: 'pendingGlobalRewards', args: [address] }),
-          ]);
-          setWavesBalance(formatEther(wb as bigint));
-          setWethBalance(formatEther(wethb as bigint));
-          setMyWethStake(formatEther(ws as bigint));
-          setPendingGlobal(formatEther(pg as bigint));
-        } catch (_) {}
+      if (balances) {
+        setWavesBalance(balances.waves);
+        setWethBalance(balances.weth);
+        setMyWethStake(balances.wethStake);
+        setPendingGlobal(balances.pendingGlobal);
       }
     } catch (e: any) {
       console.error('Error loading cards:', e);
@@ -360,12 +307,35 @@ function App() {
     return cards[idx]?.address || ('0x0' as `0x${string}`);
   };
 
+  /** SurfSwap asset for a UI token key */
+  const toSwapAsset = (key: string): SwapAsset => {
+    if (key === 'waves') return { kind: 'waves' };
+    if (key === 'weth') return { kind: 'weth' };
+    return { kind: 'card', cardId: parseInt(key.replace('card-', '')) };
+  };
+
+  /** Quote a swapExact against the current reserves of the pools it passes through */
+  const quoteTerminalSwap = async (from: SwapAsset, to: SwapAsset, amountIn: bigint) => {
+    const pools: SwapPools = { cards: {} };
+    await Promise.all([from, to].map(async asset => {
+      if (asset.kind === 'weth') {
+        pools.weth = await publicClient.readContract({ address: SURFSWAP_ADDRESS, abi: SURFSWAP_ABI, functionName: 'getWethReserves' });
+      } else if (asset.kind === 'card') {
+        pools.cards[asset.cardId] = await publicClient.readContract({
+          address: SURFSWAP_ADDRESS, abi: SURFSWAP_ABI, functionName: 'getReserves', args: [BigInt(asset.cardId)],
+        });
+      }
+    }));
+    return quoteSwap(from, to, amountIn, pools);
+  };
+
   /**
    * Execute a swap. Routes to either:
    * - WhirlpoolStaking.swapStake() — when both in/out are cards AND source is "staked"
    *   (atomic, no token transfers, pure reserve math, ~280K gas)
    * - SurfSwap.swapExact() — for all other routes (wallet tokens, WAVES, WETH)
-   *   (standard AMM swap with token transfers)
+   *   (standard AMM swap with token transfers), quoted first so `minAmountOut`
+   *   is the quote less the slippage tolerance
    *
    * For swapStake, records pre/post state to show ownership changes in the log.
    */
@@ -427,11 +397,14 @@ function App() {
         const tokenIn = resolveToken(swapIn);
         const tokenOut = resolveToken(swapOut);
         
+        const quote = await quoteTerminalSwap(toSwapAsset(swapIn), toSwapAsset(swapOut), amt);
+        const minOut = minAmountOut(quote.amountOut, Math.round(Number(swapSlippage) * 100));
         addLog(`Swapping ${swapAmount} ${swapIn} → ${swapOut}...`, 'info');
+        addLog(`  Quote ${formatEther(quote.amountOut)} · impact ${(quote.priceImpactBps / 100).toFixed(2)}% · min ${formatEther(minOut)} (${swapSlippage}% slippage)`, 'info');
         await ensureApproval(tokenIn, SURFSWAP_ADDRESS, amt);
         const hash = await writeContractAsync({
           address: SURFSWAP_ADDRESS, abi: SURFSWAP_ABI, functionName: 'swapExact',
-          args: [tokenIn, tokenOut, amt, BigInt(0)],
+          args: [tokenIn, tokenOut, amt, minOut],
         });
         const receipt = await publicClient.waitForTransactionReceipt({ hash });
         addLog(`✓ Swap confirmed · block #${receipt.blockNumber} · gas ${receipt.gasUsed}`, 'success');
@@ -614,7 +587,7 @@ function App() {
     addLog(`Whirlpool: ${WHIRLPOOL_ADDRESS}`, 'system', { category: 'system' });
     addLog(`WAVES: ${WAVES_ADDRESS}`, 'system', { category: 'system' });
     addLog(`WETH: ${WETH_ADDRESS}`, 'system', { category: 'system' });
-    addLog(`RPC: http://192.168.0.82:8545 · Chain 31337`, 'system', { category: 'system' });
+    addLog(`RPC: ${RPC_URL} · ${activeNetwork.chain.name} · Chain ${activeNetwork.chain.id}`, 'system', { category: 'system' });
     addLog('Watching for on-chain events...', 'info', { category: 'system' });
     loadCards();
     const interval = setInterval(loadCards, 5000);
@@ -650,7 +623,7 @@ function App() {
       <div className="topbar">
         <div className="topbar-left">
           <h1>ERC-1142 · Whirlpool AMM</h1>
-          <span className="chain-badge">● ANVIL 31337</span>
+          <span className="chain-badge">● {activeNetwork.name.toUpperCase()} {activeNetwork.chain.id}</span>
         </div>
         <div className="topbar-right">
           {isConnected ? (<>
@@ -666,6 +639,18 @@ function App() {
         </div>
       </div>
 
+      {isConnected && walletChainId !== undefined && walletChainId !== activeNetwork.chain.id && (
+        <div className="chain-mismatch">
+          <span>
+            ⚠ Wallet is on {chainRegistry.byChainId(walletChainId)?.chain.name ?? `chain ${walletChainId}`} ·
+            this terminal reads {activeNetwork.chain.name} ({activeNetwork.chain.id})
+          </span>
+          <button className="btn btn-sm" disabled={switchingChain} onClick={() => switchChain({ chainId: activeNetwork.chain.id })}>
+            {switchingChain ? 'Switching…' : `Switch to ${activeNetwork.chain.name}`}
+          </button>
+        </div>
+      )}
+
       {/* ─── Upper 3/4: Interactive UI ─── */}
       <div className="ui-area">
         {/* Card Grid */}
@@ -911,6 +896,20 @@ function App() {
                         setSwapAmount(bal);
                       }}>All</button>
                     </div>
+                    {/* Slippage tolerance (swapExact only; swapStake has no minimum) */}
+                    {!(swapIn.startsWith('card-') && swapOut.startsWith('card-') && swapSource === 'staked') && (
+                      <div style={{ marginTop: 8, display: 'flex', gap: '0.5rem', alignItems: 'center', fontSize: '0.85rem' }}>
+                        <span style={{ opacity: 0.7 }}>Slippage %</span>
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.1"
+                          value={swapSlippage}
+                          onChange={e => setSwapSlippage(e.target.value)}
+                          style={{ width: 80 }}
+                        />
+                      </div>
+                    )}
                     
                     {/* Atomic swap note */}
                     {swapIn.startsWith('card-') && swapOut.startsWith('card-') && swapSource === 'staked' && (
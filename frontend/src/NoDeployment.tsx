@@ -0,0 +1,20 @@
+import { activeNetwork } from './deployment';
+import './App.css';
+
+/** Shown instead of the terminal when the active network has no usable deployment (see `deployment.ts`) */
+export default function NoDeployment({ error }: { error: string }) {
+  return (
+    <div className="app-root">
+      <div className="topbar">
+        <div className="topbar-left">
+          <h1>ERC-1142 · Whirlpool AMM</h1>
+          <span className="chain-badge">● {activeNetwork.name.toUpperCase()} {activeNetwork.chain.id}</span>
+        </div>
+      </div>
+      <div className="no-deployment">
+        <p className="no-deployment-title">⚠ No usable Whirlpool deployment for chain {activeNetwork.chain.id}</p>
+        <pre className="no-deployment-error">{error}</pre>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,298 @@
+import { formatEther, parseAbiItem } from 'viem';
+import type { Address, ContractFunctionParameters, MulticallResults, PublicClient } from 'viem';
+import { WHIRLPOOL_ABI, WAVES_ABI, CARD_TOKEN_ABI, WETH_ABI, SURFSWAP_ABI, ROUTER_ABI } from '@whirlpool/sdk';
+import { deployment, WHIRLPOOL_ADDRESS, WAVES_ADDRESS, WETH_ADDRESS, SURFSWAP_ADDRESS, ROUTER_ADDRESS } from './deployment';
+
+export interface CardState {
+  id: number;
+  name: string;
+  symbol: string;
+  address: Address;
+  owner: string;
+  price: string;
+  wavesReserve: string;
+  cardReserve: string;
+  myStake: string;
+  myBalance: string;
+}
+
+export interface AccountBalances {
+  waves: string;
+  weth: string;
+  wethStake: string;
+  pendingGlobal: string;
+}
+
+export interface CardLoadResult {
+  /** Every known card, ordered by ID */
+  cards: CardState[];
+  /** Present when an account was given */
+  balances?: AccountBalances;
+  /** IDs re-read in this pass (all of them on a full load) */
+  refreshed: number[];
+  failures: { cardId: number; error: Error }[];
+}
+
+/** Calldata bytes per Multicall3 `aggregate3` — ~600 view calls, well under Anvil's gas cap */
+const MULTICALL_BATCH_BYTES = 64 * 1024;
+
+/** Events that change a card's owner, price, reserves or stakes */
+const CARD_EVENTS = [
+  parseAbiItem('event CardCreated(uint256 indexed cardId, address indexed minter, address cardToken, uint256 wavesSeeded)'),
+  parseAbiItem('event PoolInitialized(uint256 indexed cardId, address indexed token, uint256 wavesAmount, uint256 cardAmount)'),
+  parseAbiItem('event Swap(address indexed tokenIn, address indexed tokenOut, address indexed user, uint256 amountIn, uint256 amountOut)'),
+  parseAbiItem('event Staked(uint256 indexed cardId, address indexed user, uint256 amount)'),
+  parseAbiItem('event Unstaked(uint256 indexed cardId, address indexed user, uint256 amount)'),
+  parseAbiItem('event OwnerChanged(uint256 indexed cardId, address indexed previousOwner, address indexed newOwner)'),
+] as const;
+
+const TRANSFER_EVENT = parseAbiItem('event Transfer(address indexed from, address indexed to, uint256 value)');
+
+/** One card read inside the round-2 batch */
+type CardField = 'name' | 'symbol' | 'owner' | 'price' | 'reserves' | 'stake' | 'balance';
+
+/**
+ * Batched, incremental card loader for the terminal.
+ *
+ * A full load costs three round-trips however many cards exist: `totalCards`,
+ * one multicall for the card token addresses, one multicall for every card's
+ * name/symbol/owner/price/reserves (plus the account's stake and balance).
+ * Names, symbols and token addresses never change, so they are read once.
+ *
+ * After that, {@link CardLoader.refresh} reads the logs emitted since the
+ * last pass and only re-reads the cards those logs touched: Router
+ * `CardCreated`, SurfSwap `PoolInitialized`/`Swap`, CardStaking
+ * `Staked`/`Unstaked`/`OwnerChanged`, and card-token `Transfer`s to or from
+ * the account. With no new blocks, a refresh is a single `eth_blockNumber`.
+ */
+export class CardLoader {
+  private readonly client: PublicClient;
+  private cards = new Map<number, CardState>();
+  private cardIdByToken = new Map<string, number>();
+  /** Cards whose last read failed — retried on every refresh */
+  private failed = new Set<number>();
+  private account: Address | undefined;
+  private balances: AccountBalances | undefined;
+  /** Last block whose logs have been applied; undefined until the first full load */
+  private syncedBlock: bigint | undefined;
+  /** Passes run one at a time — the poll and post-transaction reloads overlap */
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(client: PublicClient) {
+    this.client = client;
+  }
+
+  /**
+   * Read every card from scratch. Used on startup and whenever the account
+   * changes, since per-account stakes and balances are part of each card.
+   */
+  loadAll(account: Address | undefined): Promise<CardLoadResult> {
+    return this.enqueue(() => this.fullLoad(account));
+  }
+
+  /**
+   * Apply everything that happened since the last pass. Falls back to a full
+   * load if nothing has been loaded yet or the account changed.
+   */
+  refresh(account: Address | undefined): Promise<CardLoadResult> {
+    return this.enqueue(() => this.incrementalLoad(account));
+  }
+
+  private enqueue(pass: () => Promise<CardLoadResult>): Promise<CardLoadResult> {
+    const next = this.queue.then(pass, pass);
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+
+  private async fullLoad(account: Address | undefined): Promise<CardLoadResult> {
+    const head = await this.client.getBlockNumber();
+    const total = Number(await this.client.readContract({
+      address: ROUTER_ADDRESS, abi: ROUTER_ABI, functionName: 'totalCards', blockNumber: head,
+    }));
+
+    this.cards.clear();
+    this.cardIdByToken.clear();
+    this.failed.clear();
+    this.account = account;
+    this.balances = undefined;
+
+    const ids = Array.from({ length: total }, (_, i) => i);
+    const failures = await this.readCards(ids, head);
+    this.syncedBlock = head;
+    return this.result(ids, failures);
+  }
+
+  private async incrementalLoad(account: Address | undefined): Promise<CardLoadResult> {
+    if (this.syncedBlock === undefined || account !== this.account) return this.fullLoad(account);
+
+    const head = await this.client.getBlockNumber();
+    // Anvil restarted (or reorged below our sync point): nothing cached is trustworthy
+    if (head < this.syncedBlock) return this.fullLoad(account);
+    if (head === this.syncedBlock && this.failed.size === 0) return this.result([], []);
+
+    const touched = head > this.syncedBlock ? await this.touchedCards(this.syncedBlock + 1n, head) : new Set<number>();
+    const ids = [...new Set([...touched, ...this.failed])].sort((a, b) => a - b);
+    const failures = await this.readCards(ids, head);
+    this.syncedBlock = head;
+    return this.result(ids, failures);
+  }
+
+  /** Card IDs affected by logs in `[fromBlock, toBlock]` */
+  private async touchedCards(fromBlock: bigint, toBlock: bigint): Promise<Set<number>> {
+    const account = this.account;
+    // Only card token transfers matter; new cards show up through CardCreated
+    const cardTokens = [...this.cards.values()].map(card => card.address);
+    const watchTransfers = !!account && cardTokens.length > 0;
+    const [cardLogs, sent, received] = await Promise.all([
+      this.client.getLogs({
+        address: [ROUTER_ADDRESS, SURFSWAP_ADDRESS, WHIRLPOOL_ADDRESS],
+        events: CARD_EVENTS, fromBlock, toBlock,
+      }),
+      watchTransfers ? this.client.getLogs({ address: cardTokens, event: TRANSFER_EVENT, args: { from: account }, fromBlock, toBlock }) : [],
+      watchTransfers ? this.client.getLogs({ address: cardTokens, event: TRANSFER_EVENT, args: { to: account }, fromBlock, toBlock }) : [],
+    ]);
+
+    const touched = new Set<number>();
+    const byToken = (token: string | undefined) => {
+      const id = token ? this.cardIdByToken.get(token.toLowerCase()) : undefined;
+      if (id !== undefined) touched.add(id);
+    };
+
+    for (const log of cardLogs) {
+      if (log.eventName === 'Swap') {
+        byToken(log.args.tokenIn);
+        byToken(log.args.tokenOut);
+      } else if (log.args.cardId !== undefined) {
+        touched.add(Number(log.args.cardId));
+      }
+    }
+    for (const log of [...sent, ...received]) byToken(log.address);
+    return touched;
+  }
+
+  /**
+   * Read the given cards (token addresses for new ones first) plus the
+   * account's balances, all pinned to `blockNumber`. Returns per-card failures;
+   * cards that fail keep their previous state.
+   */
+  private async readCards(ids: number[], blockNumber: bigint): Promise<CardLoadResult['failures']> {
+    const failures: CardLoadResult['failures'] = [];
+    const multicall = (contracts: ContractFunctionParameters[]): Promise<MulticallResults<ContractFunctionParameters[]>> => this.client.multicall({
+      contracts,
+      multicallAddress: deployment.addresses.multicall3,
+      batchSize: MULTICALL_BATCH_BYTES,
+      blockNumber,
+    });
+
+    // Round 1: token addresses for cards we have never seen
+    const fresh = ids.filter(id => !this.cards.has(id));
+    const tokens = new Map<number, Address>();
+    for (const id of ids) {
+      const known = this.cards.get(id);
+      if (known) tokens.set(id, known.address);
+    }
+    if (fresh.length > 0) {
+      const results = await multicall(fresh.map((id): ContractFunctionParameters => ({
+        address: ROUTER_ADDRESS, abi: ROUTER_ABI, functionName: 'cardToken', args: [BigInt(id)],
+      })));
+      results.forEach((r, i) => {
+        if (r.status === 'success') tokens.set(fresh[i], r.result as Address);
+        else failures.push({ cardId: fresh[i], error: r.error });
+      });
+    }
+
+    // Round 2: per-card state (+ static fields for new cards) and account balances in one batch
+    const account = this.account;
+    const plan: { id: number; fields: CardField[]; start: number }[] = [];
+    const contracts: ContractFunctionParameters[] = [];
+    for (const [id, token] of tokens) {
+      const card = BigInt(id);
+      const fields: CardField[] = [];
+      const start = contracts.length;
+      if (!this.cards.has(id)) {
+        contracts.push(
+          { address: token, abi: CARD_TOKEN_ABI, functionName: 'name' },
+          { address: token, abi: CARD_TOKEN_ABI, functionName: 'symbol' },
+        );
+        fields.push('name', 'symbol');
+      }
+      contracts.push(
+        { address: WHIRLPOOL_ADDRESS, abi: WHIRLPOOL_ABI, functionName: 'ownerOfCard', args: [card] },
+        { address: SURFSWAP_ADDRESS, abi: SURFSWAP_ABI, functionName: 'getPrice', args: [card] },
+        { address: SURFSWAP_ADDRESS, abi: SURFSWAP_ABI, functionName: 'getReserves', args: [card] },
+      );
+      fields.push('owner', 'price', 'reserves');
+      if (account) {
+        contracts.push(
+          { address: WHIRLPOOL_ADDRESS, abi: WHIRLPOOL_ABI, functionName: 'stakeOf', args: [card, account] },
+          { address: token, abi: CARD_TOKEN_ABI, functionName: 'balanceOf', args: [account] },
+        );
+        fields.push('stake', 'balance');
+      }
+      plan.push({ id, fields, start });
+    }
+    const balanceStart = contracts.length;
+    if (account) {
+      contracts.push(
+        { address: WAVES_ADDRESS, abi: WAVES_ABI, functionName: 'balanceOf', args: [account] },
+        { address: WETH_ADDRESS, abi: WETH_ABI, functionName: 'balanceOf', args: [account] },
+        { address: WHIRLPOOL_ADDRESS, abi: WHIRLPOOL_ABI, functionName: 'userWethStake', args: [account] },
+        { address: WHIRLPOOL_ADDRESS, abi: WHIRLPOOL_ABI, functionName: 'pendingGlobalRewards', args: [account] },
+      );
+    }
+    if (contracts.length === 0) return this.track(ids, failures);
+
+    const results = await multicall(contracts);
+
+    for (const { id, fields, start } of plan) {
+      const slice = results.slice(start, start + fields.length);
+      const failed = slice.find(r => r.status === 'failure');
+      if (failed) {
+        failures.push({ cardId: id, error: failed.error });
+        continue;
+      }
+      const value = (field: CardField) => slice[fields.indexOf(field)].result;
+      const previous = this.cards.get(id);
+      const [wavesR, cardsR] = value('reserves') as readonly [bigint, bigint];
+      const token = tokens.get(id)!;
+      this.cards.set(id, {
+        id,
+        address: token,
+        name: previous?.name ?? (value('name') as string),
+        symbol: previous?.symbol ?? (value('symbol') as string),
+        owner: value('owner') as string,
+        price: formatEther(value('price') as bigint),
+        wavesReserve: formatEther(wavesR),
+        cardReserve: formatEther(cardsR),
+        myStake: account ? formatEther(value('stake') as bigint) : '0',
+        myBalance: account ? formatEther(value('balance') as bigint) : '0',
+      });
+      this.cardIdByToken.set(token.toLowerCase(), id);
+    }
+
+    if (account) {
+      const balances = results.slice(balanceStart);
+      if (balances.every(r => r.status === 'success')) {
+        const [waves, weth, wethStake, pendingGlobal] = balances.map(r => formatEther(r.result as bigint));
+        this.balances = { waves, weth, wethStake, pendingGlobal };
+      }
+    }
+    return this.track(ids, failures);
+  }
+
+  /** Remember which of `ids` failed so the next refresh retries them */
+  private track(ids: number[], failures: CardLoadResult['failures']): CardLoadResult['failures'] {
+    for (const id of ids) this.failed.delete(id);
+    for (const { cardId } of failures) this.failed.add(cardId);
+    return failures;
+  }
+
+  private result(refreshed: number[], failures: CardLoadResult['failures']): CardLoadResult {
+    return {
+      cards: [...this.cards.values()].sort((a, b) => a.id - b.id),
+      balances: this.balances,
+      refreshed,
+      failures,
+    };
+  }
+}
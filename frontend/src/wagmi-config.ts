@@ -1,25 +1,14 @@
 import { http, createConfig } from 'wagmi';
 import { injected } from 'wagmi/connectors';
+import type { WhirlpoolChain } from '@whirlpool/sdk';
+import { chainRegistry } from './deployment';
 
-// Anvil local testnet as custom chain
-export const anvilChain = {
-  id: 31337,
-  name: 'Anvil Local',
-  nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
-  rpcUrls: {
-    default: { http: ['http://192.168.0.82:8545'] },
-  },
-  blockExplorers: {
-    default: { name: 'Local', url: 'http://localhost:8545' },
-  },
-} as const;
+const chains = chainRegistry.networks.map(n => n.chain) as [WhirlpoolChain, ...WhirlpoolChain[]];
 
 export const config = createConfig({
-  chains: [anvilChain],
+  chains,
   connectors: [
     injected(), // Rabby, MetaMask, etc.
   ],
-  transports: {
-    [anvilChain.id]: http('http://192.168.0.82:8545'),
-  },
+  transports: Object.fromEntries(chains.map(chain => [chain.id, http(chain.rpcUrls.default.http[0])])),
 });
@@ -0,0 +1,165 @@
+/**
+ * @module api
+ * @description Read-only JSON API over the indexed events (plain `node:http`).
+ *
+ * | Route                                 | Returns |
+ * |---------------------------------------|---------|
+ * | `GET /status`                         | Chain, head and indexed block, reorg count |
+ * | `GET /cards`                          | Every created card with owner and swap count |
+ * | `GET /cards/:id`                      | One card |
+ * | `GET /cards/:id/activity`             | Events touching the card, newest first |
+ * | `GET /cards/:id/prices`               | Price points (reserves after each change), oldest first |
+ * | `GET /cards/:id/candles`              | OHLC candles of the card's WAVES price |
+ * | `GET /accounts/:address/activity`     | Events involving the account, newest first |
+ * | `GET /activity`                       | All events, newest first |
+ * | `GET /leaderboard/owners`             | Accounts by cards currently owned |
+ * | `GET /leaderboard/traders`            | Accounts by swap count |
+ *
+ * Activity routes take `?limit=` (default 50, max 500), `?event=<EventName>`
+ * and `?before=<id>` (the last `id` of the previous page). Leaderboards take
+ * `?limit=` (default 20). Amounts are decimal strings in wei. Reward claims
+ * have no activity: the staking contracts pay them out without an event.
+ *
+ * Price routes take `?from=`/`?to=` in unix seconds (`to` defaults to the last
+ * indexed block). Candles also take `?interval=` (one of
+ * {@link CANDLE_INTERVALS}, default `1h`) and `?limit=` candles (default 200,
+ * max 1000); at most `limit` buckets before `to` are returned.
+ */
+import { createServer } from 'node:http'
+import type { IncomingMessage, Server, ServerResponse } from 'node:http'
+import { isAddress } from 'viem'
+import { EVENT_NAMES } from './events'
+import type { EventName } from './events'
+import type { Indexer } from './indexer'
+import { buildCandles, CANDLE_INTERVALS } from './prices'
+import type { CandleInterval } from './prices'
+import type { ActivityQuery, IndexerStore } from './store'
+
+const MAX_LIMIT = 500
+const MAX_CANDLES = 1000
+
+class HttpError extends Error {
+  readonly status: number
+
+  constructor(status: number, message: string) {
+    super(message)
+    this.status = status
+  }
+}
+
+function intParam(params: URLSearchParams, name: string, fallback?: number): number | undefined {
+  const raw = params.get(name)
+  if (raw === null) return fallback
+  const value = Number(raw)
+  if (!Number.isSafeInteger(value) || value < 0) throw new HttpError(400, `${name} must be a non-negative integer`)
+  return value
+}
+
+function activityQuery(params: URLSearchParams): ActivityQuery {
+  const event = params.get('event') ?? undefined
+  if (event !== undefined && !(EVENT_NAMES as readonly string[]).includes(event)) {
+    throw new HttpError(400, `event must be one of ${EVENT_NAMES.join(', ')}`)
+  }
+  return {
+    event: event as EventName | undefined,
+    before: intParam(params, 'before'),
+    limit: Math.min(intParam(params, 'limit', 50)!, MAX_LIMIT),
+  }
+}
+
+function candleInterval(params: URLSearchParams): CandleInterval {
+  const interval = params.get('interval') ?? '1h'
+  if (!(interval in CANDLE_INTERVALS)) {
+    throw new HttpError(400, `interval must be one of ${Object.keys(CANDLE_INTERVALS).join(', ')}`)
+  }
+  return interval as CandleInterval
+}
+
+function send(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+  })
+  res.end(JSON.stringify(body, (_key, value) => (typeof value === 'bigint' ? value.toString() : value)))
+}
+
+export function createApi(store: IndexerStore, indexer: Indexer, chainId: number): Server {
+  function route(req: IncomingMessage): unknown {
+    if (req.method !== 'GET') throw new HttpError(405, 'Only GET is supported')
+    const url = new URL(req.url ?? '/', 'http://localhost')
+    const parts = url.pathname.split('/').filter(Boolean)
+    const params = url.searchParams
+
+    const cardId = (raw: string) => {
+      const id = Number(raw)
+      if (!Number.isSafeInteger(id) || id < 0) throw new HttpError(400, 'Card ID must be a non-negative integer')
+      return id
+    }
+
+    switch (parts[0]) {
+      case 'status':
+        return { chainId, ...indexer.status }
+
+      case 'cards': {
+        if (parts.length === 1) return store.cards()
+        const id = cardId(parts[1])
+        if (parts.length === 2) {
+          const card = store.card(id)
+          if (!card) throw new HttpError(404, `Card ${id} has not been indexed`)
+          return card
+        }
+        if (parts.length !== 3) break
+        if (parts[2] === 'activity') return store.cardActivity(id, activityQuery(params))
+        if (parts[2] === 'prices' || parts[2] === 'candles') {
+          const to = intParam(params, 'to', (store.lastTimestamp() ?? 0) + 1)!
+          if (parts[2] === 'prices') return store.pricePoints(id, intParam(params, 'from', 0)!, to)
+
+          const interval = candleInterval(params)
+          const seconds = CANDLE_INTERVALS[interval]
+          const limit = Math.min(intParam(params, 'limit', 200)!, MAX_CANDLES)
+          // Never span more than `limit` buckets, however early `from` is
+          const from = Math.max(intParam(params, 'from', 0)!, to - seconds * limit, 0)
+          const candles = buildCandles(store.pricePoints(id, from, to), seconds, from, to)
+          return { cardId: id, interval, candles: candles.slice(-limit) }
+        }
+        break
+      }
+
+      case 'accounts':
+        if (parts.length === 3 && parts[2] === 'activity') {
+          if (!isAddress(parts[1], { strict: false })) throw new HttpError(400, 'Invalid address')
+          return store.accountActivity(parts[1], activityQuery(params))
+        }
+        break
+
+      case 'activity':
+        if (parts.length === 1) return store.activity(activityQuery(params))
+        break
+
+      case 'leaderboard': {
+        const limit = Math.min(intParam(params, 'limit', 20)!, MAX_LIMIT)
+        if (parts[1] === 'owners') return store.ownerLeaderboard(limit)
+        if (parts[1] === 'traders') return store.traderLeaderboard(limit)
+        break
+      }
+    }
+    throw new HttpError(404, `No route for ${url.pathname}`)
+  }
+
+  return createServer((req, res) => {
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, { 'Access-Control-Allow-Origin': '*', 'Access-Control-Allow-Methods': 'GET' })
+      res.end()
+      return
+    }
+    try {
+      send(res, 200, route(req))
+    } catch (error) {
+      if (error instanceof HttpError) send(res, error.status, { error: error.message })
+      else {
+        console.error('[api]', error)
+        send(res, 500, { error: 'Internal error' })
+      }
+    }
+  })
+}
@@ -0,0 +1,69 @@
+/**
+ * @module config
+ * @description Indexer settings from environment variables, plus the deployment
+ * to follow (read from Forge's broadcast output, like the front-ends do).
+ *
+ * | Variable               | Default                  |
+ * |------------------------|--------------------------|
+ * | `RPC_URL`              | `http://127.0.0.1:8545`  |
+ * | `DB_PATH`              | `whirlpool.db`           |
+ * | `PORT`                 | `4000`                   |
+ * | `POLL_INTERVAL_MS`     | `1000`                   |
+ * | `BLOCK_RANGE`          | `2000` (blocks per `eth_getLogs`) |
+ * | `REORG_DEPTH`          | `64` (block hashes kept for reorg detection) |
+ * | `START_BLOCK`          | `0`                      |
+ * | `BROADCAST_DIR`        | `../broadcast`           |
+ */
+import { readdirSync, readFileSync, existsSync } from 'node:fs'
+import { join, resolve } from 'node:path'
+import { buildAddressBook, resolveDeployment } from '@whirlpool/sdk'
+import type { ForgeBroadcast, WhirlpoolDeployment } from '@whirlpool/sdk'
+
+export interface IndexerConfig {
+  rpcUrl: string
+  dbPath: string
+  port: number
+  pollIntervalMs: number
+  blockRange: bigint
+  reorgDepth: number
+  startBlock: bigint
+  broadcastDir: string
+}
+
+function intEnv(name: string, fallback: number, min = 1): number {
+  const raw = process.env[name]
+  if (raw === undefined || raw === '') return fallback
+  const value = Number(raw)
+  if (!Number.isSafeInteger(value) || value < min) throw new Error(`${name} must be an integer >= ${min}, got "${raw}"`)
+  return value
+}
+
+export function loadConfig(): IndexerConfig {
+  return {
+    rpcUrl: process.env.RPC_URL || 'http://127.0.0.1:8545',
+    dbPath: process.env.DB_PATH || 'whirlpool.db',
+    port: intEnv('PORT', 4000),
+    pollIntervalMs: intEnv('POLL_INTERVAL_MS', 1000),
+    blockRange: BigInt(intEnv('BLOCK_RANGE', 2000)),
+    reorgDepth: intEnv('REORG_DEPTH', 64),
+    startBlock: BigInt(intEnv('START_BLOCK', 0, 0)),
+    broadcastDir: resolve(process.env.BROADCAST_DIR || join(import.meta.dirname, '../../broadcast')),
+  }
+}
+
+/**
+ * Resolve the Whirlpool deployment for `chainId` from
+ * `<broadcastDir>/<Script>/<chainId>/run-latest.json`.
+ *
+ * @throws DeploymentError if no broadcast exists for the chain
+ */
+export function loadDeployment(broadcastDir: string, chainId: number): WhirlpoolDeployment {
+  const manifests: Record<string, ForgeBroadcast> = {}
+  if (existsSync(broadcastDir)) {
+    for (const script of readdirSync(broadcastDir)) {
+      const file = join(broadcastDir, script, String(chainId), 'run-latest.json')
+      if (existsSync(file)) manifests[`broadcast/${script}/${chainId}/run-latest.json`] = JSON.parse(readFileSync(file, 'utf8'))
+    }
+  }
+  return resolveDeployment(buildAddressBook(manifests), chainId)
+}
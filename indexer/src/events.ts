@@ -0,0 +1,89 @@
+/**
+ * @module events
+ * @description The Whirlpool events the indexer follows, and how each one maps
+ * onto cards and accounts.
+ */
+import { parseEventLogs } from 'viem'
+import type { Abi, AbiEvent, Address, Log } from 'viem'
+import { ROUTER_ABI, SURFSWAP_ABI, CARD_STAKING_ABI, WETH_POOL_ABI } from '@whirlpool/sdk'
+
+export const EVENT_NAMES = [
+  'CardCreated',
+  'PoolInitialized',
+  'Swap',
+  'Staked',
+  'Unstaked',
+  'OwnerChanged',
+  'WETHStaked',
+] as const
+
+export type EventName = typeof EVENT_NAMES[number]
+
+/** One event item per name, taken from the generated ABIs (first declaration wins) */
+export const TRACKED_EVENTS: AbiEvent[] = (() => {
+  const byName = new Map<string, AbiEvent>()
+  for (const abi of [ROUTER_ABI, SURFSWAP_ABI, CARD_STAKING_ABI, WETH_POOL_ABI] as readonly Abi[]) {
+    for (const item of abi) {
+      if (item.type === 'event' && (EVENT_NAMES as readonly string[]).includes(item.name) && !byName.has(item.name)) {
+        byName.set(item.name, item)
+      }
+    }
+  }
+  const missing = EVENT_NAMES.filter(name => !byName.has(name))
+  if (missing.length) throw new Error(`Generated ABIs are missing events: ${missing.join(', ')}`)
+  return [...byName.values()]
+})()
+
+/** A decoded log, ready to be stored */
+export interface DecodedEvent {
+  event: EventName
+  blockNumber: bigint
+  blockHash: `0x${string}`
+  txHash: `0x${string}`
+  logIndex: number
+  contract: Address
+  /** Event arguments with bigints as decimal strings */
+  args: Record<string, string>
+  /** Card IDs the event touches (Swap is filled in by {@link resolveSwapCards}) */
+  cardIds: number[]
+  /** Accounts involved, lower-cased */
+  accounts: string[]
+}
+
+/**
+ * Fill in `cardIds` for Swap events, which only carry token addresses. Tokens
+ * that are not card tokens (WAVES, WETH) resolve to nothing.
+ */
+export function resolveSwapCards(events: DecodedEvent[], resolveCard: (token: string) => number | undefined) {
+  for (const e of events) {
+    if (e.event !== 'Swap') continue
+    const ids = [e.args.tokenIn, e.args.tokenOut].map(resolveCard).filter((id): id is number => id !== undefined)
+    e.cardIds = [...new Set(ids)]
+  }
+}
+
+const str = (value: unknown) => (typeof value === 'bigint' ? value.toString() : String(value))
+
+/** Decode raw logs into {@link DecodedEvent}s; logs that match no tracked event are dropped. */
+export function decodeLogs(logs: Log[]): DecodedEvent[] {
+  return parseEventLogs({ abi: TRACKED_EVENTS, logs }).map(log => {
+    const args = log.args as Record<string, unknown>
+    const cardIds = args.cardId !== undefined ? [Number(args.cardId)] : []
+    const accounts = ['user', 'minter', 'previousOwner', 'newOwner']
+      .map(key => args[key])
+      .filter((a): a is string => typeof a === 'string')
+      .map(a => a.toLowerCase())
+
+    return {
+      event: log.eventName as EventName,
+      blockNumber: log.blockNumber,
+      blockHash: log.blockHash,
+      txHash: log.transactionHash,
+      logIndex: log.logIndex,
+      contract: log.address,
+      args: Object.fromEntries(Object.entries(args).map(([k, v]) => [k, str(v)])),
+      cardIds,
+      accounts: [...new Set(accounts)],
+    }
+  })
+}
@@ -0,0 +1,177 @@
+/**
+ * @module indexer
+ * @description Follows the chain head and writes Whirlpool events into the store.
+ *
+ * ## Loop
+ * 1. Check the last indexed block's stored hash against the chain. On a
+ *    mismatch, walk back through stored hashes to the newest block still on
+ *    the canonical chain and roll the store back to it.
+ * 2. Fetch logs for the next `blockRange` blocks from every Whirlpool
+ *    contract, decode them, read the pool reserves at every block that moved
+ *    a card's price (see {@link module:prices}), and commit it all with the
+ *    range's tip block in one transaction — a crash never leaves a
+ *    half-indexed range.
+ * 3. Repeat until caught up, then sleep `pollIntervalMs`.
+ *
+ * Anvil restarts (new genesis) are caught by {@link IndexerStore.bindChain}
+ * at startup, and mid-run by the head dropping below the indexed block.
+ */
+import type { Address, PublicClient } from 'viem'
+import { SURFSWAP_ABI } from '@whirlpool/sdk'
+import type { WhirlpoolDeployment } from '@whirlpool/sdk'
+import { decodeLogs, resolveSwapCards, TRACKED_EVENTS } from './events'
+import type { DecodedEvent } from './events'
+import { priceFromReserves, priceTouches } from './prices'
+import type { PricePoint } from './prices'
+import type { IndexerStore } from './store'
+
+export interface IndexerOptions {
+  blockRange: bigint
+  reorgDepth: number
+  startBlock: bigint
+  pollIntervalMs: number
+}
+
+export interface IndexerStatus {
+  headBlock: bigint | undefined
+  indexedBlock: bigint | undefined
+  /** Reorgs handled since startup */
+  reorgs: number
+  lastError: string | undefined
+}
+
+export class Indexer {
+  private readonly client: PublicClient
+  private readonly store: IndexerStore
+  private readonly options: IndexerOptions
+  private readonly addresses: Address[]
+  private readonly surfSwap: Address
+  private running = false
+  private wake: (() => void) | undefined
+  private readonly state: IndexerStatus = { headBlock: undefined, indexedBlock: undefined, reorgs: 0, lastError: undefined }
+
+  constructor(client: PublicClient, store: IndexerStore, deployment: WhirlpoolDeployment, options: IndexerOptions) {
+    this.client = client
+    this.store = store
+    this.options = options
+    const { router, surfSwap, cardStaking, wethPool, globalRewards } = deployment.addresses
+    this.addresses = [router, surfSwap, cardStaking, wethPool, globalRewards]
+    this.surfSwap = surfSwap
+    this.state.indexedBlock = store.lastIndexedBlock()
+  }
+
+  get status(): IndexerStatus {
+    return { ...this.state }
+  }
+
+  /** Run until {@link stop}; errors are logged and retried on the next poll. */
+  async run() {
+    this.running = true
+    while (this.running) {
+      let caughtUp = true
+      try {
+        caughtUp = await this.step()
+        this.state.lastError = undefined
+      } catch (error) {
+        this.state.lastError = error instanceof Error ? error.message : String(error)
+        console.error(`[indexer] ${this.state.lastError}`)
+      }
+      if (caughtUp && this.running) await this.sleep()
+    }
+  }
+
+  stop() {
+    this.running = false
+    this.wake?.()
+  }
+
+  /** Index one range. Returns true once the indexed block has reached the head. */
+  private async step(): Promise<boolean> {
+    const head = await this.client.getBlockNumber()
+    this.state.headBlock = head
+
+    let last = this.store.lastIndexedBlock()
+    if (last !== undefined) {
+      const ancestor = await this.findCommonAncestor(last, head)
+      if (ancestor !== last) {
+        this.state.reorgs++
+        console.warn(`[indexer] reorg: rolling back from block ${last} to ${ancestor ?? 'genesis'}`)
+        this.store.rollback(ancestor ?? -1)
+        last = ancestor
+      }
+    }
+
+    const from = last === undefined ? this.options.startBlock : last + 1n
+    if (from > head) return true
+    const to = from + this.options.blockRange - 1n < head ? from + this.options.blockRange - 1n : head
+
+    const logs = await this.client.getLogs({ address: this.addresses, events: TRACKED_EVENTS, fromBlock: from, toBlock: to })
+    const events = decodeLogs(logs)
+    const prices = await this.readPrices(events)
+
+    const numbers = [...new Set([...events.map(e => e.blockNumber), to])]
+    const blocks = await Promise.all(numbers.map(blockNumber => this.client.getBlock({ blockNumber })))
+    const hashes = new Map(blocks.map(b => [b.number, b.hash]))
+    // A log from a block we did not just fetch means the chain moved under us; retry the range
+    if (events.some(e => hashes.get(e.blockNumber) !== e.blockHash)) {
+      throw new Error(`block hashes changed while indexing ${from}–${to}, retrying`)
+    }
+
+    this.store.commitRange(
+      events,
+      prices,
+      blocks.map(b => ({ number: b.number, hash: b.hash, timestamp: b.timestamp })),
+      to,
+      this.options.reorgDepth,
+    )
+    this.state.indexedBlock = to
+    if (events.length) console.log(`[indexer] blocks ${from}–${to}: ${events.length} events`)
+    return to === head
+  }
+
+  /**
+   * Resolve Swap card IDs (cards created earlier in this range included), then
+   * read the reserves after every block that touched a pool.
+   */
+  private async readPrices(events: DecodedEvent[]): Promise<PricePoint[]> {
+    const created = new Map(
+      events.filter(e => e.event === 'CardCreated').map(e => [e.args.cardToken.toLowerCase(), Number(e.args.cardId)]),
+    )
+    const resolveCard = (token: string) => created.get(token.toLowerCase()) ?? this.store.cardIdForToken(token)
+    resolveSwapCards(events, resolveCard)
+
+    return Promise.all(priceTouches(events, resolveCard).map(async touch => {
+      const [wavesReserve, cardReserve] = await this.client.readContract({
+        address: this.surfSwap,
+        abi: SURFSWAP_ABI,
+        functionName: 'getReserves',
+        args: [BigInt(touch.cardId)],
+        blockNumber: touch.blockNumber,
+      })
+      return { ...touch, wavesReserve, cardReserve, price: priceFromReserves(wavesReserve, cardReserve) }
+    }))
+  }
+
+  /**
+   * Newest stored block (at or below `last`) whose hash still matches the
+   * chain, or undefined if none do and the index must restart from scratch.
+   */
+  private async findCommonAncestor(last: bigint, head: bigint): Promise<bigint | undefined> {
+    for (const stored of this.store.recentBlocks(last, this.options.reorgDepth)) {
+      if (stored.number > head) continue
+      const block = await this.client.getBlock({ blockNumber: stored.number }).catch(() => undefined)
+      if (block?.hash === stored.hash) return stored.number
+    }
+    return undefined
+  }
+
+  private sleep() {
+    return new Promise<void>(resolve => {
+      const timer = setTimeout(resolve, this.options.pollIntervalMs)
+      this.wake = () => {
+        clearTimeout(timer)
+        resolve()
+      }
+    })
+  }
+}
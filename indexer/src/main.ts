@@ -0,0 +1,40 @@
+/**
+ * @module main
+ * @description Indexer entry point: connect, resolve the deployment, then run
+ * the sync loop and the HTTP API until SIGINT/SIGTERM.
+ */
+import { createPublicClient, http } from 'viem'
+import { createApi } from './api'
+import { loadConfig, loadDeployment } from './config'
+import { Indexer } from './indexer'
+import { IndexerStore } from './store'
+
+const config = loadConfig()
+const client = createPublicClient({ transport: http(config.rpcUrl, { batch: true }) })
+
+const chainId = await client.getChainId()
+const genesis = await client.getBlock({ blockNumber: 0n })
+const deployment = loadDeployment(config.broadcastDir, chainId)
+
+const store = new IndexerStore(config.dbPath)
+store.bindChain(chainId, genesis.hash)
+
+const indexer = new Indexer(client, store, deployment, config)
+const api = createApi(store, indexer, chainId)
+
+console.log(`[indexer] RPC ${config.rpcUrl} (chain ${chainId}), deployment from ${deployment.script}`)
+console.log(`[indexer] database ${config.dbPath}, resuming after block ${store.lastIndexedBlock() ?? 'none'}`)
+api.listen(config.port, () => console.log(`[api] listening on http://localhost:${config.port}`))
+
+const done = indexer.run()
+
+async function shutdown() {
+  console.log('[indexer] shutting down')
+  indexer.stop()
+  api.close()
+  await done
+  store.close()
+}
+
+process.once('SIGINT', shutdown)
+process.once('SIGTERM', shutdown)
@@ -0,0 +1,158 @@
+/**
+ * @module prices
+ * @description Per-card WAVES price history and OHLC candles.
+ *
+ * A card's price only moves when its pool reserves do: `PoolInitialized`,
+ * `Swap` (WAVES↔CARD and CARD↔CARD, which moves both pools), `Staked` and
+ * `Unstaked` (LP stake adds/removes card reserve). For every block with such
+ * an event the indexer reads `SurfSwap.getReserves(cardId)` at that block and
+ * stores a {@link PricePoint} with the same formula as `SurfSwap.getPrice`:
+ * `wavesReserve * 1e18 / cardReserve`. Several events in one block collapse
+ * into one point holding the post-block reserves.
+ *
+ * Candles bucket those points by block timestamp. A candle opens at the
+ * previous candle's close (the price the bucket started at), so consecutive
+ * candles join up; buckets without trades are filled with flat candles.
+ */
+import type { DecodedEvent } from './events'
+import type { StoredPricePoint } from './store'
+
+/** Pool state after a block that touched it */
+export interface PricePoint {
+  cardId: number
+  blockNumber: bigint
+  wavesReserve: bigint
+  cardReserve: bigint
+  /** WAVES per whole card token, 18 decimals */
+  price: bigint
+  /** Card tokens swapped in or out of the pool during the block */
+  volume: bigint
+  /** Swaps touching the pool during the block */
+  trades: number
+}
+
+export interface Candle {
+  /** Bucket start, unix seconds */
+  time: number
+  open: string
+  high: string
+  low: string
+  close: string
+  /** Card tokens traded, 18 decimals */
+  volume: string
+  trades: number
+}
+
+/** Supported candle intervals, in seconds */
+export const CANDLE_INTERVALS = {
+  '1m': 60,
+  '5m': 300,
+  '15m': 900,
+  '1h': 3600,
+  '4h': 14_400,
+  '1d': 86_400,
+} as const
+
+export type CandleInterval = keyof typeof CANDLE_INTERVALS
+
+const PRICE_EVENTS = new Set(['PoolInitialized', 'Swap', 'Staked', 'Unstaked'])
+
+/** Same formula as `SurfSwap.getPrice`; zero for an empty pool */
+export function priceFromReserves(wavesReserve: bigint, cardReserve: bigint): bigint {
+  return cardReserve === 0n ? 0n : (wavesReserve * 10n ** 18n) / cardReserve
+}
+
+/**
+ * The (card, block) pairs whose reserves changed in `events`, with the swap
+ * volume and trade count each one saw. Reserves are filled in by the caller.
+ *
+ * @param resolveCard - Card ID for a token address (undefined for WAVES/WETH)
+ */
+export function priceTouches(
+  events: DecodedEvent[],
+  resolveCard: (token: string) => number | undefined,
+): Omit<PricePoint, 'wavesReserve' | 'cardReserve' | 'price'>[] {
+  const touches = new Map<string, Omit<PricePoint, 'wavesReserve' | 'cardReserve' | 'price'>>()
+  const touch = (cardId: number, blockNumber: bigint) => {
+    const key = `${cardId}:${blockNumber}`
+    let entry = touches.get(key)
+    if (!entry) touches.set(key, entry = { cardId, blockNumber, volume: 0n, trades: 0 })
+    return entry
+  }
+
+  for (const e of events) {
+    if (!PRICE_EVENTS.has(e.event)) continue
+    if (e.event !== 'Swap') {
+      for (const cardId of e.cardIds) touch(cardId, e.blockNumber)
+      continue
+    }
+    for (const [token, amount] of [[e.args.tokenIn, e.args.amountIn], [e.args.tokenOut, e.args.amountOut]]) {
+      const cardId = resolveCard(token)
+      if (cardId === undefined) continue
+      const entry = touch(cardId, e.blockNumber)
+      entry.volume += BigInt(amount)
+      entry.trades++
+    }
+  }
+  return [...touches.values()]
+}
+
+/**
+ * Bucket stored price points into candles covering `[from, to)`.
+ *
+ * @param points - Oldest first; a point before `from` (if any) seeds the first open
+ */
+export function buildCandles(points: StoredPricePoint[], interval: number, from: number, to: number): Candle[] {
+  const candles: Candle[] = []
+  let close: bigint | undefined
+  let current: { time: number; open: bigint; high: bigint; low: bigint; close: bigint; volume: bigint; trades: number } | undefined
+
+  const flush = () => {
+    if (!current) return
+    candles.push({
+      time: current.time,
+      open: current.open.toString(),
+      high: current.high.toString(),
+      low: current.low.toString(),
+      close: current.close.toString(),
+      volume: current.volume.toString(),
+      trades: current.trades,
+    })
+    close = current.close
+    current = undefined
+  }
+  // Flat candles for buckets in [start, end) with no price change
+  const fill = (start: number, end: number) => {
+    if (close === undefined) return
+    const value = close.toString()
+    for (let time = start; time < end; time += interval) {
+      candles.push({ time, open: value, high: value, low: value, close: value, volume: '0', trades: 0 })
+    }
+  }
+  const bucketOf = (timestamp: number) => timestamp - (timestamp % interval)
+
+  let nextBucket = bucketOf(from)
+  for (const point of points) {
+    const price = BigInt(point.price)
+    if (point.timestamp < from) {
+      close = price
+      continue
+    }
+    const time = bucketOf(point.timestamp)
+    if (current && current.time !== time) flush()
+    if (!current) {
+      fill(nextBucket, time)
+      const open = close ?? price
+      current = { time, open, high: open, low: open, close: open, volume: 0n, trades: 0 }
+      nextBucket = time + interval
+    }
+    if (price > current.high) current.high = price
+    if (price < current.low) current.low = price
+    current.close = price
+    current.volume += BigInt(point.volume)
+    current.trades += point.trades
+  }
+  flush()
+  fill(nextBucket, bucketOf(to - 1) + interval)
+  return candles
+}
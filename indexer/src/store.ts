@@ -0,0 +1,376 @@
+/**
+ * @module store
+ * @description SQLite persistence for indexed events.
+ *
+ * ## Schema
+ * - `blocks`        — number → hash/timestamp for every block that had events,
+ *                     plus the tip of each indexed range (reorg checkpoints)
+ * - `events`        — one row per decoded log, arguments as JSON
+ * - `event_cards`   — which cards an event touched (a CARD→CARD swap touches two)
+ * - `event_accounts`— which accounts an event involved
+ * - `cards`         — one row per `CardCreated`, used to resolve Swap token addresses
+ * - `prices`        — pool reserves after every block that changed them, per card
+ * - `meta`          — chain ID and the last fully indexed block
+ *
+ * Every row hangs off a block number, so rolling back a reorg is a single
+ * `DELETE … WHERE block_number > ?` per table. Bump {@link SCHEMA_VERSION}
+ * when a change needs the chain re-read; older databases are then cleared.
+ */
+import Database from 'better-sqlite3'
+import type { DecodedEvent, EventName } from './events'
+import type { PricePoint } from './prices'
+
+const SCHEMA_VERSION = '2'
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS meta (
+  key   TEXT PRIMARY KEY,
+  value TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS blocks (
+  number    INTEGER PRIMARY KEY,
+  hash      TEXT NOT NULL,
+  timestamp INTEGER NOT NULL
+);
+CREATE TABLE IF NOT EXISTS events (
+  id           INTEGER PRIMARY KEY AUTOINCREMENT,
+  block_number INTEGER NOT NULL,
+  log_index    INTEGER NOT NULL,
+  tx_hash      TEXT NOT NULL,
+  contract     TEXT NOT NULL,
+  event        TEXT NOT NULL,
+  args         TEXT NOT NULL,
+  UNIQUE (block_number, log_index)
+);
+CREATE INDEX IF NOT EXISTS events_by_name ON events (event, id);
+CREATE TABLE IF NOT EXISTS event_cards (
+  event_id     INTEGER NOT NULL REFERENCES events (id) ON DELETE CASCADE,
+  card_id      INTEGER NOT NULL,
+  PRIMARY KEY (card_id, event_id)
+);
+CREATE TABLE IF NOT EXISTS event_accounts (
+  event_id     INTEGER NOT NULL REFERENCES events (id) ON DELETE CASCADE,
+  account      TEXT NOT NULL,
+  PRIMARY KEY (account, event_id)
+);
+CREATE TABLE IF NOT EXISTS cards (
+  card_id      INTEGER PRIMARY KEY,
+  token        TEXT NOT NULL UNIQUE,
+  minter       TEXT NOT NULL,
+  waves_seeded TEXT NOT NULL,
+  block_number INTEGER NOT NULL,
+  tx_hash      TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS prices (
+  card_id       INTEGER NOT NULL,
+  block_number  INTEGER NOT NULL,
+  waves_reserve TEXT NOT NULL,
+  card_reserve  TEXT NOT NULL,
+  price         TEXT NOT NULL,
+  volume        TEXT NOT NULL,
+  trades        INTEGER NOT NULL,
+  PRIMARY KEY (card_id, block_number)
+);
+`
+
+/** An event as served by the API */
+export interface EventRow {
+  id: number
+  event: EventName
+  blockNumber: number
+  timestamp: number
+  txHash: string
+  logIndex: number
+  contract: string
+  args: Record<string, string>
+  cardIds: number[]
+  accounts: string[]
+}
+
+export interface CardRow {
+  cardId: number
+  token: string
+  minter: string
+  wavesSeeded: string
+  createdBlock: number
+  createdTx: string
+  /** Latest `OwnerChanged.newOwner`, or the minter before any change */
+  owner: string
+  swapCount: number
+  lastActivityBlock: number
+}
+
+/** A price point as stored: amounts are decimal strings */
+export interface StoredPricePoint {
+  blockNumber: number
+  timestamp: number
+  wavesReserve: string
+  cardReserve: string
+  price: string
+  volume: string
+  trades: number
+}
+
+/** Filters shared by the activity queries */
+export interface ActivityQuery {
+  event?: EventName
+  /** Return events with `id` below this (cursor from the previous page) */
+  before?: number
+  limit: number
+}
+
+interface RawEventRow {
+  id: number
+  event: EventName
+  block_number: number
+  timestamp: number
+  tx_hash: string
+  log_index: number
+  contract: string
+  args: string
+  card_ids: string | null
+  accounts: string | null
+}
+
+const EVENT_COLUMNS = `
+  e.id, e.event, e.block_number, b.timestamp, e.tx_hash, e.log_index, e.contract, e.args,
+  (SELECT group_concat(card_id) FROM event_cards WHERE event_id = e.id) AS card_ids,
+  (SELECT group_concat(account) FROM event_accounts WHERE event_id = e.id) AS accounts
+`
+
+const CARD_COLUMNS = `
+  c.card_id AS cardId, c.token, c.minter, c.waves_seeded AS wavesSeeded,
+  c.block_number AS createdBlock, c.tx_hash AS createdTx,
+  COALESCE((
+    SELECT lower(json_extract(e.args, '$.newOwner')) FROM event_cards ec JOIN events e ON e.id = ec.event_id
+    WHERE ec.card_id = c.card_id AND e.event = 'OwnerChanged' ORDER BY e.id DESC LIMIT 1
+  ), c.minter) AS owner,
+  (SELECT count(*) FROM event_cards ec JOIN events e ON e.id = ec.event_id
+    WHERE ec.card_id = c.card_id AND e.event = 'Swap') AS swapCount,
+  COALESCE((SELECT max(e.block_number) FROM event_cards ec JOIN events e ON e.id = ec.event_id
+    WHERE ec.card_id = c.card_id), c.block_number) AS lastActivityBlock
+`
+
+function toEventRow(row: RawEventRow): EventRow {
+  return {
+    id: row.id,
+    event: row.event,
+    blockNumber: row.block_number,
+    timestamp: row.timestamp,
+    txHash: row.tx_hash,
+    logIndex: row.log_index,
+    contract: row.contract,
+    args: JSON.parse(row.args),
+    cardIds: row.card_ids ? row.card_ids.split(',').map(Number) : [],
+    accounts: row.accounts ? row.accounts.split(',') : [],
+  }
+}
+
+export class IndexerStore {
+  private readonly db: Database.Database
+
+  constructor(path: string) {
+    this.db = new Database(path)
+    this.db.pragma('journal_mode = WAL')
+    this.db.pragma('foreign_keys = ON')
+    this.db.exec(SCHEMA)
+    if (this.getMeta('schema') !== SCHEMA_VERSION) {
+      this.rollback(-1)
+      this.setMeta('schema', SCHEMA_VERSION)
+    }
+  }
+
+  close() {
+    this.db.close()
+  }
+
+  // ─── Sync state ───
+
+  /**
+   * Bind the database to a chain. A database built against another chain
+   * (or a wiped Anvil with a new genesis) is cleared rather than mixed.
+   */
+  bindChain(chainId: number, genesisHash: string) {
+    const identity = `${chainId}:${genesisHash}`
+    const current = this.getMeta('chain')
+    if (current !== undefined && current !== identity) this.rollback(-1)
+    this.setMeta('chain', identity)
+  }
+
+  /** Last fully indexed block, or undefined before the first batch */
+  lastIndexedBlock(): bigint | undefined {
+    const value = this.getMeta('lastBlock')
+    return value === undefined ? undefined : BigInt(value)
+  }
+
+  /** Timestamp of the newest stored block (the last indexed tip), if any */
+  lastTimestamp(): number | undefined {
+    const row = this.db.prepare('SELECT timestamp FROM blocks ORDER BY number DESC LIMIT 1').get() as
+      { timestamp: number } | undefined
+    return row?.timestamp
+  }
+
+  /** Stored block hashes at or below `number`, newest first (reorg ancestor search) */
+  recentBlocks(number: bigint, limit: number): { number: bigint; hash: string }[] {
+    return this.db
+      .prepare('SELECT number, hash FROM blocks WHERE number <= ? ORDER BY number DESC LIMIT ?')
+      .all(Number(number), limit)
+      .map(row => {
+        const { number, hash } = row as { number: number; hash: string }
+        return { number: BigInt(number), hash }
+      })
+  }
+
+  /** Drop everything above `block` (use -1 to clear the whole index) */
+  rollback(block: bigint | number) {
+    const n = Number(block)
+    this.db.transaction(() => {
+      this.db.prepare('DELETE FROM events WHERE block_number > ?').run(n)
+      this.db.prepare('DELETE FROM cards WHERE block_number > ?').run(n)
+      this.db.prepare('DELETE FROM prices WHERE block_number > ?').run(n)
+      this.db.prepare('DELETE FROM blocks WHERE number > ?').run(n)
+      if (n < 0) this.db.prepare("DELETE FROM meta WHERE key = 'lastBlock'").run()
+      else this.setMeta('lastBlock', String(n))
+    })()
+  }
+
+  /** Card ID for a card token address, if its `CardCreated` has been indexed */
+  cardIdForToken(token: string): number | undefined {
+    const row = this.db.prepare('SELECT card_id FROM cards WHERE token = ?').get(token.toLowerCase()) as
+      { card_id: number } | undefined
+    return row?.card_id
+  }
+
+  /**
+   * Store one indexed range atomically: the decoded events (Swap card IDs
+   * already resolved), the price points derived from them, the blocks they
+   * came from, and `tip` as the new last indexed block.
+   */
+  commitRange(
+    events: DecodedEvent[],
+    prices: PricePoint[],
+    blocks: { number: bigint; hash: string; timestamp: bigint }[],
+    tip: bigint,
+    keepBlocks: number,
+  ) {
+    const insertBlock = this.db.prepare('INSERT OR REPLACE INTO blocks (number, hash, timestamp) VALUES (?, ?, ?)')
+    const insertEvent = this.db.prepare(
+      'INSERT INTO events (block_number, log_index, tx_hash, contract, event, args) VALUES (?, ?, ?, ?, ?, ?)',
+    )
+    const insertCard = this.db.prepare(
+      'INSERT OR REPLACE INTO cards (card_id, token, minter, waves_seeded, block_number, tx_hash) VALUES (?, ?, ?, ?, ?, ?)',
+    )
+    const linkCard = this.db.prepare('INSERT OR IGNORE INTO event_cards (event_id, card_id) VALUES (?, ?)')
+    const linkAccount = this.db.prepare('INSERT OR IGNORE INTO event_accounts (event_id, account) VALUES (?, ?)')
+    const insertPrice = this.db.prepare(
+      'INSERT OR REPLACE INTO prices (card_id, block_number, waves_reserve, card_reserve, price, volume, trades) VALUES (?, ?, ?, ?, ?, ?, ?)',
+    )
+    // Checkpoints older than the reorg window are only needed if they carry events
+    const prune = this.db.prepare(
+      'DELETE FROM blocks WHERE number < ? AND number NOT IN (SELECT DISTINCT block_number FROM events)',
+    )
+
+    this.db.transaction(() => {
+      for (const block of blocks) insertBlock.run(Number(block.number), block.hash, Number(block.timestamp))
+
+      for (const e of events) {
+        const { lastInsertRowid } = insertEvent.run(
+          Number(e.blockNumber), e.logIndex, e.txHash, e.contract.toLowerCase(), e.event, JSON.stringify(e.args),
+        )
+        if (e.event === 'CardCreated') {
+          insertCard.run(Number(e.args.cardId), e.args.cardToken.toLowerCase(), e.args.minter.toLowerCase(),
+            e.args.wavesSeeded, Number(e.blockNumber), e.txHash)
+        }
+
+        for (const cardId of e.cardIds) linkCard.run(lastInsertRowid, cardId)
+        for (const account of e.accounts) linkAccount.run(lastInsertRowid, account)
+      }
+
+      for (const p of prices) {
+        insertPrice.run(p.cardId, Number(p.blockNumber), p.wavesReserve.toString(), p.cardReserve.toString(),
+          p.price.toString(), p.volume.toString(), p.trades)
+      }
+
+      this.setMeta('lastBlock', tip.toString())
+      prune.run(Number(tip) - keepBlocks)
+    })()
+  }
+
+  // ─── Queries ───
+
+  cards(): CardRow[] {
+    return this.db.prepare(`SELECT ${CARD_COLUMNS} FROM cards c ORDER BY c.card_id`).all() as CardRow[]
+  }
+
+  card(cardId: number): CardRow | undefined {
+    return this.db.prepare(`SELECT ${CARD_COLUMNS} FROM cards c WHERE c.card_id = ?`).get(cardId) as CardRow | undefined
+  }
+
+  /** All activity, newest first */
+  activity(q: ActivityQuery): EventRow[] {
+    return this.queryEvents('', [], q)
+  }
+
+  /** Activity touching one card, newest first */
+  cardActivity(cardId: number, q: ActivityQuery): EventRow[] {
+    return this.queryEvents('e.id IN (SELECT event_id FROM event_cards WHERE card_id = ?)', [cardId], q)
+  }
+
+  /** Activity involving one account, newest first */
+  accountActivity(account: string, q: ActivityQuery): EventRow[] {
+    return this.queryEvents('e.id IN (SELECT event_id FROM event_accounts WHERE account = ?)', [account.toLowerCase()], q)
+  }
+
+  /**
+   * Price points for a card in `[from, to)` (unix seconds), oldest first,
+   * preceded by the last point before `from` so the first candle can open at it.
+   */
+  pricePoints(cardId: number, from: number, to: number): StoredPricePoint[] {
+    const columns = `p.block_number AS blockNumber, b.timestamp, p.waves_reserve AS wavesReserve,
+      p.card_reserve AS cardReserve, p.price, p.volume, p.trades`
+    const join = 'FROM prices p JOIN blocks b ON b.number = p.block_number WHERE p.card_id = ?'
+    const previous = this.db.prepare(`SELECT ${columns} ${join} AND b.timestamp < ? ORDER BY p.block_number DESC LIMIT 1`)
+      .get(cardId, from) as StoredPricePoint | undefined
+    const inRange = this.db.prepare(`SELECT ${columns} ${join} AND b.timestamp >= ? AND b.timestamp < ? ORDER BY p.block_number`)
+      .all(cardId, from, to) as StoredPricePoint[]
+    return previous ? [previous, ...inRange] : inRange
+  }
+
+  /** Accounts by number of cards they currently own */
+  ownerLeaderboard(limit: number): { account: string; cardsOwned: number }[] {
+    return this.db.prepare(`
+      SELECT owner AS account, count(*) AS cardsOwned FROM (SELECT ${CARD_COLUMNS} FROM cards c)
+      GROUP BY owner ORDER BY cardsOwned DESC, account LIMIT ?
+    `).all(limit) as { account: string; cardsOwned: number }[]
+  }
+
+  /** Accounts by number of swaps */
+  traderLeaderboard(limit: number): { account: string; swaps: number }[] {
+    return this.db.prepare(`
+      SELECT lower(json_extract(args, '$.user')) AS account, count(*) AS swaps FROM events
+      WHERE event = 'Swap' GROUP BY account ORDER BY swaps DESC, account LIMIT ?
+    `).all(limit) as { account: string; swaps: number }[]
+  }
+
+  private queryEvents(where: string, params: unknown[], q: ActivityQuery): EventRow[] {
+    const clauses = where ? [where] : []
+    const args = [...params]
+    if (q.event) { clauses.push('e.event = ?'); args.push(q.event) }
+    if (q.before !== undefined) { clauses.push('e.id < ?'); args.push(q.before) }
+    const sql = `
+      SELECT ${EVENT_COLUMNS} FROM events e JOIN blocks b ON b.number = e.block_number
+      ${clauses.length ? `WHERE ${clauses.join(' AND ')}` : ''}
+      ORDER BY e.id DESC LIMIT ?
+    `
+    return (this.db.prepare(sql).all(...args, q.limit) as RawEventRow[]).map(toEventRow)
+  }
+
+  private getMeta(key: string): string | undefined {
+    const row = this.db.prepare('SELECT value FROM meta WHERE key = ?').get(key) as { value: string } | undefined
+    return row?.value
+  }
+
+  private setMeta(key: string, value: string) {
+    this.db.prepare('INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)').run(key, value)
+  }
+}
@@ -0,0 +1,86 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { buildCandles, priceFromReserves } from '../src/prices'
+import type { Candle } from '../src/prices'
+import type { StoredPricePoint } from '../src/store'
+
+const point = (timestamp: number, price: number, volume = 0, trades = 0): StoredPricePoint => ({
+  blockNumber: timestamp,
+  timestamp,
+  wavesReserve: '0',
+  cardReserve: '0',
+  price: String(price),
+  volume: String(volume),
+  trades,
+})
+
+/** `[time, open, high, low, close, volume, trades]` */
+type Row = [number, number, number, number, number, number, number]
+const candle = ([time, open, high, low, close, volume, trades]: Row): Candle => ({
+  time,
+  open: String(open),
+  high: String(high),
+  low: String(low),
+  close: String(close),
+  volume: String(volume),
+  trades,
+})
+
+describe('buildCandles', () => {
+  const cases: { name: string; points: StoredPricePoint[]; from: number; to: number; rows: Row[] }[] = [
+    { name: 'no points, no candles', points: [], from: 0, to: 600, rows: [] },
+    {
+      name: 'the first point opens its own candle and later buckets stay flat',
+      points: [point(65, 100, 5, 1)],
+      from: 60, to: 180,
+      rows: [[60, 100, 100, 100, 100, 5, 1], [120, 100, 100, 100, 100, 0, 0]],
+    },
+    {
+      name: 'a point before the range seeds the open; points in a bucket merge',
+      points: [point(10, 100), point(70, 120, 3, 1), point(80, 90, 4, 2)],
+      from: 60, to: 180,
+      rows: [[60, 100, 120, 90, 90, 7, 3], [120, 90, 90, 90, 90, 0, 0]],
+    },
+    {
+      name: 'gaps are filled with flat candles and the next candle opens at the last close',
+      points: [point(10, 100), point(200, 150, 2, 1)],
+      from: 0, to: 300,
+      rows: [
+        [0, 100, 100, 100, 100, 0, 0],
+        [60, 100, 100, 100, 100, 0, 0],
+        [120, 100, 100, 100, 100, 0, 0],
+        [180, 100, 150, 100, 150, 2, 1],
+        [240, 150, 150, 150, 150, 0, 0],
+      ],
+    },
+    {
+      name: 'only a seed point gives flat candles at its price',
+      points: [point(5, 7)],
+      from: 60, to: 180,
+      rows: [[60, 7, 7, 7, 7, 0, 0], [120, 7, 7, 7, 7, 0, 0]],
+    },
+    {
+      name: 'an unaligned range covers the buckets it touches',
+      points: [point(61, 10)],
+      from: 61, to: 121,
+      rows: [[60, 10, 10, 10, 10, 0, 0], [120, 10, 10, 10, 10, 0, 0]],
+    },
+  ]
+
+  for (const { name, points, from, to, rows } of cases) {
+    it(name, () => {
+      assert.deepEqual(buildCandles(points, 60, from, to), rows.map(candle))
+    })
+  }
+})
+
+describe('priceFromReserves', () => {
+  const cases: [waves: bigint, cards: bigint, price: bigint][] = [
+    [500n * 10n ** 18n, 9_500_000n * 10n ** 18n, 52_631_578_947_368n],
+    [10n ** 18n, 10n ** 18n, 10n ** 18n],
+    [10n ** 18n, 0n, 0n],
+  ]
+  for (const [waves, cards, price] of cases) {
+    it(`${waves} / ${cards}`, () => assert.equal(priceFromReserves(waves, cards), price))
+  }
+})
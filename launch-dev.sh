@@ -9,6 +9,9 @@ export PATH="$HOME/.foundry/bin:$PATH"
 PROJECT="$HOME/Projects/erc-1142"
 cd "$PROJECT"
 
+# LAN address the dev servers are reached on (override with HOST_IP=...)
+HOST_IP="${HOST_IP:-$(hostname -I | awk '{print $1}')}"
+
 # Colors
 GREEN='\033[0;32m'
 CYAN='\033[0;36m'
@@ -76,7 +79,7 @@ fi
 # Extract addresses (Option B: 3-way split)
 echo ""
 echo -e "${CYAN}═══ Deployed Addresses ═══${NC}"
-echo "$DEPLOY_OUT" | grep -E "^\s+(WETH|WAVES|GlobalRewards|SurfSwap|CardStaking|WethPool|BidNFT|Router)" | while read -r line; do
+echo "$DEPLOY_OUT" | grep -E "^\s+(WETH|WAVES|GlobalRewards|SurfSwap|CardStaking|WethPool|BidNFT|Router|Multicall3)" | while read -r line; do
     echo -e "  ${GREEN}$line${NC}"
 done
 
@@ -90,7 +93,11 @@ WETH_POOL=$(echo "$DEPLOY_OUT" | grep "WethPool:" | awk '{print $NF}')
 BIDNFT=$(echo "$DEPLOY_OUT" | grep "BidNFT:" | awk '{print $NF}')
 ROUTER=$(echo "$DEPLOY_OUT" | grep "Router:" | awk '{print $NF}')
 
-for CONTRACTS_FILE in "$PROJECT/frontend/src/contracts.ts" "$HOME/Projects/cog-works/src/contracts/erc1142.ts"; do
+# frontend/ and marketplace/ read broadcast/LocalDeploy.s.sol/31337/run-latest.json
+# directly (see sdk/src/deployments.ts) — only external consumers need patching.
+# Upgrade note: manifests from before LocalDeploy deployed Multicall3 are refused
+# on 31337 ("redeploy with LocalDeploy.s.sol"); the deploy above replaces them.
+for CONTRACTS_FILE in "$HOME/Projects/cog-works/src/contracts/erc1142.ts"; do
   if [ -f "$CONTRACTS_FILE" ]; then
     # Map WHIRLPOOL_ADDRESS → CardStaking (backward compat — card staking functions)
     sed -i "s|WHIRLPOOL_ADDRESS = '0x[^']*'|WHIRLPOOL_ADDRESS = '${CARD_STAKING}'|" "$CONTRACTS_FILE"
@@ -128,7 +135,7 @@ bash "$PROJECT/scripts/mint-all-cards.sh" "$ROUTER"
 echo ""
 echo -e "${YELLOW}Starting frontend...${NC}"
 cd "$PROJECT/frontend"
-npm run dev -- --host 0.0.0.0 > /tmp/vite-erc1142.log 2>&1 &
+VITE_ANVIL_RPC_URL="http://${HOST_IP}:8545" npm run dev -- --host 0.0.0.0 > /tmp/vite-erc1142.log 2>&1 &
 VITE_PID=$!
 sleep 3
 
@@ -153,9 +160,9 @@ echo -e "${CYAN}═════════════════════
 echo -e "${CYAN}  🌊 Dev Suite Running!${NC}"
 echo -e "${CYAN}═══════════════════════════════════════════════════${NC}"
 echo ""
-echo -e "  ${GREEN}Frontend:${NC}  http://192.168.0.82:${VITE_PORT}/"
-echo -e "  ${GREEN}cog-works:${NC} http://192.168.0.82:5174/"
-echo -e "  ${GREEN}Anvil RPC:${NC} http://192.168.0.82:8545"
+echo -e "  ${GREEN}Frontend:${NC}  http://${HOST_IP}:${VITE_PORT}/"
+echo -e "  ${GREEN}cog-works:${NC} http://${HOST_IP}:5174/"
+echo -e "  ${GREEN}Anvil RPC:${NC} http://${HOST_IP}:8545"
 echo -e "  ${GREEN}Chain ID:${NC}  31337"
 echo ""
 echo -e "  ${YELLOW}Test Accounts (10,000 ETH each):${NC}"
@@ -1,31 +1,38 @@
 import { useState, useCallback } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
+import { useRoute } from './lib/router'
 import Header from './components/Header'
+import ChainBanner from './components/ChainBanner'
 import Marketplace from './components/Marketplace'
 import Portfolio from './components/Portfolio'
 import MintCard from './components/MintCard'
+import CardPage from './components/CardPage'
+import Swap from './components/Swap'
+import Link from './components/Link'
 import Toast from './components/Toast'
 
-type Page = 'explore' | 'portfolio' | 'create'
-
 export default function App() {
-  const [page, setPage] = useState<Page>('explore')
+  const route = useRoute()
   const [toast, setToast] = useState({ message: '', type: 'info' as 'success' | 'error' | 'info', visible: false })
 
   const onToast = useCallback((message: string, type: 'success' | 'error' | 'info') => {
     setToast({ message, type, visible: true })
   }, [])
 
-  const tabs: { key: Page; label: string; icon: string }[] = [
-    { key: 'explore', label: 'Explore', icon: '🔍' },
-    { key: 'portfolio', label: 'Portfolio', icon: '💼' },
-    { key: 'create', label: 'Create', icon: '✨' },
+  const tabs: { path: string; label: string; icon: string; active: boolean }[] = [
+    { path: '/', label: 'Explore', icon: '🔍', active: route.page === 'explore' || route.page === 'card' },
+    { path: '/swap', label: 'Swap', icon: '🔁', active: route.page === 'swap' },
+    { path: '/portfolio', label: 'Portfolio', icon: '💼', active: route.page === 'portfolio' },
+    { path: '/create', label: 'Create', icon: '✨', active: route.page === 'create' },
   ]
+  // Each card page is its own key so switching cards re-runs the page transition
+  const pageKey = route.page === 'card' ? `card-${route.id}` : route.page
 
   return (
     <div style={{ minHeight: '100vh', background: 'var(--bg-primary)' }}>
       <Header />
       <div style={{ height: '64px' }} />
+      <ChainBanner />
 
       {/* Navigation tabs */}
       <nav style={{
@@ -41,39 +48,46 @@ export default function App() {
         zIndex: 40,
       }}>
         {tabs.map(t => (
-          <button
-            key={t.key}
-            onClick={() => setPage(t.key)}
+          <Link
+            key={t.path}
+            to={t.path}
             style={{
               padding: '8px 20px',
               borderRadius: '12px',
-              border: 'none',
-              background: page === t.key ? 'rgba(139, 92, 246, 0.08)' : 'transparent',
-              color: page === t.key ? '#8b5cf6' : 'var(--text-secondary)',
-              fontWeight: page === t.key ? 600 : 400,
+              background: t.active ? 'rgba(139, 92, 246, 0.08)' : 'transparent',
+              color: t.active ? '#8b5cf6' : 'var(--text-secondary)',
+              fontWeight: t.active ? 600 : 400,
               fontSize: '14px',
-              cursor: 'pointer',
+              textDecoration: 'none',
               transition: 'all 0.15s',
               fontFamily: "'Inter Tight', sans-serif",
             }}
           >
             {t.icon} {t.label}
-          </button>
+          </Link>
         ))}
       </nav>
 
       <main style={{ maxWidth: '1400px', margin: '0 auto', padding: '24px' }}>
         <AnimatePresence mode="wait">
           <motion.div
-            key={page}
+            key={pageKey}
             initial={{ opacity: 0, y: 12 }}
             animate={{ opacity: 1, y: 0 }}
             exit={{ opacity: 0, y: -12 }}
             transition={{ duration: 0.2 }}
           >
-            {page === 'explore' && <Marketplace onToast={onToast} />}
-            {page === 'portfolio' && <Portfolio onToast={onToast} />}
-            {page === 'create' && <MintCard onToast={onToast} />}
+            {route.page === 'explore' && <Marketplace />}
+            {route.page === 'card' && <CardPage cardId={route.id} onToast={onToast} />}
+            {route.page === 'swap' && <Swap key={route.cardId} cardId={route.cardId} onToast={onToast} />}
+            {route.page === 'portfolio' && <Portfolio />}
+            {route.page === 'create' && <MintCard onToast={onToast} />}
+            {route.page === 'notFound' && (
+              <div style={{ textAlign: 'center', padding: '80px 0', color: 'var(--text-muted)' }}>
+                <p style={{ fontSize: '18px', marginBottom: '12px' }}>Nothing at {route.path}</p>
+                <Link to="/" style={{ color: '#8b5cf6' }}>← Back to Explore</Link>
+              </div>
+            )}
           </motion.div>
         </AnimatePresence>
       </main>
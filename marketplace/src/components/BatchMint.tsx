@@ -0,0 +1,203 @@
+/** Batch mint — mint a set of drafts or a JSON catalogue in one run, resumable, with a downloadable report */
+import { useState } from 'react'
+import { useAccount, useReadContract } from 'wagmi'
+import { formatEther } from 'viem'
+import { ROUTER_ABI, deriveSymbol, shortenAddress, summarizeReport } from '@whirlpool/sdk'
+import type { BatchMintItem, BatchMintStatus } from '@whirlpool/sdk'
+import type { CardEditorData } from './editor/types'
+import { useBatchMint } from '../hooks/useBatchMint'
+import { useDraftLibrary } from '../hooks/useDrafts'
+import { storeCard } from '../hooks/useMintCard'
+import { downloadBlob } from '../lib/cardExport'
+import { checkCard } from '../lib/cardRules'
+import { parseCardFile } from '../lib/cardFiles'
+import { ROUTER_ADDRESS } from '../lib/deployment'
+import { draftTitle, loadDraft } from '../lib/drafts'
+import { cardPath } from '../lib/router'
+import Link from './Link'
+
+interface BatchMintProps {
+  onToast: (msg: string, type: 'success' | 'error' | 'info') => void
+}
+
+const STATUS_STYLES: Record<BatchMintStatus, string> = {
+  pending: 'text-gray-400',
+  uploaded: 'text-violet-600',
+  sent: 'text-violet-600',
+  minted: 'text-green-700',
+  failed: 'text-red-600',
+}
+
+const toItem = (card: CardEditorData, symbol = ''): BatchMintItem => ({
+  name: card.name.trim(),
+  symbol: symbol.trim() || deriveSymbol(card.name),
+  upload: async () => {
+    const [violation] = checkCard(card)
+    if (violation) throw new Error(violation.message)
+    return storeCard(card)
+  },
+})
+
+export default function BatchMint({ onToast }: BatchMintProps) {
+  const { isConnected } = useAccount()
+  const { drafts } = useDraftLibrary()
+  const { report, running, run, stop, clear } = useBatchMint()
+  const { data: fee } = useReadContract({ address: ROUTER_ADDRESS, abi: ROUTER_ABI, functionName: 'MINT_FEE' })
+  const [source, setSource] = useState<'drafts' | 'file'>('drafts')
+  const [selected, setSelected] = useState<Set<string>>(() => new Set())
+  const [file, setFile] = useState<{ name: string; cards: CardEditorData[] }>()
+
+  const named = drafts.filter(d => d.cardName)
+  const count = source === 'drafts' ? named.filter(d => selected.has(d.id)).length : file?.cards.length ?? 0
+  const minted = (name: string) => report?.cards[name.trim()]?.status === 'minted'
+  const summary = report && summarizeReport(report)
+  const unfinished = summary ? summary.pending + summary.uploaded + summary.sent + summary.failed : 0
+
+  const toggle = (id: string) => setSelected(prev => {
+    const next = new Set(prev)
+    if (next.has(id)) next.delete(id)
+    else next.add(id)
+    return next
+  })
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const chosen = e.target.files?.[0]
+    e.target.value = ''
+    if (!chosen) return
+    try {
+      const { cards, rejected } = parseCardFile(await chosen.text())
+      setFile({ name: chosen.name, cards: cards.map(c => c.card) })
+      if (rejected.length) onToast(`Skipped ${rejected.length} invalid entr${rejected.length === 1 ? 'y' : 'ies'} — import the file in the JSON panel for details`, 'info')
+    } catch (err) {
+      onToast((err as Error).message, 'error')
+    }
+  }
+
+  const handleRun = async () => {
+    try {
+      let items: BatchMintItem[]
+      if (source === 'drafts') {
+        const loaded = await Promise.all(named.filter(d => selected.has(d.id)).map(d => loadDraft(d.id)))
+        items = loaded.flatMap(d => (d ? [toItem(d.card, d.symbol)] : []))
+      } else {
+        items = (file?.cards ?? []).map(card => toItem(card))
+      }
+      const done = await run(items)
+      const counts = summarizeReport(done)
+      onToast(`Batch finished: ${counts.minted} minted, ${counts.failed} failed`, counts.failed ? 'info' : 'success')
+    } catch (err) {
+      onToast((err as Error).message, 'error')
+    }
+  }
+
+  const downloadReport = () => {
+    if (!report) return
+    downloadBlob(new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' }), 'batch-mint-report.json')
+  }
+
+  return (
+    <div>
+      <p className="text-lg font-bold text-gray-900" style={{ fontFamily: 'Inter Tight, sans-serif' }}>
+        📦 Batch Mint
+      </p>
+      <p className="text-sm text-gray-500 mt-1 mb-4">
+        Mint several cards in one run, one wallet confirmation each. Cards already minted are skipped, so a stopped batch resumes where it left off. Images are the artwork only.
+      </p>
+
+      <div className="flex gap-4 text-sm text-gray-700 mb-3">
+        {(['drafts', 'file'] as const).map(s => (
+          <label key={s} className="flex items-center gap-1.5 cursor-pointer">
+            <input type="radio" name="batch-source" checked={source === s} onChange={() => setSource(s)} disabled={running} className="accent-violet-600" />
+            {s === 'drafts' ? 'Drafts' : 'JSON file'}
+          </label>
+        ))}
+      </div>
+
+      {source === 'drafts' ? (
+        named.length === 0 ? (
+          <p className="text-sm text-gray-400">No named drafts yet.</p>
+        ) : (
+          <div className="max-h-56 overflow-y-auto border border-gray-100">
+            <label className="flex items-center gap-2 px-3 py-2 border-b border-gray-100 text-xs text-gray-500">
+              <input
+                type="checkbox"
+                checked={named.every(d => selected.has(d.id))}
+                onChange={e => setSelected(new Set(e.target.checked ? named.map(d => d.id) : []))}
+                disabled={running}
+              />
+              Select all
+            </label>
+            {named.map(d => (
+              <label key={d.id} className="flex items-center gap-2 px-3 py-1.5 text-sm text-gray-800 hover:bg-gray-50">
+                <input type="checkbox" checked={selected.has(d.id)} onChange={() => toggle(d.id)} disabled={running} />
+                <span className="flex-1 truncate">{draftTitle(d)}</span>
+                {minted(d.cardName) && <span className="text-xs text-green-700">minted</span>}
+              </label>
+            ))}
+          </div>
+        )
+      ) : (
+        <div className="text-sm">
+          <input type="file" accept=".json,application/json" onChange={handleFile} disabled={running} className="text-xs" />
+          {file && <p className="mt-2 text-xs text-gray-500">{file.name}: {file.cards.length} card{file.cards.length === 1 ? '' : 's'}</p>}
+        </div>
+      )}
+
+      <div className="flex gap-2 mt-4">
+        {running ? (
+          <button onClick={stop} className="flex-1 py-2.5 text-sm font-semibold bg-gray-100 hover:bg-gray-200 text-gray-700">
+            Stop after this step
+          </button>
+        ) : (
+          <button
+            onClick={handleRun}
+            disabled={!isConnected || count === 0}
+            className="btn-primary flex-1 py-2.5 text-sm font-semibold"
+          >
+            {unfinished ? 'Resume' : 'Mint'} {count} card{count === 1 ? '' : 's'}
+            {fee !== undefined && count > 0 && ` · up to ${formatEther(fee * BigInt(count))} ETH`}
+          </button>
+        )}
+      </div>
+      {!isConnected && <p className="mt-2 text-xs text-gray-500 text-center">Connect a wallet to mint.</p>}
+
+      {report && Object.keys(report.cards).length > 0 && (
+        <div className="mt-5">
+          <div className="flex items-center justify-between mb-2 text-xs">
+            <span className="font-semibold text-gray-700">
+              Report · {summary!.minted} minted{summary!.failed ? `, ${summary!.failed} failed` : ''}
+            </span>
+            <span className="flex gap-3">
+              <button onClick={downloadReport} className="text-violet-600 hover:text-violet-800">Download</button>
+              <button onClick={clear} disabled={running} className="text-gray-400 hover:text-red-600 disabled:opacity-40">Clear</button>
+            </span>
+          </div>
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-left text-gray-400 border-b border-gray-100">
+                <th className="py-1 font-medium">Card</th>
+                <th className="py-1 font-medium">Status</th>
+                <th className="py-1 font-medium">Token</th>
+              </tr>
+            </thead>
+            <tbody>
+              {Object.values(report.cards).map(entry => (
+                <tr key={entry.name} className="border-b border-gray-50 align-top">
+                  <td className="py-1.5 pr-2 text-gray-800">
+                    {entry.cardId !== undefined ? <Link to={cardPath(entry.cardId)} className="hover:underline">{entry.name} #{entry.cardId}</Link> : entry.name}
+                    <span className="ml-1 font-mono text-gray-400">{entry.symbol}</span>
+                  </td>
+                  <td className={`py-1.5 pr-2 ${STATUS_STYLES[entry.status]}`}>
+                    {entry.status}
+                    {entry.error && <div className="text-red-600">{entry.error}</div>}
+                  </td>
+                  <td className="py-1.5 font-mono text-gray-500">{entry.cardToken ? shortenAddress(entry.cardToken) : '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,175 @@
+import { Component, useEffect, useRef, useState } from 'react'
+import type { ReactNode } from 'react'
+import { useAccount } from 'wagmi'
+import type { CardData } from '../hooks/useCards'
+import { useCardMetadata } from '../hooks/useCardMetadata'
+import CardPreview from './editor/CardPreview'
+import type { CardEditorData } from './editor/types'
+
+const GRADIENTS = [
+  'linear-gradient(135deg, #8b5cf6, #a78bfa)',
+  'linear-gradient(135deg, #FF613D, #FF5D38)',
+  'linear-gradient(135deg, #06b6d4, #22d3ee)',
+  'linear-gradient(135deg, #ec4899, #f472b6)',
+  'linear-gradient(135deg, #10b981, #34d399)',
+  'linear-gradient(135deg, #f59e0b, #fbbf24)',
+  'linear-gradient(135deg, #ef4444, #f87171)',
+  'linear-gradient(135deg, #6366f1, #818cf8)',
+]
+
+/** `.preview-card` renders at a fixed 400×533; it is scaled to fit the art box */
+const PREVIEW_WIDTH = 400
+const PREVIEW_HEIGHT = (PREVIEW_WIDTH * 4) / 3
+
+/**
+ * Catches a render error in the card preview (metadata that slipped past the
+ * checks in `metadata.ts`) so it costs one card its layout rather than the
+ * whole page; `fallback` is drawn instead and `onError` told why.
+ */
+class PreviewBoundary extends Component<{ fallback: ReactNode; onError: (message: string) => void; children: ReactNode }, { failed: boolean }> {
+  state = { failed: false }
+
+  static getDerivedStateFromError() {
+    return { failed: true }
+  }
+
+  componentDidCatch(error: Error) {
+    this.props.onError(error.message)
+  }
+
+  render() {
+    return this.state.failed ? this.props.fallback : this.props.children
+  }
+}
+
+interface CardArtProps {
+  card: CardData
+  /** Size of the `#id` label on the generated fallback art */
+  labelSize?: number
+}
+
+/** The editor's `CardPreview`, scaled down to fill its (positioned) parent. */
+export function FittedPreview({ card }: { card: CardEditorData }) {
+  const ref = useRef<HTMLDivElement>(null)
+  const [scale, setScale] = useState(0)
+
+  useEffect(() => {
+    const el = ref.current
+    if (!el) return
+    const observer = new ResizeObserver(([entry]) => {
+      const { width, height } = entry.contentRect
+      setScale(Math.min(width / PREVIEW_WIDTH, height / PREVIEW_HEIGHT))
+    })
+    observer.observe(el)
+    return () => observer.disconnect()
+  }, [])
+
+  return (
+    <div ref={ref} style={{ position: 'absolute', inset: '6px', display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
+      <div style={{ width: PREVIEW_WIDTH, flexShrink: 0, transform: `scale(${scale})`, visibility: scale ? 'visible' : 'hidden' }}>
+        <CardPreview card={card} label={null} showSummary={false} />
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Square card artwork with Owner/Staked badges for the connected account.
+ *
+ * Drawn from the `tokenURI` metadata: the editor's card layout when the
+ * metadata describes one (unless its `image` is already a render of the
+ * card), otherwise its `image`. While that loads, or when
+ * the URI, the metadata, the image or the card layout fails, a gradient
+ * picked by card ID is shown instead, with a ⚠ badge explaining why.
+ */
+export default function CardArt({ card, labelSize = 64 }: CardArtProps) {
+  const { address } = useAccount()
+  const uri = card.fields.tokenURI.status === 'ok' ? card.tokenURI : undefined
+  const { data: meta, error } = useCardMetadata(uri)
+  const [failedImage, setFailedImage] = useState<string>()
+  // Keyed by the metadata it failed on, so a new tokenURI gets a fresh try
+  const [failedPreview, setFailedPreview] = useState<{ meta: unknown; message: string }>()
+
+  const isOwner = address && card.owner.toLowerCase() === address.toLowerCase()
+  const hasStake = card.userShares > 0n
+  const image = meta?.image && meta.image !== failedImage ? meta.image : undefined
+  const previewError = failedPreview && failedPreview.meta === meta ? failedPreview.message : undefined
+  const problem = error?.message
+    ?? (previewError && `Card layout failed: ${previewError}`)
+    ?? (meta?.image && !image ? 'Image failed to load' : undefined)
+    ?? (card.fields.tokenURI.status === 'failed' ? card.fields.tokenURI.error : undefined)
+
+  const label = (
+    <span style={{
+      fontSize: `${labelSize}px`,
+      fontWeight: 700,
+      color: 'rgba(255,255,255,0.25)',
+      fontFamily: "'DM Mono', monospace",
+    }}>
+      #{card.id}
+    </span>
+  )
+
+  let art
+  if (meta?.card && !meta.rendered && !previewError) {
+    art = (
+      <PreviewBoundary fallback={label} onError={message => setFailedPreview({ meta, message })}>
+        <FittedPreview card={{ ...meta.card, imageData: image ?? '' }} />
+      </PreviewBoundary>
+    )
+  } else if (image) {
+    art = (
+      <img
+        src={image}
+        alt={meta?.name ?? card.name}
+        onError={() => setFailedImage(image)}
+        style={{ position: 'absolute', inset: 0, width: '100%', height: '100%', objectFit: meta?.rendered ? 'contain' : 'cover' }}
+      />
+    )
+  } else {
+    art = label
+  }
+
+  return (
+    <div style={{
+      position: 'relative',
+      aspectRatio: '1',
+      overflow: 'hidden',
+      background: meta?.card && !previewError ? 'var(--bg-secondary)' : GRADIENTS[card.id % GRADIENTS.length],
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+    }}>
+      {art}
+
+      {isOwner && (
+        <div style={{
+          position: 'absolute', top: '8px', left: '8px',
+          background: 'rgba(255,255,255,0.9)', backdropFilter: 'blur(8px)',
+          padding: '4px 8px', borderRadius: '8px', fontSize: '11px', color: '#111827',
+        }}>
+          👑 Owner
+        </div>
+      )}
+
+      {hasStake && (
+        <div style={{
+          position: 'absolute', top: '8px', right: '8px',
+          background: 'rgba(139, 92, 246, 0.9)', backdropFilter: 'blur(8px)',
+          padding: '4px 8px', borderRadius: '8px', fontSize: '11px', fontWeight: 600, color: 'white',
+        }}>
+          🔒 Staked
+        </div>
+      )}
+
+      {problem && (
+        <div title={problem} style={{
+          position: 'absolute', bottom: '8px', left: '8px', cursor: 'help',
+          background: 'rgba(17, 24, 39, 0.7)', padding: '3px 7px', borderRadius: '8px', fontSize: '11px', color: '#fbbf24',
+        }}>
+          ⚠ Art unavailable
+        </div>
+      )}
+    </div>
+  )
+}
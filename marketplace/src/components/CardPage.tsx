@@ -0,0 +1,379 @@
+import { useState } from 'react'
+import type { ReactNode } from 'react'
+import { useAccount, useConfig, useWriteContract } from 'wagmi'
+import { waitForTransactionReceipt } from 'wagmi/actions'
+import { useQueryClient } from '@tanstack/react-query'
+import { BaseError, formatUnits, parseUnits } from 'viem'
+import { formatWaves, shortenAddress, CARD_STAKING_ABI, CARD_TOKEN_ABI } from '@whirlpool/sdk'
+import { WHIRLPOOL_ADDRESS } from '../lib/deployment'
+import { CANDLE_INTERVALS, IndexerError } from '../lib/indexer'
+import type { CandleInterval } from '../lib/indexer'
+import { swapPath } from '../lib/router'
+import { useAllCards, useCard } from '../hooks/useCards'
+import { useCardPosition } from '../hooks/useCardPosition'
+import { useCardMetadata } from '../hooks/useCardMetadata'
+import { usePriceHistory } from '../hooks/usePriceHistory'
+import CardArt from './CardArt'
+import FieldValue from './FieldValue'
+import Link from './Link'
+import PriceChart from './PriceChart'
+
+interface CardPageProps {
+  cardId: number
+  onToast: (msg: string, type: 'success' | 'error' | 'info') => void
+}
+
+const PERCENTS = [25, 50, 100]
+
+function Panel({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <section style={{ background: 'var(--bg-card)', border: '1px solid var(--border)', borderRadius: '16px', padding: '16px' }}>
+      <h3 style={{ fontSize: '14px', fontWeight: 600, color: 'var(--text-primary)', marginBottom: '12px' }}>{title}</h3>
+      {children}
+    </section>
+  )
+}
+
+function Row({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <div style={{ display: 'flex', justifyContent: 'space-between', gap: '12px', fontSize: '13px', fontFamily: "'DM Mono', monospace" }}>
+      <span style={{ color: 'var(--text-muted)' }}>{label}</span>
+      <span style={{ color: 'var(--text-primary)', textAlign: 'right' }}>{children}</span>
+    </div>
+  )
+}
+
+const percentOf = (part: bigint, total: bigint) =>
+  total === 0n ? '0%' : `${(Number((part * 10_000n) / total) / 100).toFixed(2)}%`
+
+/**
+ * Detail page for `/card/:id`: full art, pool state, price history, top
+ * stakers, the connected account's position and its stake/unstake/swap-stake
+ * and claim actions. Every action waits for its receipt, then refreshes the
+ * card, the grid and the staking position.
+ */
+export default function CardPage({ cardId, onToast }: CardPageProps) {
+  const config = useConfig()
+  const queryClient = useQueryClient()
+  const { address, isConnected } = useAccount()
+  const { writeContractAsync } = useWriteContract()
+  const { data: card, isLoading, error } = useCard(cardId)
+  const position = useCardPosition(cardId, card?.fields.tokenAddress.status === 'ok' ? card.tokenAddress : undefined)
+  const { cards } = useAllCards()
+  const { data: meta } = useCardMetadata(card?.fields.tokenURI.status === 'ok' ? card.tokenURI : undefined)
+
+  const [interval, setChartInterval] = useState<CandleInterval>('1h')
+  const history = usePriceHistory(cardId, interval)
+  const [stakeAmount, setStakeAmount] = useState('')
+  const [unstakePercent, setUnstakePercent] = useState(100)
+  const [swapPercent, setSwapPercent] = useState(100)
+  const [fromCardId, setFromCardId] = useState<number | null>(null)
+  const [busy, setBusy] = useState<string | null>(null)
+
+  if (isLoading) return <p style={{ color: 'var(--text-muted)', padding: '40px 0', textAlign: 'center' }}>Loading card #{cardId}…</p>
+  if (error) return <p style={{ color: '#ef4444', padding: '40px 0', textAlign: 'center' }}>Failed to load card #{cardId}: {error.message}</p>
+  if (!card) {
+    return (
+      <div style={{ textAlign: 'center', padding: '80px 0', color: 'var(--text-muted)' }}>
+        <p style={{ fontSize: '18px', marginBottom: '12px' }}>Card #{cardId} doesn't exist yet</p>
+        <Link to="/" style={{ color: '#8b5cf6' }}>← Back to Explore</Link>
+      </div>
+    )
+  }
+
+  const user = position.data?.user
+  const totalShares = position.data?.totalShares ?? 0n
+  const isOwner = !!address && card.owner.toLowerCase() === address.toLowerCase()
+  const sources = cards.filter(c => c.userShares > 0n && c.id !== card.id)
+
+  /** Run a sequence of transactions, then refresh everything this card shows */
+  const run = async (label: string, steps: () => Promise<void>, success: string) => {
+    setBusy(label)
+    try {
+      await steps()
+      onToast(success, 'success')
+      await Promise.all(['card', 'cards', 'cardPosition'].map(key => queryClient.invalidateQueries({ queryKey: [key] })))
+    } catch (e) {
+      onToast((e instanceof BaseError ? e.shortMessage : (e as Error).message).slice(0, 120), 'error')
+    } finally {
+      setBusy(null)
+    }
+  }
+  const confirm = async (hash: `0x${string}`) => {
+    const receipt = await waitForTransactionReceipt(config, { hash })
+    if (receipt.status !== 'success') throw new Error(`Transaction ${shortenAddress(hash)} reverted`)
+  }
+
+  const handleStake = () => {
+    let amount: bigint
+    try { amount = parseUnits(stakeAmount, 18) } catch { onToast('Enter an amount', 'error'); return }
+    if (amount === 0n) { onToast('Enter an amount', 'error'); return }
+    if (user && amount > user.tokenBalance) { onToast(`You only hold ${formatWaves(user.tokenBalance)} ${card.symbol}`, 'error'); return }
+    const token = card.tokenAddress as `0x${string}`
+    run('stake', async () => {
+      if (!user || user.allowance < amount) {
+        await confirm(await writeContractAsync({
+          address: token, abi: CARD_TOKEN_ABI, functionName: 'approve', args: [WHIRLPOOL_ADDRESS, amount],
+        }))
+      }
+      await confirm(await writeContractAsync({
+        address: WHIRLPOOL_ADDRESS, abi: CARD_STAKING_ABI, functionName: 'stake', args: [BigInt(card.id), amount],
+      }))
+      setStakeAmount('')
+    }, `Staked ${stakeAmount} ${card.symbol}`)
+  }
+
+  const handleUnstake = () => {
+    const shares = ((user?.shares ?? 0n) * BigInt(unstakePercent)) / 100n
+    if (shares === 0n) { onToast('No stake to withdraw', 'error'); return }
+    run('unstake', async () => {
+      await confirm(await writeContractAsync({
+        address: WHIRLPOOL_ADDRESS, abi: CARD_STAKING_ABI, functionName: 'unstake', args: [BigInt(card.id), shares],
+      }))
+    }, `Unstaked ${unstakePercent}% of your ${card.symbol} stake`)
+  }
+
+  const handleSwapStake = () => {
+    const from = sources.find(c => c.id === fromCardId)
+    if (!from) { onToast('Select a source card', 'error'); return }
+    const shares = (from.userShares * BigInt(swapPercent)) / 100n
+    if (shares === 0n) { onToast('Zero shares', 'error'); return }
+    run('swap', async () => {
+      await confirm(await writeContractAsync({
+        address: WHIRLPOOL_ADDRESS, abi: CARD_STAKING_ABI, functionName: 'swapStake',
+        args: [BigInt(from.id), BigInt(card.id), shares],
+      }))
+      setFromCardId(null)
+    }, `Moved ${swapPercent}% of your #${from.id} stake into ${card.name}`)
+  }
+
+  const handleClaim = () => run('claim', async () => {
+    await confirm(await writeContractAsync({
+      address: WHIRLPOOL_ADDRESS, abi: CARD_STAKING_ABI, functionName: 'claimRewards', args: [BigInt(card.id)],
+    }))
+  }, `Claimed rewards from ${card.name}`)
+
+  const offline = history.error instanceof IndexerError && history.error.offline
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '16px' }}>
+      <Link to="/" style={{ fontSize: '13px', color: 'var(--text-secondary)', textDecoration: 'none' }}>← Explore</Link>
+
+      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(320px, 1fr))', gap: '16px', alignItems: 'start' }}>
+        {/* Art */}
+        <div style={{ borderRadius: '16px', overflow: 'hidden', border: card.degraded ? '1px dashed #ef4444' : '1px solid var(--border)' }}>
+          <CardArt card={card} labelSize={120} />
+        </div>
+
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '16px' }}>
+          <div>
+            <h1 style={{ fontSize: '28px', fontWeight: 700, color: 'var(--text-primary)', fontFamily: "'Inter Tight', sans-serif" }}>
+              {card.name || `Card #${card.id}`}
+            </h1>
+            <div style={{ fontSize: '13px', color: 'var(--text-muted)', fontFamily: "'DM Mono', monospace" }}>
+              #{card.id} · <FieldValue state={card.fields.symbol}>{card.symbol}</FieldValue>
+            </div>
+            <div style={{ marginTop: '8px', fontSize: '22px', fontWeight: 600, color: '#8b5cf6', fontFamily: "'DM Mono', monospace" }}>
+              <FieldValue state={card.fields.price}>{formatWaves(card.price, 4)} WAVES</FieldValue>
+            </div>
+          </div>
+
+          <Panel title="Pool">
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
+              <Row label="Owner">
+                <FieldValue state={card.fields.owner}>
+                  <span title={card.owner}>{isOwner ? '👑 You' : shortenAddress(card.owner)}</span>
+                </FieldValue>
+              </Row>
+              <Row label="Reserves (WAVES)"><FieldValue state={card.fields.reserves}>{formatWaves(card.reserves.waves)}</FieldValue></Row>
+              <Row label="Reserves (Cards)"><FieldValue state={card.fields.reserves}>{formatWaves(card.reserves.cards)}</FieldValue></Row>
+              <Row label="Staked">{position.data ? `${formatWaves(position.data.totalStaked)} ${card.symbol}` : '…'}</Row>
+              <Row label="Token">
+                <FieldValue state={card.fields.tokenAddress}><span title={card.tokenAddress}>{shortenAddress(card.tokenAddress)}</span></FieldValue>
+              </Row>
+            </div>
+            <Link to={swapPath(card.id)} style={{ display: 'inline-block', marginTop: '10px', fontSize: '13px', color: '#8b5cf6' }}>
+              🔁 Trade {card.symbol || 'this card'} →
+            </Link>
+          </Panel>
+
+          {meta && (meta.description || meta.attributes.length > 0) && (
+            <Panel title="Attributes">
+              {meta.description && (
+                <p style={{ fontSize: '13px', color: 'var(--text-secondary)', marginBottom: meta.attributes.length ? '10px' : 0 }}>
+                  {meta.description}
+                </p>
+              )}
+              <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(120px, 1fr))', gap: '6px' }}>
+                {meta.attributes.map((a, i) => (
+                  <div key={`${i}-${a.trait_type}`} title={String(a.value)} style={{ padding: '6px 8px', background: 'var(--bg-secondary)', borderRadius: '8px', minWidth: 0 }}>
+                    <div style={{ fontSize: '10px', color: 'var(--text-muted)', textTransform: 'uppercase', letterSpacing: '0.5px' }}>{a.trait_type}</div>
+                    <div style={{ fontSize: '12px', color: 'var(--text-primary)', fontFamily: "'DM Mono', monospace", overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                      {String(a.value)}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </Panel>
+          )}
+
+          <Panel title="Your position">
+            {!isConnected ? (
+              <p style={{ fontSize: '13px', color: 'var(--text-muted)' }}>Connect your wallet to stake</p>
+            ) : (
+              <div style={{ display: 'flex', flexDirection: 'column', gap: '10px' }}>
+                <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
+                  <Row label="LP shares">{user ? `${formatWaves(user.shares)} (${percentOf(user.shares, totalShares)})` : '…'}</Row>
+                  <Row label="Effective balance">{user ? `${formatWaves(user.effective)} ${card.symbol}` : '…'}</Row>
+                  <Row label="In wallet">{user ? `${formatWaves(user.tokenBalance)} ${card.symbol}` : '…'}</Row>
+                  <Row label="Pending rewards"><FieldValue state={card.fields.pendingRewards}>{formatWaves(card.pendingRewards)} WAVES</FieldValue></Row>
+                </div>
+
+                {/* Stake */}
+                <div style={{ display: 'flex', gap: '6px' }}>
+                  <input
+                    value={stakeAmount}
+                    onChange={e => setStakeAmount(e.target.value)}
+                    placeholder={`Amount of ${card.symbol || 'tokens'}`}
+                    inputMode="decimal"
+                    style={{ flex: 1, height: '34px', fontSize: '13px', borderRadius: '8px' }}
+                  />
+                  <button
+                    className="btn-secondary"
+                    onClick={() => user && setStakeAmount(formatUnits(user.tokenBalance, 18))}
+                    style={{ fontSize: '12px', padding: '4px 10px', borderRadius: '8px' }}
+                  >
+                    Max
+                  </button>
+                  <button onClick={handleStake} disabled={busy !== null} className="btn-primary" style={{ fontSize: '13px', borderRadius: '10px' }}>
+                    {busy === 'stake' ? 'Staking…' : user && stakeAmount && user.allowance < safeParse(stakeAmount) ? 'Approve & Stake' : 'Stake'}
+                  </button>
+                </div>
+
+                {/* Unstake */}
+                {user && user.shares > 0n && (
+                  <div style={{ display: 'flex', gap: '6px' }}>
+                    {PERCENTS.map(p => (
+                      <button
+                        key={p}
+                        className={`btn-secondary ${unstakePercent === p ? 'active' : ''}`}
+                        onClick={() => setUnstakePercent(p)}
+                        style={{ fontSize: '12px', padding: '3px 8px', flex: 1, borderRadius: '8px' }}
+                      >
+                        {p}%
+                      </button>
+                    ))}
+                    <button onClick={handleUnstake} disabled={busy !== null} className="btn-secondary" style={{ fontSize: '13px', borderRadius: '10px', flex: 2 }}>
+                      {busy === 'unstake' ? 'Unstaking…' : 'Unstake'}
+                    </button>
+                  </div>
+                )}
+
+                {/* Swap stake from another card into this one */}
+                <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
+                  <div style={{ display: 'flex', gap: '6px' }}>
+                    {PERCENTS.map(p => (
+                      <button
+                        key={p}
+                        className={`btn-secondary ${swapPercent === p ? 'active' : ''}`}
+                        onClick={() => setSwapPercent(p)}
+                        style={{ fontSize: '12px', padding: '3px 8px', flex: 1, borderRadius: '8px' }}
+                      >
+                        {p}%
+                      </button>
+                    ))}
+                  </div>
+                  <select
+                    value={fromCardId ?? ''}
+                    onChange={e => setFromCardId(e.target.value ? Number(e.target.value) : null)}
+                    style={{ width: '100%', height: '32px', fontSize: '12px', borderRadius: '8px' }}
+                  >
+                    <option value="">{sources.length ? 'Move stake from…' : 'No other staked cards loaded'}</option>
+                    {sources.map(c => (
+                      <option key={c.id} value={c.id}>#{c.id} {c.name} ({formatWaves(c.userShares)} shares)</option>
+                    ))}
+                  </select>
+                  <button onClick={handleSwapStake} disabled={busy !== null || fromCardId === null} className="btn-primary" style={{ fontSize: '13px', borderRadius: '10px' }}>
+                    {busy === 'swap' ? 'Swapping…' : '⚡ Swap Stake into this card'}
+                  </button>
+                </div>
+
+                {card.pendingRewards > 0n && (
+                  <button
+                    onClick={handleClaim}
+                    disabled={busy !== null}
+                    style={{
+                      padding: '6px', background: 'rgba(5, 223, 114, 0.1)', border: '1px solid #22C55E',
+                      borderRadius: '8px', color: '#22C55E', fontSize: '12px', fontWeight: 600, cursor: 'pointer',
+                    }}
+                  >
+                    {busy === 'claim' ? 'Claiming…' : `🎁 Claim ${formatWaves(card.pendingRewards)} WAVES`}
+                  </button>
+                )}
+              </div>
+            )}
+          </Panel>
+        </div>
+      </div>
+
+      <Panel title="Price history (WAVES)">
+        <div style={{ display: 'flex', gap: '4px', marginBottom: '8px' }}>
+          {CANDLE_INTERVALS.map(i => (
+            <button
+              key={i}
+              className={`btn-secondary ${interval === i ? 'active' : ''}`}
+              onClick={() => setChartInterval(i)}
+              style={{ fontSize: '11px', padding: '2px 8px', borderRadius: '6px' }}
+            >
+              {i}
+            </button>
+          ))}
+        </div>
+        {history.isLoading && <div style={{ height: 280, color: 'var(--text-muted)', fontSize: '13px' }}>Loading price history…</div>}
+        {history.error && (
+          <p style={{ fontSize: '13px', color: 'var(--text-secondary)' }}>
+            {offline
+              ? <>Price history comes from the event indexer, which isn't reachable. Start it with <code>cd indexer &amp;&amp; npm start</code>.</>
+              : history.error.message}
+          </p>
+        )}
+        {history.data && <PriceChart candles={history.data.candles} />}
+      </Panel>
+
+      <Panel title={`Top stakers${position.data ? ` (${position.data.stakers.length})` : ''}`}>
+        {position.isLoading && <p style={{ fontSize: '13px', color: 'var(--text-muted)' }}>Loading stakers…</p>}
+        {position.error && <p style={{ fontSize: '13px', color: '#ef4444' }}>Failed to load stakers: {position.error.message}</p>}
+        {position.data && (
+          <table style={{ width: '100%', fontSize: '13px', fontFamily: "'DM Mono', monospace", borderCollapse: 'collapse' }}>
+            <thead>
+              <tr style={{ color: 'var(--text-muted)', textAlign: 'left' }}>
+                <th style={{ padding: '4px 0', fontWeight: 400 }}>#</th>
+                <th style={{ fontWeight: 400 }}>Account</th>
+                <th style={{ fontWeight: 400, textAlign: 'right' }}>Shares</th>
+                <th style={{ fontWeight: 400, textAlign: 'right' }}>Effective</th>
+              </tr>
+            </thead>
+            <tbody>
+              {position.data.stakers.slice(0, 20).map((s, i) => {
+                const you = address && s.account.toLowerCase() === address.toLowerCase()
+                const owner = s.account.toLowerCase() === card.owner.toLowerCase()
+                return (
+                  <tr key={s.account} style={{ borderTop: '1px solid var(--border)', color: you ? '#8b5cf6' : 'var(--text-primary)' }}>
+                    <td style={{ padding: '6px 0' }}>{i + 1}</td>
+                    <td title={s.account}>{owner && '👑 '}{shortenAddress(s.account)}{you && ' (you)'}</td>
+                    <td style={{ textAlign: 'right' }}>{percentOf(s.shares, totalShares)}</td>
+                    <td style={{ textAlign: 'right' }}>{formatWaves(s.effective)}</td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        )}
+      </Panel>
+    </div>
+  )
+}
+
+function safeParse(amount: string): bigint {
+  try { return parseUnits(amount, 18) } catch { return 0n }
+}
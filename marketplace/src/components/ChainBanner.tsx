@@ -0,0 +1,44 @@
+import { useAccount, useSwitchChain } from 'wagmi'
+import { activeNetwork, chainRegistry } from '../lib/deployment'
+
+/**
+ * Warning strip shown while the connected wallet is on a different network
+ * than the one the marketplace reads from (`VITE_NETWORK`). Transactions sent
+ * from the wrong chain would target the wrong contracts, so offer a switch.
+ */
+export default function ChainBanner() {
+  const { isConnected, chainId } = useAccount()
+  const { switchChain, isPending } = useSwitchChain()
+
+  if (!isConnected || chainId === undefined || chainId === activeNetwork.chain.id) return null
+
+  const walletChain = chainRegistry.byChainId(chainId)?.chain.name ?? `chain ${chainId}`
+
+  return (
+    <div style={{
+      display: 'flex',
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'center',
+      gap: '12px',
+      padding: '10px 24px',
+      background: 'rgba(239, 68, 68, 0.08)',
+      borderBottom: '1px solid #ef4444',
+      fontSize: '14px',
+      color: 'var(--text-primary)',
+    }}>
+      <span>
+        ⚠️ Your wallet is on <strong>{walletChain}</strong>, but Whirlpool is running on{' '}
+        <strong>{activeNetwork.chain.name}</strong> ({activeNetwork.chain.id}).
+      </span>
+      <button
+        onClick={() => switchChain({ chainId: activeNetwork.chain.id })}
+        disabled={isPending}
+        className="btn-primary"
+        style={{ borderRadius: '10px', fontSize: '13px', padding: '6px 14px' }}
+      >
+        {isPending ? 'Switching…' : `Switch to ${activeNetwork.chain.name}`}
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,9 @@
+import type { ReactNode } from 'react'
+import type { FieldState } from '../hooks/useCards'
+
+/** Render a field's value only when it loaded; otherwise a placeholder with the failure reason as tooltip. */
+export default function FieldValue({ state, children }: { state: FieldState; children: ReactNode }) {
+  if (state.status === 'ok') return <>{children}</>
+  if (state.status === 'loading') return <span style={{ color: 'var(--text-muted)' }}>…</span>
+  return <span title={state.error} style={{ color: '#ef4444', cursor: 'help' }}>⚠ unavailable</span>
+}
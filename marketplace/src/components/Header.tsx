@@ -1,7 +1,7 @@
 import { useAccount, useConnect, useDisconnect, useBalance } from 'wagmi'
-import { shortenAddress, formatWaves } from '../lib/utils'
 import { useReadContract } from 'wagmi'
-import { WAVES_ABI, WAVES_ADDRESS } from '../lib/contracts'
+import { shortenAddress, formatWaves, WAVES_ABI } from '@whirlpool/sdk'
+import { WAVES_ADDRESS } from '../lib/deployment'
 
 export default function Header() {
   const { address, isConnected } = useAccount()
@@ -0,0 +1,21 @@
+import type { AnchorHTMLAttributes, MouseEvent } from 'react'
+import { href, navigate } from '../lib/router'
+
+interface LinkProps extends Omit<AnchorHTMLAttributes<HTMLAnchorElement>, 'href'> {
+  /** App-relative path, e.g. `/card/3` */
+  to: string
+}
+
+/**
+ * In-app link: a real `<a href>` (so it can be copied, opened in a new tab or
+ * shared) that navigates without a reload on a plain left click.
+ */
+export default function Link({ to, onClick, ...rest }: LinkProps) {
+  const handleClick = (e: MouseEvent<HTMLAnchorElement>) => {
+    onClick?.(e)
+    if (e.defaultPrevented || e.button !== 0 || e.metaKey || e.ctrlKey || e.shiftKey || e.altKey) return
+    e.preventDefault()
+    navigate(to)
+  }
+  return <a href={href(to)} onClick={handleClick} {...rest} />
+}
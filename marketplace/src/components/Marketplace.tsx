@@ -1,16 +1,15 @@
-import { useState, useMemo } from 'react'
+import { useState, useMemo, useEffect, useRef } from 'react'
 import { useAccount } from 'wagmi'
 import { useAllCards } from '../hooks/useCards'
+import type { CardData } from '../hooks/useCards'
 import Card from './Card'
 import Sidebar from './Sidebar'
 
-interface MarketplaceProps {
-  onToast: (msg: string, type: 'success' | 'error' | 'info') => void
-}
+const priceUnknown = (card: CardData) => (card.fields.price.status === 'ok' ? 0 : 1)
 
-export default function Marketplace({ onToast }: MarketplaceProps) {
+export default function Marketplace() {
   const { address } = useAccount()
-  const { cards, totalCards, isLoading } = useAllCards()
+  const { cards, totalCards, isLoading, hasMore, loadMore, isLoadingMore, degradedCount, retry } = useAllCards()
   const [sortBy, setSortBy] = useState('id')
   const [filterStaked, setFilterStaked] = useState(false)
   const [filterOwned, setFilterOwned] = useState(false)
@@ -20,14 +19,27 @@ export default function Marketplace({ onToast }: MarketplaceProps) {
     if (filterStaked) result = result.filter(c => c.userShares > 0n)
     if (filterOwned && address) result = result.filter(c => c.owner.toLowerCase() === address.toLowerCase())
     switch (sortBy) {
-      case 'price-asc': result.sort((a, b) => Number(a.price - b.price)); break
-      case 'price-desc': result.sort((a, b) => Number(b.price - a.price)); break
+      // Cards whose price failed to load sort last rather than as free cards
+      case 'price-asc': result.sort((a, b) => priceUnknown(a) - priceUnknown(b) || Number(a.price - b.price)); break
+      case 'price-desc': result.sort((a, b) => priceUnknown(a) - priceUnknown(b) || Number(b.price - a.price)); break
       case 'name': result.sort((a, b) => a.name.localeCompare(b.name)); break
       default: result.sort((a, b) => a.id - b.id)
     }
     return result
   }, [cards, sortBy, filterStaked, filterOwned, address])
 
+  // Infinite scroll: fetch the next page once the sentinel below the grid comes into view
+  const sentinelRef = useRef<HTMLDivElement>(null)
+  useEffect(() => {
+    const sentinel = sentinelRef.current
+    if (!sentinel || !hasMore) return
+    const observer = new IntersectionObserver(entries => {
+      if (entries[0]?.isIntersecting) loadMore()
+    }, { rootMargin: '400px' })
+    observer.observe(sentinel)
+    return () => observer.disconnect()
+  }, [hasMore, loadMore])
+
   return (
     <div style={{ display: 'flex', flexDirection: 'row', gap: '24px', width: '100%' }}>
       <div className="hidden lg:block">
@@ -52,10 +64,23 @@ export default function Marketplace({ onToast }: MarketplaceProps) {
 
         <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '16px' }}>
           <span style={{ fontSize: '14px', color: 'var(--text-muted)' }}>
-            {isLoading ? 'Loading...' : `${filtered.length} of ${totalCards} cards`}
+            {isLoading ? 'Loading...' : `${filtered.length} of ${totalCards} cards${hasMore ? ` (${cards.length} loaded)` : ''}`}
           </span>
         </div>
 
+        {degradedCount > 0 && (
+          <div style={{
+            display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '12px',
+            marginBottom: '16px', padding: '10px 14px', borderRadius: '12px',
+            background: 'rgba(239, 68, 68, 0.06)', border: '1px solid rgba(239, 68, 68, 0.3)', fontSize: '14px',
+          }}>
+            <span>⚠️ {degradedCount} card{degradedCount === 1 ? '' : 's'} could not be fully loaded — affected values are marked, not zeroed.</span>
+            <button onClick={() => retry()} className="btn-secondary" style={{ fontSize: '13px', borderRadius: '10px' }}>
+              ↻ Retry all
+            </button>
+          </div>
+        )}
+
         {isLoading ? (
           <div style={{ display: 'flex', justifyContent: 'center', padding: '60px 0' }}>
             <div style={{
@@ -73,10 +98,18 @@ export default function Marketplace({ onToast }: MarketplaceProps) {
         ) : (
           <div className="card-grid">
             {filtered.map(card => (
-              <Card key={card.id} card={card} allCards={cards} onToast={onToast} />
+              <Card key={card.id} card={card} onRetry={id => retry([id])} />
             ))}
           </div>
         )}
+
+        {!isLoading && hasMore && (
+          <div ref={sentinelRef} style={{ display: 'flex', justifyContent: 'center', padding: '24px 0' }}>
+            <button onClick={loadMore} disabled={isLoadingMore} className="btn-secondary" style={{ fontSize: '13px', borderRadius: '10px' }}>
+              {isLoadingMore ? 'Loading…' : `Load more (${totalCards - cards.length} remaining)`}
+            </button>
+          </div>
+        )}
       </div>
     </div>
   )
@@ -1,42 +1,141 @@
-/** Create page — card editor with part selector, live preview, and field editor */
-import { useState } from 'react'
-import { CARD_PARTS, createDefaultCard } from './editor/types'
-import type { CardEditorData } from './editor/types'
+/** Create page — card editor with part selector, live preview, field editor, undo history, autosaved drafts, templates, JSON import/export, image export, on-chain minting and batch minting */
+import { useMemo, useRef, useState } from 'react'
+import { useAccount } from 'wagmi'
+import { formatEther } from 'viem'
+import { deriveSymbol, shortenAddress } from '@whirlpool/sdk'
+import { CARD_PARTS, createDefaultCard, fieldAt } from './editor/types'
 import PartSelector from './editor/PartSelector'
 import PartEditor from './editor/PartEditor'
 import CardPreview from './editor/CardPreview'
+import CardExport from './editor/CardExport'
+import DraftLibrary from './editor/DraftLibrary'
+import CardFiles from './editor/CardFiles'
+import HistoryPanel from './editor/HistoryPanel'
+import TemplateGallery from './editor/TemplateGallery'
+import BatchMint from './BatchMint'
+import { MAX_TOKEN_URI_BYTES, useMintCard } from '../hooks/useMintCard'
+import type { MintStage } from '../hooks/useMintCard'
+import { useAutosave, useDraftLibrary } from '../hooks/useDrafts'
+import { useEditorHistory } from '../hooks/useEditorHistory'
+import { draftTitle, loadDraft, timeAgo } from '../lib/drafts'
+import { renderCardPng } from '../lib/cardExport'
+import type { ImportedCard } from '../lib/cardFiles'
+import { activeRuleset, checkCard } from '../lib/cardRules'
+import { cardFromTemplate } from '../lib/cardTemplates'
+import type { CardTemplate } from '../lib/cardTemplates'
+import { dataUriLength } from '../lib/metadata'
+import { metadataStorage } from '../lib/storage'
+import { setPath } from '../lib/paths'
+import { cardPath, navigate } from '../lib/router'
 
 interface MintCardProps {
-  onToast?: (msg: string, type: 'success' | 'error' | 'info') => void
+  onToast: (msg: string, type: 'success' | 'error' | 'info') => void
+}
+
+/** Editor label of a field path such as `name` or `stats.hp` */
+const fieldLabel = (path: string) => fieldAt(path)?.label ?? path.split('.').pop()!
+
+/** Width of the card render minted as the NFT image */
+const MINT_RENDER_WIDTH = 800
+
+const STAGE_LABELS: Partial<Record<MintStage, string>> = {
+  preparing: 'Checking the name…',
+  rendering: 'Rendering the card…',
+  uploading: `Storing metadata in ${metadataStorage.label}…`,
+  signing: 'Confirm the transaction in your wallet…',
+  pending: 'Waiting for confirmation…',
 }
 
 export default function MintCard({ onToast }: MintCardProps) {
-  const [card, setCard] = useState<CardEditorData>(createDefaultCard())
+  const history = useEditorHistory(createDefaultCard)
+  const { card } = history
   const [selectedPart, setSelectedPart] = useState<string>('identity')
+  const [symbol, setSymbol] = useState('')
+  const { isConnected } = useAccount()
+  const { mint, stage, hash, error, fee } = useMintCard()
+
+  // Drafts: a fresh ID per design; nothing is saved until the first edit
+  const [draftId, setDraftId] = useState<string>(() => crypto.randomUUID())
+  const [symbolEdited, setSymbolEdited] = useState(false)
+  const dirty = history.entries.length > 1 || symbolEdited
+  const [resumeDismissed, setResumeDismissed] = useState(false)
+  const [showTemplates, setShowTemplates] = useState(false)
+  const { drafts, add: addDrafts, remove: removeDraft } = useDraftLibrary()
+  const autosave = useAutosave(draftId, card, symbol, dirty)
+  const lastDraft = drafts[0]
+  const offerResume = !dirty && !resumeDismissed && !!lastDraft && lastDraft.id !== draftId
 
-  const updateField = (key: string, value: unknown) => {
-    setCard(prev => {
-      if (key.startsWith('stats.')) {
-        const statKey = key.split('.')[1]
-        return { ...prev, stats: { ...prev.stats, [statKey]: value } }
-      }
-      return { ...prev, [key]: value }
-    })
+  const cardRef = useRef<HTMLDivElement>(null)
+  const inline = metadataStorage.kind === 'inline'
+  // A rendered card is far too big for on-chain metadata, so inline storage mints the artwork
+  const [imageSource, setImageSource] = useState<'rendered' | 'artwork'>(inline ? 'artwork' : 'rendered')
+  const uriBytes = useMemo(() => (inline ? dataUriLength(card) : 0), [inline, card])
+  const effectiveSymbol = symbol.trim() || deriveSymbol(card.name)
+  const busy = stage !== 'idle' && stage !== 'confirmed' && stage !== 'failed'
+  const tooLarge = uriBytes > MAX_TOKEN_URI_BYTES
+  const violations = useMemo(() => checkCard(card), [card])
+  const feeLabel = fee === undefined ? '…' : `${formatEther(fee)} ETH`
+
+  const handleMint = async () => {
+    const preview = cardRef.current
+    const render = imageSource === 'rendered' && preview ? () => renderCardPng(preview, MINT_RENDER_WIDTH) : undefined
+    const cardId = await mint(card, effectiveSymbol, render)
+    if (cardId === undefined) return
+    onToast(`Minted ${card.name.trim()} as card #${cardId}`, 'success')
+    await autosave.flush()
+    await removeDraft(draftId).catch(() => {})
+    navigate(cardPath(cardId))
+  }
+
+  const openDraft = async (id: string) => {
+    setResumeDismissed(true)
+    if (id === draftId) return
+    try {
+      await autosave.flush()
+      const draft = await loadDraft(id)
+      if (!draft) { onToast('That draft no longer exists', 'error'); return }
+      history.reset(draft.card, `Opened ${draftTitle(draft)}`)
+      setSymbol(draft.symbol)
+      setDraftId(draft.id)
+      setSymbolEdited(false)
+    } catch (e) {
+      onToast((e as Error).message, 'error')
+    }
   }
 
-  const updateFields = (updates: Record<string, string | number>) => {
-    setCard(prev => {
-      const next = { ...prev, stats: { ...prev.stats } }
-      for (const [key, value] of Object.entries(updates)) {
-        if (key.startsWith('stats.')) {
-          const statKey = key.split('.')[1]
-          ;(next.stats as Record<string, unknown>)[statKey] = value
-        } else {
-          ;(next as Record<string, unknown>)[key] = value
-        }
-      }
-      return next
-    })
+  /** Save imported cards as drafts and open the first */
+  const importCards = async (imported: ImportedCard[]) => {
+    setResumeDismissed(true)
+    await autosave.flush()
+    const [first] = await addDrafts(imported.map(({ card }) => ({ card, symbol: '' })))
+    history.reset(imported[0].card, `Imported ${draftTitle(first)}`)
+    setSymbol('')
+    setDraftId(first.id)
+    setSymbolEdited(false)
+  }
+
+  const newDraft = async (start = createDefaultCard(), label = 'New card') => {
+    setResumeDismissed(true)
+    await autosave.flush()
+    history.reset(start, label)
+    setSymbol('')
+    setDraftId(crypto.randomUUID())
+    setSymbolEdited(false)
+  }
+
+  const newFromTemplate = async (template: CardTemplate) => {
+    setShowTemplates(false)
+    await newDraft(cardFromTemplate(template), `New from ${template.name}`)
+    setSelectedPart('identity')
+  }
+
+  // A `label` marks a discrete action; plain edits coalesce per field
+  const updateField = (key: string, value: unknown, label?: string) => {
+    history.apply(label ?? `Edit ${fieldLabel(key)}`, prev => setPath(prev, key, value), label ? undefined : key)
+  }
+
+  const updateFields = (updates: Record<string, unknown>, label = 'Edit fields') => {
+    history.apply(label, prev => Object.entries(updates).reduce((next, [key, value]) => setPath(next, key, value), prev))
   }
 
   return (
@@ -46,8 +145,29 @@ export default function MintCard({ onToast }: MintCardProps) {
       </h1>
       <p className="text-sm text-gray-500 mb-8">
         Design your Whirlpool card with the editor below.
+        <span className="ml-2 text-xs text-gray-400">
+          {autosave.status === 'saving' && 'Saving draft…'}
+          {autosave.status === 'saved' && autosave.savedAt && `Draft saved at ${new Date(autosave.savedAt).toLocaleTimeString()}`}
+        </span>
+        {autosave.status === 'failed' && <span className="ml-2 text-xs text-red-600">⚠ Draft not saved: {autosave.error}</span>}
       </p>
 
+      {offerResume && (
+        <div className="mb-6 p-4 bg-violet-50 border border-violet-200 flex flex-wrap items-center justify-between gap-3">
+          <span className="text-sm text-violet-900">
+            Resume your last draft, <strong>{draftTitle(lastDraft)}</strong>, edited {timeAgo(lastDraft.updatedAt)}?
+          </span>
+          <span className="flex gap-2">
+            <button onClick={() => openDraft(lastDraft.id)} className="btn-primary text-sm px-4 py-1.5">Resume</button>
+            <button onClick={() => setResumeDismissed(true)} className="text-sm px-4 py-1.5 text-gray-600 hover:text-gray-900">Start fresh</button>
+          </span>
+        </div>
+      )}
+
+      {showTemplates && (
+        <TemplateGallery card={card} onPick={newFromTemplate} onClose={() => setShowTemplates(false)} onToast={onToast} />
+      )}
+
       {/* Editor layout — CSS Grid for true center preview */}
       <div className="flex flex-col lg:flex-row gap-6 items-start w-full justify-evenly">
         {/* Part selector */}
@@ -59,17 +179,44 @@ export default function MintCard({ onToast }: MintCardProps) {
               onSelectPart={setSelectedPart}
             />
           </div>
+          <div className="mt-6 bg-white border border-gray-200 rounded-none overflow-hidden shadow-sm">
+            <DraftLibrary
+              currentId={draftId}
+              onOpen={openDraft}
+              onNew={() => newDraft()}
+              onNewFromTemplate={() => setShowTemplates(true)}
+              onToast={onToast}
+            />
+          </div>
+          <div className="mt-6 bg-white border border-gray-200 rounded-none overflow-hidden shadow-sm">
+            <CardFiles card={card} onImport={importCards} onToast={onToast} />
+          </div>
+          <div className="mt-6 bg-white border border-gray-200 rounded-none overflow-hidden shadow-sm">
+            <HistoryPanel
+              entries={history.entries}
+              index={history.index}
+              canUndo={history.canUndo}
+              canRedo={history.canRedo}
+              onUndo={history.undo}
+              onRedo={history.redo}
+              onJump={history.jumpTo}
+            />
+          </div>
         </div>
 
         {/* Preview — true center column */}
         <div className="flex-1 flex justify-center items-start">
-          <CardPreview card={card} />
+          <div>
+            <CardPreview card={card} cardRef={cardRef} violations={violations} />
+            <CardExport cardRef={cardRef} fileName={deriveSymbol(card.name).toLowerCase() || 'card'} onToast={onToast} />
+          </div>
         </div>
 
         {/* Part editor */}
         <div className="w-full lg:w-[320px] lg:shrink-0">
           <div className="bg-white border border-gray-200 rounded-none overflow-hidden shadow-sm">
             <PartEditor
+              key={draftId}
               part={selectedPart}
               partSchema={CARD_PARTS[selectedPart]}
               card={card}
@@ -78,14 +225,93 @@ export default function MintCard({ onToast }: MintCardProps) {
             />
           </div>
 
-          {/* Mint Coming Soon */}
-          <div className="mt-6 p-5 rounded-2xl bg-amber-50 border border-amber-200 text-center">
-            <p className="text-lg font-bold text-amber-800" style={{ fontFamily: 'Inter Tight, sans-serif' }}>
-              🌊 Minting Coming Soon
+          {/* Mint */}
+          <div className="mt-6 bg-white border border-gray-200 rounded-none shadow-sm p-5">
+            <p className="text-lg font-bold text-gray-900" style={{ fontFamily: 'Inter Tight, sans-serif' }}>
+              🌊 Mint Card
             </p>
-            <p className="text-sm text-amber-600 mt-2">
-              On-chain card minting is under development. Design your card now — you'll be able to mint it when we launch.
+            <p className="text-sm text-gray-500 mt-1 mb-4">
+              Deploys the card's token, seeds its pool and mints its NFT to you.
             </p>
+
+            <label className="block text-xs font-medium text-gray-600 mb-1" htmlFor="mint-symbol">Token Symbol</label>
+            <input
+              id="mint-symbol"
+              data-native-undo
+              value={symbol}
+              onChange={e => { setSymbol(e.target.value.toUpperCase()); setSymbolEdited(true) }}
+              placeholder={deriveSymbol(card.name) || 'e.g. SUNSET'}
+              maxLength={11}
+              disabled={busy}
+              className="w-full px-3 py-2 border border-gray-200 text-sm font-mono focus:outline-none focus:border-violet-400"
+            />
+
+            <span className="block text-xs font-medium text-gray-600 mt-4 mb-1">NFT Image</span>
+            <div className="flex gap-4 text-sm text-gray-700">
+              {(['rendered', 'artwork'] as const).map(source => (
+                <label key={source} className="flex items-center gap-1.5 cursor-pointer">
+                  <input
+                    type="radio"
+                    name="mint-image"
+                    checked={imageSource === source}
+                    onChange={() => setImageSource(source)}
+                    disabled={busy}
+                    className="accent-violet-600"
+                  />
+                  {source === 'rendered' ? 'Rendered card' : 'Artwork only'}
+                </label>
+              ))}
+            </div>
+            {inline && imageSource === 'rendered' && (
+              <p className="mt-1 text-xs text-amber-700">The render is added to the on-chain metadata when minting and rarely fits.</p>
+            )}
+
+            <div className="mt-4 space-y-1 text-xs text-gray-500 font-mono">
+              <div className="flex justify-between"><span>Mint fee</span><span className="text-gray-900">{feeLabel}</span></div>
+              {inline ? (
+                <div className="flex justify-between">
+                  <span>Metadata (on-chain)</span>
+                  <span className={tooLarge ? 'text-red-600' : 'text-gray-900'}>
+                    {(uriBytes / 1024).toFixed(1)} / {MAX_TOKEN_URI_BYTES / 1024} KB
+                  </span>
+                </div>
+              ) : (
+                <div className="flex justify-between gap-3">
+                  <span>Metadata</span>
+                  <span className="text-gray-900 text-right">{metadataStorage.label}</span>
+                </div>
+              )}
+            </div>
+            {tooLarge && (
+              <p className="mt-2 text-xs text-red-600">The image is too large to store on-chain — upload a smaller one, or set VITE_METADATA_STORAGE to store it off-chain.</p>
+            )}
+
+            <button
+              onClick={handleMint}
+              disabled={!isConnected || busy || tooLarge || violations.length > 0 || !card.name.trim() || !effectiveSymbol}
+              className="btn-primary w-full mt-4 py-2.5 text-sm font-semibold"
+            >
+              {busy ? 'Minting…' : `Mint for ${feeLabel}`}
+            </button>
+
+            {!isConnected && <p className="mt-2 text-xs text-gray-500 text-center">Connect a wallet to mint.</p>}
+            {isConnected && !card.name.trim() && <p className="mt-2 text-xs text-gray-500 text-center">Give the card a name to mint it.</p>}
+            {violations.length > 0 && activeRuleset && (
+              <p className="mt-2 text-xs text-red-600 text-center">
+                Breaks {violations.length} {activeRuleset.label} v{activeRuleset.version} rule{violations.length === 1 ? '' : 's'} — see the preview.
+              </p>
+            )}
+
+            {(busy || stage === 'failed') && (
+              <div className={`mt-3 p-3 text-xs ${stage === 'failed' ? 'bg-red-50 text-red-700' : 'bg-violet-50 text-violet-700'}`}>
+                {stage === 'failed' ? `✗ ${error}` : STAGE_LABELS[stage]}
+                {hash && <div className="mt-1 font-mono text-gray-500">tx {shortenAddress(hash)}</div>}
+              </div>
+            )}
+          </div>
+
+          <div className="mt-6 bg-white border border-gray-200 rounded-none shadow-sm p-5">
+            <BatchMint onToast={onToast} />
           </div>
         </div>
       </div>
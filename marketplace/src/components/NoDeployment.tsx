@@ -0,0 +1,28 @@
+import { activeNetwork } from '../lib/deployment'
+
+/**
+ * Shown instead of the app when the active network has no usable deployment
+ * (see `lib/deployment.ts`): every contract call would fail, so say why and
+ * how to fix it rather than render pages of errors.
+ */
+export default function NoDeployment({ error }: { error: string }) {
+  return (
+    <div style={{ minHeight: '100vh', display: 'flex', alignItems: 'center', justifyContent: 'center', padding: '24px', background: 'var(--bg-primary)' }}>
+      <div style={{ maxWidth: '640px', padding: '28px', border: '1px solid var(--border)', borderRadius: '16px', background: 'var(--bg-card)' }}>
+        <h1 style={{ margin: '0 0 12px', fontSize: '20px', fontWeight: 700, color: 'var(--text-primary)', fontFamily: "'Inter Tight', sans-serif" }}>
+          ⚠️ Whirlpool isn't deployed on {activeNetwork.chain.name}
+        </h1>
+        <p style={{ margin: '0 0 16px', fontSize: '14px', color: 'var(--text-secondary)' }}>
+          The marketplace reads from chain {activeNetwork.chain.id} (<code>VITE_NETWORK={activeNetwork.name}</code>), but
+          no broadcast manifest for it could be used:
+        </p>
+        <pre style={{
+          margin: 0, padding: '12px 14px', whiteSpace: 'pre-wrap', wordBreak: 'break-word',
+          background: 'var(--bg-secondary)', borderRadius: '10px', fontSize: '12px', color: 'var(--text-primary)', fontFamily: "'DM Mono', monospace",
+        }}>
+          {error}
+        </pre>
+      </div>
+    </div>
+  )
+}
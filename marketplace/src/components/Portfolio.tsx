@@ -1,16 +1,18 @@
+import { useEffect } from 'react'
 import { motion } from 'framer-motion'
 import { useAccount } from 'wagmi'
 import { useAllCards } from '../hooks/useCards'
-import { formatWaves } from '../lib/utils'
+import { formatWaves } from '@whirlpool/sdk'
 import Card from './Card'
 
-interface PortfolioProps {
-  onToast: (msg: string, type: 'success' | 'error' | 'info') => void
-}
-
-export default function Portfolio({ onToast }: PortfolioProps) {
+export default function Portfolio() {
   const { address, isConnected } = useAccount()
-  const { cards } = useAllCards()
+  const { cards, totalCards, hasMore, loadMore, retry } = useAllCards()
+
+  // Staked/owned cards can be anywhere in the ID range, so keep paging until every card is loaded
+  useEffect(() => {
+    if (isConnected && hasMore) loadMore()
+  }, [isConnected, hasMore, loadMore, cards.length])
 
   if (!isConnected) {
     return (
@@ -63,14 +65,20 @@ export default function Portfolio({ onToast }: PortfolioProps) {
         ))}
       </div>
 
+      {hasMore && (
+        <p style={{ fontSize: '13px', color: 'var(--text-muted)', marginBottom: '16px' }}>
+          Scanning cards… {cards.length} of {totalCards}
+        </p>
+      )}
+
       {portfolioCards.length === 0 ? (
         <div style={{ textAlign: 'center', padding: '40px', color: 'var(--text-muted)' }}>
-          <p>No staked or owned cards yet</p>
+          <p>{hasMore ? 'Looking for your cards…' : 'No staked or owned cards yet'}</p>
         </div>
       ) : (
         <div className="card-grid">
           {portfolioCards.map(card => (
-            <Card key={card.id} card={card} allCards={cards} onToast={onToast} />
+            <Card key={card.id} card={card} onRetry={id => retry([id])} />
           ))}
         </div>
       )}
@@ -0,0 +1,114 @@
+import { useState } from 'react'
+import { formatUnits } from 'viem'
+import { formatWaves } from '@whirlpool/sdk'
+import type { Candle } from '../lib/indexer'
+
+interface PriceChartProps {
+  candles: Candle[]
+  height?: number
+}
+
+const WIDTH = 640
+const AXIS = 64
+const VOLUME_SHARE = 0.2
+const UP = '#22C55E'
+const DOWN = '#ef4444'
+
+const toNumber = (wei: string) => Number(formatUnits(BigInt(wei), 18))
+
+function formatTime(time: number, spanSeconds: number) {
+  const date = new Date(time * 1000)
+  return spanSeconds > 2 * 86_400
+    ? date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })
+    : date.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })
+}
+
+/**
+ * Candlestick chart of a card's WAVES price with volume bars underneath.
+ * Plain SVG scaled to its container's width; hover a candle for its OHLC.
+ */
+export default function PriceChart({ candles, height = 280 }: PriceChartProps) {
+  const [hover, setHover] = useState<number | null>(null)
+
+  if (candles.length === 0) {
+    return (
+      <div style={{ height, display: 'flex', alignItems: 'center', justifyContent: 'center', color: 'var(--text-muted)', fontSize: '13px' }}>
+        No trades yet
+      </div>
+    )
+  }
+
+  const priceHeight = height * (1 - VOLUME_SHARE) - 24
+  const volumeTop = priceHeight + 8
+  const volumeHeight = height * VOLUME_SHARE - 8
+
+  const highs = candles.map(c => toNumber(c.high))
+  const lows = candles.map(c => toNumber(c.low))
+  let max = Math.max(...highs)
+  let min = Math.min(...lows)
+  if (max === min) { max *= 1.05; min *= 0.95 }
+  if (max === min) { max = 1; min = 0 }
+  const maxVolume = Math.max(...candles.map(c => toNumber(c.volume)), 0)
+
+  const slot = (WIDTH - AXIS) / candles.length
+  const body = Math.max(1, slot * 0.6)
+  const y = (value: number) => ((max - value) / (max - min)) * priceHeight
+  const span = candles[candles.length - 1].time - candles[0].time
+  const ticks = [0, 0.25, 0.5, 0.75, 1].map(t => min + (max - min) * t)
+  const labelEvery = Math.max(1, Math.ceil(candles.length / 6))
+  const active = hover === null ? candles[candles.length - 1] : candles[hover]
+
+  return (
+    <div>
+      {/* OHLC readout for the hovered (or latest) candle */}
+      <div style={{ display: 'flex', gap: '12px', flexWrap: 'wrap', fontSize: '12px', fontFamily: "'DM Mono', monospace", color: 'var(--text-secondary)', marginBottom: '8px' }}>
+        <span>{new Date(active.time * 1000).toLocaleString()}</span>
+        <span>O {formatWaves(BigInt(active.open), 4)}</span>
+        <span>H {formatWaves(BigInt(active.high), 4)}</span>
+        <span>L {formatWaves(BigInt(active.low), 4)}</span>
+        <span style={{ color: BigInt(active.close) >= BigInt(active.open) ? UP : DOWN }}>C {formatWaves(BigInt(active.close), 4)}</span>
+        <span>Vol {formatWaves(BigInt(active.volume))} · {active.trades} trade{active.trades === 1 ? '' : 's'}</span>
+      </div>
+
+      <svg
+        viewBox={`0 0 ${WIDTH} ${height}`}
+        style={{ width: '100%', height: 'auto', display: 'block' }}
+        onMouseLeave={() => setHover(null)}
+      >
+        {ticks.map(t => (
+          <g key={t}>
+            <line x1={0} x2={WIDTH - AXIS} y1={y(t)} y2={y(t)} stroke="var(--border)" strokeDasharray="2 4" />
+            <text x={WIDTH - AXIS + 6} y={y(t) + 4} fontSize="10" fill="var(--text-muted)" fontFamily="'DM Mono', monospace">
+              {t.toPrecision(4)}
+            </text>
+          </g>
+        ))}
+
+        {candles.map((c, i) => {
+          const open = toNumber(c.open)
+          const close = toNumber(c.close)
+          const color = close >= open ? UP : DOWN
+          const cx = i * slot + slot / 2
+          const top = y(Math.max(open, close))
+          const volume = maxVolume > 0 ? (toNumber(c.volume) / maxVolume) * volumeHeight : 0
+          return (
+            <g key={c.time} onMouseEnter={() => setHover(i)}>
+              {/* Full-height hit area so thin candles are easy to hover */}
+              <rect x={i * slot} y={0} width={slot} height={height} fill={hover === i ? 'rgba(139, 92, 246, 0.06)' : 'transparent'} />
+              <line x1={cx} x2={cx} y1={y(toNumber(c.high))} y2={y(toNumber(c.low))} stroke={color} />
+              <rect x={cx - body / 2} y={top} width={body} height={Math.max(1, y(Math.min(open, close)) - top)} fill={color} />
+              {volume > 0 && (
+                <rect x={cx - body / 2} y={volumeTop + volumeHeight - volume} width={body} height={volume} fill={color} opacity={0.35} />
+              )}
+              {i % labelEvery === 0 && (
+                <text x={cx} y={height - 4} fontSize="10" textAnchor="middle" fill="var(--text-muted)" fontFamily="'DM Mono', monospace">
+                  {formatTime(c.time, span)}
+                </text>
+              )}
+            </g>
+          )
+        })}
+      </svg>
+    </div>
+  )
+}
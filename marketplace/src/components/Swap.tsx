@@ -0,0 +1,258 @@
+import { useEffect, useState } from 'react'
+import type { ReactNode } from 'react'
+import { useAccount } from 'wagmi'
+import { formatUnits, parseUnits } from 'viem'
+import { DEFAULT_SLIPPAGE_BPS, SWAP_FEE_BPS, formatWaves, minAmountOut } from '@whirlpool/sdk'
+import type { SwapAsset } from '@whirlpool/sdk'
+import { useAllCards } from '../hooks/useCards'
+import { QUOTE_REFRESH_MS, WAVES_TOKEN, WETH_TOKEN, cardSwapToken, useSwap, useSwapBalances, useSwapQuote } from '../hooks/useSwap'
+import type { SwapStage, SwapToken } from '../hooks/useSwap'
+import { cardPath } from '../lib/router'
+import Link from './Link'
+
+interface SwapProps {
+  /** Card to buy, from `/swap/:id` */
+  cardId?: number
+  onToast: (msg: string, type: 'success' | 'error' | 'info') => void
+}
+
+/** Tolerance presets, in basis points */
+const SLIPPAGE_PRESETS = [10, 50, 100]
+/** Above these the page warns before you swap */
+const HIGH_SLIPPAGE_BPS = 500
+const HIGH_IMPACT_BPS = 500
+
+const STAGE_LABELS: Partial<Record<SwapStage, string>> = {
+  approving: 'Approving…',
+  signing: 'Confirm in your wallet…',
+  pending: 'Swapping…',
+}
+
+const safeParse = (value: string) => {
+  try { return value ? parseUnits(value, 18) : 0n } catch { return 0n }
+}
+
+/** `0.30%` */
+const percent = (bps: number) => `${(bps / 100).toFixed(2)}%`
+
+function Row({ label, children, tone }: { label: string; children: ReactNode; tone?: 'warn' | 'bad' }) {
+  return (
+    <div style={{ display: 'flex', justifyContent: 'space-between', gap: '12px', fontSize: '13px', fontFamily: "'DM Mono', monospace" }}>
+      <span style={{ color: 'var(--text-muted)' }}>{label}</span>
+      <span style={{ color: tone === 'bad' ? '#ef4444' : tone === 'warn' ? '#f59e0b' : 'var(--text-primary)', textAlign: 'right' }}>{children}</span>
+    </div>
+  )
+}
+
+function TokenSelect({ value, tokens, loading, onChange }: { value: string; tokens: SwapToken[]; loading: boolean; onChange: (key: string) => void }) {
+  const cards = tokens.filter(t => t.asset.kind === 'card')
+  return (
+    <select
+      value={value}
+      onChange={e => onChange(e.target.value)}
+      style={{ width: '170px', height: '40px', fontSize: '13px', borderRadius: '10px', fontWeight: 600 }}
+    >
+      {!value && <option value="">Select a token</option>}
+      <optgroup label="Tokens">
+        {tokens.filter(t => t.asset.kind !== 'card').map(t => <option key={t.key} value={t.key}>{t.symbol}</option>)}
+      </optgroup>
+      <optgroup label={loading ? `Cards (loading ${cards.length}…)` : 'Cards'}>
+        {cards.map(t => <option key={t.key} value={t.key}>{t.symbol} — {t.name}</option>)}
+      </optgroup>
+    </select>
+  )
+}
+
+/**
+ * Swap page for `/swap`: trade WAVES, WETH and any card's token through
+ * `SurfSwap.swapExact`, with a quote refreshed from the pools' reserves, the
+ * route through the WAVES hub, price impact, fees, and a slippage tolerance
+ * that sets the swap's `minAmountOut`.
+ */
+export default function Swap({ cardId, onToast }: SwapProps) {
+  const { isConnected } = useAccount()
+  const { cards, hasMore, loadMore } = useAllCards()
+  const [fromKey, setFromKey] = useState(WAVES_TOKEN.key)
+  const [toKey, setToKey] = useState(cardId !== undefined ? `card-${cardId}` : '')
+  const [amount, setAmount] = useState('')
+  const [slippage, setSlippage] = useState(String(DEFAULT_SLIPPAGE_BPS / 100))
+
+  // Any card can be picked, so keep paging until the selector lists them all
+  useEffect(() => {
+    if (hasMore) loadMore()
+  }, [hasMore, loadMore, cards.length])
+
+  const tokens = [
+    WAVES_TOKEN,
+    WETH_TOKEN,
+    ...cards.filter(c => c.fields.tokenAddress.status === 'ok' && c.fields.symbol.status === 'ok').map(cardSwapToken),
+  ]
+  const from = tokens.find(t => t.key === fromKey)
+  const to = tokens.find(t => t.key === toKey)
+  const amountIn = safeParse(amount)
+  const slippageBps = Math.round(Number(slippage) * 100)
+  const slippageValid = slippage.trim() !== '' && Number.isInteger(slippageBps) && slippageBps >= 0 && slippageBps < 5_000
+
+  const { quote, error, isLoading } = useSwapQuote(from, to, amountIn)
+  const { data: balances } = useSwapBalances(from, to)
+  const { swap, stage } = useSwap()
+  const busy = stage === 'approving' || stage === 'signing' || stage === 'pending'
+
+  const symbolOf = (asset: SwapAsset) =>
+    asset.kind === 'card' ? tokens.find(t => t.asset.kind === 'card' && t.asset.cardId === asset.cardId)?.symbol ?? `#${asset.cardId}` : asset.kind.toUpperCase()
+
+  const pick = (side: 'from' | 'to', key: string) => {
+    // Picking the other side's token flips the pair rather than quoting a token against itself
+    const [set, other, setOther] = side === 'from' ? [setFromKey, toKey, setToKey] : [setToKey, fromKey, setFromKey]
+    if (key === other) setOther(side === 'from' ? fromKey : toKey)
+    set(key)
+  }
+
+  const flip = () => {
+    if (!toKey) return
+    setFromKey(toKey)
+    setToKey(fromKey)
+    if (quote) setAmount(formatUnits(quote.amountOut, 18))
+  }
+
+  const insufficient = !!balances && amountIn > balances.balanceIn
+  const needsApproval = !!balances && balances.allowance < amountIn
+  const impactTone = quote && quote.priceImpactBps >= HIGH_IMPACT_BPS * 3 ? 'bad' : quote && quote.priceImpactBps >= HIGH_IMPACT_BPS ? 'warn' : undefined
+
+  const blocker = !isConnected ? 'Connect a wallet to swap'
+    : !from || !to ? 'Select a token'
+      : amountIn === 0n ? 'Enter an amount'
+        : error ?? (insufficient ? `Not enough ${from.symbol}`
+          : !slippageValid ? 'Set a slippage tolerance below 50%'
+            : !quote ? 'Fetching a quote…' : undefined)
+
+  const handleSwap = async () => {
+    if (!from || !to || !quote) return
+    try {
+      await swap(from, to, quote, slippageBps)
+      onToast(`Swapped ${formatWaves(quote.amountIn)} ${from.symbol} for ~${formatWaves(quote.amountOut)} ${to.symbol}`, 'success')
+      setAmount('')
+    } catch (e) {
+      onToast((e as Error).message.slice(0, 120), 'error')
+    }
+  }
+
+  return (
+    <div style={{ maxWidth: '480px', margin: '0 auto' }}>
+      <h1 style={{ fontSize: '24px', fontWeight: 700, color: 'var(--text-primary)', marginBottom: '4px', fontFamily: "'Inter Tight', sans-serif" }}>Swap</h1>
+      <p style={{ fontSize: '13px', color: 'var(--text-muted)', marginBottom: '16px' }}>
+        Trade WAVES, WETH and card tokens. Every pool pairs with WAVES, so cards and WETH route through it.
+      </p>
+
+      <section style={{ background: 'var(--bg-card)', border: '1px solid var(--border)', borderRadius: '16px', padding: '16px', display: 'flex', flexDirection: 'column', gap: '10px' }}>
+        {/* From */}
+        <div style={{ background: 'var(--bg-secondary)', borderRadius: '12px', padding: '12px' }}>
+          <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '12px', color: 'var(--text-muted)', marginBottom: '6px' }}>
+            <span>You pay</span>
+            {balances && from && (
+              <button
+                onClick={() => setAmount(formatUnits(balances.balanceIn, 18))}
+                style={{ background: 'none', border: 'none', padding: 0, color: 'var(--text-muted)', fontSize: '12px', cursor: 'pointer' }}
+                title="Use your whole balance"
+              >
+                Balance: {formatWaves(balances.balanceIn)} {from.symbol} · Max
+              </button>
+            )}
+          </div>
+          <div style={{ display: 'flex', gap: '8px' }}>
+            <input
+              value={amount}
+              onChange={e => setAmount(e.target.value)}
+              placeholder="0.0"
+              inputMode="decimal"
+              aria-label="Amount to pay"
+              style={{ flex: 1, minWidth: 0, height: '40px', fontSize: '18px', borderRadius: '10px', fontFamily: "'DM Mono', monospace" }}
+            />
+            <TokenSelect value={fromKey} tokens={tokens} loading={hasMore} onChange={key => pick('from', key)} />
+          </div>
+        </div>
+
+        <button onClick={flip} className="btn-secondary" style={{ alignSelf: 'center', borderRadius: '10px', padding: '4px 12px' }} title="Switch sides">
+          ⇅
+        </button>
+
+        {/* To */}
+        <div style={{ background: 'var(--bg-secondary)', borderRadius: '12px', padding: '12px' }}>
+          <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '12px', color: 'var(--text-muted)', marginBottom: '6px' }}>
+            <span>You receive (estimated)</span>
+            {balances && to && <span>Balance: {formatWaves(balances.balanceOut)} {to.symbol}</span>}
+          </div>
+          <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+            <div style={{ flex: 1, minWidth: 0, fontSize: '18px', fontFamily: "'DM Mono', monospace", color: quote ? 'var(--text-primary)' : 'var(--text-muted)', overflow: 'hidden', textOverflow: 'ellipsis' }}>
+              {quote ? formatWaves(quote.amountOut, 6) : isLoading && amountIn > 0n ? '…' : '0.0'}
+            </div>
+            <TokenSelect value={toKey} tokens={tokens} loading={hasMore} onChange={key => pick('to', key)} />
+          </div>
+          {to?.asset.kind === 'card' && (
+            <Link to={cardPath(to.asset.cardId)} style={{ fontSize: '12px', color: '#8b5cf6' }}>View {to.symbol} →</Link>
+          )}
+        </div>
+
+        {/* Slippage */}
+        <div style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '12px', color: 'var(--text-muted)' }}>
+          <span style={{ marginRight: 'auto' }}>Slippage tolerance</span>
+          {SLIPPAGE_PRESETS.map(bps => (
+            <button
+              key={bps}
+              className={`btn-secondary ${slippageValid && slippageBps === bps ? 'active' : ''}`}
+              onClick={() => setSlippage(String(bps / 100))}
+              style={{ fontSize: '12px', padding: '3px 8px', borderRadius: '8px' }}
+            >
+              {bps / 100}%
+            </button>
+          ))}
+          <input
+            value={slippage}
+            onChange={e => setSlippage(e.target.value)}
+            inputMode="decimal"
+            aria-label="Slippage tolerance in percent"
+            style={{ width: '56px', height: '28px', fontSize: '12px', borderRadius: '8px', textAlign: 'right' }}
+          />
+          <span>%</span>
+        </div>
+        {slippageValid && slippageBps >= HIGH_SLIPPAGE_BPS && (
+          <p style={{ fontSize: '12px', color: '#f59e0b' }}>⚠ High tolerance: the swap may fill well below the quote.</p>
+        )}
+
+        {/* Quote details */}
+        {quote && from && to && (
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '6px', padding: '10px 2px', borderTop: '1px solid var(--border)' }}>
+            <Row label="Rate">
+              1 {from.symbol} ≈ {(Number(formatUnits(quote.amountOut, 18)) / Number(formatUnits(quote.amountIn, 18))).toPrecision(6)} {to.symbol}
+            </Row>
+            <Row label="Route">{quote.route.map(symbolOf).join(' → ')}</Row>
+            <Row label="Price impact" tone={impactTone}>{percent(quote.priceImpactBps)}</Row>
+            <Row label="Fees">
+              <span title={`${SWAP_FEE_BPS} bps on the way in, and again on WAVES out when selling into WAVES`}>{percent(quote.feeBps)}</span>
+            </Row>
+            {slippageValid && (
+              <Row label={`Minimum received (${percent(slippageBps)})`}>
+                {formatWaves(minAmountOut(quote.amountOut, slippageBps), 6)} {to.symbol}
+              </Row>
+            )}
+          </div>
+        )}
+        {impactTone === 'bad' && (
+          <p style={{ fontSize: '12px', color: '#ef4444' }}>⚠ This trade moves the price by {percent(quote!.priceImpactBps)} — consider a smaller amount.</p>
+        )}
+
+        <button
+          onClick={handleSwap}
+          disabled={!!blocker || busy}
+          className="btn-primary"
+          style={{ height: '44px', fontSize: '15px', borderRadius: '12px' }}
+        >
+          {STAGE_LABELS[stage] ?? blocker ?? (needsApproval ? `Approve ${from?.symbol} & Swap` : 'Swap')}
+        </button>
+        <p style={{ fontSize: '11px', color: 'var(--text-muted)', textAlign: 'center' }}>
+          Quotes refresh every {QUOTE_REFRESH_MS / 1000}s. The swap reverts if it would pay less than the minimum received.
+        </p>
+      </section>
+    </div>
+  )
+}
@@ -2,7 +2,10 @@
 import { useState, useCallback } from 'react'
 import { useAccount, useWriteContract } from 'wagmi'
 import { parseEther } from 'viem'
-import { ROUTER_ADDRESS, ROUTER_ABI } from '../../lib/contracts'
+import { ROUTER_ABI } from '@whirlpool/sdk'
+import { checkCard } from '../../lib/cardRules'
+import { ROUTER_ADDRESS } from '../../lib/deployment'
+import { setPath } from '../../lib/paths'
 import { CARD_PARTS, createDefaultCard } from './types'
 import type { CardEditorData } from './types'
 import PartSelector from './PartSelector'
@@ -20,33 +23,14 @@ export default function CardEditor({ onToast }: CardEditorProps) {
   const [card, setCard] = useState<CardEditorData>(createDefaultCard)
   const [selectedPart, setSelectedPart] = useState('identity')
   const [mintStatus, setMintStatus] = useState<'idle' | 'success' | 'error'>('idle')
+  const violations = checkCard(card)
 
-  const updateField = useCallback((key: string, value: string | number) => {
-    setCard(prev => {
-      const next = { ...prev }
-      if (key.startsWith('stats.')) {
-        const statKey = key.slice(6) as keyof typeof next.stats
-        next.stats = { ...next.stats, [statKey]: value }
-      } else {
-        (next as Record<string, unknown>)[key] = value
-      }
-      return next
-    })
+  const updateField = useCallback((key: string, value: unknown) => {
+    setCard(prev => setPath(prev, key, value))
   }, [])
 
-  const updateFields = useCallback((updates: Record<string, string | number>) => {
-    setCard(prev => {
-      const next = { ...prev, stats: { ...prev.stats } }
-      for (const [key, value] of Object.entries(updates)) {
-        if (key.startsWith('stats.')) {
-          const statKey = key.slice(6) as keyof typeof next.stats
-          ;(next.stats as Record<string, number>)[statKey] = value as number
-        } else {
-          (next as Record<string, unknown>)[key] = value
-        }
-      }
-      return next
-    })
+  const updateFields = useCallback((updates: Record<string, unknown>) => {
+    setCard(prev => Object.entries(updates).reduce((next, [key, value]) => setPath(next, key, value), prev))
   }, [])
 
   const handleReset = () => {
@@ -117,7 +101,7 @@ export default function CardEditor({ onToast }: CardEditorProps) {
             className="px-5 py-2 text-white rounded-xl text-sm font-semibold cursor-pointer border-none transition-all disabled:opacity-50 disabled:cursor-not-allowed"
             style={{ background: isPending ? '#9CA3AF' : '#FF613D' }}
             onClick={handleMint}
-            disabled={isPending || !isConnected}
+            disabled={isPending || !isConnected || violations.length > 0}
           >
             {isPending ? '⏳ Minting...' : '🌊 Mint Card — 0.05 ETH'}
           </button>
@@ -168,7 +152,7 @@ export default function CardEditor({ onToast }: CardEditorProps) {
             ))}
           </div>
 
-          <CardPreview card={card} />
+          <CardPreview card={card} violations={violations} />
 
           {/* Mint fee display */}
           <div className="mt-4 px-5 py-3 bg-white rounded-xl border border-gray-200 flex items-center gap-4">
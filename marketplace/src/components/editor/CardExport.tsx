@@ -0,0 +1,64 @@
+/** Download the preview card as PNG (at a chosen width) or standalone SVG */
+import { useState } from 'react'
+import type { RefObject } from 'react'
+import { downloadBlob, exportCard } from '../../lib/cardExport'
+import type { ExportFormat } from '../../lib/cardExport'
+
+/** PNG widths offered, as multiples of the on-screen card */
+const SCALES = [1, 2, 3, 4]
+
+interface CardExportProps {
+  cardRef: RefObject<HTMLDivElement | null>
+  /** Download name without extension */
+  fileName: string
+  onToast: (msg: string, type: 'success' | 'error' | 'info') => void
+}
+
+export default function CardExport({ cardRef, fileName, onToast }: CardExportProps) {
+  const [scale, setScale] = useState(2)
+  const [busy, setBusy] = useState<ExportFormat>()
+
+  const handleExport = async (format: ExportFormat) => {
+    const card = cardRef.current
+    if (!card) return
+    setBusy(format)
+    try {
+      const blob = await exportCard(card, format, card.offsetWidth * scale)
+      downloadBlob(blob, `${fileName}.${format}`)
+    } catch (e) {
+      onToast(`Export failed: ${(e as Error).message}`, 'error')
+    } finally {
+      setBusy(undefined)
+    }
+  }
+
+  return (
+    <div className="flex items-center justify-center gap-2 mt-4 text-xs">
+      <span className="text-gray-400 font-mono">Export</span>
+      <select
+        value={scale}
+        onChange={e => setScale(Number(e.target.value))}
+        className="px-2 py-1.5 bg-white border border-gray-200 rounded-none text-xs"
+        title="PNG resolution"
+      >
+        {SCALES.map(s => (
+          <option key={s} value={s}>{s}×</option>
+        ))}
+      </select>
+      <button
+        onClick={() => handleExport('png')}
+        disabled={!!busy}
+        className="px-3 py-1.5 bg-white border border-gray-200 hover:bg-gray-50 rounded-none font-semibold text-gray-700 disabled:opacity-40"
+      >
+        {busy === 'png' ? 'Rendering…' : '⬇ PNG'}
+      </button>
+      <button
+        onClick={() => handleExport('svg')}
+        disabled={!!busy}
+        className="px-3 py-1.5 bg-white border border-gray-200 hover:bg-gray-50 rounded-none font-semibold text-gray-700 disabled:opacity-40"
+      >
+        {busy === 'svg' ? 'Rendering…' : '⬇ SVG'}
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,141 @@
+/** JSON import/export — cardData.json entries and ERC-721 metadata, for one card or every draft */
+import { useRef, useState } from 'react'
+import type { CardEditorData } from './types'
+import { downloadBlob } from '../../lib/cardExport'
+import { parseCardFile, serializeCards } from '../../lib/cardFiles'
+import type { CardFileFormat, ImportResult, ImportedCard } from '../../lib/cardFiles'
+import { listDrafts, loadDraft } from '../../lib/drafts'
+
+const FORMAT_LABELS: Record<CardFileFormat, string> = {
+  cardData: 'cardData.json',
+  metadata: 'ERC-721 metadata',
+}
+
+interface CardFilesProps {
+  card: CardEditorData
+  /** Called with every valid card from the chosen files, in file order */
+  onImport: (cards: ImportedCard[]) => Promise<void>
+  onToast: (msg: string, type: 'success' | 'error' | 'info') => void
+}
+
+const slug = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'card'
+
+export default function CardFiles({ card, onImport, onToast }: CardFilesProps) {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [format, setFormat] = useState<CardFileFormat>('cardData')
+  const [report, setReport] = useState<ImportResult>()
+  const [busy, setBusy] = useState(false)
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = [...(e.target.files ?? [])]
+    e.target.value = ''
+    if (!files.length) return
+    setBusy(true)
+    const merged: ImportResult = { cards: [], rejected: [] }
+    try {
+      for (const file of files) {
+        const prefix = files.length > 1 ? `${file.name}: ` : ''
+        try {
+          const result = parseCardFile(await file.text())
+          merged.cards.push(...result.cards.map(c => ({ ...c, source: prefix + c.source })))
+          merged.rejected.push(...result.rejected.map(r => ({ ...r, source: prefix + r.source })))
+        } catch (err) {
+          merged.rejected.push({ source: file.name, errors: [(err as Error).message] })
+        }
+      }
+      setReport(merged)
+      if (!merged.cards.length) {
+        onToast('Nothing imported — see the report', 'error')
+        return
+      }
+      await onImport(merged.cards)
+      const n = merged.cards.length
+      onToast(`Imported ${n} card${n === 1 ? '' : 's'}${merged.rejected.length ? `, skipped ${merged.rejected.length}` : ''}`, merged.rejected.length ? 'info' : 'success')
+    } catch (err) {
+      onToast((err as Error).message, 'error')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const download = (cards: CardEditorData[], name: string) => {
+    const json = serializeCards(cards, format)
+    downloadBlob(new Blob([json], { type: 'application/json' }), `${name}.json`)
+  }
+
+  const exportDrafts = async () => {
+    setBusy(true)
+    try {
+      const drafts = await Promise.all((await listDrafts()).map(d => loadDraft(d.id)))
+      const cards = drafts.flatMap(d => (d ? [d.card] : []))
+      if (!cards.length) {
+        onToast('No drafts to export', 'info')
+        return
+      }
+      download(cards, format === 'cardData' ? 'cardData' : 'drafts-metadata')
+    } catch (err) {
+      onToast((err as Error).message, 'error')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const warned = report?.cards.filter(c => c.warnings.length) ?? []
+
+  return (
+    <div>
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100">
+        <span className="text-sm font-semibold text-gray-900">📄 JSON</span>
+        <button
+          onClick={() => inputRef.current?.click()}
+          disabled={busy}
+          className="text-xs font-medium text-violet-600 hover:text-violet-800 disabled:opacity-40"
+        >
+          Import…
+        </button>
+        <input ref={inputRef} type="file" accept=".json,application/json" multiple onChange={handleFiles} style={{ display: 'none' }} />
+      </div>
+
+      <div className="px-4 py-3 space-y-2">
+        <select
+          value={format}
+          onChange={e => setFormat(e.target.value as CardFileFormat)}
+          className="w-full px-2 py-1.5 bg-white border border-gray-200 text-sm"
+        >
+          {Object.entries(FORMAT_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+        </select>
+        <div className="flex gap-2">
+          <button
+            onClick={() => download([card], slug(card.name))}
+            disabled={busy}
+            className="flex-1 py-1.5 text-xs font-semibold bg-gray-100 hover:bg-gray-200 text-gray-700 disabled:opacity-40"
+          >
+            Export card
+          </button>
+          <button
+            onClick={exportDrafts}
+            disabled={busy}
+            className="flex-1 py-1.5 text-xs font-semibold bg-gray-100 hover:bg-gray-200 text-gray-700 disabled:opacity-40"
+          >
+            Export all drafts
+          </button>
+        </div>
+      </div>
+
+      {report && (report.rejected.length > 0 || warned.length > 0) && (
+        <div className="px-4 py-3 border-t border-gray-100 text-xs max-h-48 overflow-y-auto">
+          <div className="flex justify-between mb-1">
+            <span className="font-semibold text-gray-700">Import report</span>
+            <button onClick={() => setReport(undefined)} className="text-gray-400 hover:text-gray-700">×</button>
+          </div>
+          {report.rejected.map(r => (
+            <p key={r.source} className="text-red-600 mb-1">✗ {r.source}: {r.errors.join('; ')}</p>
+          ))}
+          {warned.map(c => (
+            <p key={c.source} className="text-amber-700 mb-1">⚠ {c.source}: {c.warnings.join('; ')}</p>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
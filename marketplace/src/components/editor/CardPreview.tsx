@@ -1,19 +1,51 @@
-/** Live card preview rendering with theme support and stat badges */
+/** Live card preview rendering with theme support, stat badges, on-card traits and rule violations */
+import type { Ref } from 'react'
+import { CARD_PARTS, fieldPath } from './types'
 import type { CardEditorData } from './types'
+import { fieldValue, getFieldPlugin, isEmptyValue } from './fields'
+import type { RuleViolation } from '../../lib/cardRules'
+import { getPath } from '../../lib/paths'
 import './card-preview.css'
 
 interface CardPreviewProps {
   card: CardEditorData
+  /** Caption above the card; `null` hides it */
+  label?: string | null
+  /** Show the stat pills under the card */
+  showSummary?: boolean
+  /** The card element itself, for exporting it (see `lib/cardExport.ts`) */
+  cardRef?: Ref<HTMLDivElement>
+  /** Rules the card breaks (see `lib/cardRules.ts`), listed under the card with the stat pills flagged */
+  violations?: RuleViolation[]
 }
 
-export default function CardPreview({ card }: CardPreviewProps) {
+/** Fields marked `showOnCard`, with their type's preview renderer */
+const ON_CARD_FIELDS = Object.values(CARD_PARTS).flatMap(part =>
+  Object.entries(part.fields)
+    .filter(([, field]) => field.showOnCard)
+    .map(([key, field]) => ({ key, field, path: fieldPath(part, key, field) })))
+
+/** The card's set `showOnCard` values, each through its field type's preview */
+function Traits({ card }: { card: CardEditorData }) {
+  const shown = ON_CARD_FIELDS.flatMap(({ key, field, path }) => {
+    const value = fieldValue(field, getPath(card, path))
+    const Preview = getFieldPlugin(field.type)?.preview
+    return Preview && !isEmptyValue(value) ? [<Preview key={key} schema={field} value={value} />] : []
+  })
+  return shown.length > 0 ? <div className="preview-traits">{shown}</div> : null
+}
+
+export default function CardPreview({ card, label = 'Live Preview', showSummary = true, cardRef, violations = [] }: CardPreviewProps) {
   const theme = card.theme || {}
+  const overBudget = violations.some(v => v.field === 'stats')
+  const pillClass = (field: string) => `stat-pill${overBudget || violations.some(v => v.field === field) ? ' stat-pill-violation' : ''}`
 
   return (
     <div className="live-preview-container">
-      <div className="preview-label">Live Preview</div>
+      {label !== null && <div className="preview-label">{label}</div>}
 
       <div
+        ref={cardRef}
         className="preview-card"
         style={{
           background: theme.background || 'linear-gradient(145deg, #2a2a2a, #1a1a1a)',
@@ -142,6 +174,7 @@ export default function CardPreview({ card }: CardPreviewProps) {
             borderBottom: theme.flavorText?.border,
           }}
         >
+          <Traits card={card} />
           <div className="preview-flavor-content">
             {card.moveName && <div className="preview-move-name">{card.moveName}</div>}
             {card.flavorText || 'No flavor text yet...'}
@@ -170,24 +203,32 @@ export default function CardPreview({ card }: CardPreviewProps) {
         </div>
       </div>
 
-      <div className="preview-stats-summary">
-        <div className="stat-pill">
-          <span className="stat-icon">HP</span>
-          <span>{card.stats?.hp || 0}</span>
-        </div>
-        <div className="stat-pill">
-          <span className="stat-icon">ATK</span>
-          <span>{card.stats?.attack || 0}</span>
-        </div>
-        <div className="stat-pill">
-          <span className="stat-icon">DEF</span>
-          <span>{card.stats?.defense || 0}</span>
-        </div>
-        <div className="stat-pill">
-          <span className="stat-icon">MP</span>
-          <span>{card.stats?.mana || 0}</span>
+      {showSummary && (
+        <div className="preview-stats-summary">
+          <div className={pillClass('stats.hp')}>
+            <span className="stat-icon">HP</span>
+            <span>{card.stats?.hp || 0}</span>
+          </div>
+          <div className={pillClass('stats.attack')}>
+            <span className="stat-icon">ATK</span>
+            <span>{card.stats?.attack || 0}</span>
+          </div>
+          <div className={pillClass('stats.defense')}>
+            <span className="stat-icon">DEF</span>
+            <span>{card.stats?.defense || 0}</span>
+          </div>
+          <div className={pillClass('stats.mana')}>
+            <span className="stat-icon">MP</span>
+            <span>{card.stats?.mana || 0}</span>
+          </div>
         </div>
-      </div>
+      )}
+
+      {violations.length > 0 && (
+        <ul className="preview-violations">
+          {violations.map(v => <li key={v.message}>⚠ {v.message}</li>)}
+        </ul>
+      )}
     </div>
   )
 }
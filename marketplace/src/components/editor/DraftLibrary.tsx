@@ -0,0 +1,97 @@
+/** Saved editor drafts — open, rename, duplicate and delete */
+import { useState } from 'react'
+import { useDraftLibrary } from '../../hooks/useDrafts'
+import { draftTitle, timeAgo } from '../../lib/drafts'
+import type { DraftSummary } from '../../lib/drafts'
+
+interface DraftLibraryProps {
+  /** Draft open in the editor */
+  currentId: string
+  onOpen: (id: string) => void
+  onNew: () => void
+  /** Open the template gallery */
+  onNewFromTemplate: () => void
+  onToast: (msg: string, type: 'success' | 'error' | 'info') => void
+}
+
+export default function DraftLibrary({ currentId, onOpen, onNew, onNewFromTemplate, onToast }: DraftLibraryProps) {
+  const { drafts, isLoading, error, rename, duplicate, remove } = useDraftLibrary()
+  const [renaming, setRenaming] = useState<{ id: string; title: string } | null>(null)
+
+  const attempt = async (action: () => Promise<unknown>) => {
+    try {
+      await action()
+    } catch (e) {
+      onToast((e as Error).message, 'error')
+    }
+  }
+
+  const commitRename = () => {
+    if (!renaming) return
+    const { id, title } = renaming
+    setRenaming(null)
+    attempt(() => rename(id, title))
+  }
+
+  const handleDelete = (draft: DraftSummary) => {
+    if (!window.confirm(`Delete the draft "${draftTitle(draft)}"? This can't be undone.`)) return
+    attempt(() => remove(draft.id))
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100">
+        <span className="text-sm font-semibold text-gray-900">📁 Drafts</span>
+        <span className="flex gap-3">
+          <button onClick={onNewFromTemplate} className="text-xs font-medium text-violet-600 hover:text-violet-800">🧩 From template</button>
+          <button onClick={onNew} className="text-xs font-medium text-violet-600 hover:text-violet-800">+ New</button>
+        </span>
+      </div>
+
+      {isLoading && <p className="px-4 py-3 text-xs text-gray-400">Loading drafts…</p>}
+      {error && <p className="px-4 py-3 text-xs text-red-600">{error.message}</p>}
+      {!isLoading && !error && drafts.length === 0 && (
+        <p className="px-4 py-3 text-xs text-gray-400">Your designs are saved here as you edit.</p>
+      )}
+
+      <ul className="max-h-72 overflow-y-auto">
+        {drafts.map(draft => (
+          <li
+            key={draft.id}
+            className={`px-4 py-2 border-b border-gray-50 text-sm ${draft.id === currentId ? 'bg-violet-50' : 'hover:bg-gray-50'}`}
+          >
+            {renaming?.id === draft.id ? (
+              <input
+                autoFocus
+                data-native-undo
+                value={renaming.title}
+                onChange={e => setRenaming({ id: draft.id, title: e.target.value })}
+                onBlur={commitRename}
+                onKeyDown={e => {
+                  if (e.key === 'Enter') commitRename()
+                  if (e.key === 'Escape') setRenaming(null)
+                }}
+                placeholder={draft.cardName || 'Untitled'}
+                className="w-full px-2 py-1 border border-violet-300 text-sm focus:outline-none"
+              />
+            ) : (
+              <button onClick={() => onOpen(draft.id)} className="w-full text-left" title="Open draft">
+                <span className="block font-medium text-gray-900 truncate">
+                  {draft.hasImage ? '🖼️ ' : ''}{draftTitle(draft)}
+                </span>
+                <span className="block text-xs text-gray-400">
+                  {draft.id === currentId ? 'Editing · ' : ''}edited {timeAgo(draft.updatedAt)}
+                </span>
+              </button>
+            )}
+            <div className="flex gap-3 mt-1 text-xs text-gray-500">
+              <button onClick={() => setRenaming({ id: draft.id, title: draft.title })} className="hover:text-gray-900">Rename</button>
+              <button onClick={() => attempt(() => duplicate(draft.id))} className="hover:text-gray-900">Duplicate</button>
+              <button onClick={() => handleDelete(draft)} className="hover:text-red-600">Delete</button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
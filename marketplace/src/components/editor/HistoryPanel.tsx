@@ -0,0 +1,61 @@
+/** Undo/redo controls and the editor's change history — click an entry to return to it */
+import type { HistoryEntry } from '../../hooks/useEditorHistory'
+
+interface HistoryPanelProps {
+  entries: HistoryEntry[]
+  index: number
+  canUndo: boolean
+  canRedo: boolean
+  onUndo: () => void
+  onRedo: () => void
+  onJump: (index: number) => void
+}
+
+const MOD_KEY = /Mac|iPhone|iPad/.test(navigator.platform) ? '⌘' : 'Ctrl+'
+
+export default function HistoryPanel({ entries, index, canUndo, canRedo, onUndo, onRedo, onJump }: HistoryPanelProps) {
+  return (
+    <div>
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100">
+        <span className="text-sm font-semibold text-gray-900">🕘 History</span>
+        <span className="flex gap-1">
+          <button
+            onClick={onUndo}
+            disabled={!canUndo}
+            title={`Undo (${MOD_KEY}Z)`}
+            className="px-2 py-0.5 text-sm text-gray-600 hover:bg-gray-100 disabled:opacity-30 disabled:hover:bg-transparent"
+          >
+            ↶
+          </button>
+          <button
+            onClick={onRedo}
+            disabled={!canRedo}
+            title={`Redo (${MOD_KEY}Shift+Z)`}
+            className="px-2 py-0.5 text-sm text-gray-600 hover:bg-gray-100 disabled:opacity-30 disabled:hover:bg-transparent"
+          >
+            ↷
+          </button>
+        </span>
+      </div>
+
+      {/* Newest first; entries past the current one are undone and greyed out */}
+      <ol className="max-h-60 overflow-y-auto">
+        {entries.map((entry, i) => ({ entry, i })).reverse().map(({ entry, i }) => (
+          <li key={`${i}-${entry.label}`}>
+            <button
+              onClick={() => onJump(i)}
+              className={`w-full flex justify-between gap-2 px-4 py-1.5 text-left text-xs border-b border-gray-50 ${
+                i === index ? 'bg-violet-50 text-violet-900 font-semibold' : i > index ? 'text-gray-300 hover:bg-gray-50' : 'text-gray-600 hover:bg-gray-50'
+              }`}
+            >
+              <span className="truncate">{entry.label}</span>
+              <span className="shrink-0 font-mono text-gray-400">
+                {new Date(entry.at).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit', second: '2-digit' })}
+              </span>
+            </button>
+          </li>
+        ))}
+      </ol>
+    </div>
+  )
+}
@@ -0,0 +1,132 @@
+/** Repeatable-list field — add entries from a catalogue, edit them in place, reorder and remove */
+import type { FieldSchema } from './types'
+
+type Item = Record<string, unknown>
+
+interface ListFieldProps {
+  schema: FieldSchema
+  items: Item[]
+  /** `label` names a discrete action (add, remove, reorder) for the undo history; in-place edits leave it out */
+  onChange: (items: Item[], label?: string) => void
+}
+
+const inputClass = 'px-2 py-1.5 bg-white border border-gray-200 rounded-none text-sm focus:border-amber-500 outline-none'
+const iconButtonClass = 'w-7 h-7 flex items-center justify-center bg-gray-100 hover:bg-amber-100 rounded-none text-xs cursor-pointer border-none text-gray-500 hover:text-amber-700 disabled:opacity-30 disabled:cursor-default'
+
+export default function ListField({ schema, items, onChange }: ListFieldProps) {
+  const { catalogue = [], itemKey, itemFields = {}, itemSwatch, maxItems = Infinity } = schema
+  const nameOf = (item: Item) => String((itemKey && item[itemKey]) ?? 'entry')
+  const full = items.length >= maxItems
+  /** Shown on the swatch, e.g. an orb's cost */
+  const swatchText = Object.keys(itemFields)[0]
+
+  const swatchStyle = (item: Item) =>
+    itemSwatch && { background: String(item[itemSwatch.background]), color: String(item[itemSwatch.color]) }
+
+  const update = (index: number, next: Item, label?: string) =>
+    onChange(items.map((item, i) => (i === index ? next : item)), label)
+
+  const move = (index: number, by: number) => {
+    const next = [...items]
+    const [item] = next.splice(index, 1)
+    next.splice(index + by, 0, item)
+    onChange(next, `Reorder ${schema.label}`)
+  }
+
+  /** Switch an entry to another catalogue item, keeping the values edited in place */
+  const retype = (index: number, name: string) => {
+    const base = catalogue.find(c => nameOf(c) === name)
+    if (!base) return
+    const kept = Object.fromEntries(Object.keys(itemFields).map(k => [k, items[index][k]]))
+    update(index, { ...base, ...kept }, `Change to ${name}`)
+  }
+
+  return (
+    <div>
+      <label className="block mb-2 text-sm font-semibold text-gray-700">
+        {schema.label}
+        {Number.isFinite(maxItems) && <span className="ml-2 font-normal text-gray-400">{items.length}/{maxItems}</span>}
+      </label>
+
+      {items.length === 0 && <p className="mb-3 text-sm text-gray-400">None yet — add one below.</p>}
+
+      <ul className="space-y-2 mb-4">
+        {items.map((item, index) => (
+          <li key={index} className="flex items-center gap-2 p-2 border border-gray-200 bg-white">
+            {itemSwatch && (
+              <span
+                className="w-7 h-7 shrink-0 rounded-full border-2 border-gray-800 flex items-center justify-center text-[10px] font-bold"
+                style={swatchStyle(item)}
+              >
+                {swatchText ? String(item[swatchText] ?? '') : ''}
+              </span>
+            )}
+            {itemKey && catalogue.length > 0 ? (
+              <select value={nameOf(item)} onChange={e => retype(index, e.target.value)} className={`${inputClass} flex-1 min-w-0`}>
+                {catalogue.map(c => <option key={nameOf(c)} value={nameOf(c)}>{nameOf(c)}</option>)}
+              </select>
+            ) : (
+              <span className="flex-1 text-sm text-gray-700 truncate">{nameOf(item)}</span>
+            )}
+            {Object.entries(itemFields).map(([key, field]) => {
+              const value = item[key]
+              if (field.type === 'select' && field.options) {
+                return (
+                  <select key={key} value={String(value ?? '')} onChange={e => update(index, { ...item, [key]: e.target.value })} className={inputClass} title={field.label}>
+                    {field.options.map(o => <option key={o} value={o}>{o}</option>)}
+                  </select>
+                )
+              }
+              return (
+                <input
+                  key={key}
+                  type={field.type === 'number' ? 'number' : 'text'}
+                  min={field.min}
+                  max={field.max}
+                  value={String(value ?? '')}
+                  onChange={e => {
+                    if (field.type !== 'number') return update(index, { ...item, [key]: e.target.value })
+                    const n = Number(e.target.value)
+                    if (e.target.value === '' || !Number.isFinite(n)) return
+                    update(index, { ...item, [key]: Math.min(field.max ?? n, Math.max(field.min ?? n, n)) })
+                  }}
+                  className={`${inputClass} ${field.type === 'number' ? 'w-14' : 'flex-1 min-w-0'}`}
+                  title={field.label}
+                />
+              )
+            })}
+            <button onClick={() => move(index, -1)} disabled={index === 0} className={iconButtonClass} title="Move up">↑</button>
+            <button onClick={() => move(index, 1)} disabled={index === items.length - 1} className={iconButtonClass} title="Move down">↓</button>
+            <button
+              onClick={() => onChange(items.filter((_, i) => i !== index), `Remove ${nameOf(item)}`)}
+              className={`${iconButtonClass} hover:!bg-red-50 hover:!text-red-600`}
+              title="Remove"
+            >
+              ×
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      {catalogue.length > 0 && (
+        <div>
+          <span className="block mb-2 text-xs font-semibold uppercase tracking-wide text-gray-500">Add</span>
+          <div className="grid grid-cols-4 gap-2">
+            {catalogue.map(entry => (
+              <button
+                key={nameOf(entry)}
+                onClick={() => onChange([...items, { ...entry }], `Add ${nameOf(entry)}`)}
+                disabled={full}
+                className="flex flex-col items-center gap-1 py-2 bg-white border border-gray-200 hover:bg-amber-50 hover:border-amber-400 rounded-none cursor-pointer disabled:opacity-40 disabled:cursor-default"
+                title={full ? `At most ${maxItems}` : `Add ${nameOf(entry)}`}
+              >
+                {itemSwatch && <span className="w-5 h-5 rounded-full border-2 border-gray-800" style={swatchStyle(entry)} />}
+                <span className="text-xs text-gray-600">{nameOf(entry)}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,118 @@
+/** "New from template" gallery — built-in starters per card type, the designer's saved templates, and saving the current design as one */
+import { useState } from 'react'
+import type { CardEditorData } from './types'
+import { FittedPreview } from '../CardArt'
+import { BUILT_IN_TEMPLATES, cardFromTemplate, deleteCardTemplate, saveCardTemplate, useSavedCardTemplates } from '../../lib/cardTemplates'
+import type { CardTemplate } from '../../lib/cardTemplates'
+
+interface TemplateGalleryProps {
+  /** The design open in the editor, for "Save as template" */
+  card: CardEditorData
+  onPick: (template: CardTemplate) => void
+  onClose: () => void
+  onToast: (msg: string, type: 'success' | 'error' | 'info') => void
+}
+
+function TemplateTile({ template, onPick, onDelete }: { template: CardTemplate; onPick: () => void; onDelete?: () => void }) {
+  return (
+    <div className="relative group">
+      <button onClick={onPick} className="w-full text-left" title={`New card from ${template.name}`}>
+        <span className="relative block aspect-[3/4] bg-gray-50 border border-gray-200 group-hover:border-amber-400 overflow-hidden">
+          <FittedPreview card={{ ...cardFromTemplate(template), name: template.name }} />
+        </span>
+        <span className="block mt-1.5 text-sm font-semibold text-gray-800 truncate">{template.name}</span>
+        {template.description && <span className="block text-xs text-gray-500 truncate">{template.description}</span>}
+      </button>
+      {onDelete && (
+        <button
+          onClick={onDelete}
+          className="absolute top-1 right-1 w-5 h-5 leading-none text-xs bg-white border border-gray-300 text-gray-500 hover:text-red-600"
+          title="Delete template"
+        >
+          ×
+        </button>
+      )}
+    </div>
+  )
+}
+
+export default function TemplateGallery({ card, onPick, onClose, onToast }: TemplateGalleryProps) {
+  const saved = useSavedCardTemplates()
+  const [name, setName] = useState('')
+  const [description, setDescription] = useState('')
+
+  const handleSave = () => {
+    try {
+      saveCardTemplate(name, card, description)
+      onToast(`Saved template "${name.trim()}"`, 'success')
+      setName('')
+      setDescription('')
+    } catch (e) {
+      onToast((e as Error).message, 'error')
+    }
+  }
+
+  return (
+    <div className="mb-6 bg-white border border-gray-200 rounded-none shadow-sm">
+      <div className="flex items-center justify-between px-5 py-4 border-b border-gray-200 bg-gray-50">
+        <h2 className="text-base font-bold text-gray-900" style={{ fontFamily: "'Inter Tight', sans-serif" }}>
+          🧩 New from template
+        </h2>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-700 text-lg leading-none" title="Close">×</button>
+      </div>
+
+      <div className="p-5">
+        <p className="mb-3 text-xs font-semibold uppercase tracking-wide text-gray-500">Starters</p>
+        <div className="grid grid-cols-3 sm:grid-cols-6 gap-4">
+          {BUILT_IN_TEMPLATES.map(t => <TemplateTile key={t.name} template={t} onPick={() => onPick(t)} />)}
+        </div>
+
+        <p className="mt-6 mb-3 text-xs font-semibold uppercase tracking-wide text-gray-500">Your templates</p>
+        {saved.length === 0 ? (
+          <p className="text-sm text-gray-400">Save a design below to start every card in a series from the same look.</p>
+        ) : (
+          <div className="grid grid-cols-3 sm:grid-cols-6 gap-4">
+            {saved.map(t => (
+              <TemplateTile
+                key={t.name}
+                template={t}
+                onPick={() => onPick(t)}
+                onDelete={() => { if (window.confirm(`Delete the template "${t.name}"?`)) deleteCardTemplate(t.name) }}
+              />
+            ))}
+          </div>
+        )}
+
+        <div className="mt-6 pt-4 border-t border-gray-100">
+          <p className="mb-2 text-xs text-gray-500">
+            Save the current design as a template — everything but its name and artwork.
+          </p>
+          <div className="flex flex-wrap gap-2">
+            <input
+              value={name}
+              onChange={e => setName(e.target.value)}
+              onKeyDown={e => { if (e.key === 'Enter' && name.trim()) handleSave() }}
+              placeholder="Template name, e.g. Tidecallers"
+              data-native-undo
+              className="flex-1 min-w-40 px-3 py-2 bg-white border border-gray-200 rounded-none text-sm focus:border-amber-500 outline-none"
+            />
+            <input
+              value={description}
+              onChange={e => setDescription(e.target.value)}
+              placeholder="Description (optional)"
+              data-native-undo
+              className="flex-1 min-w-40 px-3 py-2 bg-white border border-gray-200 rounded-none text-sm focus:border-amber-500 outline-none"
+            />
+            <button
+              onClick={handleSave}
+              disabled={!name.trim()}
+              className="px-4 py-2 text-sm font-semibold bg-amber-100 text-amber-800 hover:bg-amber-200 disabled:opacity-40"
+            >
+              Save as template
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,398 @@
+/** Theme part — presets plus colour, gradient, border and shadow controls for every CardTheme section */
+import { useState } from 'react'
+import type { CardTheme } from './types'
+import { themeFromPalette } from '../../lib/palette'
+import { BUILT_IN_PRESETS, deleteThemePreset, saveThemePreset, useSavedThemePresets } from '../../lib/themePresets'
+import type { ThemePreset } from '../../lib/themePresets'
+
+type Section = Exclude<keyof CardTheme, 'background'>
+type Prop = 'background' | 'color' | 'border' | 'boxShadow' | 'textShadow'
+
+/** Sections in card order, with the properties `CardPreview` reads for each */
+const SECTIONS: { key: 'card' | Section; label: string; props: Prop[] }[] = [
+  { key: 'card', label: 'Card', props: ['background'] },
+  { key: 'header', label: 'Header', props: ['background', 'color', 'textShadow', 'boxShadow'] },
+  { key: 'imageArea', label: 'Image', props: ['background', 'border', 'boxShadow'] },
+  { key: 'typeSection', label: 'Type', props: ['background', 'color', 'textShadow', 'boxShadow'] },
+  { key: 'stat', label: 'Stats', props: ['background', 'color', 'border', 'boxShadow'] },
+  { key: 'flavorText', label: 'Flavor', props: ['background', 'color', 'border'] },
+  { key: 'bottomSection', label: 'Bottom', props: ['background'] },
+  { key: 'rarity', label: 'Rarity', props: ['background', 'color', 'border', 'boxShadow'] },
+]
+
+const PROP_LABELS: Record<Prop, string> = {
+  background: 'Background',
+  color: 'Text Color',
+  border: 'Border',
+  boxShadow: 'Shadow',
+  textShadow: 'Text Shadow',
+}
+
+// ─── CSS value parsing ───
+
+/** Split on commas that aren't inside parentheses */
+function splitTopLevel(value: string): string[] {
+  const parts: string[] = []
+  let depth = 0
+  let start = 0
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === '(') depth++
+    else if (value[i] === ')') depth--
+    else if (value[i] === ',' && depth === 0) {
+      parts.push(value.slice(start, i).trim())
+      start = i + 1
+    }
+  }
+  parts.push(value.slice(start).trim())
+  return parts
+}
+
+interface Rgba { hex: string; alpha: number }
+
+function parseColor(value: string | undefined): Rgba | undefined {
+  if (!value) return undefined
+  const v = value.trim()
+  const short = /^#([0-9a-f]{3})$/i.exec(v)
+  if (short) return { hex: `#${[...short[1]].map(c => c + c).join('')}`.toLowerCase(), alpha: 1 }
+  if (/^#[0-9a-f]{6}$/i.test(v)) return { hex: v.toLowerCase(), alpha: 1 }
+  const fn = /^rgba?\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)\s*(?:,\s*([\d.]+)\s*)?\)$/i.exec(v)
+  if (!fn) return undefined
+  const hex = `#${fn.slice(1, 4).map(c => Math.min(255, Number(c)).toString(16).padStart(2, '0')).join('')}`
+  return { hex, alpha: fn[4] === undefined ? 1 : Math.min(1, Number(fn[4])) }
+}
+
+function formatColor({ hex, alpha }: Rgba): string {
+  if (alpha >= 1) return hex
+  const [r, g, b] = [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16))
+  return `rgba(${r}, ${g}, ${b}, ${Math.round(alpha * 100) / 100})`
+}
+
+interface Gradient { angle: number; stops: string[] }
+
+function parseGradient(value: string | undefined): Gradient | undefined {
+  const match = /^linear-gradient\((.*)\)$/i.exec(value?.trim() ?? '')
+  if (!match) return undefined
+  const parts = splitTopLevel(match[1])
+  const angle = /^(-?\d+(?:\.\d+)?)deg$/.exec(parts[0])
+  const stops = angle ? parts.slice(1) : parts
+  if (stops.length < 2 || !stops.every(s => parseColor(s))) return undefined
+  return { angle: angle ? Number(angle[1]) : 180, stops }
+}
+
+const formatGradient = ({ angle, stops }: Gradient) => `linear-gradient(${angle}deg, ${stops.join(', ')})`
+
+interface Shadow { x: number; y: number; blur: number; color: string }
+
+function parseShadow(value: string | undefined): Shadow | undefined {
+  const match = /^(-?\d+)(?:px)?\s+(-?\d+)(?:px)?\s+(\d+)(?:px)?\s+(.+)$/.exec(value?.trim() ?? '')
+  if (!match || !parseColor(match[4])) return undefined
+  return { x: Number(match[1]), y: Number(match[2]), blur: Number(match[3]), color: match[4] }
+}
+
+const formatShadow = ({ x, y, blur, color }: Shadow) => `${x}px ${y}px ${blur}px ${color}`
+
+interface Border { width: number; style: string; color: string }
+
+const BORDER_STYLES = ['solid', 'dashed', 'dotted', 'double']
+
+function parseBorder(value: string | undefined): Border | undefined {
+  const match = /^(\d+(?:\.\d+)?)px\s+(solid|dashed|dotted|double)\s+(.+)$/.exec(value?.trim() ?? '')
+  if (!match || !parseColor(match[3])) return undefined
+  return { width: Number(match[1]), style: match[2], color: match[3] }
+}
+
+const formatBorder = ({ width, style, color }: Border) => `${width}px ${style} ${color}`
+
+// ─── Controls ───
+
+const inputClass = 'w-full px-2 py-1.5 bg-white border border-gray-200 rounded-none text-xs font-mono focus:border-amber-500 outline-none'
+const chipClass = (active: boolean) =>
+  `px-2 py-1 text-xs rounded-none border cursor-pointer ${active ? 'bg-amber-100 border-amber-400 text-amber-800' : 'bg-white border-gray-200 text-gray-600 hover:bg-gray-50'}`
+
+function Slider({ label, value, min, max, onChange }: { label: string; value: number; min: number; max: number; onChange: (v: number) => void }) {
+  return (
+    <label className="flex items-center gap-2 text-xs text-gray-500">
+      <span className="w-10 shrink-0">{label}</span>
+      <input type="range" min={min} max={max} value={value} onChange={e => onChange(Number(e.target.value))} className="flex-1 accent-amber-600" />
+      <span className="w-8 text-right font-mono">{value}</span>
+    </label>
+  )
+}
+
+/** Colour picker with opacity; falls back to a text field for colours it can't parse (names, hsl…) */
+function ColorInput({ value, onChange }: { value: string; onChange: (v: string) => void }) {
+  const parsed = parseColor(value)
+  return (
+    <div className="flex items-center gap-2">
+      <input
+        type="color"
+        value={parsed?.hex ?? '#000000'}
+        onChange={e => onChange(formatColor({ hex: e.target.value, alpha: parsed?.alpha ?? 1 }))}
+        className="w-8 h-8 p-0 border border-gray-200 cursor-pointer"
+      />
+      <input
+        type="range"
+        min={0}
+        max={100}
+        value={Math.round((parsed?.alpha ?? 1) * 100)}
+        onChange={e => onChange(formatColor({ hex: parsed?.hex ?? '#000000', alpha: Number(e.target.value) / 100 }))}
+        className="flex-1 accent-amber-600"
+        title="Opacity"
+      />
+      <input value={value} onChange={e => onChange(e.target.value)} className={`${inputClass} w-28`} data-native-undo />
+    </div>
+  )
+}
+
+type BackgroundMode = 'none' | 'solid' | 'gradient' | 'css'
+
+function BackgroundControl({ value, onChange }: { value: string | undefined; onChange: (v: string | undefined) => void }) {
+  const gradient = parseGradient(value)
+  const detected: BackgroundMode = !value ? 'none' : gradient ? 'gradient' : parseColor(value) ? 'solid' : 'css'
+  const [mode, setMode] = useState<BackgroundMode>(detected)
+  const current = mode === detected || mode === 'css' ? mode : detected
+
+  const switchTo = (next: BackgroundMode) => {
+    setMode(next)
+    const color = parseColor(value) ? value! : gradient?.stops[0] ?? '#1e3a8a'
+    if (next === 'none') onChange(undefined)
+    else if (next === 'solid' && detected !== 'solid') onChange(color)
+    else if (next === 'gradient' && detected !== 'gradient') onChange(formatGradient({ angle: 145, stops: [color, '#111111'] }))
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-1">
+        {(['none', 'solid', 'gradient', 'css'] as const).map(m => (
+          <button key={m} onClick={() => switchTo(m)} className={chipClass(current === m)}>
+            {m === 'css' ? 'CSS' : m[0].toUpperCase() + m.slice(1)}
+          </button>
+        ))}
+      </div>
+      {current === 'solid' && <ColorInput value={value ?? ''} onChange={onChange} />}
+      {current === 'gradient' && gradient && (
+        <div className="space-y-2">
+          <Slider label="Angle" value={gradient.angle} min={0} max={360} onChange={angle => onChange(formatGradient({ ...gradient, angle }))} />
+          {gradient.stops.map((stop, i) => (
+            <div key={i} className="flex items-center gap-1">
+              <div className="flex-1">
+                <ColorInput value={stop} onChange={v => onChange(formatGradient({ ...gradient, stops: gradient.stops.map((s, j) => (j === i ? v : s)) }))} />
+              </div>
+              {gradient.stops.length > 2 && (
+                <button
+                  onClick={() => onChange(formatGradient({ ...gradient, stops: gradient.stops.filter((_, j) => j !== i) }))}
+                  className="px-1 text-gray-400 hover:text-red-600"
+                  title="Remove stop"
+                >
+                  ×
+                </button>
+              )}
+            </div>
+          ))}
+          {gradient.stops.length < 4 && (
+            <button
+              onClick={() => onChange(formatGradient({ ...gradient, stops: [...gradient.stops, gradient.stops[gradient.stops.length - 1]] }))}
+              className="text-xs text-amber-700 hover:text-amber-900"
+            >
+              + Add stop
+            </button>
+          )}
+        </div>
+      )}
+      {current === 'css' && (
+        <input
+          value={value ?? ''}
+          onChange={e => onChange(e.target.value || undefined)}
+          placeholder="any CSS background"
+          className={inputClass}
+          data-native-undo
+        />
+      )}
+    </div>
+  )
+}
+
+function ShadowControl({ value, onChange }: { value: string | undefined; onChange: (v: string | undefined) => void }) {
+  const shadow = parseShadow(value)
+  if (!value) {
+    return <button onClick={() => onChange(formatShadow({ x: 0, y: 0, blur: 12, color: 'rgba(0, 0, 0, 0.5)' }))} className={chipClass(false)}>+ Add shadow</button>
+  }
+  if (!shadow) {
+    return <input value={value} onChange={e => onChange(e.target.value || undefined)} className={inputClass} data-native-undo />
+  }
+  const set = (patch: Partial<Shadow>) => onChange(formatShadow({ ...shadow, ...patch }))
+  return (
+    <div className="space-y-1.5">
+      <Slider label="X" value={shadow.x} min={-20} max={20} onChange={x => set({ x })} />
+      <Slider label="Y" value={shadow.y} min={-20} max={20} onChange={y => set({ y })} />
+      <Slider label="Blur" value={shadow.blur} min={0} max={40} onChange={blur => set({ blur })} />
+      <ColorInput value={shadow.color} onChange={color => set({ color })} />
+      <button onClick={() => onChange(undefined)} className="text-xs text-gray-400 hover:text-red-600">Remove shadow</button>
+    </div>
+  )
+}
+
+function BorderControl({ value, onChange }: { value: string | undefined; onChange: (v: string | undefined) => void }) {
+  const border = parseBorder(value)
+  if (!value) {
+    return <button onClick={() => onChange(formatBorder({ width: 1, style: 'solid', color: '#ffffff' }))} className={chipClass(false)}>+ Add border</button>
+  }
+  if (!border) {
+    return <input value={value} onChange={e => onChange(e.target.value || undefined)} className={inputClass} data-native-undo />
+  }
+  const set = (patch: Partial<Border>) => onChange(formatBorder({ ...border, ...patch }))
+  return (
+    <div className="space-y-1.5">
+      <div className="flex items-center gap-2">
+        <div className="flex-1"><Slider label="Width" value={border.width} min={0} max={8} onChange={width => set({ width })} /></div>
+        <select value={border.style} onChange={e => set({ style: e.target.value })} className="px-1 py-1 border border-gray-200 text-xs">
+          {BORDER_STYLES.map(s => <option key={s} value={s}>{s}</option>)}
+        </select>
+      </div>
+      <ColorInput value={border.color} onChange={color => set({ color })} />
+      <button onClick={() => onChange(undefined)} className="text-xs text-gray-400 hover:text-red-600">Remove border</button>
+    </div>
+  )
+}
+
+// ─── Presets ───
+
+function PresetSwatch({ preset, onApply, onDelete }: { preset: ThemePreset; onApply: () => void; onDelete?: () => void }) {
+  return (
+    <div className="relative">
+      <button onClick={onApply} className="w-full text-left" title={`Apply ${preset.name}`}>
+        <span className="block h-10 border border-gray-200" style={{ background: preset.theme.background ?? '#2a2a2a' }}>
+          <span className="block h-2" style={{ background: preset.theme.header?.background }} />
+        </span>
+        <span className="block mt-1 text-xs text-gray-600 truncate">{preset.name}</span>
+      </button>
+      {onDelete && (
+        <button onClick={onDelete} className="absolute -top-1.5 -right-1.5 w-4 h-4 leading-none text-[10px] bg-white border border-gray-300 text-gray-500 hover:text-red-600" title="Delete preset">
+          ×
+        </button>
+      )}
+    </div>
+  )
+}
+
+interface ThemeEditorProps {
+  theme: CardTheme
+  /** Card palette, offered as a generated preset when present */
+  colors: Record<string, string>
+  /** `label` names a discrete action (preset, clear) for the undo history */
+  onChange: (theme: CardTheme, label?: string) => void
+}
+
+export default function ThemeEditor({ theme, colors, onChange }: ThemeEditorProps) {
+  const saved = useSavedThemePresets()
+  const [sectionKey, setSectionKey] = useState<'card' | Section>('card')
+  const [presetName, setPresetName] = useState('')
+  const [presetError, setPresetError] = useState<string>()
+  const section = SECTIONS.find(s => s.key === sectionKey)!
+
+  const valueOf = (prop: Prop): string | undefined =>
+    sectionKey === 'card' ? theme.background : (theme[sectionKey] as Record<string, string | undefined> | undefined)?.[prop]
+
+  const setProp = (prop: Prop, value: string | undefined) => {
+    if (sectionKey === 'card') {
+      const next = { ...theme }
+      if (value) next.background = value
+      else delete next.background
+      onChange(next)
+      return
+    }
+    const current = { ...(theme[sectionKey] as Record<string, string | undefined> | undefined) }
+    if (value) current[prop] = value
+    else delete current[prop]
+    const next = { ...theme }
+    if (Object.keys(current).length) (next as Record<string, unknown>)[sectionKey] = current
+    else delete next[sectionKey]
+    onChange(next)
+  }
+
+  const handleSave = () => {
+    try {
+      saveThemePreset(presetName, theme)
+      setPresetName('')
+      setPresetError(undefined)
+    } catch (e) {
+      setPresetError((e as Error).message)
+    }
+  }
+
+  const hasPalette = Object.keys(colors).length > 0
+
+  return (
+    <div className="space-y-5">
+      {/* Presets */}
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <span className="text-sm font-semibold text-gray-700">Presets</span>
+          <button onClick={() => onChange({}, 'Clear theme')} className="text-xs text-gray-400 hover:text-red-600">Clear theme</button>
+        </div>
+        <div className="grid grid-cols-4 gap-2">
+          {hasPalette && (
+            <PresetSwatch
+              preset={{ name: 'From palette', theme: themeFromPalette(colors) }}
+              onApply={() => onChange(themeFromPalette(colors), 'Theme from palette')}
+            />
+          )}
+          {BUILT_IN_PRESETS.map(p => (
+            <PresetSwatch key={p.name} preset={p} onApply={() => onChange(p.theme, `Apply ${p.name} theme`)} />
+          ))}
+          {saved.map(p => (
+            <PresetSwatch
+              key={`saved-${p.name}`}
+              preset={p}
+              onApply={() => onChange(p.theme, `Apply ${p.name} theme`)}
+              onDelete={() => { if (window.confirm(`Delete the preset "${p.name}"?`)) deleteThemePreset(p.name) }}
+            />
+          ))}
+        </div>
+        <div className="flex gap-2 mt-3">
+          <input
+            value={presetName}
+            onChange={e => setPresetName(e.target.value)}
+            onKeyDown={e => { if (e.key === 'Enter') handleSave() }}
+            placeholder="Save current theme as…"
+            className={inputClass}
+            data-native-undo
+          />
+          <button onClick={handleSave} disabled={!presetName.trim()} className="px-3 text-xs font-semibold bg-amber-100 text-amber-800 hover:bg-amber-200 disabled:opacity-40">
+            Save
+          </button>
+        </div>
+        {presetError && <p className="mt-1 text-xs text-red-600">{presetError}</p>}
+      </div>
+
+      {/* Section controls */}
+      <div>
+        <span className="block mb-2 text-sm font-semibold text-gray-700">Section</span>
+        <div className="flex flex-wrap gap-1">
+          {SECTIONS.map(s => (
+            <button key={s.key} onClick={() => setSectionKey(s.key)} className={chipClass(s.key === sectionKey)}>{s.label}</button>
+          ))}
+        </div>
+      </div>
+
+      {section.props.map(prop => (
+        <div key={`${sectionKey}-${prop}`}>
+          <span className="block mb-2 text-xs font-semibold uppercase tracking-wide text-gray-500">{PROP_LABELS[prop]}</span>
+          {prop === 'background' && <BackgroundControl key={sectionKey} value={valueOf(prop)} onChange={v => setProp(prop, v)} />}
+          {prop === 'color' && (
+            valueOf(prop)
+              ? (
+                <div className="space-y-1">
+                  <ColorInput value={valueOf(prop)!} onChange={v => setProp(prop, v || undefined)} />
+                  <button onClick={() => setProp(prop, undefined)} className="text-xs text-gray-400 hover:text-red-600">Use default</button>
+                </div>
+              )
+              : <button onClick={() => setProp(prop, '#ffffff')} className={chipClass(false)}>+ Set color</button>
+          )}
+          {prop === 'border' && <BorderControl value={valueOf(prop)} onChange={v => setProp(prop, v)} />}
+          {(prop === 'boxShadow' || prop === 'textShadow') && <ShadowControl value={valueOf(prop)} onChange={v => setProp(prop, v)} />}
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,142 @@
+/** Artwork field editors — image upload (extracting its palette), the extracted palette, and the card theme */
+import { useRef, useState } from 'react'
+import { extractPalette, themeFromPalette } from '../../../lib/palette'
+import ThemeEditor from '../ThemeEditor'
+import type { CardTheme } from '../types'
+import type { FieldEditorProps } from './types'
+
+type Extraction = { status: 'idle' | 'extracting' | 'failed'; error?: string }
+
+/** Extract the palette of `image` into the card's `colors`, tracking progress for the UI */
+function usePaletteExtraction(onUpdateFields: FieldEditorProps['onUpdateFields']) {
+  const [state, setState] = useState<Extraction>({ status: 'idle' })
+  const extract = async (image: string) => {
+    setState({ status: 'extracting' })
+    try {
+      onUpdateFields({ colors: await extractPalette(image) }, 'Extract palette')
+      setState({ status: 'idle' })
+    } catch (e) {
+      setState({ status: 'failed', error: (e as Error).message })
+    }
+  }
+  return [state, extract] as const
+}
+
+export function ImageField({ schema, value, onChange, onUpdateFields }: FieldEditorProps<string>) {
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [palette, extract] = usePaletteExtraction(onUpdateFields)
+
+  const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+    const reader = new FileReader()
+    reader.onload = (event) => {
+      const data = event.target?.result as string
+      onChange(data, 'Upload image')
+      extract(data)
+    }
+    reader.readAsDataURL(file)
+  }
+
+  return (
+    <div className="mb-5">
+      <label className="block mb-2 text-sm font-semibold text-gray-700">{schema.label}</label>
+      <div className="overflow-hidden">
+        {value ? (
+          <div className="relative">
+            <img
+              src={value}
+              alt="Card"
+              className="w-full h-48 object-cover rounded-none border border-gray-200"
+            />
+            <button
+              className="absolute bottom-3 left-1/2 -translate-x-1/2 px-4 py-2 bg-white/90 backdrop-blur-sm rounded-none text-xs font-semibold text-gray-700 cursor-pointer border border-gray-200 hover:bg-white"
+              onClick={() => fileInputRef.current?.click()}
+            >
+              Change Image
+            </button>
+          </div>
+        ) : (
+          <div
+            className="flex items-center justify-center h-48 bg-gray-50 border-2 border-dashed border-gray-200 rounded-none cursor-pointer hover:bg-amber-50 hover:border-amber-400 transition-colors"
+            onClick={() => fileInputRef.current?.click()}
+          >
+            <div className="flex flex-col items-center gap-2 text-gray-400">
+              <span className="text-4xl">🖼️</span>
+              <span className="text-sm">Click to upload image</span>
+              <span className="text-xs text-gray-300">PNG, JPG up to 5MB</span>
+            </div>
+          </div>
+        )}
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*"
+          onChange={handleImageUpload}
+          style={{ display: 'none' }}
+        />
+      </div>
+      {palette.status === 'extracting' && <p className="mt-2 text-xs text-gray-400">Extracting colors…</p>}
+      {palette.status === 'failed' && <p className="mt-2 text-xs text-red-600">Couldn't extract colors: {palette.error}</p>}
+    </div>
+  )
+}
+
+export function PaletteField({ schema, value, card, onUpdateFields }: FieldEditorProps<Record<string, string>>) {
+  const [palette, extract] = usePaletteExtraction(onUpdateFields)
+  const colors = value ?? {}
+  const hasColors = Object.keys(colors).length > 0
+
+  return (
+    <div className="mb-5">
+      <label className="block mb-2 text-sm font-semibold text-gray-700">{schema.label}</label>
+      <div className="grid grid-cols-3 gap-3">
+        {palette.status === 'extracting' ? (
+          <div className="col-span-3 text-center py-6 text-gray-400 text-sm">Extracting colors…</div>
+        ) : hasColors ? (
+          Object.entries(colors).map(([colorName, colorValue]) => (
+            <div key={colorName} className="flex flex-col items-center gap-1.5">
+              <div
+                className="w-12 h-12 rounded-none border border-gray-200"
+                style={{ backgroundColor: colorValue }}
+                title={colorName}
+              />
+              <span className="text-xs text-gray-400 capitalize font-mono">{colorName}</span>
+            </div>
+          ))
+        ) : (
+          <div className="col-span-3 text-center py-6 text-gray-400 text-sm">
+            Upload an image to extract colors
+          </div>
+        )}
+      </div>
+      {palette.status === 'failed' && (
+        <p className="mt-2 text-xs text-red-600">Couldn't extract colors: {palette.error}</p>
+      )}
+      {card.imageData && (
+        <div className="flex gap-2 mt-3">
+          {hasColors && (
+            <button
+              className="flex-1 py-2 bg-amber-100 hover:bg-amber-200 text-amber-800 rounded-none text-xs font-semibold cursor-pointer border-none"
+              onClick={() => onUpdateFields({ theme: themeFromPalette(colors) }, 'Theme from palette')}
+            >
+              ✨ Apply matching theme
+            </button>
+          )}
+          <button
+            className="px-3 py-2 bg-gray-100 hover:bg-gray-200 text-gray-600 rounded-none text-xs cursor-pointer border-none"
+            onClick={() => extract(card.imageData)}
+            disabled={palette.status === 'extracting'}
+            title="Extract the palette from the image again"
+          >
+            🎨 Re-extract
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export function ThemeField({ value, card, onChange }: FieldEditorProps<CardTheme>) {
+  return <ThemeEditor theme={value ?? {}} colors={card.colors} onChange={onChange} />
+}
@@ -0,0 +1,182 @@
+/** Scalar field editors — text, textarea, number slider, select, on/off toggle and colour — plus their on-card previews */
+import type { ReactNode } from 'react'
+import type { FieldSchema } from '../types'
+import type { FieldEditorProps, FieldPreviewProps } from './types'
+
+const inputClass = 'w-full px-3 py-2.5 bg-white border border-gray-200 rounded-none text-sm focus:border-amber-500 focus:ring-2 focus:ring-amber-100 outline-none'
+const diceClass = 'w-8 h-8 flex items-center justify-center bg-gray-100 hover:bg-amber-100 rounded-none text-sm cursor-pointer border-none text-gray-500 hover:text-amber-700'
+
+/** A random value in the field's range (`number`) or from its options (`select`) */
+function randomValue(schema: FieldSchema): string | number | undefined {
+  if (schema.type === 'number') {
+    const min = schema.min || 1
+    const max = schema.max || 10
+    return Math.floor(Math.random() * (max - min + 1)) + min
+  }
+  if (schema.options?.length) return schema.options[Math.floor(Math.random() * schema.options.length)]
+  return undefined
+}
+
+export function FieldLabel({ id, schema, children }: { id?: string; schema: FieldSchema; children?: ReactNode }) {
+  return (
+    <label htmlFor={id} className="flex items-center gap-2 mb-2 text-sm font-semibold text-gray-700">
+      {schema.label}
+      {schema.optional && <span className="text-xs px-1.5 py-0.5 bg-gray-100 text-gray-400 rounded">Optional</span>}
+      {children}
+    </label>
+  )
+}
+
+export function StringField({ id, schema, value, onChange }: FieldEditorProps<string>) {
+  return (
+    <div className="mb-5">
+      <FieldLabel id={id} schema={schema} />
+      <input
+        id={id}
+        type="text"
+        className={inputClass}
+        value={value || ''}
+        placeholder={schema.placeholder}
+        onChange={(e) => onChange(e.target.value)}
+      />
+    </div>
+  )
+}
+
+export function TextareaField({ id, schema, value, onChange }: FieldEditorProps<string>) {
+  return (
+    <div className="mb-5">
+      <FieldLabel id={id} schema={schema} />
+      <textarea
+        id={id}
+        className={`${inputClass} resize-y min-h-20`}
+        rows={schema.rows || 3}
+        value={value || ''}
+        placeholder={schema.placeholder}
+        onChange={(e) => onChange(e.target.value)}
+      />
+    </div>
+  )
+}
+
+export function NumberField({ id, schema, value, onChange }: FieldEditorProps<number>) {
+  return (
+    <div className="mb-5">
+      <FieldLabel id={id} schema={schema}>
+        <span className="ml-auto px-2.5 py-0.5 bg-amber-100 text-amber-700 rounded-none font-mono text-sm font-bold">
+          {value || schema.min || 0}
+        </span>
+      </FieldLabel>
+      <div className="flex items-center gap-2">
+        <input
+          id={id}
+          type="range"
+          className="flex-1 h-2 bg-gray-200 rounded-none appearance-none cursor-pointer accent-amber-600"
+          min={schema.min || 0}
+          max={schema.max || 10}
+          value={value || schema.min || 0}
+          onChange={(e) => onChange(parseInt(e.target.value))}
+        />
+        <button
+          className={diceClass}
+          onClick={() => onChange(randomValue(schema) as number, `🎲 Randomize ${schema.label}`)}
+          title="Randomize"
+        >
+          🎲
+        </button>
+      </div>
+      <div className="flex justify-between mt-1 text-xs text-gray-400 font-mono">
+        <span>{schema.min || 0}</span>
+        <span>{schema.max || 10}</span>
+      </div>
+    </div>
+  )
+}
+
+export function SelectField({ id, schema, value, onChange }: FieldEditorProps<string>) {
+  return (
+    <div className="mb-5">
+      <FieldLabel id={id} schema={schema} />
+      <div className="flex gap-2">
+        <select
+          id={id}
+          className={`${inputClass} flex-1 appearance-none cursor-pointer`}
+          value={value || schema.options?.[0]}
+          onChange={(e) => onChange(e.target.value)}
+        >
+          {schema.options?.map(option => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+        </select>
+        <button
+          className={diceClass}
+          onClick={() => onChange(randomValue(schema) as string, `🎲 Randomize ${schema.label}`)}
+          title="Randomize"
+        >
+          🎲
+        </button>
+      </div>
+    </div>
+  )
+}
+
+export function BooleanField({ id, schema, value, onChange }: FieldEditorProps<boolean>) {
+  return (
+    <div className="mb-5">
+      <label htmlFor={id} className="flex items-center gap-2 text-sm font-semibold text-gray-700 cursor-pointer">
+        <input
+          id={id}
+          type="checkbox"
+          className="w-4 h-4 accent-amber-600 cursor-pointer"
+          checked={!!value}
+          onChange={(e) => onChange(e.target.checked, `${e.target.checked ? 'Turn on' : 'Turn off'} ${schema.label}`)}
+        />
+        {schema.label}
+      </label>
+    </div>
+  )
+}
+
+export function BooleanPreview({ schema }: FieldPreviewProps<boolean>) {
+  return <span className="preview-trait">✦ {schema.label}</span>
+}
+
+export function ColorField({ id, schema, value, onChange }: FieldEditorProps<string>) {
+  const hex = /^#[0-9a-f]{6}$/i.test(value ?? '') ? value : '#000000'
+  return (
+    <div className="mb-5">
+      <FieldLabel id={id} schema={schema} />
+      <div className="flex items-center gap-2">
+        <input
+          type="color"
+          className="w-10 h-9 p-0.5 bg-white border border-gray-200 rounded-none cursor-pointer"
+          value={hex}
+          onChange={(e) => onChange(e.target.value)}
+          aria-label={`${schema.label} picker`}
+        />
+        <input
+          id={id}
+          type="text"
+          className={`${inputClass} flex-1 font-mono`}
+          value={value || ''}
+          placeholder="#rrggbb or any CSS colour"
+          onChange={(e) => onChange(e.target.value || undefined)}
+        />
+        {value && (
+          <button className={diceClass} onClick={() => onChange(undefined, `Clear ${schema.label}`)} title="Clear">
+            ×
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export function ColorPreview({ schema, value }: FieldPreviewProps<string>) {
+  return (
+    <span className="preview-trait" title={schema.label}>
+      <span className="preview-trait-swatch" style={{ background: value }} />
+      {schema.label}
+    </span>
+  )
+}
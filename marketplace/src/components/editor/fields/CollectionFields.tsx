@@ -0,0 +1,175 @@
+/** Multi-value field editors — repeatable lists, free-form tags, multi-select and keyword abilities — plus their on-card previews */
+import { useState } from 'react'
+import ListField from '../ListField'
+import { keywordText } from '../types'
+import type { KeywordAbility } from '../types'
+import { FieldLabel } from './BasicFields'
+import type { FieldEditorProps, FieldPreviewProps } from './types'
+
+const chipClass = 'inline-flex items-center gap-1 px-2 py-1 text-xs font-semibold'
+const removeClass = 'leading-none text-amber-600 hover:text-red-600 cursor-pointer'
+
+/** `2 / 4`, shown next to the label when the field has a limit */
+function Count({ count, max }: { count: number; max?: number }) {
+  if (max === undefined) return null
+  return <span className="ml-auto text-xs font-mono text-gray-400">{count} / {max}</span>
+}
+
+export function ListItemsField({ schema, value, onChange }: FieldEditorProps<Record<string, unknown>[]>) {
+  return (
+    <div className="mb-5">
+      <ListField schema={schema} items={value ?? []} onChange={onChange} />
+    </div>
+  )
+}
+
+export function TagsField({ id, schema, value, onChange }: FieldEditorProps<string[]>) {
+  const tags = value ?? []
+  const [draft, setDraft] = useState('')
+  const full = tags.length >= (schema.maxItems ?? Infinity)
+
+  const add = () => {
+    const tag = draft.trim().toLowerCase()
+    setDraft('')
+    if (!tag || full || tags.includes(tag)) return
+    onChange([...tags, tag], `Add tag ${tag}`)
+  }
+
+  return (
+    <div className="mb-5">
+      <FieldLabel id={id} schema={schema}>
+        <Count count={tags.length} max={schema.maxItems} />
+      </FieldLabel>
+      {tags.length > 0 && (
+        <div className="flex flex-wrap gap-1.5 mb-2">
+          {tags.map(tag => (
+            <span key={tag} className={`${chipClass} bg-amber-50 text-amber-800 border border-amber-200`}>
+              #{tag}
+              <button className={removeClass} onClick={() => onChange(tags.filter(t => t !== tag), `Remove tag ${tag}`)} title="Remove">×</button>
+            </span>
+          ))}
+        </div>
+      )}
+      <input
+        id={id}
+        type="text"
+        className="w-full px-3 py-2.5 bg-white border border-gray-200 rounded-none text-sm focus:border-amber-500 focus:ring-2 focus:ring-amber-100 outline-none disabled:bg-gray-50"
+        value={draft}
+        placeholder={full ? 'Tag limit reached' : schema.placeholder}
+        disabled={full}
+        onChange={(e) => setDraft(e.target.value.replace(/,/g, ''))}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' || e.key === ',') {
+            e.preventDefault()
+            add()
+          }
+        }}
+        onBlur={add}
+        data-native-undo
+      />
+    </div>
+  )
+}
+
+export function MultiSelectField({ schema, value, onChange }: FieldEditorProps<string[]>) {
+  const selected = value ?? []
+  const full = selected.length >= (schema.maxItems ?? Infinity)
+
+  const toggle = (option: string) => {
+    if (selected.includes(option)) onChange(selected.filter(o => o !== option), `Remove ${option}`)
+    else if (!full) onChange(schema.options!.filter(o => o === option || selected.includes(o)), `Add ${option}`)
+  }
+
+  return (
+    <div className="mb-5">
+      <FieldLabel schema={schema}>
+        <Count count={selected.length} max={schema.maxItems} />
+      </FieldLabel>
+      <div className="flex flex-wrap gap-1.5">
+        {schema.options?.map(option => {
+          const on = selected.includes(option)
+          return (
+            <button
+              key={option}
+              className={`px-2.5 py-1.5 text-xs font-semibold rounded-none border cursor-pointer disabled:opacity-40 disabled:cursor-default ${
+                on ? 'bg-amber-100 text-amber-800 border-amber-400' : 'bg-white text-gray-600 border-gray-200 hover:border-amber-400'
+              }`}
+              aria-pressed={on}
+              disabled={!on && full}
+              onClick={() => toggle(option)}
+            >
+              {option}
+            </button>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
+
+/** Chips for `tags` and `multiselect` values */
+export function ChipsPreview({ value }: FieldPreviewProps<string[]>) {
+  return <>{value.map(v => <span key={v} className="preview-trait">{v}</span>)}</>
+}
+
+export function KeywordsField({ id, schema, value, onChange }: FieldEditorProps<KeywordAbility[]>) {
+  const abilities = value ?? []
+  const catalogue = schema.keywords ?? []
+  const available = catalogue.filter(k => !abilities.some(a => a.name === k.name))
+  const full = abilities.length >= (schema.maxItems ?? Infinity)
+
+  const add = (name: string) => {
+    const def = catalogue.find(k => k.name === name)
+    if (!def) return
+    onChange([...abilities, def.valued ? { name, value: 1 } : { name }], `Add ${name}`)
+  }
+
+  return (
+    <div className="mb-5">
+      <FieldLabel id={id} schema={schema}>
+        <Count count={abilities.length} max={schema.maxItems} />
+      </FieldLabel>
+      {abilities.length > 0 && (
+        <ul className="mb-2 space-y-1.5">
+          {abilities.map((ability, index) => {
+            const def = catalogue.find(k => k.name === ability.name)
+            return (
+              <li key={ability.name} className="flex items-center gap-2 px-2 py-1.5 bg-amber-50 border border-amber-200">
+                <span className="text-sm font-semibold text-amber-900">{ability.name}</span>
+                {def?.valued && (
+                  <input
+                    type="number"
+                    min={0}
+                    max={20}
+                    className="w-14 px-1.5 py-0.5 bg-white border border-gray-200 rounded-none text-sm font-mono focus:border-amber-500 outline-none"
+                    value={ability.value ?? 0}
+                    aria-label={`${ability.name} value`}
+                    onChange={(e) => onChange(abilities.map((a, i) => (i === index ? { ...a, value: Math.max(0, parseInt(e.target.value) || 0) } : a)))}
+                  />
+                )}
+                <span className="flex-1 text-xs text-gray-500 truncate" title={def?.description}>{def?.description}</span>
+                <button className={removeClass} onClick={() => onChange(abilities.filter((_, i) => i !== index), `Remove ${ability.name}`)} title="Remove">
+                  ×
+                </button>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+      <select
+        id={id}
+        className="w-full px-3 py-2.5 bg-white border border-gray-200 rounded-none text-sm cursor-pointer focus:border-amber-500 outline-none disabled:bg-gray-50 disabled:cursor-default"
+        value=""
+        disabled={full || available.length === 0}
+        onChange={(e) => add(e.target.value)}
+      >
+        <option value="">{full ? 'Keyword limit reached' : '+ Add a keyword ability'}</option>
+        {available.map(k => <option key={k.name} value={k.name}>{k.valued ? `${k.name} N` : k.name}</option>)}
+      </select>
+    </div>
+  )
+}
+
+export function KeywordsPreview({ value }: FieldPreviewProps<KeywordAbility[]>) {
+  return <span className="preview-keywords">{value.map(keywordText).join(' · ')}</span>
+}
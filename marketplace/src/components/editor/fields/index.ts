@@ -0,0 +1,104 @@
+/**
+ * Field-type registry. `PartEditor` renders each `CARD_PARTS` field with the
+ * editor registered for its `type`, `CardPreview` shows `showOnCard` fields
+ * with the type's preview, and metadata exports `attribute` fields through its
+ * `format`. Every value passes the type's `isValid` first, so a malformed
+ * card can't hand a plugin the wrong shape. A new field kind is a
+ * `registerFieldType` call plus a schema entry using it — nothing else has to
+ * know about it.
+ */
+import { createElement } from 'react'
+import { keywordText } from '../types'
+import type { CardTheme, FieldSchema, KeywordAbility } from '../types'
+import { CardChecker, isObject, readColors, readTheme } from '../../../lib/cardChecks'
+import { ImageField, PaletteField, ThemeField } from './ArtworkFields'
+import {
+  BooleanField, BooleanPreview, ColorField, ColorPreview, NumberField, SelectField, StringField, TextareaField,
+} from './BasicFields'
+import { ChipsPreview, KeywordsField, KeywordsPreview, ListItemsField, MultiSelectField, TagsField } from './CollectionFields'
+import type { FieldPlugin } from './types'
+
+export type { FieldEditorProps, FieldPlugin, FieldPreviewProps } from './types'
+
+const registry = new Map<string, FieldPlugin>()
+
+/**
+ * Add a field kind, or replace a built-in one. The registry holds it as a
+ * `FieldPlugin<unknown>` whose editor, preview and format check values with
+ * `isValid` before handing them on — invalid values reach the editor as unset
+ * and aren't previewed.
+ */
+export function registerFieldType<T>(type: string, plugin: FieldPlugin<T>) {
+  const { editor, preview, isValid, format } = plugin
+  registry.set(type, {
+    isValid,
+    editor: props => createElement(editor, { ...props, value: isValid(props.value, props.schema) ? props.value : undefined }),
+    preview: preview && (props => (isValid(props.value, props.schema) ? createElement(preview, { ...props, value: props.value }) : null)),
+    format: format && ((value, schema) => (isValid(value, schema) ? format(value, schema) : String(value))),
+  })
+}
+
+export const getFieldPlugin = (type: string): FieldPlugin | undefined => registry.get(type)
+
+/** `value` when the field's type accepts its shape, otherwise `undefined` (unset) */
+export function fieldValue(schema: FieldSchema, value: unknown): unknown {
+  const isValid = registry.get(schema.type)?.isValid
+  return value === undefined || !isValid || isValid(value, schema) ? value : undefined
+}
+
+/** Unset, blank, off or empty — not shown on the card or exported */
+export const isEmptyValue = (value: unknown) =>
+  value === undefined || value === null || value === '' || value === false || (Array.isArray(value) && value.length === 0)
+
+/** A field's value as an ERC-721 attribute value */
+export function formatFieldValue(schema: FieldSchema, value: unknown): string | number {
+  const format = registry.get(schema.type)?.format
+  if (format) return format(value, schema)
+  return typeof value === 'number' ? value : String(value)
+}
+
+const joined = (values: string[]) => values.join(', ')
+
+const isString = (value: unknown): value is string => typeof value === 'string'
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value)
+const isBoolean = (value: unknown): value is boolean => typeof value === 'boolean'
+const isStrings = (value: unknown): value is string[] => Array.isArray(value) && value.every(isString)
+const isKeywords = (value: unknown): value is KeywordAbility[] =>
+  Array.isArray(value) && value.every(k => isString(k?.name) && (k.value === undefined || isNumber(k.value)))
+
+/** A `cardChecks` reader as a type guard: valid when it reports no errors */
+function checkedBy<T>(read: (value: unknown, path: string, check: CardChecker) => T) {
+  return (value: unknown): value is T => {
+    const check = new CardChecker()
+    read(value, 'value', check)
+    return check.errors.length === 0
+  }
+}
+
+/** `list` items are records; the keys its schema names must hold what their fields expect */
+function isListItems(value: unknown, schema: FieldSchema): value is Record<string, unknown>[] {
+  return Array.isArray(value) && value.every(item =>
+    isObject(item)
+    && (!schema.itemKey || isString(item[schema.itemKey]))
+    && (!schema.itemSwatch || (isString(item[schema.itemSwatch.background]) && isString(item[schema.itemSwatch.color])))
+    && Object.entries(schema.itemFields ?? {}).every(([key, field]) => fieldValue(field, item[key]) === item[key]))
+}
+
+registerFieldType<string>('string', { editor: StringField, isValid: isString })
+registerFieldType<string>('textarea', { editor: TextareaField, isValid: isString })
+registerFieldType<number>('number', { editor: NumberField, isValid: isNumber })
+registerFieldType<string>('select', { editor: SelectField, isValid: isString })
+registerFieldType<string>('image', { editor: ImageField, isValid: isString })
+registerFieldType<Record<string, string>>('palette', { editor: PaletteField, isValid: checkedBy(readColors) })
+registerFieldType<CardTheme>('theme', { editor: ThemeField, isValid: checkedBy(readTheme) })
+registerFieldType<Record<string, unknown>[]>('list', { editor: ListItemsField, isValid: isListItems })
+registerFieldType<boolean>('boolean', { editor: BooleanField, preview: BooleanPreview, isValid: isBoolean, format: value => (value ? 'Yes' : 'No') })
+registerFieldType<string>('color', { editor: ColorField, preview: ColorPreview, isValid: isString })
+registerFieldType<string[]>('tags', { editor: TagsField, preview: ChipsPreview, isValid: isStrings, format: joined })
+registerFieldType<string[]>('multiselect', { editor: MultiSelectField, preview: ChipsPreview, isValid: isStrings, format: joined })
+registerFieldType<KeywordAbility[]>('keywords', {
+  editor: KeywordsField,
+  preview: KeywordsPreview,
+  isValid: isKeywords,
+  format: value => value.map(keywordText).join(', '),
+})
@@ -0,0 +1,35 @@
+import type { ComponentType } from 'react'
+import type { CardEditorData, FieldSchema } from '../types'
+
+export interface FieldEditorProps<T = unknown> {
+  /** For the field's `<label htmlFor>` */
+  id: string
+  schema: FieldSchema
+  /** The value at the field's path; `undefined` until first set */
+  value: T | undefined
+  card: CardEditorData
+  /** `label` names a discrete action (🎲, upload) for the undo history; plain edits leave it out */
+  onChange: (value: T | undefined, label?: string) => void
+  /** Set other fields at once, keyed by path — e.g. the palette extracted from an uploaded image */
+  onUpdateFields: (updates: Record<string, unknown>, label?: string) => void
+}
+
+export interface FieldPreviewProps<T = unknown> {
+  schema: FieldSchema
+  value: T
+}
+
+/** A field kind: how it's edited, shown on the card and written as an attribute */
+export interface FieldPlugin<T = unknown> {
+  editor: ComponentType<FieldEditorProps<T>>
+  /** Renders the value on the card for fields with `showOnCard` */
+  preview?: ComponentType<FieldPreviewProps<T>>
+  /**
+   * Whether a stored value has this type's shape. Cards read from metadata or
+   * files can hold anything under a field's path; values that fail are
+   * treated as unset rather than reaching `editor`, `preview` or `format`
+   */
+  isValid: (value: unknown, schema: FieldSchema) => value is T
+  /** Attribute value in the NFT metadata; `String(value)` by default */
+  format?: (value: T, schema: FieldSchema) => string | number
+}
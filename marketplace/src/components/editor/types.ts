@@ -19,6 +19,8 @@ export interface CardEditorData {
   manaCost: ManaCost[]
   colors: Record<string, string>
   theme: CardTheme
+  /** Designer-defined attributes (the Traits part), keyed by field */
+  custom: Record<string, unknown>
 }
 
 export interface ManaCost {
@@ -39,23 +41,107 @@ export interface CardTheme {
   rarity?: { background?: string; color?: string; border?: string; boxShadow?: string }
 }
 
+/** Mana types offered by the mana cost editor, with their orb colours */
+export const MANA_TYPES = [
+  { type: 'Water', value: 1, color: '#2563eb', textColor: '#ffffff' },
+  { type: 'Fire', value: 1, color: '#dc2626', textColor: '#ffffff' },
+  { type: 'Earth', value: 1, color: '#65a30d', textColor: '#ffffff' },
+  { type: 'Air', value: 1, color: '#e0f2fe', textColor: '#0c4a6e' },
+  { type: 'Light', value: 1, color: '#facc15', textColor: '#111111' },
+  { type: 'Shadow', value: 1, color: '#4c1d95', textColor: '#ffffff' },
+  { type: 'Neutral', value: 1, color: '#9ca3af', textColor: '#111111' },
+] satisfies ManaCost[]
+
+/** A keyword ability offered by a `keywords` field */
+export interface KeywordDef {
+  name: string
+  description?: string
+  /** Takes a number, e.g. Shield 2 */
+  valued?: boolean
+}
+
+/** Value of a `keywords` field */
+export interface KeywordAbility {
+  name: string
+  value?: number
+}
+
+/** `Flying`, `Shield 2` */
+export const keywordText = (k: KeywordAbility) => (k.value === undefined ? k.name : `${k.name} ${k.value}`)
+
+/**
+ * Field kinds. Each is a plugin in `fields/` (editor, on-card preview,
+ * attribute text); register new ones with `registerFieldType`.
+ */
+export type FieldType =
+  | 'string' | 'number' | 'textarea' | 'select' | 'image' | 'palette' | 'theme' | 'list'
+  | 'boolean' | 'color' | 'tags' | 'multiselect' | 'keywords'
+  | (string & {})
+
 export interface FieldSchema {
   label: string
-  type: 'string' | 'number' | 'textarea' | 'select' | 'image' | 'palette'
+  type: FieldType
+  /** Dotted path of the value on the card, when it isn't the part's `path` plus the field key */
+  path?: string
   placeholder?: string
   optional?: boolean
   min?: number
   max?: number
   rows?: number
   options?: string[]
+  /** `list`: complete items new entries are copied from */
+  catalogue?: Record<string, unknown>[]
+  /** `list`: item key the catalogue is matched on and entries are named by */
+  itemKey?: string
+  /** `list`: per-item fields editable in place (`number`, `string` or `select`) */
+  itemFields?: Record<string, FieldSchema>
+  /** `list`: item keys holding the swatch background and text colour */
+  itemSwatch?: { background: string; color: string }
+  /** `list`, `tags`, `multiselect`, `keywords`: most entries allowed */
+  maxItems?: number
+  /** `keywords`: the abilities on offer */
+  keywords?: KeywordDef[]
+  /** Shown on the card through the field type's preview renderer */
+  showOnCard?: boolean
+  /** Exported as an ERC-721 attribute named after the label */
+  attribute?: boolean
 }
 
 export interface PartSchema {
   label: string
   icon: string
+  /** Dotted path the part's fields live under (`stats` → `stats.hp`); top level when unset */
+  path?: string
   fields: Record<string, FieldSchema>
 }
 
+/** Where a field's value lives on the card */
+export function fieldPath(part: PartSchema, key: string, field: FieldSchema): string {
+  return field.path ?? (part.path ? `${part.path}.${key}` : key)
+}
+
+/** The field stored at `path`, if any part has one */
+export function fieldAt(path: string): FieldSchema | undefined {
+  for (const part of Object.values(CARD_PARTS)) {
+    for (const [key, field] of Object.entries(part.fields)) {
+      if (fieldPath(part, key, field) === path) return field
+    }
+  }
+  return undefined
+}
+
+/** Keyword abilities offered by the Traits part */
+export const KEYWORDS: KeywordDef[] = [
+  { name: 'Flying', description: 'Only Flying cards can block it' },
+  { name: 'Haste', description: 'Can attack the turn it is played' },
+  { name: 'Shield', description: 'Ignores the first N damage each turn', valued: true },
+  { name: 'Lifesteal', description: 'Damage dealt heals its owner' },
+  { name: 'Stealth', description: "Can't be targeted until it attacks" },
+  { name: 'Regenerate', description: 'Heals N HP at the start of each turn', valued: true },
+  { name: 'Pierce', description: 'Excess damage carries through to the owner' },
+  { name: 'Taunt', description: 'Must be attacked first' },
+]
+
 /** Card parts schema — defines the editor UI structure */
 export const CARD_PARTS: Record<string, PartSchema> = {
   identity: {
@@ -70,6 +156,7 @@ export const CARD_PARTS: Record<string, PartSchema> = {
         options: ['Creature', 'Spell', 'Artifact', 'Enchantment', 'Land', 'Hero', 'Token'],
       },
       level: { label: 'Level', type: 'number', min: 1, max: 20 },
+      titleColor: { label: 'Title Colour', type: 'color', path: 'theme.header.color', optional: true },
     },
   },
   artwork: {
@@ -83,6 +170,7 @@ export const CARD_PARTS: Record<string, PartSchema> = {
   stats: {
     label: 'Stats',
     icon: '⚔️',
+    path: 'stats',
     fields: {
       hp: { label: 'HP', type: 'number', min: 1, max: 20 },
       attack: { label: 'Attack', type: 'number', min: 0, max: 15 },
@@ -91,6 +179,39 @@ export const CARD_PARTS: Record<string, PartSchema> = {
       crit: { label: 'Crit %', type: 'number', min: 0, max: 25 },
     },
   },
+  mana: {
+    label: 'Mana Cost',
+    icon: '🔮',
+    fields: {
+      manaCost: {
+        label: 'Mana Orbs',
+        type: 'list',
+        catalogue: MANA_TYPES,
+        itemKey: 'type',
+        itemFields: { value: { label: 'Cost', type: 'number', min: 0, max: 20 } },
+        itemSwatch: { background: 'color', color: 'textColor' },
+        maxItems: 6,
+      },
+    },
+  },
+  traits: {
+    label: 'Traits',
+    icon: '🧬',
+    path: 'custom',
+    fields: {
+      keywords: { label: 'Keyword Abilities', type: 'keywords', keywords: KEYWORDS, maxItems: 4, showOnCard: true, attribute: true },
+      factions: {
+        label: 'Factions',
+        type: 'multiselect',
+        options: ['Tidecallers', 'Emberkin', 'Stoneguard', 'Skyborne', 'Voidwalkers'],
+        maxItems: 2,
+        showOnCard: true,
+        attribute: true,
+      },
+      foil: { label: 'Foil', type: 'boolean', showOnCard: true, attribute: true },
+      tags: { label: 'Tags', type: 'tags', placeholder: 'e.g. starter-set', optional: true, maxItems: 8, attribute: true },
+    },
+  },
   flavor: {
     label: 'Flavor',
     icon: '📜',
@@ -105,6 +226,13 @@ export const CARD_PARTS: Record<string, PartSchema> = {
       },
     },
   },
+  theme: {
+    label: 'Theme',
+    icon: '🎨',
+    fields: {
+      theme: { label: 'Card Theme', type: 'theme' },
+    },
+  },
 }
 
 export function createDefaultCard(): CardEditorData {
@@ -122,5 +250,6 @@ export function createDefaultCard(): CardEditorData {
     manaCost: [],
     colors: {},
     theme: {},
+    custom: {},
   }
 }
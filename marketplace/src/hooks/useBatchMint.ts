@@ -0,0 +1,142 @@
+/**
+ * @module useBatchMint
+ * @description Mint many editor cards in one go, resumably (see `batchMint` in the SDK).
+ *
+ * Each card is stored like a single mint (`storeCard` with the configured
+ * metadata storage, artwork as the image) and sent to `Router.createCard`
+ * from the connected wallet, one confirmation per card. The report is saved
+ * to `localStorage` per chain and Router after every step, so a batch that
+ * stopped — closed tab, rejected signature, failed upload — picks up where it
+ * left off when run again with the same cards. Inline `data:` URIs are left
+ * out of the saved copy (they're cheap to rebuild and would fill storage).
+ *
+ * Rejecting a signature in the wallet stops the batch rather than failing
+ * every remaining card in turn.
+ *
+ * @returns `{ report, running, run, stop, clear }`
+ */
+
+import { useRef, useState } from 'react'
+import { useConfig } from 'wagmi'
+import type { Config } from 'wagmi'
+import { getTransaction, readContract, waitForTransactionReceipt, writeContract } from 'wagmi/actions'
+import { useQueryClient } from '@tanstack/react-query'
+import { BaseError, TransactionNotFoundError, UserRejectedRequestError, WaitForTransactionReceiptTimeoutError, isAddressEqual, parseEventLogs } from 'viem'
+import { MintTxError, ROUTER_ABI, batchMint } from '@whirlpool/sdk'
+import type { BatchMintClient, BatchMintItem, BatchMintReport } from '@whirlpool/sdk'
+import { ROUTER_ADDRESS, activeNetwork } from '../lib/deployment'
+import { MAX_TOKEN_URI_BYTES, nameHash } from './useMintCard'
+
+/** How long to wait for a receipt before recording the card as failed (it's re-checked on resume) */
+const CONFIRM_TIMEOUT_MS = 120_000
+
+const REPORT_KEY = `whirlpool.batchMint.${activeNetwork.chain.id}.${ROUTER_ADDRESS.toLowerCase()}`
+
+function loadReport(): BatchMintReport | undefined {
+  try {
+    const raw = localStorage.getItem(REPORT_KEY)
+    return raw ? (JSON.parse(raw) as BatchMintReport) : undefined
+  } catch {
+    return undefined
+  }
+}
+
+function persistReport(report: BatchMintReport | undefined) {
+  try {
+    if (!report) {
+      localStorage.removeItem(REPORT_KEY)
+      return
+    }
+    const cards = Object.fromEntries(Object.entries(report.cards).map(([name, entry]) => [
+      name,
+      entry.uri?.startsWith('data:') ? { ...entry, uri: undefined } : entry,
+    ]))
+    localStorage.setItem(REPORT_KEY, JSON.stringify({ ...report, cards }))
+  } catch {
+    // Storage full or disabled: the run continues, it just can't be resumed after a reload
+  }
+}
+
+/** Whether the node still has `hash`, mined or pending */
+async function isKnown(config: Config, hash: `0x${string}`): Promise<boolean> {
+  try {
+    await getTransaction(config, { hash })
+    return true
+  } catch (e) {
+    if (e instanceof BaseError && e.walk(err => err instanceof TransactionNotFoundError)) return false
+    throw e
+  }
+}
+
+function routerClient(config: Config, onReject: () => void): BatchMintClient {
+  return {
+    chainId: activeNetwork.chain.id,
+    router: ROUTER_ADDRESS,
+    mintFee: () => readContract(config, { address: ROUTER_ADDRESS, abi: ROUTER_ABI, functionName: 'MINT_FEE' }),
+    isNameTaken: name => readContract(config, { address: ROUTER_ADDRESS, abi: ROUTER_ABI, functionName: 'cardNameTaken', args: [nameHash(name)] }),
+    async createCard(name, symbol, uri, value) {
+      try {
+        return await writeContract(config, { address: ROUTER_ADDRESS, abi: ROUTER_ABI, functionName: 'createCard', args: [name, symbol, uri], value })
+      } catch (e) {
+        if (e instanceof BaseError && e.walk(err => err instanceof UserRejectedRequestError)) onReject()
+        throw e
+      }
+    },
+    async confirmCard(hash) {
+      const receipt = await waitForTransactionReceipt(config, { hash, timeout: CONFIRM_TIMEOUT_MS }).catch(async e => {
+        // No receipt in time: only a transaction the node has forgotten is safe to send again
+        if (e instanceof WaitForTransactionReceiptTimeoutError && !(await isKnown(config, hash))) {
+          throw new MintTxError('The transaction was dropped')
+        }
+        throw e
+      })
+      if (receipt.status !== 'success') throw new MintTxError('Transaction reverted')
+      const [created] = parseEventLogs({ abi: ROUTER_ABI, eventName: 'CardCreated', logs: receipt.logs })
+        .filter(log => isAddressEqual(log.address, ROUTER_ADDRESS))
+      if (!created) throw new Error('The receipt has no CardCreated event')
+      return { cardId: Number(created.args.cardId), cardToken: created.args.cardToken }
+    },
+  }
+}
+
+export function useBatchMint() {
+  const config = useConfig()
+  const queryClient = useQueryClient()
+  const [report, setReport] = useState<BatchMintReport | undefined>(loadReport)
+  const [running, setRunning] = useState(false)
+  const abort = useRef<AbortController>(undefined)
+
+  /** Mint `items`, resuming the saved report */
+  const run = async (items: BatchMintItem[]) => {
+    const controller = new AbortController()
+    abort.current = controller
+    setRunning(true)
+    try {
+      const done = await batchMint(items, routerClient(config, () => controller.abort()), {
+        report,
+        maxUriBytes: MAX_TOKEN_URI_BYTES,
+        signal: controller.signal,
+        onUpdate: next => {
+          persistReport(next)
+          setReport({ ...next, cards: { ...next.cards } })
+        },
+      })
+      await queryClient.invalidateQueries({ queryKey: ['cards'] })
+      return done
+    } finally {
+      setRunning(false)
+      abort.current = undefined
+    }
+  }
+
+  /** Stop after the current step */
+  const stop = () => abort.current?.abort()
+
+  /** Forget the saved report (the next run starts from scratch) */
+  const clear = () => {
+    persistReport(undefined)
+    setReport(undefined)
+  }
+
+  return { report, running, run, stop, clear }
+}
@@ -0,0 +1,30 @@
+/**
+ * @module useCardMetadata
+ * @description Load and cache the metadata behind a card's `tokenURI`.
+ *
+ * Cached in the query client under `['metadata', uri]`, so every tile and
+ * page showing the same URI shares one fetch. `data:` and `ipfs://` content
+ * can't change, so it never goes stale; `http(s)` metadata is re-checked
+ * after ten minutes. Failures are not retried — callers fall back to the
+ * generated art and surface `error`.
+ *
+ * @param tokenURI - BidNFT `tokenURI`; the query is disabled while empty
+ * @returns TanStack Query result with {@link CardMetadata} data
+ */
+
+import { useQuery } from '@tanstack/react-query'
+import { fetchMetadata } from '../lib/metadata'
+
+const HTTP_STALE_MS = 10 * 60_000
+
+export function useCardMetadata(tokenURI: string | undefined) {
+  const immutable = !!tokenURI && /^(data:|ipfs:)/i.test(tokenURI.trim())
+  return useQuery({
+    queryKey: ['metadata', tokenURI],
+    queryFn: ({ signal }) => fetchMetadata(tokenURI!, signal),
+    enabled: !!tokenURI,
+    staleTime: immutable ? Infinity : HTTP_STALE_MS,
+    gcTime: immutable ? Infinity : undefined,
+    retry: false,
+  })
+}
@@ -0,0 +1,113 @@
+/**
+ * @module useCardPosition
+ * @description Staking state of one card: its stakers ranked by LP shares and
+ * the connected account's position, read from CardStaking.
+ *
+ * ## Reads
+ * 1. `CardStaking.cardStakers(cardId, i)` in batches of `STAKER_BATCH` until an
+ *    index reverts (the array has no length getter). Accounts stay listed
+ *    after unstaking everything, so zero-share entries are dropped below.
+ * 2. One multicall with `cardStakes(cardId)` (total shares/staked),
+ *    `userCardShares` + `effectiveBalance` per staker and, when a wallet is
+ *    connected, its card token balance and allowance to CardStaking (for the
+ *    stake form).
+ *
+ * `effectiveBalance` is shares × staked cards / total shares — what the shares
+ * would withdraw now, after swaps have eroded the staked reserve.
+ *
+ * @returns TanStack Query result with {@link CardPosition} data
+ */
+
+import { useAccount, useConfig } from 'wagmi'
+import { readContracts } from 'wagmi/actions'
+import { useQuery } from '@tanstack/react-query'
+import type { ContractFunctionParameters } from 'viem'
+import { CARD_STAKING_ABI, CARD_TOKEN_ABI } from '@whirlpool/sdk'
+import { WHIRLPOOL_ADDRESS } from '../lib/deployment'
+
+/** `cardStakers` indexes probed per multicall */
+const STAKER_BATCH = 32
+
+export interface Staker {
+  account: `0x${string}`
+  shares: bigint
+  /** Card tokens the shares currently represent */
+  effective: bigint
+}
+
+export interface CardPosition {
+  /** Stakers with shares, most shares first */
+  stakers: Staker[]
+  totalShares: bigint
+  totalStaked: bigint
+  /** Connected account's position; undefined when disconnected */
+  user?: {
+    shares: bigint
+    effective: bigint
+    /** Unstaked card tokens in the wallet */
+    tokenBalance: bigint
+    /** Card token allowance granted to CardStaking */
+    allowance: bigint
+  }
+}
+
+type ReadResult = { status: 'success'; result: unknown } | { status: 'failure'; error: Error }
+
+export function useCardPosition(cardId: number, tokenAddress: string | undefined) {
+  const config = useConfig()
+  const { address } = useAccount()
+
+  return useQuery({
+    queryKey: ['cardPosition', WHIRLPOOL_ADDRESS, cardId, address],
+    enabled: !!tokenAddress,
+    queryFn: async (): Promise<CardPosition> => {
+      const id = BigInt(cardId)
+      const token = tokenAddress as `0x${string}`
+
+      // ═══ 1. Enumerate stakers ═══
+      const accounts: `0x${string}`[] = []
+      for (let start = 0; ; start += STAKER_BATCH) {
+        const results = await readContracts(config, {
+          contracts: Array.from({ length: STAKER_BATCH }, (_, i) => ({
+            address: WHIRLPOOL_ADDRESS, abi: CARD_STAKING_ABI, functionName: 'cardStakers', args: [id, BigInt(start + i)],
+          })) as ContractFunctionParameters[],
+        }) as ReadResult[]
+        const end = results.findIndex(r => r.status === 'failure')
+        for (const r of end < 0 ? results : results.slice(0, end)) accounts.push((r as { result: `0x${string}` }).result)
+        if (end >= 0) break
+      }
+
+      // ═══ 2. Shares, balances and the user's wallet ═══
+      const calls: ContractFunctionParameters[] = [
+        { address: WHIRLPOOL_ADDRESS, abi: CARD_STAKING_ABI, functionName: 'cardStakes', args: [id] },
+        ...accounts.flatMap(account => [
+          { address: WHIRLPOOL_ADDRESS, abi: CARD_STAKING_ABI, functionName: 'userCardShares', args: [id, account] },
+          { address: WHIRLPOOL_ADDRESS, abi: CARD_STAKING_ABI, functionName: 'effectiveBalance', args: [id, account] },
+        ]),
+      ]
+      if (address) {
+        calls.push(
+          { address: WHIRLPOOL_ADDRESS, abi: CARD_STAKING_ABI, functionName: 'userCardShares', args: [id, address] },
+          { address: WHIRLPOOL_ADDRESS, abi: CARD_STAKING_ABI, functionName: 'effectiveBalance', args: [id, address] },
+          { address: token, abi: CARD_TOKEN_ABI, functionName: 'balanceOf', args: [address] },
+          { address: token, abi: CARD_TOKEN_ABI, functionName: 'allowance', args: [address, WHIRLPOOL_ADDRESS] },
+        )
+      }
+      const [stake, ...rest] = await readContracts(config, { contracts: calls, allowFailure: false }) as unknown[]
+      const [, totalShares, totalStaked] = stake as readonly [string, bigint, bigint, string, bigint, bigint]
+
+      const stakers = accounts
+        .map((account, i) => ({ account, shares: rest[i * 2] as bigint, effective: rest[i * 2 + 1] as bigint }))
+        .filter(s => s.shares > 0n)
+        .sort((a, b) => (b.shares > a.shares ? 1 : b.shares < a.shares ? -1 : 0))
+
+      const own = rest.slice(accounts.length * 2) as bigint[]
+      return {
+        stakers,
+        totalShares,
+        totalStaked,
+        user: address && { shares: own[0], effective: own[1], tokenBalance: own[2], allowance: own[3] },
+      }
+    },
+  })
+}
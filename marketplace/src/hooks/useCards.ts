@@ -1,60 +1,85 @@
 /**
  * @module useCards
- * @description Custom React hook for loading all Whirlpool card data via multicall.
+ * @description Custom React hook for loading Whirlpool card data page by page via multicall.
  *
- * ## 3-Phase Data Loading Strategy
+ * ## Paged Data Loading Strategy
  *
- * This hook uses wagmi's `useReadContracts` (multicall) to batch on-chain reads
- * efficiently. Data is loaded in three sequential phases:
+ * The Router allows up to 5000 cards, far too many to read in one go, so cards
+ * are loaded in pages of `CARDS_PAGE_SIZE` through TanStack Query's
+ * `useInfiniteQuery`. Every page is cached under the `['cards', router, user]`
+ * key with its first card ID as the page param. Each page costs two multicalls:
  *
- * ### Phase 1: Total Cards Count
- * - Reads `WhirlpoolRouter.totalCards()` to know how many cards exist
- * - Single RPC call
+ * ### Round 1: Total Cards + Token Addresses
+ * - Reads `WhirlpoolRouter.totalCards()` alongside
+ *   `WhirlpoolRouter.cardToken(i)` for every ID in the page
+ * - IDs are 0-indexed (`cardId = totalCards_++` in the Router); slots at or
+ *   past `totalCards` are ignored
  *
- * ### Phase 2: Token Addresses
- * - Reads `WhirlpoolRouter.cardToken(i)` for i = 1..MAX_CARDS
- * - Uses a fixed-size call list (MAX_CARDS = 100) to keep React hooks stable
- *   (hooks can't be called conditionally, so we always prepare 100 slots)
- * - Only enabled when totalCards > 0
- * - Returns the ERC-20 token address for each card
- *
- * ### Phase 3: Batch Card Data
+ * ### Round 2: Batch Card Data
  * - For each card with a known token address, fetches 8 fields in one multicall:
  *   1. `CardToken.name()` — card display name
  *   2. `CardToken.symbol()` — token ticker
  *   3. `SurfSwap.getPrice(cardId)` — current WAVES price from AMM
  *   4. `SurfSwap.getReserves(cardId)` — WAVES and card token reserves
- *   5. `WhirlpoolStaking.ownerOfCard(cardId)` — current NFT owner (biggest staker)
- *   6. `WhirlpoolStaking.stakeOf(cardId, user)` — connected user's LP shares
- *   7. `WhirlpoolStaking.pendingRewards(cardId, user)` — unclaimed rewards
+ *   5. `CardStaking.ownerOfCard(cardId)` — current NFT owner (biggest staker)
+ *   6. `CardStaking.userCardShares(cardId, user)` — connected user's LP shares
+ *   7. `CardStaking.pendingRewards(cardId, user)` — unclaimed rewards
  *   8. `BidNFT.tokenURI(cardId)` — NFT metadata URI
  *
- * ## Why Fixed-Size Call Lists?
- * React hooks must be called in the same order every render. If we used
- * `totalCards` to dynamically size the Phase 2 array, the hook call count
- * would change when totalCards updates, violating the Rules of Hooks.
- * Using MAX_CARDS = 100 as a fixed upper bound avoids this.
+ * ## Per-Field Status
+ * Every field carries a {@link FieldState}. A reverted or failed read is marked
+ * `failed` with its revert reason rather than being replaced by `''`/`0n`, so a
+ * reverted `getPrice` is never shown as a free card. Values of failed fields
+ * are placeholders and must not be displayed. `retry` re-reads just the given
+ * cards, marking their failed fields `loading` meanwhile.
+ *
+ * ## Pagination
+ * A page reports the `totalCards` it saw, so `hasMore` stays correct as new
+ * cards are minted: once a refetch sees a larger total, the next page opens up.
+ * Call `loadMore` (e.g. from an infinite-scroll sentinel) to fetch it.
  *
  * ## User Context
  * When no wallet is connected, `userAddr` falls back to the zero address.
- * This means stakeOf and pendingRewards return 0, which is correct behavior.
+ * This means userCardShares and pendingRewards return 0, which is correct behavior.
  *
- * @returns {Object} { cards: CardData[], totalCards: number, isLoading: boolean }
+ * ## Single Card
+ * `useCard(id)` reads one card for its detail page under `['card', router, user, id]`,
+ * starting from the paged list's copy when that page is already cached.
+ *
+ * @returns {Object} { cards, totalCards, isLoading, hasMore, loadMore, isLoadingMore, degradedCount, retry }
+ */
+
+import { useAccount, useConfig } from 'wagmi'
+import { readContract, readContracts } from 'wagmi/actions'
+import type { Config } from 'wagmi'
+import { useInfiniteQuery, useQuery, useQueryClient } from '@tanstack/react-query'
+import type { InfiniteData } from '@tanstack/react-query'
+import { useCallback, useMemo } from 'react'
+import { BaseError, ContractFunctionRevertedError } from 'viem'
+import type { ContractFunctionParameters } from 'viem'
+import { ROUTER_ABI, SURFSWAP_ABI, CARD_STAKING_ABI, CARD_TOKEN_ABI, BIDNFT_ABI } from '@whirlpool/sdk'
+import { ROUTER_ADDRESS, SURFSWAP_ADDRESS, WHIRLPOOL_ADDRESS, BIDNFT_ADDRESS } from '../lib/deployment'
+
+/** Load state of one on-chain field. */
+export type FieldStatus = 'ok' | 'failed' | 'loading'
+
+/**
+ * Status of one field, with the revert reason (or RPC error) when it failed.
  */
+export interface FieldState {
+  status: FieldStatus
+  error?: string
+}
 
-import { useReadContract, useReadContracts, useAccount } from 'wagmi'
-import { useMemo } from 'react'
-import { 
-  ROUTER_ADDRESS, ROUTER_ABI, 
-  SURFSWAP_ABI, SURFSWAP_ADDRESS,
-  WHIRLPOOL_ABI, WHIRLPOOL_ADDRESS,
-  CARD_TOKEN_ABI, BIDNFT_ABI, BIDNFT_ADDRESS
-} from '../lib/contracts'
+/** Fields of {@link CardData} backed by an on-chain read. */
+export type CardField =
+  | 'tokenAddress' | 'name' | 'symbol' | 'price' | 'reserves'
+  | 'owner' | 'userShares' | 'pendingRewards' | 'tokenURI'
 
 /**
  * Represents all on-chain data for a single Whirlpool card.
  *
- * @property id - Card ID (1-indexed, assigned sequentially by the Router)
+ * @property id - Card ID (0-indexed, assigned sequentially by the Router)
  * @property name - Display name from the CardToken ERC-20
  * @property symbol - Token ticker symbol from the CardToken ERC-20
  * @property tokenAddress - Address of this card's ERC-20 token contract
@@ -64,6 +89,8 @@ import {
  * @property userShares - Connected user's LP shares in this card's staking pool
  * @property pendingRewards - Connected user's unclaimed WAVES rewards for this card
  * @property tokenURI - Metadata URI from BidNFT (typically an IPFS link)
+ * @property fields - Load status of every field above; check before displaying
+ * @property degraded - True when any field is not `ok`
  */
 export interface CardData {
   id: number
@@ -76,118 +103,255 @@ export interface CardData {
   userShares: bigint
   pendingRewards: bigint
   tokenURI: string
+  fields: Record<CardField, FieldState>
+  degraded: boolean
 }
 
 /** Zero address used as fallback when no wallet is connected. */
 const ZERO_ADDR = '0x0000000000000000000000000000000000000000' as `0x${string}`
 
+/** Cards per page — 8 reads each, so one page is a ~400-call multicall. */
+export const CARDS_PAGE_SIZE = 48
+
+/** Round 2 reads per card, in call order (must match `cardDataCalls`). */
+const DATA_FIELDS = ['name', 'symbol', 'price', 'reserves', 'owner', 'userShares', 'pendingRewards', 'tokenURI'] as const
+
+/** One page of cards plus the `totalCards` observed when it was read. */
+interface CardPage {
+  cards: CardData[]
+  /** First card ID of the next page */
+  nextId: number
+  totalCards: number
+}
+
+/** A multicall result as returned by `readContracts` with `allowFailure`. */
+type ReadResult = { status: 'success'; result: unknown; error?: undefined } | { status: 'failure'; error: Error; result?: undefined }
+
+/** Query key of the paged card list for one account. */
+const cardsQueryKey = (userAddr: `0x${string}`) => ['cards', ROUTER_ADDRESS, userAddr] as const
+
+/**
+ * Human-readable reason for a failed read: the revert reason when the
+ * contract reverted, otherwise viem's short message.
+ */
+function failureReason(error: Error): string {
+  if (error instanceof BaseError) {
+    const revert = error.walk(e => e instanceof ContractFunctionRevertedError)
+    if (revert instanceof ContractFunctionRevertedError && revert.reason) return revert.reason
+    return error.shortMessage
+  }
+  return error.message
+}
+
+const toFieldState = (r: ReadResult | undefined): FieldState =>
+  !r ? { status: 'failed', error: 'No result' }
+    : r.status === 'success' ? { status: 'ok' }
+    : { status: 'failed', error: failureReason(r.error) }
+
+/** `cardToken(id)` for each ID. */
+function tokenCalls(ids: number[]): ContractFunctionParameters[] {
+  return ids.map(id => ({ address: ROUTER_ADDRESS, abi: ROUTER_ABI, functionName: 'cardToken', args: [BigInt(id)] }))
+}
+
+/** The 8 Round 2 reads for one card, in `DATA_FIELDS` order. */
+function cardDataCalls(id: number, tokenAddr: `0x${string}`, userAddr: `0x${string}`): ContractFunctionParameters[] {
+  const cardId = BigInt(id)
+  return [
+    { address: tokenAddr, abi: CARD_TOKEN_ABI, functionName: 'name' },
+    { address: tokenAddr, abi: CARD_TOKEN_ABI, functionName: 'symbol' },
+    { address: SURFSWAP_ADDRESS, abi: SURFSWAP_ABI, functionName: 'getPrice', args: [cardId] },
+    { address: SURFSWAP_ADDRESS, abi: SURFSWAP_ABI, functionName: 'getReserves', args: [cardId] },
+    { address: WHIRLPOOL_ADDRESS, abi: CARD_STAKING_ABI, functionName: 'ownerOfCard', args: [cardId] },
+    { address: WHIRLPOOL_ADDRESS, abi: CARD_STAKING_ABI, functionName: 'userCardShares', args: [cardId, userAddr] },
+    { address: WHIRLPOOL_ADDRESS, abi: CARD_STAKING_ABI, functionName: 'pendingRewards', args: [cardId, userAddr] },
+    { address: BIDNFT_ADDRESS, abi: BIDNFT_ABI, functionName: 'tokenURI', args: [cardId] },
+  ]
+}
+
+/**
+ * Assemble a card from its token-address read and its Round 2 reads
+ * (`data` is empty when the token address itself could not be read).
+ */
+function parseCard(id: number, token: ReadResult | undefined, data: ReadResult[]): CardData {
+  const tokenState = toFieldState(token)
+  const fields = { tokenAddress: tokenState } as Record<CardField, FieldState>
+  DATA_FIELDS.forEach((field, i) => {
+    fields[field] = tokenState.status === 'ok'
+      ? toFieldState(data[i])
+      : { status: 'failed', error: `Token address unavailable: ${tokenState.error}` }
+  })
+  const value = <T,>(field: typeof DATA_FIELDS[number], fallback: T) =>
+    fields[field].status === 'ok' ? (data[DATA_FIELDS.indexOf(field)].result as T) : fallback
+  const reserves = value<readonly [bigint, bigint] | undefined>('reserves', undefined)
+
+  return {
+    id,
+    name: value('name', ''),
+    symbol: value('symbol', ''),
+    tokenAddress: tokenState.status === 'ok' ? (token!.result as string) : '',
+    price: value('price', 0n),
+    reserves: { waves: reserves?.[0] ?? 0n, cards: reserves?.[1] ?? 0n },
+    owner: value('owner', ''),
+    userShares: value('userShares', 0n),
+    pendingRewards: value('pendingRewards', 0n),
+    tokenURI: value('tokenURI', ''),
+    fields,
+    degraded: Object.values(fields).some(f => f.status !== 'ok'),
+  }
+}
+
+/**
+ * Read the given cards: token addresses (Round 1, unless already known via
+ * `tokenResults`) then all per-card data (Round 2).
+ */
+async function readCards(
+  config: Config,
+  ids: number[],
+  userAddr: `0x${string}`,
+  tokenResults?: ReadResult[],
+): Promise<CardData[]> {
+  const tokens = tokenResults ?? (await readContracts(config, { contracts: tokenCalls(ids) })) as ReadResult[]
+
+  const calls: ContractFunctionParameters[] = []
+  const offsets = ids.map((id, i) => {
+    const token = tokens[i]
+    if (token?.status !== 'success') return -1
+    const offset = calls.length
+    calls.push(...cardDataCalls(id, token.result as `0x${string}`, userAddr))
+    return offset
+  })
+  const data = (calls.length > 0 ? await readContracts(config, { contracts: calls }) : []) as ReadResult[]
+
+  return ids.map((id, i) =>
+    parseCard(id, tokens[i], offsets[i] < 0 ? [] : data.slice(offsets[i], offsets[i] + DATA_FIELDS.length)))
+}
+
 /**
- * Fixed upper bound for token address queries.
- * Must be >= MAX_CARDS in the contract (5000), but we use 100 for dev.
- * Keeps React hook call count stable across renders.
+ * Read cards `[start, start + CARDS_PAGE_SIZE)` in two multicalls.
+ *
+ * @param config - wagmi config (provides the public client)
+ * @param start - First card ID of the page
+ * @param userAddr - Account for userCardShares/pendingRewards (zero address when disconnected)
  */
-const MAX_CARDS = 100
+async function fetchCardPage(config: Config, start: number, userAddr: `0x${string}`): Promise<CardPage> {
+  // ═══ Round 1: total card count + token addresses for this page ═══
+  const ids = Array.from({ length: CARDS_PAGE_SIZE }, (_, i) => start + i)
+  const [totalRaw, ...tokenResults] = await readContracts(config, {
+    contracts: [
+      { address: ROUTER_ADDRESS, abi: ROUTER_ABI, functionName: 'totalCards' },
+      ...tokenCalls(ids),
+    ] as ContractFunctionParameters[],
+  }) as ReadResult[]
+  if (totalRaw.status === 'failure') throw totalRaw.error
+  const totalCards = Number(totalRaw.result)
+
+  // ═══ Round 2: per-card data for IDs that exist ═══
+  const existing = ids.filter(id => id < totalCards)
+  const cards = await readCards(config, existing, userAddr, tokenResults.slice(0, existing.length))
+
+  return { cards, nextId: start + CARDS_PAGE_SIZE, totalCards }
+}
 
 /**
- * Hook to fetch all Whirlpool card data via batched multicall reads.
+ * Hook to fetch Whirlpool card data page by page via batched multicall reads.
  *
- * @returns cards - Array of CardData for all existing cards
+ * @returns cards - CardData for every page loaded so far, in ID order
  * @returns totalCards - Total number of cards created in the system
- * @returns isLoading - Whether the Phase 3 batch data is still loading
+ * @returns isLoading - Whether the first page is still loading
+ * @returns hasMore - Whether cards past the loaded pages exist
+ * @returns loadMore - Fetch the next page (no-op while one is in flight)
+ * @returns isLoadingMore - Whether a next page is being fetched
+ * @returns degradedCount - Loaded cards with at least one failed field
+ * @returns retry - Re-read the given cards (all degraded cards when omitted)
  */
 export function useAllCards() {
+  const config = useConfig()
+  const queryClient = useQueryClient()
   const { address } = useAccount()
-  /** Use zero address when disconnected so stakeOf/pendingRewards return 0. */
+  /** Use zero address when disconnected so userCardShares/pendingRewards return 0. */
   const userAddr = address || ZERO_ADDR
+  const queryKey = cardsQueryKey(userAddr)
 
-  // ═══ Phase 1: Get total card count from the Router ═══
-  const { data: totalCardsRaw } = useReadContract({
-    address: ROUTER_ADDRESS,
-    abi: ROUTER_ABI,
-    functionName: 'totalCards',
+  const { data, isLoading, hasNextPage, fetchNextPage, isFetchingNextPage } = useInfiniteQuery({
+    queryKey,
+    queryFn: ({ pageParam }) => fetchCardPage(config, pageParam, userAddr),
+    initialPageParam: 0,
+    getNextPageParam: last => (last.nextId < last.totalCards ? last.nextId : undefined),
   })
-  const totalCards = totalCardsRaw ? Number(totalCardsRaw) : 0
-
-  // ═══ Phase 2: Fetch all token addresses (fixed-size for hook stability) ═══
-  const tokenAddrContracts = useMemo(() => {
-    const calls = []
-    for (let i = 1; i <= MAX_CARDS; i++) {
-      calls.push({
-        address: ROUTER_ADDRESS,
-        abi: ROUTER_ABI,
-        functionName: 'cardToken',
-        args: [BigInt(i)],
-      } as const)
-    }
-    return calls
-  }, [])
 
-  const { data: tokenAddrsRaw } = useReadContracts({
-    contracts: tokenAddrContracts,
-    query: { enabled: totalCards > 0 },
-  })
+  const cards = useMemo(() => data?.pages.flatMap(page => page.cards) ?? [], [data])
+  const totalCards = data?.pages.at(-1)?.totalCards ?? 0
+  const degradedCount = useMemo(() => cards.filter(c => c.degraded).length, [cards])
 
-  // ═══ Phase 3: Build per-card data queries from known token addresses ═══
-  const cardDataContracts = useMemo(() => {
-    if (!tokenAddrsRaw || totalCards === 0) return []
-    const calls: any[] = []
-    for (let i = 0; i < totalCards; i++) {
-      const tokenAddr = tokenAddrsRaw[i]?.result as `0x${string}` | undefined
-      if (!tokenAddr) continue
-      const cardId = BigInt(i + 1)
-
-      // 8 calls per card — order matters for parsing in Phase 4
-      calls.push(
-        { address: tokenAddr, abi: CARD_TOKEN_ABI, functionName: 'name' } as const,           // [0] name
-        { address: tokenAddr, abi: CARD_TOKEN_ABI, functionName: 'symbol' } as const,         // [1] symbol
-        { address: SURFSWAP_ADDRESS, abi: SURFSWAP_ABI, functionName: 'getPrice', args: [cardId] } as const,      // [2] price
-        { address: SURFSWAP_ADDRESS, abi: SURFSWAP_ABI, functionName: 'getReserves', args: [cardId] } as const,    // [3] reserves
-        { address: WHIRLPOOL_ADDRESS, abi: WHIRLPOOL_ABI, functionName: 'ownerOfCard', args: [cardId] } as const,  // [4] owner
-        { address: WHIRLPOOL_ADDRESS, abi: WHIRLPOOL_ABI, functionName: 'stakeOf', args: [cardId, userAddr] } as const,        // [5] userShares
-        { address: WHIRLPOOL_ADDRESS, abi: WHIRLPOOL_ABI, functionName: 'pendingRewards', args: [cardId, userAddr] } as const, // [6] pendingRewards
-        { address: BIDNFT_ADDRESS, abi: BIDNFT_ABI, functionName: 'tokenURI', args: [cardId] } as const,          // [7] tokenURI
-      )
-    }
-    return calls
-  }, [tokenAddrsRaw, totalCards, userAddr])
+  const loadMore = useCallback(() => {
+    if (hasNextPage && !isFetchingNextPage) fetchNextPage()
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage])
 
-  const { data: cardDataRaw, isLoading } = useReadContracts({
-    contracts: cardDataContracts.length > 0 ? cardDataContracts : undefined,
-    query: { enabled: cardDataContracts.length > 0 },
-  })
+  const retry = useCallback(async (ids?: number[]) => {
+    const key = cardsQueryKey(userAddr)
+    const current = queryClient.getQueryData<InfiniteData<CardPage, number>>(key)
+    const targets = ids ?? current?.pages.flatMap(p => p.cards).filter(c => c.degraded).map(c => c.id) ?? []
+    if (targets.length === 0) return
 
-  // ═══ Phase 4: Parse multicall results into CardData[] ═══
-  const cards = useMemo(() => {
-    if (!cardDataRaw || !tokenAddrsRaw || totalCards === 0) return []
-    const result: CardData[] = []
-    const FIELDS = 8 // number of calls per card (must match Phase 3)
-
-    for (let i = 0; i < totalCards; i++) {
-      const tokenAddr = tokenAddrsRaw[i]?.result as string | undefined
-      if (!tokenAddr) continue
-      const base = i * FIELDS
-      if (base + FIELDS > cardDataRaw.length) break
-
-      const reserves = cardDataRaw[base + 3]?.result as unknown as [bigint, bigint] | undefined
-
-      result.push({
-        id: i + 1,
-        name: (cardDataRaw[base]?.result as string) ?? '',
-        symbol: (cardDataRaw[base + 1]?.result as string) ?? '',
-        tokenAddress: tokenAddr,
-        price: (cardDataRaw[base + 2]?.result as bigint) ?? 0n,
-        reserves: {
-          waves: reserves?.[0] ?? 0n,
-          cards: reserves?.[1] ?? 0n,
-        },
-        owner: (cardDataRaw[base + 4]?.result as string) ?? '',
-        userShares: (cardDataRaw[base + 5]?.result as bigint) ?? 0n,
-        pendingRewards: (cardDataRaw[base + 6]?.result as bigint) ?? 0n,
-        tokenURI: (cardDataRaw[base + 7]?.result as string) ?? '',
+    const patch = (update: (card: CardData) => CardData) =>
+      queryClient.setQueryData<InfiniteData<CardPage, number>>(key, old => old && {
+        ...old,
+        pages: old.pages.map(page => ({ ...page, cards: page.cards.map(c => (targets.includes(c.id) ? update(c) : c)) })),
       })
+
+    // Failed fields show as loading while the retry is in flight
+    patch(card => ({
+      ...card,
+      fields: Object.fromEntries(Object.entries(card.fields).map(([field, state]) =>
+        [field, state.status === 'failed' ? { status: 'loading' } : state])) as Record<CardField, FieldState>,
+    }))
+
+    let fresh: CardData[]
+    try {
+      fresh = await readCards(config, targets, userAddr)
+    } catch (e) {
+      const error = failureReason(e as Error)
+      patch(card => ({
+        ...card,
+        fields: Object.fromEntries(Object.entries(card.fields).map(([field, state]) =>
+          [field, state.status === 'loading' ? { status: 'failed', error } : state])) as Record<CardField, FieldState>,
+      }))
+      return
     }
-    return result
-  }, [cardDataRaw, tokenAddrsRaw, totalCards])
+    const byId = new Map(fresh.map(c => [c.id, c]))
+    patch(card => byId.get(card.id) ?? card)
+  }, [config, queryClient, userAddr])
+
+  return {
+    cards, totalCards, isLoading,
+    hasMore: hasNextPage, loadMore, isLoadingMore: isFetchingNextPage,
+    degradedCount, retry,
+  }
+}
 
-  return { cards, totalCards, isLoading }
+/**
+ * Hook to read a single card (detail page). Resolves to `null` when no card
+ * with this ID has been created yet.
+ *
+ * @param id - Card ID from the route
+ * @returns TanStack Query result with the card as `data`
+ */
+export function useCard(id: number) {
+  const config = useConfig()
+  const queryClient = useQueryClient()
+  const { address } = useAccount()
+  const userAddr = address || ZERO_ADDR
+
+  return useQuery({
+    queryKey: ['card', ROUTER_ADDRESS, userAddr, id],
+    queryFn: async (): Promise<CardData | null> => {
+      const totalCards = await readContract(config, { address: ROUTER_ADDRESS, abi: ROUTER_ABI, functionName: 'totalCards' })
+      if (BigInt(id) >= totalCards) return null
+      const [card] = await readCards(config, [id], userAddr)
+      return card
+    },
+    // Show the list's copy immediately when coming from the grid
+    placeholderData: () => queryClient.getQueryData<InfiniteData<CardPage, number>>(cardsQueryKey(userAddr))
+      ?.pages.flatMap(p => p.cards).find(c => c.id === id),
+  })
 }
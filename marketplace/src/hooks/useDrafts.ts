@@ -0,0 +1,80 @@
+/**
+ * @module useDrafts
+ * @description Editor drafts from IndexedDB (see `lib/drafts.ts`).
+ *
+ * `useDraftLibrary` lists drafts under the `['drafts']` query key and wraps
+ * add/rename/duplicate/delete so the list refreshes after each. `useAutosave`
+ * writes the card being edited `AUTOSAVE_DELAY_MS` after the last change,
+ * and immediately if the editor unmounts with a save still pending (e.g.
+ * when switching to the Explore tab).
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { deleteDraft, duplicateDraft, listDrafts, renameDraft, saveDraft } from '../lib/drafts'
+import type { CardEditorData } from '../components/editor/types'
+
+const AUTOSAVE_DELAY_MS = 800
+
+export function useDraftLibrary() {
+  const queryClient = useQueryClient()
+  const query = useQuery({ queryKey: ['drafts'], queryFn: listDrafts, retry: false })
+
+  const refresh = useCallback(() => queryClient.invalidateQueries({ queryKey: ['drafts'] }), [queryClient])
+  /** Save each card as a new draft, in order */
+  const add = async (cards: { card: CardEditorData; symbol: string }[]) => {
+    const saved = []
+    for (const draft of cards) saved.push(await saveDraft(draft))
+    await refresh()
+    return saved
+  }
+  const rename = async (id: string, title: string) => { await renameDraft(id, title); await refresh() }
+  const duplicate = async (id: string) => { const copy = await duplicateDraft(id); await refresh(); return copy }
+  const remove = async (id: string) => { await deleteDraft(id); await refresh() }
+
+  return { drafts: query.data ?? [], isLoading: query.isLoading, error: query.error, refresh, add, rename, duplicate, remove }
+}
+
+export type AutosaveStatus = 'idle' | 'saving' | 'saved' | 'failed'
+
+/**
+ * Keep draft `id` in step with `card` and `symbol` while `enabled`.
+ *
+ * @returns `{ status, savedAt, error }` for the editor's save indicator, and
+ * `flush` to write a pending change now (before switching drafts)
+ */
+export function useAutosave(id: string, card: CardEditorData, symbol: string, enabled: boolean) {
+  const queryClient = useQueryClient()
+  const [status, setStatus] = useState<AutosaveStatus>('idle')
+  const [savedAt, setSavedAt] = useState<number>()
+  const [error, setError] = useState<string>()
+  const pending = useRef<(() => Promise<void>) | null>(null)
+
+  useEffect(() => {
+    if (!enabled) return
+    const save = async () => {
+      pending.current = null
+      setStatus('saving')
+      try {
+        const saved = await saveDraft({ id, card, symbol })
+        setSavedAt(saved.updatedAt)
+        setError(undefined)
+        setStatus('saved')
+        await queryClient.invalidateQueries({ queryKey: ['drafts'] })
+      } catch (e) {
+        setError((e as Error).message)
+        setStatus('failed')
+      }
+    }
+    pending.current = save
+    const timer = setTimeout(save, AUTOSAVE_DELAY_MS)
+    return () => clearTimeout(timer)
+  }, [id, card, symbol, enabled, queryClient])
+
+  // Flush a save that is still waiting when the editor goes away
+  useEffect(() => () => { void pending.current?.() }, [])
+
+  const flush = useCallback(async () => { await pending.current?.() }, [])
+
+  return { status, savedAt, error, flush }
+}
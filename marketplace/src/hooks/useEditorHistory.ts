@@ -0,0 +1,100 @@
+/**
+ * @module useEditorHistory
+ * @description Undo/redo history for the card editor.
+ *
+ * History is a list of card snapshots with the current position in it.
+ * Every change pushes a labelled snapshot and drops anything that had been
+ * undone. Changes that carry a `key` (one field, e.g. `stats.hp`) coalesce:
+ * another change to the same key within `COALESCE_MS` of the last replaces
+ * the newest snapshot instead of adding one, so a slider drag or a burst of
+ * typing is a single step. Changes without a key (🎲 randomize, image
+ * uploads) are always their own step.
+ *
+ * At most `MAX_ENTRIES` snapshots are kept; the oldest fall off.
+ *
+ * Shortcuts: Ctrl/⌘+Z undo, Ctrl/⌘+Shift+Z or Ctrl+Y redo — except inside
+ * elements marked `data-native-undo` (inputs that aren't part of the card).
+ *
+ * @returns `{ card, entries, index, canUndo, canRedo, apply, undo, redo, jumpTo, reset }`
+ */
+
+import { useCallback, useEffect, useState } from 'react'
+import type { CardEditorData } from '../components/editor/types'
+
+const COALESCE_MS = 1000
+const MAX_ENTRIES = 100
+
+export interface HistoryEntry {
+  card: CardEditorData
+  label: string
+  /** When the entry was last written */
+  at: number
+  /** Field the change touched, for coalescing */
+  key?: string
+}
+
+interface HistoryState {
+  entries: HistoryEntry[]
+  index: number
+}
+
+const start = (card: CardEditorData, label: string): HistoryState => ({
+  entries: [{ card, label, at: Date.now() }],
+  index: 0,
+})
+
+export function useEditorHistory(initial: () => CardEditorData) {
+  const [state, setState] = useState<HistoryState>(() => start(initial(), 'New card'))
+
+  /** Record `update` applied to the current card as a step called `label` */
+  const apply = useCallback((label: string, update: (card: CardEditorData) => CardEditorData, key?: string) => {
+    const now = Date.now()
+    setState(({ entries, index }) => {
+      const current = entries[index]
+      const card = update(current.card)
+      const coalesce = key !== undefined && index > 0 && index === entries.length - 1
+        && current.key === key && now - current.at < COALESCE_MS
+      if (coalesce) {
+        return { entries: [...entries.slice(0, index), { ...current, card, at: now }], index }
+      }
+      const next = [...entries.slice(0, index + 1), { card, label, at: now, key }].slice(-MAX_ENTRIES)
+      return { entries: next, index: next.length - 1 }
+    })
+  }, [])
+
+  const jumpTo = useCallback((target: number) => {
+    setState(s => (target < 0 || target >= s.entries.length || target === s.index ? s : { ...s, index: target }))
+  }, [])
+  const undo = useCallback(() => setState(s => (s.index > 0 ? { ...s, index: s.index - 1 } : s)), [])
+  const redo = useCallback(() => setState(s => (s.index < s.entries.length - 1 ? { ...s, index: s.index + 1 } : s)), [])
+
+  /** Start a new history from `card` (opening a draft, starting over) */
+  const reset = useCallback((card: CardEditorData, label: string) => setState(start(card, label)), [])
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return
+      if (e.target instanceof Element && e.target.closest('[data-native-undo]')) return
+      const key = e.key.toLowerCase()
+      if (key === 'z' && !e.shiftKey) undo()
+      else if ((key === 'z' && e.shiftKey) || (key === 'y' && !e.metaKey)) redo()
+      else return
+      e.preventDefault()
+    }
+    window.addEventListener('keydown', onKeyDown)
+    return () => window.removeEventListener('keydown', onKeyDown)
+  }, [undo, redo])
+
+  return {
+    card: state.entries[state.index].card,
+    entries: state.entries,
+    index: state.index,
+    canUndo: state.index > 0,
+    canRedo: state.index < state.entries.length - 1,
+    apply,
+    undo,
+    redo,
+    jumpTo,
+    reset,
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * @module useMintCard
+ * @description Mint an editor card through `WhirlpoolRouter.createCard`.
+ *
+ * ## Flow
+ * 1. `preparing` — checks the card against the active ruleset (see
+ *    `lib/cardRules.ts`), that the name is free (`cardNameTaken` is keyed by
+ *    the keccak of the ASCII-lowercased name, as in the Router) and reads `MINT_FEE`
+ * 2. `rendering` — when minting with a rendered image, exports the card as
+ *    PNG (see `lib/cardExport.ts`), so the NFT's `image` is the card exactly
+ *    as the editor showed it
+ * 3. `uploading` — stores the card through the configured
+ *    {@link metadataStorage}: the images first, then the ERC-721 metadata
+ *    pointing at them. With inline storage they all stay `data:` URIs.
+ * 4. `signing` — the wallet prompts for `createCard(name, symbol, uri)` with
+ *    exactly `MINT_FEE` attached
+ * 5. `pending` — waits for the receipt
+ * 6. `confirmed` — the new card ID is read from the Router's `CardCreated`
+ *    event and the card grid is refetched
+ *
+ * Any failure lands in `failed` with a readable `error`; `reset` goes back to
+ * `idle`. The token URI is stored on-chain by BidNFT, so a URI over
+ * `MAX_TOKEN_URI_BYTES` (in practice: inline metadata with a large image) is
+ * refused before the wallet is asked to sign.
+ *
+ * @returns `{ mint, reset, stage, hash, cardId, error, fee }`
+ */
+
+import { useState } from 'react'
+import { useConfig, useReadContract, useWriteContract } from 'wagmi'
+import { readContract, waitForTransactionReceipt } from 'wagmi/actions'
+import { useQueryClient } from '@tanstack/react-query'
+import { BaseError, isAddressEqual, keccak256, parseEventLogs, toBytes } from 'viem'
+import { ROUTER_ABI } from '@whirlpool/sdk'
+import { ROUTER_ADDRESS } from '../lib/deployment'
+import { checkCard } from '../lib/cardRules'
+import { buildMetadata } from '../lib/metadata'
+import { metadataStorage } from '../lib/storage'
+import type { MetadataStorage } from '../lib/storage'
+import type { CardEditorData } from '../components/editor/types'
+
+/** Largest inline token URI we'll ask BidNFT to store */
+export const MAX_TOKEN_URI_BYTES = 16 * 1024
+
+export type MintStage = 'idle' | 'preparing' | 'rendering' | 'uploading' | 'signing' | 'pending' | 'confirmed' | 'failed'
+
+/** `cardNameTaken` key for a name — the Router lowercases ASCII letters only */
+export const nameHash = (name: string) => keccak256(toBytes(name.replace(/[A-Z]/g, c => c.toLowerCase())))
+
+/** Store a card's images and metadata; resolves to its token URI */
+export async function storeCard(card: CardEditorData, storage: MetadataStorage = metadataStorage, rendered?: Blob): Promise<string> {
+  let image = card.imageData
+  if (storage.kind !== 'inline' && image.startsWith('data:')) {
+    image = await storage.put(await (await fetch(image)).blob())
+  }
+  const renderedUri = rendered && await storage.put(rendered)
+  const json = JSON.stringify(buildMetadata({ ...card, imageData: image }, renderedUri))
+  return storage.put(new Blob([json], { type: 'application/json' }))
+}
+
+const describe = (e: unknown) => (e instanceof BaseError ? e.shortMessage : (e as Error).message)
+
+export function useMintCard() {
+  const config = useConfig()
+  const queryClient = useQueryClient()
+  const { writeContractAsync } = useWriteContract()
+  const { data: fee } = useReadContract({ address: ROUTER_ADDRESS, abi: ROUTER_ABI, functionName: 'MINT_FEE' })
+
+  const [stage, setStage] = useState<MintStage>('idle')
+  const [hash, setHash] = useState<`0x${string}`>()
+  const [cardId, setCardId] = useState<number>()
+  const [error, setError] = useState<string>()
+
+  const reset = () => {
+    setStage('idle')
+    setHash(undefined)
+    setCardId(undefined)
+    setError(undefined)
+  }
+
+  /**
+   * Mint `card` with token symbol `symbol`, using `render()` as the NFT image
+   * when given; resolves to the new card ID, or undefined on failure
+   */
+  const mint = async (card: CardEditorData, symbol: string, render?: () => Promise<Blob>): Promise<number | undefined> => {
+    reset()
+    const name = card.name.trim()
+    try {
+      setStage('preparing')
+      if (!name) throw new Error('Give the card a name')
+      if (!symbol.trim()) throw new Error('Give the card a token symbol')
+      const [violation] = checkCard(card)
+      if (violation) throw new Error(violation.message)
+
+      const [taken, mintFee] = await Promise.all([
+        readContract(config, { address: ROUTER_ADDRESS, abi: ROUTER_ABI, functionName: 'cardNameTaken', args: [nameHash(name)] }),
+        fee ?? readContract(config, { address: ROUTER_ADDRESS, abi: ROUTER_ABI, functionName: 'MINT_FEE' }),
+      ])
+      if (taken) throw new Error(`A card named "${name}" already exists`)
+
+      let rendered: Blob | undefined
+      if (render) {
+        setStage('rendering')
+        rendered = await render()
+      }
+
+      setStage('uploading')
+      const uri = await storeCard(card, metadataStorage, rendered)
+      if (uri.length > MAX_TOKEN_URI_BYTES) {
+        throw new Error(`Metadata is ${Math.ceil(uri.length / 1024)} KB; the limit is ${MAX_TOKEN_URI_BYTES / 1024} KB — use a smaller image${rendered ? ', mint the artwork only' : ''} or another storage backend`)
+      }
+
+      setStage('signing')
+      const tx = await writeContractAsync({
+        address: ROUTER_ADDRESS,
+        abi: ROUTER_ABI,
+        functionName: 'createCard',
+        args: [name, symbol.trim(), uri],
+        value: mintFee,
+      })
+      setHash(tx)
+
+      setStage('pending')
+      const receipt = await waitForTransactionReceipt(config, { hash: tx })
+      if (receipt.status !== 'success') throw new Error('Transaction reverted')
+
+      const [created] = parseEventLogs({ abi: ROUTER_ABI, eventName: 'CardCreated', logs: receipt.logs })
+        .filter(log => isAddressEqual(log.address, ROUTER_ADDRESS))
+      if (!created) throw new Error('Minted, but the receipt has no CardCreated event')
+      const id = Number(created.args.cardId)
+
+      setCardId(id)
+      setStage('confirmed')
+      await queryClient.invalidateQueries({ queryKey: ['cards'] })
+      return id
+    } catch (e) {
+      setError(describe(e))
+      setStage('failed')
+      return undefined
+    }
+  }
+
+  return { mint, reset, stage, hash, cardId, error, fee }
+}
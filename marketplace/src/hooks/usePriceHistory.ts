@@ -0,0 +1,26 @@
+/**
+ * @module usePriceHistory
+ * @description OHLC candles of a card's WAVES price, served by the indexer.
+ *
+ * The indexer reconstructs the series from every block that changed the
+ * card's pool reserves (swaps, pool initialisation, LP stake changes) and
+ * buckets it by block timestamp. Candles refetch every 15s so a chart left
+ * open follows new trades.
+ *
+ * @returns TanStack Query result with {@link CandleSeries} data; `error` is an
+ *          {@link IndexerError} with `offline` set when the indexer is not running
+ */
+
+import { useQuery } from '@tanstack/react-query'
+import { fetchIndexer } from '../lib/indexer'
+import type { CandleInterval, CandleSeries } from '../lib/indexer'
+
+export function usePriceHistory(cardId: number, interval: CandleInterval, limit = 120) {
+  return useQuery({
+    queryKey: ['priceHistory', cardId, interval, limit],
+    queryFn: ({ signal }) =>
+      fetchIndexer<CandleSeries>(`/cards/${cardId}/candles?interval=${interval}&limit=${limit}`, signal),
+    refetchInterval: 15_000,
+    retry: false,
+  })
+}
@@ -0,0 +1,197 @@
+/**
+ * @module useSwap
+ * @description Trade WAVES, WETH and card tokens through `SurfSwap.swapExact`.
+ *
+ * ## Quotes
+ * `useSwapQuote` reads the reserves of the pools a swap passes through —
+ * `getReserves(cardId)` for each card side, `getWethReserves()` for WETH —
+ * every `QUOTE_REFRESH_MS`, and quotes the amount with the SDK's `quoteSwap`,
+ * which mirrors the contract's 30 bps `SWAP_FEE_BPS` math (see
+ * `sdk/src/swap.ts`). Cards and WETH trade with each other through WAVES.
+ *
+ * ## Swapping
+ * `useSwap().swap` approves SurfSwap for the exact input when the allowance is
+ * short, then calls `swapExact(tokenIn, tokenOut, amountIn, minAmountOut)`
+ * with `minAmountOut` from the quote the user saw less their slippage
+ * tolerance, so a swap that would pay out less reverts instead. Balances,
+ * pools and the card grid are refetched once it confirms.
+ *
+ * @returns `useSwapQuote` → `{ quote, error, isLoading, updatedAt }`;
+ * `useSwapBalances` → wallet balances and allowance; `useSwap` → `{ swap, stage, error, hash, reset }`
+ */
+
+import { useMemo, useState } from 'react'
+import { useAccount, useConfig, useWriteContract } from 'wagmi'
+import { readContract, readContracts, waitForTransactionReceipt } from 'wagmi/actions'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { BaseError } from 'viem'
+import type { ContractFunctionParameters } from 'viem'
+import { CARD_TOKEN_ABI, SURFSWAP_ABI, SwapQuoteError, minAmountOut, quoteSwap } from '@whirlpool/sdk'
+import type { PoolReserves, SwapAsset, SwapPools, SwapQuote } from '@whirlpool/sdk'
+import { SURFSWAP_ADDRESS, WAVES_ADDRESS, WETH_ADDRESS } from '../lib/deployment'
+import type { CardData } from './useCards'
+
+/** How often open quotes re-read the pools' reserves */
+export const QUOTE_REFRESH_MS = 5_000
+
+/** A token the swap page offers */
+export interface SwapToken {
+  /** Selector value: `waves`, `weth` or `card-<id>` */
+  key: string
+  symbol: string
+  name: string
+  address: `0x${string}`
+  asset: SwapAsset
+}
+
+export const WAVES_TOKEN: SwapToken = { key: 'waves', symbol: 'WAVES', name: 'Waves', address: WAVES_ADDRESS, asset: { kind: 'waves' } }
+export const WETH_TOKEN: SwapToken = { key: 'weth', symbol: 'WETH', name: 'Wrapped Ether', address: WETH_ADDRESS, asset: { kind: 'weth' } }
+
+export const cardSwapToken = (card: CardData): SwapToken => ({
+  key: `card-${card.id}`,
+  symbol: card.symbol,
+  name: card.name,
+  address: card.tokenAddress as `0x${string}`,
+  asset: { kind: 'card', cardId: card.id },
+})
+
+export type SwapStage = 'idle' | 'approving' | 'signing' | 'pending' | 'confirmed' | 'failed'
+
+type ReadResult = { status: 'success'; result: unknown } | { status: 'failure'; error: Error }
+
+/**
+ * Live quote for swapping `amountIn` of `from` into `to`. `error` explains a
+ * swap SurfSwap would reject (same token, empty pool) or a failed reserve read.
+ */
+export function useSwapQuote(from: SwapToken | undefined, to: SwapToken | undefined, amountIn: bigint) {
+  const config = useConfig()
+  const cardIds = [from, to].flatMap(t => (t?.asset.kind === 'card' ? [t.asset.cardId] : []))
+  const needsWeth = from?.asset.kind === 'weth' || to?.asset.kind === 'weth'
+
+  const pools = useQuery({
+    queryKey: ['swapPools', SURFSWAP_ADDRESS, cardIds, needsWeth],
+    enabled: !!from && !!to,
+    refetchInterval: QUOTE_REFRESH_MS,
+    queryFn: async (): Promise<SwapPools> => {
+      const contracts = [
+        ...cardIds.map(id => ({ address: SURFSWAP_ADDRESS, abi: SURFSWAP_ABI, functionName: 'getReserves', args: [BigInt(id)] })),
+        ...(needsWeth ? [{ address: SURFSWAP_ADDRESS, abi: SURFSWAP_ABI, functionName: 'getWethReserves' }] : []),
+      ] as ContractFunctionParameters[]
+      const results = await readContracts(config, { contracts }) as ReadResult[]
+      const failed = results.find(r => r.status === 'failure')
+      if (failed?.status === 'failure') throw failed.error
+      const reserves = results.map(r => (r as { result: PoolReserves }).result)
+      return {
+        cards: Object.fromEntries(cardIds.map((id, i) => [id, reserves[i]])),
+        weth: needsWeth ? reserves[cardIds.length] : undefined,
+      }
+    },
+  })
+
+  // Quoting is pure, so it re-runs on every keystroke against the latest reserves
+  const result = useMemo((): { quote?: SwapQuote; error?: string } => {
+    if (!pools.data || !from || !to || amountIn <= 0n) return {}
+    try {
+      return { quote: quoteSwap(from.asset, to.asset, amountIn, pools.data) }
+    } catch (e) {
+      if (e instanceof SwapQuoteError) return { error: e.message }
+      throw e
+    }
+  }, [pools.data, from, to, amountIn])
+
+  return {
+    quote: result.quote,
+    error: result.error ?? (pools.error ? `Couldn't read the pools: ${pools.error instanceof BaseError ? pools.error.shortMessage : pools.error.message}` : undefined),
+    isLoading: pools.isLoading,
+    /** When the reserves behind `quote` were read */
+    updatedAt: pools.dataUpdatedAt,
+  }
+}
+
+/** The connected wallet's balances of both sides and its allowance of `from` to SurfSwap */
+export function useSwapBalances(from: SwapToken | undefined, to: SwapToken | undefined) {
+  const config = useConfig()
+  const { address } = useAccount()
+
+  return useQuery({
+    queryKey: ['swapBalances', SURFSWAP_ADDRESS, address, from?.address, to?.address],
+    enabled: !!address && !!from && !!to,
+    queryFn: async () => {
+      const [balanceIn, allowance, balanceOut] = await readContracts(config, {
+        allowFailure: false,
+        contracts: [
+          { address: from!.address, abi: CARD_TOKEN_ABI, functionName: 'balanceOf', args: [address!] },
+          { address: from!.address, abi: CARD_TOKEN_ABI, functionName: 'allowance', args: [address!, SURFSWAP_ADDRESS] },
+          { address: to!.address, abi: CARD_TOKEN_ABI, functionName: 'balanceOf', args: [address!] },
+        ],
+      })
+      return { balanceIn, allowance, balanceOut }
+    },
+  })
+}
+
+export function useSwap() {
+  const config = useConfig()
+  const queryClient = useQueryClient()
+  const { address } = useAccount()
+  const { writeContractAsync } = useWriteContract()
+  const [stage, setStage] = useState<SwapStage>('idle')
+  const [hash, setHash] = useState<`0x${string}`>()
+  const [error, setError] = useState<string>()
+
+  const confirm = async (tx: `0x${string}`) => {
+    const receipt = await waitForTransactionReceipt(config, { hash: tx })
+    if (receipt.status !== 'success') throw new Error('The transaction reverted')
+  }
+
+  /**
+   * Swap `quote.amountIn` of `from` for at least `quote.amountOut` less
+   * `slippageBps` of `to`.
+   *
+   * @throws Error with a readable message, also kept in `error`
+   */
+  const swap = async (from: SwapToken, to: SwapToken, quote: SwapQuote, slippageBps: number) => {
+    setError(undefined)
+    setHash(undefined)
+    try {
+      if (!address) throw new Error('Connect a wallet first')
+      const minOut = minAmountOut(quote.amountOut, slippageBps)
+
+      const allowance = await readContract(config, {
+        address: from.address, abi: CARD_TOKEN_ABI, functionName: 'allowance', args: [address, SURFSWAP_ADDRESS],
+      })
+      if (allowance < quote.amountIn) {
+        setStage('approving')
+        await confirm(await writeContractAsync({
+          address: from.address, abi: CARD_TOKEN_ABI, functionName: 'approve', args: [SURFSWAP_ADDRESS, quote.amountIn],
+        }))
+      }
+
+      setStage('signing')
+      const tx = await writeContractAsync({
+        address: SURFSWAP_ADDRESS,
+        abi: SURFSWAP_ABI,
+        functionName: 'swapExact',
+        args: [from.address, to.address, quote.amountIn, minOut],
+      })
+      setHash(tx)
+      setStage('pending')
+      await confirm(tx)
+      setStage('confirmed')
+      await Promise.all(['swapBalances', 'swapPools', 'cards', 'card', 'cardPosition'].map(key => queryClient.invalidateQueries({ queryKey: [key] })))
+    } catch (e) {
+      setStage('failed')
+      const message = e instanceof BaseError ? e.shortMessage : (e as Error).message
+      setError(message)
+      throw new Error(message)
+    }
+  }
+
+  const reset = () => {
+    setStage('idle')
+    setError(undefined)
+    setHash(undefined)
+  }
+
+  return { swap, reset, stage, hash, error }
+}
@@ -0,0 +1,139 @@
+/**
+ * Shape checks for card fields read from outside the editor — imported files
+ * (`cardFiles.ts`) and minted metadata (`metadata.ts`). Either can hold
+ * anything, and `CardPreview` assumes the editor's types (it maps over
+ * `manaCost`, renders `name` as text), so values are checked before they
+ * reach it. Problems are collected under readable paths by a
+ * {@link CardChecker}; callers decide whether they reject the card.
+ */
+import { createDefaultCard } from '../components/editor/types'
+import type { CardEditorData, CardTheme, ManaCost } from '../components/editor/types'
+
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const THEME_SECTIONS = ['header', 'imageArea', 'typeSection', 'stat', 'flavorText', 'bottomSection', 'rarity'] as const
+
+/** Text fields of {@link CardEditorData} */
+const STRING_KEYS = ['name', 'subtitle', 'type', 'rarity', 'artist', 'moveName', 'flavorText', 'imageData'] as const
+
+/** Collects a single card's problems under readable paths */
+export class CardChecker {
+  errors: string[] = []
+  warnings: string[] = []
+
+  string(obj: Record<string, unknown>, key: string): string | undefined {
+    const value = obj[key]
+    if (value === undefined || value === null) return undefined
+    if (typeof value !== 'string') {
+      this.errors.push(`${key} must be a string`)
+      return undefined
+    }
+    return value
+  }
+
+  number(value: unknown, path: string): number | undefined {
+    if (value === undefined || value === null || value === '') return undefined
+    const n = typeof value === 'string' ? Number(value.trim()) : value
+    if (typeof n !== 'number' || !Number.isFinite(n)) {
+      this.errors.push(`${path} must be a number`)
+      return undefined
+    }
+    return n
+  }
+}
+
+export function readTheme(value: unknown, path: string, check: CardChecker): CardTheme {
+  if (value === undefined || value === null) return {}
+  if (!isObject(value)) {
+    check.errors.push(`${path} must be an object`)
+    return {}
+  }
+  if (value.background !== undefined && typeof value.background !== 'string') check.errors.push(`${path}.background must be a string`)
+  for (const section of THEME_SECTIONS) {
+    const props = value[section]
+    if (props === undefined) continue
+    if (!isObject(props)) {
+      check.errors.push(`${path}.${section} must be an object`)
+      continue
+    }
+    for (const [prop, v] of Object.entries(props)) {
+      if (typeof v !== 'string') check.errors.push(`${path}.${section}.${prop} must be a string`)
+    }
+  }
+  return value as CardTheme
+}
+
+export function readManaOrbs(value: unknown, path: string, check: CardChecker): ManaCost[] {
+  if (value === undefined) return []
+  if (!Array.isArray(value)) {
+    check.errors.push(`${path} must be a list`)
+    return []
+  }
+  return value.flatMap((orb, i) => {
+    const at = `${path}[${i}]`
+    if (!isObject(orb) || typeof orb.type !== 'string' || typeof orb.color !== 'string') {
+      check.errors.push(`${at} needs a type and a color`)
+      return []
+    }
+    const n = check.number(orb.value, `${at}.value`) ?? 0
+    return [{ type: orb.type, value: n, color: orb.color, textColor: typeof orb.textColor === 'string' ? orb.textColor : '#ffffff' }]
+  })
+}
+
+export function readColors(value: unknown, path: string, check: CardChecker): Record<string, string> {
+  if (value === undefined) return {}
+  if (!isObject(value) || !Object.values(value).every(c => typeof c === 'string')) {
+    check.errors.push(`${path} must map names to colour strings`)
+    return {}
+  }
+  return value as Record<string, string>
+}
+
+/**
+ * Designer-defined fields (`custom.*` paths) are free-form, but have to be an
+ * object; each value's shape is up to its field type (see `editor/fields`)
+ */
+export function readCustom(value: unknown, path: string, check: CardChecker): Record<string, unknown> {
+  if (value === undefined) return {}
+  if (!isObject(value)) {
+    check.errors.push(`${path} must be an object`)
+    return {}
+  }
+  return value
+}
+
+/**
+ * Read a whole {@link CardEditorData} (e.g. metadata's `properties.card`).
+ * Missing fields take the editor's defaults; fields of the wrong type are
+ * reported, so the result is only safe to render when `check` has no errors.
+ */
+export function readEditorCard(value: Record<string, unknown>, path: string, check: CardChecker): CardEditorData {
+  const card = createDefaultCard()
+  const strings: Partial<CardEditorData> = {}
+  for (const key of STRING_KEYS) {
+    if (value[key] === undefined) continue
+    if (typeof value[key] === 'string') strings[key] = value[key]
+    else check.errors.push(`${path}.${key} must be a string`)
+  }
+
+  const stats = { ...card.stats }
+  if (value.stats !== undefined && !isObject(value.stats)) {
+    check.errors.push(`${path}.stats must be an object`)
+  } else if (isObject(value.stats)) {
+    for (const stat of Object.keys(stats) as (keyof CardEditorData['stats'])[]) {
+      stats[stat] = check.number(value.stats[stat], `${path}.stats.${stat}`) ?? stats[stat]
+    }
+  }
+
+  return {
+    ...card,
+    ...strings,
+    level: check.number(value.level, `${path}.level`) ?? card.level,
+    stats,
+    manaCost: readManaOrbs(value.manaCost, `${path}.manaCost`, check),
+    colors: readColors(value.colors, `${path}.colors`, check),
+    theme: readTheme(value.theme, `${path}.theme`, check),
+    custom: readCustom(value.custom, `${path}.custom`, check),
+  }
+}
@@ -0,0 +1,273 @@
+/**
+ * Flat exports of the rendered card: a standalone SVG, and PNGs rasterized
+ * from it at any width.
+ *
+ * {@link renderCardSvg} clones the `CardPreview` card element and bakes its
+ * computed styles into inline `style` attributes, so the copy no longer needs
+ * the page's stylesheets. Properties that match both the browser default for
+ * the tag and the parent's value are left out to keep the file small.
+ * `::before`/`::after` content is copied as a scoped rule. Images (the
+ * artwork, CSS `url()` backgrounds) become `data:` URIs, and the `@font-face`
+ * rules for the fonts the card uses are embedded with their font files — only
+ * the subsets covering Basic Latin, fetched from the stylesheet's host. The
+ * clone is wrapped in an SVG `<foreignObject>`, so the SVG renders the same
+ * way the DOM did in any browser that supports that.
+ *
+ * {@link renderCardPng} draws that SVG onto a canvas. Browsers that refuse
+ * to read back a canvas with a `<foreignObject>` on it throw
+ * {@link CardExportError}.
+ */
+
+export type ExportFormat = 'png' | 'svg'
+
+/** Thrown when the card can't be captured or the browser refuses to rasterize it */
+export class CardExportError extends Error {
+  name = 'CardExportError'
+}
+
+const XHTML_NS = 'http://www.w3.org/1999/xhtml'
+
+/** Read a blob as a `data:` URL */
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(blob)
+  })
+}
+
+const inlined = new Map<string, Promise<string>>()
+
+/** Fetch `url` into a `data:` URL; fonts and artwork are cached across exports */
+function inlineUrl(url: string): Promise<string> {
+  if (url.startsWith('data:')) return Promise.resolve(url)
+  let pending = inlined.get(url)
+  if (!pending) {
+    pending = fetch(url)
+      .then(res => {
+        if (!res.ok) throw new Error(`${res.status}`)
+        return res.blob()
+      })
+      .then(blobToDataUrl)
+      .catch(() => {
+        inlined.delete(url)
+        throw new CardExportError(`Could not load ${new URL(url, location.href).host} content for the export`)
+      })
+    inlined.set(url, pending)
+  }
+  return pending
+}
+
+/** Replace every `url(…)` in a CSS value with a `data:` URL */
+async function inlineCssUrls(value: string, base = location.href): Promise<string> {
+  const urls = [...value.matchAll(/url\((['"]?)(.+?)\1\)/g)]
+  let out = value
+  for (const [match, , url] of urls) {
+    if (url.startsWith('data:')) continue
+    out = out.replace(match, `url("${await inlineUrl(new URL(url, base).href)}")`)
+  }
+  return out
+}
+
+/** Computed style of each tag in a blank document, to skip properties left at their defaults */
+class DefaultStyles {
+  private frame: HTMLIFrameElement
+  private cache = new Map<string, Map<string, string>>()
+
+  constructor() {
+    this.frame = document.createElement('iframe')
+    this.frame.style.cssText = 'position:fixed;left:-10000px;width:0;height:0;border:0;visibility:hidden'
+    document.body.appendChild(this.frame)
+  }
+
+  get(tag: string): Map<string, string> {
+    let styles = this.cache.get(tag)
+    if (!styles) {
+      const doc = this.frame.contentDocument!
+      const el = doc.createElement(tag)
+      doc.body.appendChild(el)
+      const computed = this.frame.contentWindow!.getComputedStyle(el)
+      styles = new Map([...computed].map(prop => [prop, computed.getPropertyValue(prop)]))
+      el.remove()
+      this.cache.set(tag, styles)
+    }
+    return styles
+  }
+
+  dispose() {
+    this.frame.remove()
+  }
+}
+
+const styleText = (computed: CSSStyleDeclaration) =>
+  [...computed].map(prop => `${prop}:${computed.getPropertyValue(prop)}`).join(';')
+
+interface CloneState {
+  defaults: DefaultStyles
+  pseudoRules: string[]
+  families: Set<string>
+  pending: Promise<void>[]
+}
+
+/** Copy `source`'s computed styles onto `target`, then recurse into children */
+function bakeStyles(source: Element, target: Element, parent: CSSStyleDeclaration | undefined, state: CloneState) {
+  const computed = getComputedStyle(source)
+  const defaults = state.defaults.get(source.tagName.toLowerCase())
+  const declarations: string[] = []
+  for (const prop of computed) {
+    const value = computed.getPropertyValue(prop)
+    if (value === defaults.get(prop) && (!parent || value === parent.getPropertyValue(prop))) continue
+    declarations.push(`${prop}:${value}`)
+  }
+  target.setAttribute('style', declarations.join(';'))
+  target.removeAttribute('class')
+
+  for (const family of computed.fontFamily.split(',')) state.families.add(family.trim().replace(/^['"]|['"]$/g, '').toLowerCase())
+
+  if (computed.backgroundImage.includes('url(')) {
+    state.pending.push(inlineCssUrls(computed.backgroundImage).then(bg => (target as HTMLElement).style.setProperty('background-image', bg)))
+  }
+  if (target instanceof HTMLImageElement && source instanceof HTMLImageElement && source.currentSrc) {
+    target.removeAttribute('srcset')
+    state.pending.push(inlineUrl(source.currentSrc).then(src => { target.src = src }))
+  }
+
+  for (const pseudo of ['::before', '::after']) {
+    const style = getComputedStyle(source, pseudo)
+    if (style.content === 'none' || style.content === 'normal') continue
+    const id = `x${state.pseudoRules.length}`
+    target.setAttribute('data-export', `${target.getAttribute('data-export') ?? ''} ${id}`.trim())
+    state.pseudoRules.push(`[data-export~="${id}"]${pseudo}{${styleText(style)}}`)
+  }
+
+  for (let i = 0; i < source.children.length; i++) {
+    bakeStyles(source.children[i], target.children[i], computed, state)
+  }
+}
+
+/** Text of every stylesheet reachable from the page, with the URL it was loaded from */
+async function stylesheetTexts(): Promise<{ css: string; base: string }[]> {
+  const texts: { css: string; base: string }[] = []
+  const visit = async (sheet: CSSStyleSheet) => {
+    const base = sheet.href ?? location.href
+    let rules: CSSRuleList
+    try {
+      rules = sheet.cssRules
+    } catch {
+      // Cross-origin (e.g. Google Fonts): fetch it ourselves; those hosts allow CORS
+      const css = await fetch(base).then(res => (res.ok ? res.text() : '')).catch(() => '')
+      texts.push({ css, base })
+      return
+    }
+    for (const rule of rules) {
+      if (rule instanceof CSSImportRule && rule.styleSheet) await visit(rule.styleSheet)
+      else if (rule instanceof CSSFontFaceRule) texts.push({ css: rule.cssText, base })
+    }
+  }
+  for (const sheet of document.styleSheets) await visit(sheet)
+  return texts
+}
+
+/** `@font-face` rules for `families`, Basic Latin subsets only, with their fonts inlined */
+async function embeddedFonts(families: Set<string>): Promise<string> {
+  const faces: string[] = []
+  for (const { css, base } of await stylesheetTexts()) {
+    for (const [rule] of css.matchAll(/@font-face\s*{[^}]*}/g)) {
+      const family = /font-family:\s*['"]?([^;'"]+)/.exec(rule)?.[1].trim().toLowerCase()
+      const range = /unicode-range:\s*([^;}]+)/.exec(rule)?.[1]
+      if (!family || !families.has(family) || (range && !/U\+0000-/i.test(range))) continue
+      try {
+        faces.push(await inlineCssUrls(rule, base))
+      } catch {
+        // A missing font falls back to the next family in the stack
+      }
+    }
+  }
+  return faces.join('\n')
+}
+
+const escapeXml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+
+/**
+ * Standalone SVG of `card` (the `.preview-card` element) at its laid-out size.
+ *
+ * @throws CardExportError when an image the card shows can't be fetched
+ */
+export async function renderCardSvg(card: HTMLElement): Promise<string> {
+  const width = card.offsetWidth
+  const height = card.offsetHeight
+  if (!width || !height) throw new CardExportError('The card is not on screen')
+
+  const clone = card.cloneNode(true) as HTMLElement
+  const state: CloneState = { defaults: new DefaultStyles(), pseudoRules: [], families: new Set(), pending: [] }
+  try {
+    bakeStyles(card, clone, undefined, state)
+  } finally {
+    state.defaults.dispose()
+  }
+  // Hover and layout offsets belong to the page, not the card
+  clone.style.setProperty('transform', 'none')
+  clone.style.setProperty('transition', 'none')
+  clone.style.setProperty('margin', '0')
+  clone.setAttribute('xmlns', XHTML_NS)
+
+  const [fonts] = await Promise.all([embeddedFonts(state.families), ...state.pending])
+  const markup = new XMLSerializer().serializeToString(clone)
+  const css = escapeXml(`${fonts}\n${state.pseudoRules.join('\n')}`)
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    `<defs><style>${css}</style></defs>`,
+    `<foreignObject x="0" y="0" width="${width}" height="${height}">${markup}</foreignObject>`,
+    '</svg>',
+  ].join('')
+}
+
+/**
+ * PNG of `card` rasterized `width` px wide (height follows the card's aspect).
+ *
+ * @throws CardExportError when the browser won't draw or read back the SVG
+ */
+export async function renderCardPng(card: HTMLElement, width: number): Promise<Blob> {
+  const svg = await renderCardSvg(card)
+  const scale = width / card.offsetWidth
+  const img = new Image()
+  img.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`
+  try {
+    await img.decode()
+  } catch {
+    throw new CardExportError('The browser could not draw the card')
+  }
+
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.round(card.offsetWidth * scale)
+  canvas.height = Math.round(card.offsetHeight * scale)
+  const ctx = canvas.getContext('2d')
+  if (!ctx) throw new CardExportError('Canvas is not available')
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height)
+
+  return new Promise((resolve, reject) => {
+    try {
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new CardExportError('PNG encoding failed'))), 'image/png')
+    } catch {
+      reject(new CardExportError('This browser does not allow exporting the card as PNG — try SVG'))
+    }
+  })
+}
+
+/** Export `card` as a PNG `width` px wide or as SVG */
+export async function exportCard(card: HTMLElement, format: ExportFormat, width = card.offsetWidth): Promise<Blob> {
+  if (format === 'png') return renderCardPng(card, width)
+  return new Blob([await renderCardSvg(card)], { type: 'image/svg+xml' })
+}
+
+/** Save `blob` through the browser's download prompt */
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = filename
+  a.click()
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
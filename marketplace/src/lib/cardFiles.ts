@@ -0,0 +1,253 @@
+/**
+ * Card design files: JSON import and export for the editor.
+ *
+ * ## Formats
+ * - `cardData` — the entry shape `scripts/generate-metadata.py` reads from
+ *   `cardData.json`: `name`, `subtitle`, `type`, `rarity`, `level`, `artist`,
+ *   `image`, `flavorText`, `theme`, and stats as `{ value, color? }` objects
+ *   (`hp`, `manaCost` — the editor's Mana stat — and `crit`, plus `attack`
+ *   and `defense`, which the generator ignores). Editor-only fields (move
+ *   name, mana orbs, palette) ride along under `editor` so a round trip
+ *   loses nothing. Exported as an array, the shape of `cardData.json` itself.
+ * - `metadata` — ERC-721 metadata as {@link buildMetadata} writes it, read
+ *   back through {@link parseMetadata}: editor metadata (`properties.card`)
+ *   and the generator's flattened `attributes` layout both import.
+ *
+ * A file holds one card (an object) or many (an array); the format is
+ * detected per entry, `attributes`/`properties` marking metadata.
+ *
+ * ## Validation
+ * Entries are checked against the editor's schema (`CARD_PARTS`, with the
+ * shape checks in `cardChecks.ts`). Wrong types (a non-numeric `hp`, a
+ * `theme` that isn't an object) reject the entry; values the editor can show
+ * but wouldn't offer (a level past its slider, a type outside the select)
+ * are clamped or kept with a warning.
+ * Rejected entries are reported with the reasons, and the rest still import.
+ */
+import { CARD_PARTS, createDefaultCard } from '../components/editor/types'
+import type { CardEditorData, CardTheme, ManaCost } from '../components/editor/types'
+import { CardChecker, isObject, readColors, readCustom, readManaOrbs, readTheme } from './cardChecks'
+import { buildMetadata, parseMetadata, resolveUri } from './metadata'
+
+export type CardFileFormat = 'cardData' | 'metadata'
+
+/** A stat in `cardData.json`: the value and, optionally, its orb gradient */
+export interface CardDataStat {
+  value: number | string
+  color?: string
+}
+
+/** One `cardData.json` entry */
+export interface CardDataEntry {
+  name: string
+  subtitle?: string
+  type?: string
+  rarity?: string
+  level?: number | string
+  artist?: string
+  image?: string
+  flavorText?: string
+  hp?: CardDataStat
+  manaCost?: CardDataStat
+  crit?: CardDataStat
+  attack?: CardDataStat
+  defense?: CardDataStat
+  theme?: CardTheme
+  /** Editor fields the metadata generator doesn't know about */
+  editor?: {
+    moveName?: string
+    manaCost?: ManaCost[]
+    colors?: Record<string, string>
+    /** Traits and other designer-defined fields */
+    custom?: Record<string, unknown>
+  }
+}
+
+export interface ImportedCard {
+  card: CardEditorData
+  /** Where it came from, e.g. `entry 3` */
+  source: string
+  format: CardFileFormat
+  warnings: string[]
+}
+
+export interface ImportResult {
+  cards: ImportedCard[]
+  /** Entries that failed validation, with why */
+  rejected: { source: string; errors: string[] }[]
+}
+
+/** Thrown when a file isn't JSON or holds no importable card */
+export class CardFileError extends Error {
+  name = 'CardFileError'
+}
+
+/** `cardData.json` stat keys and the editor stats they hold */
+const STAT_KEYS: [keyof CardEditorData['stats'], 'hp' | 'manaCost' | 'crit' | 'attack' | 'defense'][] = [
+  ['hp', 'hp'],
+  ['mana', 'manaCost'],
+  ['crit', 'crit'],
+  ['attack', 'attack'],
+  ['defense', 'defense'],
+]
+
+/** A `{ value }` stat, or a bare number */
+function readStat(entry: Record<string, unknown>, key: string, check: CardChecker): number | undefined {
+  const stat = entry[key]
+  if (isObject(stat)) {
+    if (stat.color !== undefined && typeof stat.color !== 'string') check.errors.push(`${key}.color must be a string`)
+    return check.number(stat.value, `${key}.value`)
+  }
+  return check.number(stat, key)
+}
+
+/** Image references load as is when they aren't a scheme `resolveUri` knows (e.g. `/data/art.png`) */
+function readImage(uri: string | undefined): string {
+  if (!uri) return ''
+  try {
+    return resolveUri(uri)
+  } catch {
+    return uri
+  }
+}
+
+function fromCardData(entry: Record<string, unknown>, check: CardChecker): CardEditorData {
+  const card = createDefaultCard()
+  if (entry.name === undefined) check.errors.push('name is required')
+  const name = check.string(entry, 'name')
+  const editor = entry.editor === undefined ? {} : entry.editor
+  if (!isObject(editor)) check.errors.push('editor must be an object')
+  const extras = isObject(editor) ? editor : {}
+
+  const stats = { ...card.stats }
+  for (const [stat, key] of STAT_KEYS) {
+    const value = readStat(entry, key, check)
+    if (value !== undefined) stats[stat] = value
+  }
+
+  return {
+    ...card,
+    name: name?.trim() ?? '',
+    subtitle: check.string(entry, 'subtitle') ?? '',
+    type: check.string(entry, 'type') || card.type,
+    rarity: check.string(entry, 'rarity') || card.rarity,
+    level: check.number(entry.level, 'level') ?? card.level,
+    artist: check.string(entry, 'artist') ?? card.artist,
+    imageData: readImage(check.string(entry, 'image')),
+    flavorText: check.string(entry, 'flavorText') ?? '',
+    moveName: check.string(extras, 'moveName') ?? '',
+    stats,
+    manaCost: readManaOrbs(extras.manaCost, 'editor.manaCost', check),
+    colors: readColors(extras.colors, 'editor.colors', check),
+    theme: readTheme(entry.theme, 'theme', check),
+    custom: readCustom(extras.custom, 'editor.custom', check),
+  }
+}
+
+function fromMetadata(entry: Record<string, unknown>, check: CardChecker): CardEditorData {
+  const { card, cardErrors, rendered } = parseMetadata(entry)
+  // parseMetadata holds `properties.card` and `properties.theme` to the editor's shape
+  if (cardErrors) {
+    check.errors.push(...cardErrors)
+    return createDefaultCard()
+  }
+  if (!card) {
+    check.errors.push('metadata has no card fields (properties.card or Type/Rarity/Level/HP attributes)')
+    return createDefaultCard()
+  }
+  // Relative images (generator output served next to the app) don't survive `resolveUri`
+  const image = rendered && isObject(entry.properties) ? entry.properties.artwork : entry.image
+  if (!card.imageData && typeof image === 'string') card.imageData = readImage(image)
+  return card
+}
+
+/** Clamp numbers to the editor's slider ranges and flag values outside its selects */
+function fitSchema(card: CardEditorData, check: CardChecker): CardEditorData {
+  const clamp = (value: number, part: string, key: string) => {
+    const { label, min = -Infinity, max = Infinity } = CARD_PARTS[part].fields[key]
+    if (value >= min && value <= max) return value
+    const fitted = Math.min(max, Math.max(min, value))
+    check.warnings.push(`${label} ${value} is outside ${min}–${max}; set to ${fitted}`)
+    return fitted
+  }
+  for (const key of ['type', 'rarity'] as const) {
+    const field = Object.values(CARD_PARTS).find(p => p.fields[key])!.fields[key]
+    if (!field.options?.includes(card[key])) check.warnings.push(`${field.label} "${card[key]}" isn't one of the editor's options`)
+  }
+  const stats = { ...card.stats }
+  for (const [stat] of STAT_KEYS) stats[stat] = clamp(stats[stat], 'stats', stat)
+  return { ...card, level: clamp(card.level, 'identity', 'level'), stats }
+}
+
+/**
+ * Parse a card file's text.
+ *
+ * @throws CardFileError when the text isn't JSON, or no entry is a valid card
+ */
+export function parseCardFile(text: string): ImportResult {
+  let json: unknown
+  try {
+    json = JSON.parse(text)
+  } catch {
+    throw new CardFileError('The file is not valid JSON')
+  }
+  const entries = Array.isArray(json) ? json : [json]
+  if (entries.length === 0) throw new CardFileError('The file has no cards')
+
+  const result: ImportResult = { cards: [], rejected: [] }
+  entries.forEach((entry, i) => {
+    const source = Array.isArray(json) ? `entry ${i + 1}` : 'the file'
+    if (!isObject(entry)) {
+      result.rejected.push({ source, errors: ['not an object'] })
+      return
+    }
+    const check = new CardChecker()
+    const format: CardFileFormat = Array.isArray(entry.attributes) || isObject(entry.properties) ? 'metadata' : 'cardData'
+    const read = format === 'metadata' ? fromMetadata(entry, check) : fromCardData(entry, check)
+    if (check.errors.length) {
+      result.rejected.push({ source, errors: check.errors })
+      return
+    }
+    const card = fitSchema(read, check)
+    result.cards.push({ card, source: card.name ? `${source} (${card.name})` : source, format, warnings: check.warnings })
+  })
+
+  if (result.cards.length === 0) {
+    const first = result.rejected[0]
+    throw new CardFileError(`No valid cards — ${first.source}: ${first.errors.join('; ')}`)
+  }
+  return result
+}
+
+/** The `cardData.json` entry for an editor card */
+export function toCardDataEntry(card: CardEditorData): CardDataEntry {
+  const entry: CardDataEntry = { name: card.name.trim() }
+  if (card.subtitle) entry.subtitle = card.subtitle
+  entry.type = card.type
+  entry.rarity = card.rarity
+  entry.level = card.level
+  if (card.artist) entry.artist = card.artist
+  if (card.imageData) entry.image = card.imageData
+  if (card.flavorText) entry.flavorText = card.flavorText
+  for (const [stat, key] of STAT_KEYS) entry[key] = { value: card.stats[stat] }
+  if (Object.keys(card.theme).length) entry.theme = card.theme
+
+  const editor: NonNullable<CardDataEntry['editor']> = {}
+  if (card.moveName) editor.moveName = card.moveName
+  if (card.manaCost.length) editor.manaCost = card.manaCost
+  if (Object.keys(card.colors).length) editor.colors = card.colors
+  if (Object.keys(card.custom).length) editor.custom = card.custom
+  if (Object.keys(editor).length) entry.editor = editor
+  return entry
+}
+
+/**
+ * File contents for `cards` in `format`: `cardData` is always an array, as
+ * in `cardData.json`; `metadata` is one object for a single card
+ */
+export function serializeCards(cards: CardEditorData[], format: CardFileFormat): string {
+  const data = format === 'cardData'
+    ? cards.map(toCardDataEntry)
+    : cards.length === 1 ? buildMetadata(cards[0]) : cards.map(card => buildMetadata(card))
+  return JSON.stringify(data, null, 2)
+}
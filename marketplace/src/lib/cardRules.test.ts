@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest'
+import { createDefaultCard } from '../components/editor/types'
+import type { CardEditorData } from '../components/editor/types'
+import { checkCard, fitStats, parseRuleset, RULESETS, RulesetError } from './cardRules'
+
+const standard = RULESETS.find(r => r.id === 'standard' && r.version === 1)!
+const ORB = { type: 'Fire', value: 1, color: '#f00', textColor: '#fff' }
+
+/** The default card (38 stat points) with `changes` applied; stats merge */
+function card(changes: Partial<Omit<CardEditorData, 'stats'>> & { stats?: Partial<CardEditorData['stats']> } = {}): CardEditorData {
+  const base = createDefaultCard()
+  return { ...base, rarity: '★Common★', ...changes, stats: { ...base.stats, ...changes.stats } }
+}
+
+describe('checkCard (standard@1)', () => {
+  const cases: { name: string; card: CardEditorData; violations: [field: string, message: string][] }[] = [
+    { name: 'the default card fits a level 1 Common budget', card: card(), violations: [] },
+    {
+      name: 'stats over budget',
+      card: card({ stats: { attack: 7 } }),
+      violations: [['stats', 'Stats cost 42 points; a level 1 Common Creature has 40']],
+    },
+    { name: 'levels raise the budget', card: card({ level: 3, stats: { attack: 7 } }), violations: [] },
+    {
+      name: 'rarity markers are dropped from messages',
+      card: card({ rarity: '★Legendary★', stats: { hp: 20, attack: 15, defense: 15 } }),
+      violations: [['stats', 'Stats cost 88 points; a level 1 Legendary Creature has 60']],
+    },
+    {
+      name: 'a max of 0 rules a stat out, and maxManaOrbs of 0 the mana cost',
+      card: card({ type: 'Land', manaCost: [ORB] }),
+      violations: [
+        ['stats.attack', "Land cards can't have Attack"],
+        ['stats.crit', "Land cards can't have Crit %"],
+        ['manaCost', 'Land cards have no mana cost'],
+      ],
+    },
+    {
+      name: 'per-type max',
+      card: card({ type: 'Spell', stats: { hp: 2, defense: 0 } }),
+      violations: [['stats.hp', 'HP is at most 1 on a Spell']],
+    },
+    {
+      name: 'per-type min',
+      card: card({ type: 'Hero', stats: { hp: 4 } }),
+      violations: [['stats.hp', 'HP is at least 5 on a Hero']],
+    },
+    { name: 'a type budget bonus', card: card({ type: 'Hero', stats: { attack: 8 } }), violations: [] },
+    {
+      name: 'a type budget penalty',
+      card: card({ type: 'Token' }),
+      violations: [['stats', 'Stats cost 38 points; a level 1 Common Token has 30']],
+    },
+    {
+      name: 'a rarity without a budget',
+      card: card({ rarity: 'Mythic' }),
+      violations: [['rarity', 'Standard v1 has no stat budget for Mythic cards']],
+    },
+    { name: 'types without rules only check the budget', card: card({ type: 'Creature', manaCost: [ORB, ORB, ORB] }), violations: [] },
+  ]
+
+  for (const { name, card, violations } of cases) {
+    it(name, () => {
+      expect(checkCard(card, standard).map(v => [v.field, v.message])).toEqual(violations)
+    })
+  }
+})
+
+describe('fitStats (standard@1)', () => {
+  const cases: { name: string; card: CardEditorData }[] = [
+    { name: 'over budget', card: card({ stats: { hp: 20, attack: 15, defense: 15 } }) },
+    { name: 'stats a type rules out', card: card({ type: 'Land' }) },
+    { name: 'below a type minimum', card: card({ type: 'Hero', stats: { hp: 1 } }) },
+  ]
+  for (const { name, card: c } of cases) {
+    it(`brings ${name} within the rules`, () => {
+      const stats = fitStats(c, standard)
+      expect(checkCard({ ...c, stats }, standard).filter(v => v.field.startsWith('stats'))).toEqual([])
+    })
+  }
+})
+
+describe('parseRuleset', () => {
+  it('accepts the shipped rulesets', () => {
+    expect(RULESETS.map(r => `${r.id}@${r.version}`)).toContain('standard@1')
+  })
+
+  const rejected: [name: string, change: Record<string, unknown>, message: RegExp][] = [
+    ['a bad id', { id: 'Standard' }, /id must be lower-case/],
+    ['a zero version', { version: 0 }, /version must be a positive integer/],
+    ['a missing stat cost', { statCosts: { hp: 1 } }, /statCosts is missing attack/],
+    ['an unknown stat', { types: { Land: { max: { speed: 0 } } } }, /types\.Land\.max\.speed is not a stat/],
+    ['a fractional maxManaOrbs', { types: { Land: { maxManaOrbs: 1.5 } } }, /maxManaOrbs must be an integer/],
+  ]
+  for (const [name, change, message] of rejected) {
+    it(`rejects ${name}`, () => {
+      expect(() => parseRuleset({ ...standard, ...change }, 'test.json')).toThrow(RulesetError)
+      expect(() => parseRuleset({ ...standard, ...change }, 'test.json')).toThrow(message)
+    })
+  }
+})
@@ -0,0 +1,233 @@
+/**
+ * Card rules: the stat budget and per-type limits a card has to meet to be
+ * minted, on top of each field's own range in `CARD_PARTS`.
+ *
+ * Rulesets are JSON files in `src/rulesets/`, one per version
+ * (`<id>.v<version>.json`). A balance change is a new file with the next
+ * version rather than an edit, so every minted card can say which rules it was
+ * made under (`properties.ruleset` in its metadata, e.g. `standard@1`).
+ * `VITE_CARD_RULESET` picks the active one — `<id>@<version>`, `<id>` for its
+ * latest version, or `none` to turn the checks off; the default is the latest
+ * `standard`.
+ *
+ * A ruleset defines:
+ * - `statCosts` — budget points per point of each stat
+ * - `budgets[rarity]` — `base + perLevel × (level − 1)` points to spend
+ * - `types[type]` — `min`/`max` per stat (a max of 0 rules the stat out),
+ *   a `budget` adjustment, and `maxManaOrbs`
+ */
+import { CARD_PARTS } from '../components/editor/types'
+import type { CardEditorData } from '../components/editor/types'
+
+export type StatKey = keyof CardEditorData['stats']
+export type CardStats = CardEditorData['stats']
+
+export interface StatBudget {
+  base: number
+  perLevel: number
+}
+
+export interface TypeRules {
+  min?: Partial<Record<StatKey, number>>
+  max?: Partial<Record<StatKey, number>>
+  /** Added to the rarity's budget */
+  budget?: number
+  maxManaOrbs?: number
+}
+
+export interface Ruleset {
+  id: string
+  version: number
+  label: string
+  description?: string
+  statCosts: Record<StatKey, number>
+  budgets: Record<string, StatBudget>
+  types: Record<string, TypeRules>
+}
+
+/** A rule the card breaks */
+export interface RuleViolation {
+  /** Field key it concerns (`stats`, `stats.attack`, `rarity`, `manaCost`), for highlighting */
+  field: string
+  message: string
+}
+
+/** Thrown for a malformed ruleset file or an unknown `VITE_CARD_RULESET` */
+export class RulesetError extends Error {
+  name = 'RulesetError'
+}
+
+const STAT_FIELDS = CARD_PARTS.stats.fields
+const STAT_KEYS = Object.keys(STAT_FIELDS) as StatKey[]
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value)
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value)
+
+function checkStatMap(value: unknown, where: string, required: boolean): void {
+  if (value === undefined && !required) return
+  if (!isObject(value)) throw new RulesetError(`${where} must be an object of stats`)
+  for (const [key, n] of Object.entries(value)) {
+    if (!(STAT_KEYS as string[]).includes(key)) throw new RulesetError(`${where}.${key} is not a stat (${STAT_KEYS.join(', ')})`)
+    if (!isNumber(n) || n < 0) throw new RulesetError(`${where}.${key} must be a number >= 0`)
+  }
+  if (required) {
+    const missing = STAT_KEYS.filter(key => !(key in value))
+    if (missing.length) throw new RulesetError(`${where} is missing ${missing.join(', ')}`)
+  }
+}
+
+/**
+ * Check a ruleset file's shape.
+ *
+ * @throws RulesetError naming the first problem
+ */
+export function parseRuleset(raw: unknown, source: string): Ruleset {
+  const fail = (message: string) => new RulesetError(`${source}: ${message}`)
+  if (!isObject(raw)) throw fail('expected an object')
+  const { id, version, label, statCosts, budgets, types } = raw
+  if (typeof id !== 'string' || !/^[a-z0-9-]+$/.test(id)) throw fail('id must be lower-case letters, digits and dashes')
+  if (!Number.isSafeInteger(version) || (version as number) < 1) throw fail('version must be a positive integer')
+  if (typeof label !== 'string') throw fail('label must be a string')
+  try {
+    checkStatMap(statCosts, 'statCosts', true)
+    if (!isObject(budgets)) throw new RulesetError('budgets must map rarities to { base, perLevel }')
+    for (const [rarity, budget] of Object.entries(budgets)) {
+      if (!isObject(budget) || !isNumber(budget.base) || !isNumber(budget.perLevel)) throw new RulesetError(`budgets.${rarity} needs numeric base and perLevel`)
+    }
+    if (!isObject(types)) throw new RulesetError('types must map card types to rules')
+    for (const [type, rules] of Object.entries(types)) {
+      if (!isObject(rules)) throw new RulesetError(`types.${type} must be an object`)
+      checkStatMap(rules.min, `types.${type}.min`, false)
+      checkStatMap(rules.max, `types.${type}.max`, false)
+      if (rules.budget !== undefined && !isNumber(rules.budget)) throw new RulesetError(`types.${type}.budget must be a number`)
+      if (rules.maxManaOrbs !== undefined && !(Number.isSafeInteger(rules.maxManaOrbs) && (rules.maxManaOrbs as number) >= 0)) {
+        throw new RulesetError(`types.${type}.maxManaOrbs must be an integer >= 0`)
+      }
+    }
+  } catch (e) {
+    throw fail((e as Error).message)
+  }
+  return raw as unknown as Ruleset
+}
+
+/** `standard@1` */
+export const rulesetId = (ruleset: Ruleset) => `${ruleset.id}@${ruleset.version}`
+
+const files = import.meta.glob('../rulesets/*.json', { eager: true, import: 'default' })
+
+/** Every ruleset version, by id then version */
+export const RULESETS: Ruleset[] = Object.entries(files)
+  .map(([path, raw]) => parseRuleset(raw, path.replace('../', 'src/')))
+  .sort((a, b) => a.id.localeCompare(b.id) || a.version - b.version)
+
+function selectRuleset(spec: string): Ruleset | undefined {
+  if (spec === 'none') return undefined
+  const [id, version] = spec.split('@')
+  const candidates = RULESETS.filter(r => r.id === id && (version === undefined || String(r.version) === version))
+  const found = candidates[candidates.length - 1]
+  if (!found) {
+    throw new RulesetError(`VITE_CARD_RULESET is "${spec}", but the rulesets are ${RULESETS.map(rulesetId).join(', ') || 'none'}`)
+  }
+  return found
+}
+
+/** The rules minting enforces, or `undefined` when checks are off */
+export const activeRuleset: Ruleset | undefined = selectRuleset(import.meta.env.VITE_CARD_RULESET || 'standard')
+
+/** `★Common★` → `Common` */
+const plainRarity = (rarity: string) => rarity.replace(/★/g, '')
+
+/** Budget points the stats spend */
+export function statCost(stats: CardStats, ruleset: Ruleset): number {
+  return STAT_KEYS.reduce((sum, key) => sum + (stats[key] || 0) * ruleset.statCosts[key], 0)
+}
+
+/** Budget points the card may spend, or `undefined` if the ruleset has no budget for its rarity */
+export function statBudget(card: CardEditorData, ruleset: Ruleset): number | undefined {
+  const budget = ruleset.budgets[card.rarity]
+  if (!budget) return undefined
+  return budget.base + budget.perLevel * (Math.max(1, card.level) - 1) + (ruleset.types[card.type]?.budget ?? 0)
+}
+
+/** Allowed range of a stat for a card type: the field's own range narrowed by the type's rules */
+export function statRange(key: StatKey, type: string, ruleset: Ruleset): [number, number] {
+  const field = STAT_FIELDS[key]
+  const rules = ruleset.types[type]
+  const hi = Math.min(field.max ?? Infinity, rules?.max?.[key] ?? Infinity)
+  const lo = Math.min(hi, Math.max(field.min ?? 0, rules?.min?.[key] ?? 0))
+  return [lo, hi]
+}
+
+/** Everything the card does against `ruleset` (none when checks are off) */
+export function checkCard(card: CardEditorData, ruleset = activeRuleset): RuleViolation[] {
+  if (!ruleset) return []
+  const violations: RuleViolation[] = []
+  const rules = ruleset.types[card.type]
+  const rarity = plainRarity(card.rarity)
+
+  for (const key of STAT_KEYS) {
+    const value = card.stats[key] || 0
+    const { label } = STAT_FIELDS[key]
+    const max = rules?.max?.[key]
+    const min = rules?.min?.[key]
+    if (max === 0 && value > 0) violations.push({ field: `stats.${key}`, message: `${card.type} cards can't have ${label}` })
+    else if (max !== undefined && value > max) violations.push({ field: `stats.${key}`, message: `${label} is at most ${max} on a ${card.type}` })
+    if (min !== undefined && value < min) violations.push({ field: `stats.${key}`, message: `${label} is at least ${min} on a ${card.type}` })
+  }
+
+  const budget = statBudget(card, ruleset)
+  if (budget === undefined) {
+    violations.push({ field: 'rarity', message: `${ruleset.label} v${ruleset.version} has no stat budget for ${rarity} cards` })
+  } else {
+    const spent = statCost(card.stats, ruleset)
+    if (spent > budget) {
+      violations.push({ field: 'stats', message: `Stats cost ${spent} points; a level ${card.level} ${rarity} ${card.type} has ${budget}` })
+    }
+  }
+
+  const maxOrbs = rules?.maxManaOrbs
+  if (maxOrbs !== undefined && card.manaCost.length > maxOrbs) {
+    violations.push({
+      field: 'manaCost',
+      message: maxOrbs === 0 ? `${card.type} cards have no mana cost` : `At most ${maxOrbs} mana orb${maxOrbs === 1 ? '' : 's'} on a ${card.type}`,
+    })
+  }
+  return violations
+}
+
+/** Violations about `field` or anything under it (`stats` covers `stats.attack`) */
+export const violationsFor = (violations: RuleViolation[], field: string) =>
+  violations.filter(v => v.field === field || v.field.startsWith(`${field}.`))
+
+/**
+ * The card's stats moved into the ruleset's limits: each stat clamped to its
+ * range, then the stat furthest up its range lowered one point at a time
+ * until the budget fits.
+ */
+export function fitStats(card: CardEditorData, ruleset = activeRuleset): CardStats {
+  const stats = { ...card.stats }
+  if (!ruleset) return stats
+  const ranges = Object.fromEntries(STAT_KEYS.map(key => [key, statRange(key, card.type, ruleset)])) as Record<StatKey, [number, number]>
+  for (const key of STAT_KEYS) {
+    const [lo, hi] = ranges[key]
+    stats[key] = Math.min(hi, Math.max(lo, stats[key] || 0))
+  }
+
+  const budget = statBudget(card, ruleset)
+  if (budget === undefined) return stats
+  while (statCost(stats, ruleset) > budget) {
+    let trim: StatKey | undefined
+    let highest = 0
+    for (const key of STAT_KEYS) {
+      const [lo, hi] = ranges[key]
+      const share = (stats[key] - lo) / (hi - lo || 1)
+      if (stats[key] > lo && ruleset.statCosts[key] > 0 && share > highest) {
+        trim = key
+        highest = share
+      }
+    }
+    if (!trim) break
+    stats[trim]--
+  }
+  return stats
+}
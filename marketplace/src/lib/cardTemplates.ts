@@ -0,0 +1,190 @@
+/**
+ * Card templates: starting points for new cards. A built-in one per card type
+ * (stats within the standard ruleset, a theme and placeholder flavor), plus
+ * the designer's own — any design saved without its name and artwork, so a
+ * series can share a look. User templates live in `localStorage` under
+ * `whirlpool.cardTemplates`, like theme presets (see `themePresets.ts`).
+ */
+import { useSyncExternalStore } from 'react'
+import { MANA_TYPES, createDefaultCard } from '../components/editor/types'
+import type { CardEditorData, ManaCost } from '../components/editor/types'
+import { BUILT_IN_PRESETS } from './themePresets'
+
+/** Everything a template sets: the card minus its name and artwork */
+export type TemplateCard = Omit<CardEditorData, 'name' | 'imageData'>
+
+export interface CardTemplate {
+  name: string
+  description?: string
+  card: TemplateCard
+  /** Built-in templates can't be deleted */
+  builtIn?: boolean
+}
+
+const STORAGE_KEY = 'whirlpool.cardTemplates'
+/** Fired on `window` when this tab changes the saved templates */
+const CHANGE_EVENT = 'whirlpool:card-templates'
+
+const presetTheme = (name: string) => structuredClone(BUILT_IN_PRESETS.find(p => p.name === name)?.theme ?? {})
+
+function orbs(...costs: [string, number][]): ManaCost[] {
+  return costs.map(([type, value]) => ({ ...MANA_TYPES.find(m => m.type === type)!, value }))
+}
+
+/** A deep copy of `card` without its name and artwork */
+function templateOf(card: CardEditorData): TemplateCard {
+  const copy: Partial<CardEditorData> = structuredClone(card)
+  delete copy.name
+  delete copy.imageData
+  return copy as TemplateCard
+}
+
+function builtIn(name: string, description: string, card: Partial<TemplateCard>): CardTemplate {
+  return { name, description, builtIn: true, card: { ...templateOf(createDefaultCard()), ...card } }
+}
+
+export const BUILT_IN_TEMPLATES: CardTemplate[] = [
+  builtIn('Creature', 'A balanced fighter', {
+    type: 'Creature',
+    subtitle: 'Wild Beast',
+    rarity: '★Common★',
+    stats: { hp: 10, attack: 5, defense: 4, mana: 2, crit: 5 },
+    manaCost: orbs(['Neutral', 2]),
+    moveName: 'Pounce',
+    flavorText: 'Where it lives, what it hunts, and why it fights.',
+    theme: presetTheme('Ocean'),
+  }),
+  builtIn('Spell', 'All offence, no body', {
+    type: 'Spell',
+    subtitle: 'Incantation',
+    rarity: '★Common★',
+    stats: { hp: 1, attack: 8, defense: 0, mana: 6, crit: 10 },
+    manaCost: orbs(['Fire', 1], ['Neutral', 1]),
+    moveName: 'Cast',
+    flavorText: 'What the spell does, and who first spoke it.',
+    theme: presetTheme('Sunset'),
+  }),
+  builtIn('Artifact', 'A sturdy relic', {
+    type: 'Artifact',
+    subtitle: 'Ancient Relic',
+    rarity: '★Uncommon★',
+    stats: { hp: 8, attack: 3, defense: 8, mana: 4, crit: 0 },
+    manaCost: orbs(['Neutral', 3]),
+    moveName: 'Activate',
+    flavorText: 'Who forged it, and what it was made to guard.',
+    theme: presetTheme('Obsidian'),
+  }),
+  builtIn('Land', 'Mana without a fight', {
+    type: 'Land',
+    subtitle: 'Sacred Ground',
+    rarity: '★Common★',
+    stats: { hp: 12, attack: 0, defense: 6, mana: 8, crit: 0 },
+    manaCost: [],
+    moveName: '',
+    flavorText: 'What grows here, and whose mana it feeds.',
+    theme: presetTheme('Forest'),
+  }),
+  builtIn('Hero', 'A champion worth its rarity', {
+    type: 'Hero',
+    subtitle: 'Champion of the Tides',
+    level: 3,
+    rarity: '★Rare★',
+    stats: { hp: 15, attack: 8, defense: 7, mana: 5, crit: 8 },
+    manaCost: orbs(['Light', 2], ['Neutral', 2]),
+    moveName: 'Rallying Cry',
+    flavorText: 'The deed that made them a legend.',
+    theme: {
+      background: 'linear-gradient(145deg, #facc15, #92400e)',
+      header: { background: 'linear-gradient(90deg, rgba(69, 26, 3, 0.85), rgba(202, 138, 4, 0.6))', color: '#fffbeb' },
+      imageArea: { border: '2px solid #fde68a', boxShadow: '0 0 14px rgba(253, 230, 138, 0.6)' },
+      typeSection: { background: 'linear-gradient(90deg, #ca8a04, #78350f)', color: '#fffbeb' },
+      stat: { background: 'rgba(253, 230, 138, 0.9)', color: '#111111', border: '1px solid #fffbeb' },
+      flavorText: { background: 'rgba(255, 251, 235, 0.9)', color: '#111111', border: '1px solid #facc15' },
+      bottomSection: { background: '#451a03' },
+      rarity: { background: '#facc15', color: '#111111', border: '1px solid #fffbeb', boxShadow: '0 0 8px rgba(250, 204, 21, 0.6)' },
+    },
+  }),
+  builtIn('Token', 'A small summoned helper', {
+    type: 'Token',
+    subtitle: 'Summoned',
+    rarity: '★Common★',
+    stats: { hp: 3, attack: 3, defense: 2, mana: 0, crit: 2 },
+    manaCost: [],
+    moveName: '',
+    flavorText: 'What summons it.',
+    theme: {},
+  }),
+]
+
+/** A fresh card from `template` (deep-copied, so edits never reach the template) */
+export function cardFromTemplate(template: CardTemplate): CardEditorData {
+  const base = createDefaultCard()
+  const card = structuredClone(template.card)
+  return { ...base, ...card, stats: { ...base.stats, ...card.stats }, name: '', imageData: '' }
+}
+
+let cache: { raw: string | null; templates: CardTemplate[] } | undefined
+
+function readSaved(): CardTemplate[] {
+  let raw: string | null = null
+  try {
+    raw = localStorage.getItem(STORAGE_KEY)
+  } catch {
+    // Storage disabled: behave as if nothing was saved
+  }
+  if (cache?.raw === raw) return cache.templates
+  let templates: CardTemplate[] = []
+  try {
+    const parsed: unknown = raw ? JSON.parse(raw) : []
+    if (Array.isArray(parsed)) {
+      templates = parsed.filter((t): t is CardTemplate => typeof t?.name === 'string' && typeof t?.card === 'object' && t.card !== null)
+    }
+  } catch {
+    templates = []
+  }
+  cache = { raw, templates }
+  return templates
+}
+
+function writeSaved(templates: CardTemplate[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(templates.map(({ name, description, card }) => ({ name, description, card }))))
+  window.dispatchEvent(new Event(CHANGE_EVENT))
+}
+
+/**
+ * Save `card` as a user template, replacing one with the same name. The name
+ * and artwork are left out; everything else (stats, theme, palette, flavor) is kept.
+ */
+export function saveCardTemplate(name: string, card: CardEditorData, description?: string) {
+  const trimmed = name.trim()
+  if (!trimmed) throw new Error('Name the template')
+  if (BUILT_IN_TEMPLATES.some(t => t.name.toLowerCase() === trimmed.toLowerCase())) {
+    throw new Error(`"${trimmed}" is a built-in template`)
+  }
+  const template: CardTemplate = { name: trimmed, description: description?.trim() || undefined, card: templateOf(card) }
+  try {
+    writeSaved([...readSaved().filter(t => t.name !== trimmed), template])
+  } catch (e) {
+    if (e instanceof DOMException && e.name === 'QuotaExceededError') throw new Error('Browser storage is full — delete some templates first')
+    throw e
+  }
+}
+
+export function deleteCardTemplate(name: string) {
+  writeSaved(readSaved().filter(t => t.name !== name))
+}
+
+function subscribe(onChange: () => void) {
+  const onStorage = (e: StorageEvent) => { if (e.key === STORAGE_KEY) onChange() }
+  window.addEventListener(CHANGE_EVENT, onChange)
+  window.addEventListener('storage', onStorage)
+  return () => {
+    window.removeEventListener(CHANGE_EVENT, onChange)
+    window.removeEventListener('storage', onStorage)
+  }
+}
+
+/** The designer's saved templates; re-renders when they change in any tab */
+export function useSavedCardTemplates(): CardTemplate[] {
+  return useSyncExternalStore(subscribe, readSaved)
+}
@@ -0,0 +1,56 @@
+/**
+ * Active network and its contract addresses.
+ *
+ * Networks come from Vite env variables (`VITE_NETWORK`, `VITE_<NETWORK>_RPC_URL`,
+ * `VITE_<NETWORK>_CHAIN_ID` — see `.env.example`). Addresses are resolved at
+ * startup from Forge's broadcast output: Vite picks up every
+ * `broadcast/<Script>/<chainId>/run-latest.json`, so a fresh
+ * `forge script … --broadcast` is reflected on the next reload.
+ *
+ * Without a usable deployment for the active network the addresses are zero
+ * and `deploymentError` says why; `main.tsx` shows it instead of the app.
+ */
+import { DeploymentError, buildAddressBook, createChainRegistry, resolveDeployment } from '@whirlpool/sdk'
+import type { ForgeBroadcast, WhirlpoolDeployment } from '@whirlpool/sdk'
+import { zeroAddress } from 'viem'
+
+export const chainRegistry = createChainRegistry(import.meta.env)
+export const activeNetwork = chainRegistry.active
+
+const manifests = import.meta.glob<ForgeBroadcast>('../../../broadcast/*/*/run-latest.json', { eager: true, import: 'default' })
+
+export const addressBook = buildAddressBook(manifests)
+
+function resolveActive(): { deployment?: WhirlpoolDeployment; error?: string } {
+  try {
+    return { deployment: resolveDeployment(addressBook, activeNetwork.chain.id) }
+  } catch (e) {
+    if (e instanceof DeploymentError) return { error: e.message }
+    throw e
+  }
+}
+
+const active = resolveActive()
+/** Why the active network has no usable deployment, if it hasn't */
+export const deploymentError = active.error
+
+export const deployment: WhirlpoolDeployment = active.deployment ?? {
+  chainId: activeNetwork.chain.id,
+  script: 'none',
+  timestamp: 0,
+  addresses: {
+    weth: zeroAddress, waves: zeroAddress, globalRewards: zeroAddress, surfSwap: zeroAddress, cardStaking: zeroAddress,
+    wethPool: zeroAddress, bidNFT: zeroAddress, router: zeroAddress, multicall3: zeroAddress,
+  },
+}
+
+export const {
+  weth: WETH_ADDRESS,
+  waves: WAVES_ADDRESS,
+  surfSwap: SURFSWAP_ADDRESS,
+  bidNFT: BIDNFT_ADDRESS,
+  router: ROUTER_ADDRESS,
+} = deployment.addresses
+
+/** Staking calls (WHIRLPOOL_ABI) go to CardStaking in the Option B deployment */
+export const WHIRLPOOL_ADDRESS = deployment.addresses.cardStaking
@@ -0,0 +1,176 @@
+/**
+ * Card editor drafts, kept in IndexedDB (`whirlpool-editor` → `drafts`).
+ *
+ * A draft is the editor's {@link CardEditorData} plus the mint form's token
+ * symbol. An uploaded image (a `data:` URL in the editor) is stored as a
+ * `Blob` next to the card rather than inside it, so multi-megabyte images
+ * don't bloat every record read for the library list and aren't base64-
+ * inflated on disk. {@link loadDraft} turns it back into a `data:` URL.
+ *
+ * All functions reject with {@link DraftError} when IndexedDB is unavailable
+ * (e.g. some private browsing modes) or a request fails.
+ */
+import { createDefaultCard } from '../components/editor/types'
+import type { CardEditorData } from '../components/editor/types'
+
+const DB_NAME = 'whirlpool-editor'
+const DB_VERSION = 1
+const STORE = 'drafts'
+
+/** A draft as listed in the library (no image) */
+export interface DraftSummary {
+  id: string
+  title: string
+  /** Card name at the last save */
+  cardName: string
+  hasImage: boolean
+  createdAt: number
+  updatedAt: number
+}
+
+/** A draft ready for the editor */
+export interface Draft extends DraftSummary {
+  card: CardEditorData
+  symbol: string
+}
+
+/** What IndexedDB holds */
+interface DraftRecord extends DraftSummary {
+  card: CardEditorData
+  symbol: string
+  image: Blob | null
+}
+
+export class DraftError extends Error {
+  name = 'DraftError'
+}
+
+let dbPromise: Promise<IDBDatabase> | undefined
+
+function openDb(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new DraftError('This browser has no IndexedDB; drafts are not saved'))
+      return
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE, { keyPath: 'id' })
+      store.createIndex('updatedAt', 'updatedAt')
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(new DraftError(`Could not open the drafts database: ${request.error?.message}`))
+    request.onblocked = () => reject(new DraftError('The drafts database is blocked by another tab'))
+  }).catch(e => {
+    dbPromise = undefined
+    throw e
+  })
+  return dbPromise
+}
+
+/** Run one request against the drafts store */
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb()
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(STORE, mode)
+    const request = run(tx.objectStore(STORE))
+    tx.oncomplete = () => resolve(request.result)
+    tx.onerror = () => reject(new DraftError(`Draft storage failed: ${tx.error?.message ?? request.error?.message}`))
+    tx.onabort = () => reject(new DraftError(`Draft storage failed: ${tx.error?.message ?? 'transaction aborted'}`))
+  })
+}
+
+const summary = ({ id, title, cardName, hasImage, createdAt, updatedAt }: DraftRecord): DraftSummary =>
+  ({ id, title, cardName, hasImage, createdAt, updatedAt })
+
+/** Library name of a draft */
+export const draftTitle = (draft: DraftSummary) => draft.title || 'Untitled'
+
+/** "3 min ago"-style age of a save */
+export function timeAgo(ms: number): string {
+  const seconds = Math.max(0, Math.round((Date.now() - ms) / 1000))
+  if (seconds < 60) return 'just now'
+  if (seconds < 3600) return `${Math.floor(seconds / 60)} min ago`
+  if (seconds < 86_400) return `${Math.floor(seconds / 3600)} h ago`
+  return new Date(ms).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })
+}
+
+const newId = () => crypto.randomUUID()
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(new DraftError('Could not read the draft image'))
+    reader.readAsDataURL(blob)
+  })
+}
+
+/** Every draft, most recently edited first */
+export async function listDrafts(): Promise<DraftSummary[]> {
+  const records = await withStore<DraftRecord[]>('readonly', store => store.index('updatedAt').getAll())
+  return records.reverse().map(summary)
+}
+
+/** A draft with its image restored, or undefined if it was deleted */
+export async function loadDraft(id: string): Promise<Draft | undefined> {
+  const record = await withStore<DraftRecord | undefined>('readonly', store => store.get(id))
+  if (!record) return undefined
+  const { image, ...draft } = record
+  const card = { ...createDefaultCard(), ...draft.card }
+  if (image) card.imageData = await blobToDataUrl(image)
+  return { ...draft, card }
+}
+
+/**
+ * Create or overwrite a draft. The title follows the card name until the
+ * draft is renamed; pass `title` only when renaming.
+ */
+export async function saveDraft(draft: { id?: string; card: CardEditorData; symbol: string; title?: string }): Promise<DraftSummary> {
+  const id = draft.id ?? newId()
+  const existing = draft.id ? await withStore<DraftRecord | undefined>('readonly', store => store.get(id)) : undefined
+
+  let image: Blob | null = null
+  let card = draft.card
+  if (card.imageData.startsWith('data:')) {
+    image = await (await fetch(card.imageData)).blob()
+    card = { ...card, imageData: '' }
+  }
+
+  const now = Date.now()
+  const cardName = draft.card.name.trim()
+  const record: DraftRecord = {
+    id,
+    title: draft.title ?? (existing && existing.title !== existing.cardName ? existing.title : cardName),
+    cardName,
+    hasImage: !!image || !!card.imageData,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+    card,
+    symbol: draft.symbol,
+    image,
+  }
+  await withStore('readwrite', store => store.put(record))
+  return summary(record)
+}
+
+/** Rename a draft without touching its edit time */
+export async function renameDraft(id: string, title: string): Promise<void> {
+  const record = await withStore<DraftRecord | undefined>('readonly', store => store.get(id))
+  if (!record) throw new DraftError('That draft no longer exists')
+  await withStore('readwrite', store => store.put({ ...record, title: title.trim() || record.cardName }))
+}
+
+/** Copy a draft under a new ID; resolves to the copy */
+export async function duplicateDraft(id: string): Promise<DraftSummary> {
+  const record = await withStore<DraftRecord | undefined>('readonly', store => store.get(id))
+  if (!record) throw new DraftError('That draft no longer exists')
+  const now = Date.now()
+  const copy: DraftRecord = { ...record, id: newId(), title: `${record.title || 'Untitled'} (copy)`, createdAt: now, updatedAt: now }
+  await withStore('readwrite', store => store.put(copy))
+  return summary(copy)
+}
+
+export async function deleteDraft(id: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(id))
+}
@@ -0,0 +1,59 @@
+/**
+ * Client for the event indexer's HTTP API (`indexer/`).
+ *
+ * The indexer is optional: views built on it show a hint instead of data when
+ * it is not running. `VITE_INDEXER_URL` overrides the default of port 4000 on
+ * the host serving the app.
+ */
+
+export const INDEXER_URL: string =
+  import.meta.env.VITE_INDEXER_URL || `${window.location.protocol}//${window.location.hostname}:4000`
+
+/** Candle intervals the indexer serves */
+export const CANDLE_INTERVALS = ['1m', '5m', '15m', '1h', '4h', '1d'] as const
+export type CandleInterval = typeof CANDLE_INTERVALS[number]
+
+/** One OHLC bucket of a card's WAVES price; amounts are wei decimal strings */
+export interface Candle {
+  /** Bucket start, unix seconds */
+  time: number
+  open: string
+  high: string
+  low: string
+  close: string
+  /** Card tokens traded */
+  volume: string
+  trades: number
+}
+
+export interface CandleSeries {
+  cardId: number
+  interval: CandleInterval
+  candles: Candle[]
+}
+
+/** Thrown when the indexer is unreachable or answers with an error */
+export class IndexerError extends Error {
+  name = 'IndexerError'
+  /** True when no response came back at all (indexer not running) */
+  readonly offline: boolean
+
+  constructor(message: string, offline: boolean) {
+    super(message)
+    this.offline = offline
+  }
+}
+
+/** GET a JSON resource from the indexer */
+export async function fetchIndexer<T>(path: string, signal?: AbortSignal): Promise<T> {
+  let res: Response
+  try {
+    res = await fetch(`${INDEXER_URL}${path}`, { signal })
+  } catch (error) {
+    if (signal?.aborted) throw error
+    throw new IndexerError(`Indexer unreachable at ${INDEXER_URL}`, true)
+  }
+  const body = await res.json().catch(() => ({}))
+  if (!res.ok) throw new IndexerError(body.error ?? `Indexer returned ${res.status}`, false)
+  return body as T
+}
@@ -0,0 +1,277 @@
+/**
+ * Card metadata: resolve a BidNFT `tokenURI` and parse the ERC-721 JSON.
+ *
+ * ## URI schemes
+ * - `data:` — inline JSON (`data:application/json;base64,…` or percent-encoded)
+ * - `http(s):` — fetched as is
+ * - `ipfs://<cid>/<path>` (and `ipfs://ipfs/<cid>`) — through the gateway in
+ *   `VITE_IPFS_GATEWAY`: by default a local IPFS node's gateway, or the
+ *   content store when it is the metadata storage (see `storage.ts`)
+ *
+ * The same resolution applies to the metadata's `image`.
+ *
+ * ## Card fields
+ * Metadata written by the editor carries the full {@link CardEditorData} under
+ * `properties.card`. Metadata from `scripts/generate-metadata.py` flattens the
+ * card into `attributes` (Type, Rarity, Level, HP, …) with the theme under
+ * `properties.theme`; {@link parseMetadata} rebuilds the editor shape from
+ * those so `CardPreview` can render either. `properties.card` is checked
+ * field by field first (`cardChecks.ts`) — metadata is whatever the minter
+ * wrote — and a malformed one is set aside for the attributes (a malformed
+ * theme for none), with the reasons in `cardErrors`. {@link buildMetadata}
+ * writes both layouts, so editor cards also read well in wallets and other
+ * marketplaces.
+ *
+ * Editor cards minted with a flat render of the card (`lib/cardExport.ts`)
+ * carry `properties.rendered: true`: `image` is then the whole card as the
+ * editor showed it, and the artwork alone is `properties.artwork`.
+ */
+import { CARD_PARTS, createDefaultCard, fieldPath } from '../components/editor/types'
+import { fieldValue, formatFieldValue, isEmptyValue } from '../components/editor/fields'
+import type { CardEditorData, CardTheme } from '../components/editor/types'
+import { CardChecker, isObject, readEditorCard, readTheme } from './cardChecks'
+import { activeRuleset, rulesetId } from './cardRules'
+import { getPath } from './paths'
+import { CONTENT_STORE_URL, METADATA_STORAGE, dataUri } from './storage'
+
+export const IPFS_GATEWAY: string = (
+  import.meta.env.VITE_IPFS_GATEWAY || (METADATA_STORAGE === 'local' ? CONTENT_STORE_URL : 'http://127.0.0.1:8080')
+).replace(/\/$/, '')
+
+/** One ERC-721 attribute */
+export interface MetadataAttribute {
+  trait_type: string
+  value: string | number
+  display_type?: string
+}
+
+/** Parsed token metadata */
+export interface CardMetadata {
+  name?: string
+  description?: string
+  /** Image URL ready for `<img src>` (gateway/data URL), if any */
+  image?: string
+  attributes: MetadataAttribute[]
+  /** Card fields for `CardPreview`, when the metadata describes a card */
+  card?: CardEditorData
+  /** Why `properties.card` (or `properties.theme`) was unusable, when it was */
+  cardErrors?: string[]
+  /** `image` is a render of the whole card rather than its artwork */
+  rendered: boolean
+  /** The JSON as served */
+  raw: Record<string, unknown>
+}
+
+/** Thrown for URIs we can't load or JSON that isn't token metadata */
+export class MetadataError extends Error {
+  name = 'MetadataError'
+}
+
+/**
+ * Turn a token or image URI into something the browser can load.
+ *
+ * @throws MetadataError for unsupported schemes
+ */
+export function resolveUri(uri: string): string {
+  const trimmed = uri.trim()
+  if (/^(data:|https?:\/\/)/i.test(trimmed)) return trimmed
+  if (/^ipfs:\/\//i.test(trimmed)) {
+    const path = trimmed.slice('ipfs://'.length).replace(/^ipfs\//, '')
+    return `${IPFS_GATEWAY}/ipfs/${path}`
+  }
+  throw new MetadataError(`Unsupported URI scheme: ${trimmed.slice(0, 40)}`)
+}
+
+/** Decode the payload of a `data:` URI as text */
+function decodeDataUri(uri: string): string {
+  const comma = uri.indexOf(',')
+  if (comma < 0) throw new MetadataError('Malformed data: URI')
+  const header = uri.slice(5, comma)
+  const payload = uri.slice(comma + 1)
+  if (!/;base64$/i.test(header)) {
+    // Inline JSON is often left unencoded; a stray `%` then isn't an escape
+    try { return decodeURIComponent(payload) } catch { return payload }
+  }
+  const bytes = Uint8Array.from(atob(payload), c => c.charCodeAt(0))
+  return new TextDecoder().decode(bytes)
+}
+
+/** Load and parse the metadata behind a `tokenURI` */
+export async function fetchMetadata(uri: string, signal?: AbortSignal): Promise<CardMetadata> {
+  if (!uri) throw new MetadataError('Token has no URI')
+  const url = resolveUri(uri)
+
+  let text: string
+  if (url.startsWith('data:')) {
+    text = decodeDataUri(url)
+  } else {
+    const res = await fetch(url, { signal }).catch(e => {
+      if (signal?.aborted) throw e
+      throw new MetadataError(`Could not reach ${new URL(url).host}`)
+    })
+    if (!res.ok) throw new MetadataError(`Metadata request failed (${res.status})`)
+    text = await res.text()
+  }
+
+  let json: unknown
+  try {
+    json = JSON.parse(text)
+  } catch {
+    throw new MetadataError('Metadata is not valid JSON')
+  }
+  if (typeof json !== 'object' || json === null || Array.isArray(json)) throw new MetadataError('Metadata is not a JSON object')
+  return parseMetadata(json as Record<string, unknown>)
+}
+
+const str = (value: unknown) => (typeof value === 'string' ? value : undefined)
+
+/** {@link resolveUri} for an optional field; unusable URIs count as missing */
+function resolveOptional(uri: unknown): string | undefined {
+  try {
+    return str(uri) ? resolveUri(uri as string) : undefined
+  } catch {
+    return undefined
+  }
+}
+
+/** Attributes that mark metadata as describing a card (see generate-metadata.py) */
+const CARD_TRAITS = ['Type', 'Rarity', 'Level', 'HP']
+
+/** Normalise parsed ERC-721 JSON into {@link CardMetadata} */
+export function parseMetadata(raw: Record<string, unknown>): CardMetadata {
+  const attributes = (Array.isArray(raw.attributes) ? raw.attributes : [])
+    .filter(isObject)
+    .filter(a => typeof a.trait_type === 'string' && (typeof a.value === 'string' || typeof a.value === 'number'))
+    .map(a => ({
+      trait_type: a.trait_type as string,
+      value: a.value as string | number,
+      ...(typeof a.display_type === 'string' && { display_type: a.display_type }),
+    }))
+
+  const properties = isObject(raw.properties) ? raw.properties : {}
+  const rendered = properties.rendered === true
+  const image = resolveOptional(raw.image)
+  const meta: CardMetadata = { name: str(raw.name), description: str(raw.description), image, attributes, rendered, raw }
+
+  const check = new CardChecker()
+  if (isObject(properties.card)) {
+    const card = readEditorCard(properties.card, 'properties.card', check)
+    if (!check.errors.length) {
+      const artwork = rendered ? resolveOptional(properties.artwork) : image
+      if (artwork) card.imageData = artwork
+      meta.card = card
+      return meta
+    }
+  }
+  if (isObject(properties.theme) || attributes.some(a => CARD_TRAITS.includes(a.trait_type))) {
+    const errors = check.errors.length
+    const theme = readTheme(properties.theme, 'properties.theme', check)
+    meta.card = cardFromAttributes(meta, check.errors.length > errors ? undefined : theme)
+  }
+  if (check.errors.length) meta.cardErrors = check.errors
+  return meta
+}
+
+/** Rebuild editor fields from flattened attributes (generate-metadata.py layout) */
+function cardFromAttributes(meta: CardMetadata, theme: CardTheme | undefined): CardEditorData {
+  const trait = (name: string) => meta.attributes.find(a => a.trait_type === name)?.value
+  const num = (name: string, fallback: number) => {
+    const value = Number(trait(name))
+    return Number.isFinite(value) && trait(name) !== undefined ? value : fallback
+  }
+  const card = createDefaultCard()
+  return {
+    ...card,
+    name: meta.name ?? '',
+    subtitle: String(trait('Move') ?? ''),
+    type: String(trait('Type') ?? card.type),
+    level: num('Level', card.level),
+    imageData: meta.image ?? '',
+    flavorText: meta.description ?? '',
+    artist: String(trait('Artist') ?? card.artist),
+    rarity: String(trait('Rarity') ?? card.rarity),
+    stats: {
+      ...card.stats,
+      hp: num('HP', card.stats.hp),
+      attack: num('Attack', card.stats.attack),
+      defense: num('Defense', card.stats.defense),
+      mana: num('Mana Cost', card.stats.mana),
+      crit: num('Crit', card.stats.crit),
+    },
+    theme: theme ?? {},
+  }
+}
+
+/** Stats written as attributes, in generate-metadata.py order where it has them */
+const STAT_TRAITS: [keyof CardEditorData['stats'], string][] = [
+  ['hp', 'HP'],
+  ['mana', 'Mana Cost'],
+  ['crit', 'Crit'],
+  ['attack', 'Attack'],
+  ['defense', 'Defense'],
+]
+
+/** Fields marked `attribute` (traits and the like), written after the stats */
+const ATTRIBUTE_FIELDS = Object.values(CARD_PARTS).flatMap(part =>
+  Object.entries(part.fields)
+    .filter(([, field]) => field.attribute)
+    .map(([key, field]) => ({ field, path: fieldPath(part, key, field) })))
+
+/**
+ * ERC-721 metadata for an editor card.
+ *
+ * The image is the card's `imageData` and is left out of `properties.card`
+ * so inline images aren't stored twice; {@link parseMetadata} puts it back.
+ * With `rendered` (a URI of the exported card) that becomes the image and
+ * `imageData` is kept as `properties.artwork`. `properties.ruleset` names the
+ * card rules in force (`standard@1`), when any are. Fields marked `attribute`
+ * become attributes named after their label, valued by their field type.
+ */
+export function buildMetadata(card: CardEditorData, rendered?: string): Record<string, unknown> {
+  const { imageData, ...fields } = card
+  const attributes: MetadataAttribute[] = []
+  const push = (trait_type: string, value: string | number) => {
+    if (value !== '' && value !== 0) attributes.push({ trait_type, value: String(value) })
+  }
+  push('Type', card.type)
+  push('Rarity', card.rarity)
+  push('Level', card.level)
+  push('Move', card.subtitle)
+  push('Artist', card.artist)
+  for (const [key, trait] of STAT_TRAITS) push(trait, card.stats[key])
+  for (const { field, path } of ATTRIBUTE_FIELDS) {
+    const value = fieldValue(field, getPath(card, path))
+    if (!isEmptyValue(value)) push(field.label, formatFieldValue(field, value))
+  }
+
+  return {
+    name: card.name.trim(),
+    description: card.flavorText || 'A Whirlpool card',
+    ...((rendered || imageData) && { image: rendered || imageData }),
+    attributes,
+    properties: {
+      card: { ...fields, name: card.name.trim() },
+      theme: card.theme,
+      ...(activeRuleset && { ruleset: rulesetId(activeRuleset) }),
+      ...(rendered && { rendered: true, ...(imageData && { artwork: imageData }) }),
+    },
+  }
+}
+
+/** Encode JSON as a `data:application/json;base64,…` URI */
+export function toDataUri(json: unknown): string {
+  return dataUri(new TextEncoder().encode(JSON.stringify(json)), 'application/json')
+}
+
+/**
+ * Length of `toDataUri(buildMetadata(card))`, worked out without encoding the
+ * artwork: the JSON is measured without `imageData`, which is then added back
+ * as the quoted `image` field, and base64 turns every 3 bytes into 4. Exact
+ * for `data:` and plain ASCII image URIs — cheap enough to run per keystroke.
+ */
+export function dataUriLength(card: CardEditorData): number {
+  const { imageData } = card
+  let bytes = new TextEncoder().encode(JSON.stringify(buildMetadata({ ...card, imageData: '' }))).length
+  if (imageData) bytes += ',"image":""'.length + imageData.length
+  return 'data:application/json;base64,'.length + Math.ceil(bytes / 3) * 4
+}
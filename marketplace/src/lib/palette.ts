@@ -0,0 +1,241 @@
+/**
+ * Colour palette extraction for card artwork, and card themes built from it.
+ *
+ * {@link extractPalette} draws the image onto a canvas no larger than
+ * `SAMPLE_SIZE` px a side and quantizes its opaque pixels with median cut:
+ * starting from one box holding every pixel, the box with the largest channel
+ * range × pixel count is split at the median of that channel until there are
+ * `SWATCHES` boxes (weighting by count keeps small, uniform boxes from being
+ * split while large mixed ones remain). Median splits still blend nearby
+ * colours, so the box means then seed a few rounds of k-means over the same
+ * pixels. Each resulting cluster is a swatch weighted by its pixel count.
+ *
+ * The swatches are then named for the editor's `colors` field:
+ * - `dominant` — the most common colour
+ * - `secondary` — the most common colour clearly different from `dominant`
+ * - `accent` — the most vivid remaining colour, favouring common ones
+ *   (`secondary` when nothing else is colourful)
+ * - `dark` / `light` — the darkest and lightest swatches
+ * - `text` — `light` or `dark`, whichever reads on `dominant`; pure white or
+ *   near-black when neither reaches WCAG AA (4.5:1)
+ *
+ * {@link themeFromPalette} turns those names into a full {@link CardTheme}.
+ */
+import type { CardTheme } from '../components/editor/types'
+
+const SAMPLE_SIZE = 64
+const SWATCHES = 8
+const KMEANS_ROUNDS = 8
+/** RGB distance below which two swatches count as the same colour */
+const DISTINCT = 60
+const AA_CONTRAST = 4.5
+
+type Rgb = [number, number, number]
+
+interface Swatch {
+  rgb: Rgb
+  count: number
+}
+
+export type Palette = Record<'dominant' | 'secondary' | 'accent' | 'dark' | 'light' | 'text', string>
+
+export class PaletteError extends Error {
+  name = 'PaletteError'
+}
+
+const hex = ([r, g, b]: Rgb) => `#${[r, g, b].map(c => Math.round(c).toString(16).padStart(2, '0')).join('')}`
+
+function parseHex(color: string): Rgb {
+  const value = color.replace('#', '')
+  const full = value.length === 3 ? [...value].map(c => c + c).join('') : value
+  return [0, 2, 4].map(i => parseInt(full.slice(i, i + 2), 16) || 0) as Rgb
+}
+
+/** WCAG relative luminance */
+function luminance(rgb: Rgb): number {
+  const [r, g, b] = rgb.map(c => {
+    const s = c / 255
+    return s <= 0.03928 ? s / 12.92 : ((s + 0.055) / 1.055) ** 2.4
+  })
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b
+}
+
+function contrast(a: Rgb, b: Rgb): number {
+  const [hi, lo] = [luminance(a), luminance(b)].sort((x, y) => y - x)
+  return (hi + 0.05) / (lo + 0.05)
+}
+
+/** HSL saturation, 0–1 */
+function saturation([r, g, b]: Rgb): number {
+  const max = Math.max(r, g, b) / 255
+  const min = Math.min(r, g, b) / 255
+  const l = (max + min) / 2
+  return max === min ? 0 : (max - min) / (1 - Math.abs(2 * l - 1))
+}
+
+const distance = (a: Rgb, b: Rgb) => Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2])
+
+/** Median-cut `pixels` into at most `count` swatches, most common first */
+export function medianCut(pixels: Rgb[], count = SWATCHES): Swatch[] {
+  if (pixels.length === 0) return []
+  const boxes: Rgb[][] = [pixels]
+  const widest = (box: Rgb[]) => {
+    let best = { channel: 0, range: -1 }
+    for (let channel = 0; channel < 3; channel++) {
+      let min = 255
+      let max = 0
+      for (const p of box) {
+        min = Math.min(min, p[channel])
+        max = Math.max(max, p[channel])
+      }
+      if (max - min > best.range) best = { channel, range: max - min }
+    }
+    return best
+  }
+
+  while (boxes.length < count) {
+    let target = -1
+    let targetScore = 0
+    boxes.forEach((box, i) => {
+      const score = widest(box).range * box.length
+      if (score > targetScore) {
+        target = i
+        targetScore = score
+      }
+    })
+    if (target < 0) break
+    const box = boxes[target]
+    const { channel } = widest(box)
+    box.sort((a, b) => a[channel] - b[channel])
+    const mid = box.length >> 1
+    boxes.splice(target, 1, box.slice(0, mid), box.slice(mid))
+  }
+
+  return boxes.map(box => ({ rgb: mean(box), count: box.length })).sort((a, b) => b.count - a.count)
+}
+
+function mean(pixels: Rgb[]): Rgb {
+  const sum = pixels.reduce<Rgb>((acc, p) => [acc[0] + p[0], acc[1] + p[1], acc[2] + p[2]], [0, 0, 0])
+  return sum.map(c => c / pixels.length) as Rgb
+}
+
+/** Refine `seeds` with k-means over `pixels`; empty clusters are dropped, most common first */
+export function kMeans(pixels: Rgb[], seeds: Swatch[], iterations = KMEANS_ROUNDS): Swatch[] {
+  let centres = seeds.map(s => s.rgb)
+  let clusters: Rgb[][] = []
+  for (let round = 0; round < iterations; round++) {
+    clusters = centres.map(() => [])
+    for (const p of pixels) {
+      let best = 0
+      let bestDistance = Infinity
+      centres.forEach((c, i) => {
+        const d = distance(p, c)
+        if (d < bestDistance) {
+          best = i
+          bestDistance = d
+        }
+      })
+      clusters[best].push(p)
+    }
+    const next = clusters.map((cluster, i) => (cluster.length ? mean(cluster) : centres[i]))
+    const settled = next.every((c, i) => distance(c, centres[i]) < 0.5)
+    centres = next
+    if (settled) break
+  }
+  return clusters
+    .map((cluster, i) => ({ rgb: centres[i], count: cluster.length }))
+    .filter(s => s.count > 0)
+    .sort((a, b) => b.count - a.count)
+}
+
+/** Name swatches (most common first) as a {@link Palette} */
+export function namePalette(swatches: Swatch[]): Palette {
+  if (swatches.length === 0) throw new PaletteError('The image has no opaque pixels')
+  const total = swatches.reduce((n, s) => n + s.count, 0)
+  const dominant = swatches[0]
+  const secondary = swatches.find(s => distance(s.rgb, dominant.rgb) > DISTINCT) ?? swatches[1] ?? dominant
+  const accent = swatches
+    .filter(s => s !== dominant && s !== secondary && saturation(s.rgb) > 0.2)
+    .map(s => ({ s, score: saturation(s.rgb) * Math.sqrt(s.count / total) }))
+    .sort((a, b) => b.score - a.score)[0]?.s ?? secondary
+  const byLuminance = [...swatches].sort((a, b) => luminance(a.rgb) - luminance(b.rgb))
+  const dark = byLuminance[0]
+  const light = byLuminance[byLuminance.length - 1]
+
+  const candidates: Rgb[] = [light.rgb, dark.rgb]
+  let text = candidates.sort((a, b) => contrast(b, dominant.rgb) - contrast(a, dominant.rgb))[0]
+  if (contrast(text, dominant.rgb) < AA_CONTRAST) text = textOn(dominant.rgb) === '#ffffff' ? [255, 255, 255] : [17, 17, 17]
+
+  return {
+    dominant: hex(dominant.rgb),
+    secondary: hex(secondary.rgb),
+    accent: hex(accent.rgb),
+    dark: hex(dark.rgb),
+    light: hex(light.rgb),
+    text: hex(text),
+  }
+}
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image()
+    img.crossOrigin = 'anonymous'
+    img.onload = () => resolve(img)
+    img.onerror = () => reject(new PaletteError('Could not load the image'))
+    img.src = src
+  })
+}
+
+/** Extract the named palette of an image URL (usually the editor's `data:` URL) */
+export async function extractPalette(src: string): Promise<Palette> {
+  const img = await loadImage(src)
+  const scale = Math.min(1, SAMPLE_SIZE / Math.max(img.naturalWidth, img.naturalHeight))
+  const width = Math.max(1, Math.round(img.naturalWidth * scale))
+  const height = Math.max(1, Math.round(img.naturalHeight * scale))
+
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })
+  if (!ctx) throw new PaletteError('Canvas is not available')
+  ctx.drawImage(img, 0, 0, width, height)
+
+  let data: Uint8ClampedArray
+  try {
+    data = ctx.getImageData(0, 0, width, height).data
+  } catch {
+    throw new PaletteError('The image host does not allow reading its pixels')
+  }
+  const pixels: Rgb[] = []
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] >= 128) pixels.push([data[i], data[i + 1], data[i + 2]])
+  }
+  return namePalette(kMeans(pixels, medianCut(pixels)))
+}
+
+/** `#ffffff` or `#111111`, whichever contrasts more with `color` */
+function textOn(color: Rgb | string): string {
+  const rgb = typeof color === 'string' ? parseHex(color) : color
+  return contrast(rgb, [255, 255, 255]) >= contrast(rgb, [17, 17, 17]) ? '#ffffff' : '#111111'
+}
+
+const alpha = (color: string, a: number) => {
+  const [r, g, b] = parseHex(color)
+  return `rgba(${r}, ${g}, ${b}, ${a})`
+}
+
+/** A card theme in the palette's colours; missing names fall back to `dominant` */
+export function themeFromPalette(colors: Record<string, string>): CardTheme {
+  const dominant = colors.dominant ?? Object.values(colors)[0] ?? '#2a2a2a'
+  const { secondary = dominant, accent = dominant, dark = dominant, light = dominant } = colors
+  return {
+    background: `linear-gradient(145deg, ${dominant}, ${dark})`,
+    header: { background: `linear-gradient(90deg, ${alpha(dark, 0.85)}, ${alpha(dominant, 0.6)})`, color: textOn(dark) },
+    imageArea: { border: `2px solid ${accent}`, boxShadow: `0 0 12px ${alpha(accent, 0.5)}` },
+    typeSection: { background: `linear-gradient(90deg, ${secondary}, ${dominant})`, color: textOn(secondary) },
+    stat: { background: alpha(accent, 0.85), color: textOn(accent), border: `1px solid ${light}` },
+    flavorText: { background: alpha(light, 0.85), color: textOn(light), border: `1px solid ${accent}` },
+    bottomSection: { background: dark },
+    rarity: { background: accent, color: textOn(accent), border: `1px solid ${light}`, boxShadow: `0 0 8px ${alpha(accent, 0.6)}` },
+  }
+}
@@ -0,0 +1,28 @@
+/**
+ * Dotted-path access for editor fields (`name`, `stats.hp`,
+ * `theme.header.color`), so any field can live anywhere on the card.
+ */
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+/** The value at `path`, or `undefined` if anything along it is missing */
+export function getPath(target: unknown, path: string): unknown {
+  let value = target
+  for (const key of path.split('.')) {
+    if (!isObject(value)) return undefined
+    value = value[key]
+  }
+  return value
+}
+
+/**
+ * A copy of `target` with `value` at `path`. Objects along the path are
+ * copied (or created), everything else is shared.
+ */
+export function setPath<T extends object>(target: T, path: string, value: unknown): T {
+  const [key, ...rest] = path.split('.')
+  const current = target as Record<string, unknown>
+  const next = rest.length ? setPath(isObject(current[key]) ? current[key] : {}, rest.join('.'), value) : value
+  return { ...target, [key]: next }
+}
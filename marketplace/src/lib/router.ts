@@ -0,0 +1,83 @@
+/**
+ * Client-side routing on the History API.
+ *
+ * | Path         | Route |
+ * |--------------|-------|
+ * | `/`          | Explore grid |
+ * | `/card/:id`  | Card detail page |
+ * | `/portfolio` | Connected account's cards |
+ * | `/create`    | Card editor / mint |
+ * | `/swap`      | Token swap (`/swap/:id` to buy a card) |
+ *
+ * Paths are relative to Vite's `BASE_URL`. The dev and preview servers fall
+ * back to `index.html` for unknown paths, so deep links work out of the box;
+ * a static host needs the same rewrite.
+ */
+import { useSyncExternalStore } from 'react'
+
+export type Route =
+  | { page: 'explore' }
+  | { page: 'card'; id: number }
+  | { page: 'portfolio' }
+  | { page: 'create' }
+  | { page: 'swap'; cardId?: number }
+  | { page: 'notFound'; path: string }
+
+const BASE = import.meta.env.BASE_URL.replace(/\/$/, '')
+
+/** Fired on `window` after {@link navigate}; `popstate` covers back/forward */
+const NAVIGATE_EVENT = 'whirlpool:navigate'
+
+/** Route for an app-relative path */
+export function parseRoute(path: string): Route {
+  const parts = path.split('/').filter(Boolean)
+  if (parts.length === 0) return { page: 'explore' }
+  if (parts.length === 1 && parts[0] === 'portfolio') return { page: 'portfolio' }
+  if (parts.length === 1 && parts[0] === 'create') return { page: 'create' }
+  if (parts.length === 2 && parts[0] === 'card' && /^\d+$/.test(parts[1])) return { page: 'card', id: Number(parts[1]) }
+  if (parts.length === 1 && parts[0] === 'swap') return { page: 'swap' }
+  if (parts.length === 2 && parts[0] === 'swap' && /^\d+$/.test(parts[1])) return { page: 'swap', cardId: Number(parts[1]) }
+  return { page: 'notFound', path }
+}
+
+/** App-relative path of a card's detail page */
+export const cardPath = (id: number) => `/card/${id}`
+
+/** App-relative path of the swap page, buying card `id` when given */
+export const swapPath = (id?: number) => (id === undefined ? '/swap' : `/swap/${id}`)
+
+/** Full URL path (with `BASE_URL`) for an app-relative path, for `href`s */
+export const href = (path: string) => `${BASE}${path}`
+
+function currentPath() {
+  const { pathname } = window.location
+  return pathname.startsWith(BASE) ? pathname.slice(BASE.length) || '/' : pathname
+}
+
+/** Go to an app-relative path and scroll to the top */
+export function navigate(path: string, options: { replace?: boolean } = {}) {
+  if (path === currentPath()) return
+  if (options.replace) window.history.replaceState(null, '', href(path))
+  else window.history.pushState(null, '', href(path))
+  window.scrollTo(0, 0)
+  window.dispatchEvent(new Event(NAVIGATE_EVENT))
+}
+
+function subscribe(onChange: () => void) {
+  window.addEventListener('popstate', onChange)
+  window.addEventListener(NAVIGATE_EVENT, onChange)
+  return () => {
+    window.removeEventListener('popstate', onChange)
+    window.removeEventListener(NAVIGATE_EVENT, onChange)
+  }
+}
+
+/** Current app-relative path; re-renders on navigation */
+export function usePath(): string {
+  return useSyncExternalStore(subscribe, currentPath)
+}
+
+/** Current route; re-renders on navigation */
+export function useRoute(): Route {
+  return parseRoute(usePath())
+}
@@ -0,0 +1,103 @@
+/**
+ * Metadata storage: where minted cards' images and metadata JSON go.
+ *
+ * Every backend takes a blob and returns a URI that `resolveUri` in
+ * `metadata.ts` can load back:
+ * - `inline` — a `data:` URI. Nothing to run, but the URI is the token URI
+ *   itself and BidNFT keeps it in contract storage, so it has to stay small.
+ * - `local` — the `content-store/` server at `VITE_CONTENT_STORE_URL`, which
+ *   returns `ipfs://<cid>` with a CIDv1 and serves the file back at
+ *   `/ipfs/<cid>`, gateway-style. With this backend the IPFS gateway defaults
+ *   to the same server.
+ * - `ipfs` — a Kubo node's HTTP API at `VITE_IPFS_API_URL` (`/api/v0/add`,
+ *   CIDv1, pinned). The node must allow the marketplace's origin in
+ *   `API.HTTPHeaders.Access-Control-Allow-Origin`.
+ *
+ * The backend is chosen by `VITE_METADATA_STORAGE` (default `inline`).
+ */
+
+export type StorageKind = 'inline' | 'local' | 'ipfs'
+
+export interface MetadataStorage {
+  kind: StorageKind
+  /** Human-readable destination, for the mint form */
+  label: string
+  /** Store `content` and return the URI it resolves from */
+  put(content: Blob): Promise<string>
+}
+
+/** Thrown when a backend is misconfigured or rejects an upload */
+export class StorageError extends Error {
+  name = 'StorageError'
+}
+
+const STORAGE_KINDS: StorageKind[] = ['inline', 'local', 'ipfs']
+
+const configuredKind = import.meta.env.VITE_METADATA_STORAGE || 'inline'
+if (!(STORAGE_KINDS as string[]).includes(configuredKind)) {
+  throw new StorageError(`VITE_METADATA_STORAGE must be one of ${STORAGE_KINDS.join(', ')}, got "${configuredKind}"`)
+}
+export const METADATA_STORAGE = configuredKind as StorageKind
+
+export const CONTENT_STORE_URL: string = (
+  import.meta.env.VITE_CONTENT_STORE_URL || `${window.location.protocol}//${window.location.hostname}:4100`
+).replace(/\/$/, '')
+
+export const IPFS_API_URL: string = (import.meta.env.VITE_IPFS_API_URL || 'http://127.0.0.1:5001').replace(/\/$/, '')
+
+/** `data:<type>;base64,…` for raw bytes */
+export function dataUri(bytes: Uint8Array, type: string): string {
+  let binary = ''
+  for (const byte of bytes) binary += String.fromCharCode(byte)
+  return `data:${type};base64,${btoa(binary)}`
+}
+
+/** POST to a storage server, turning network and HTTP failures into {@link StorageError}s */
+async function post(url: string, init: RequestInit): Promise<Record<string, unknown>> {
+  const res = await fetch(url, { method: 'POST', ...init }).catch(() => {
+    throw new StorageError(`Could not reach ${new URL(url).host}`)
+  })
+  const body = await res.json().catch(() => ({}))
+  if (!res.ok) throw new StorageError(`Upload failed (${res.status})${body.error ? `: ${body.error}` : body.Message ? `: ${body.Message}` : ''}`)
+  return body
+}
+
+export const inlineStorage: MetadataStorage = {
+  kind: 'inline',
+  label: 'inline data: URI (on-chain)',
+  async put(content) {
+    return dataUri(new Uint8Array(await content.arrayBuffer()), content.type || 'application/octet-stream')
+  },
+}
+
+export function contentStoreStorage(url = CONTENT_STORE_URL): MetadataStorage {
+  return {
+    kind: 'local',
+    label: `local content store (${new URL(url).host})`,
+    async put(content) {
+      const { cid } = await post(`${url}/add`, { body: content, headers: { 'Content-Type': content.type || 'application/octet-stream' } })
+      if (typeof cid !== 'string') throw new StorageError('Content store returned no CID')
+      return `ipfs://${cid}`
+    },
+  }
+}
+
+export function ipfsApiStorage(url = IPFS_API_URL): MetadataStorage {
+  return {
+    kind: 'ipfs',
+    label: `IPFS node (${new URL(url).host})`,
+    async put(content) {
+      const form = new FormData()
+      form.append('file', content)
+      const { Hash } = await post(`${url}/api/v0/add?cid-version=1&pin=true`, { body: form })
+      if (typeof Hash !== 'string') throw new StorageError('IPFS node returned no CID')
+      return `ipfs://${Hash}`
+    },
+  }
+}
+
+/** The backend selected by `VITE_METADATA_STORAGE` */
+export const metadataStorage: MetadataStorage =
+  METADATA_STORAGE === 'local' ? contentStoreStorage()
+    : METADATA_STORAGE === 'ipfs' ? ipfsApiStorage()
+      : inlineStorage
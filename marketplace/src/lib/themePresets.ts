@@ -0,0 +1,134 @@
+/**
+ * Card theme presets: a few built-in looks plus the designer's own, saved in
+ * `localStorage` under `whirlpool.themePresets` so they carry across cards,
+ * drafts and sessions (and sync between open tabs via the `storage` event).
+ */
+import { useSyncExternalStore } from 'react'
+import type { CardTheme } from '../components/editor/types'
+
+export interface ThemePreset {
+  name: string
+  theme: CardTheme
+  /** Built-in presets can't be deleted */
+  builtIn?: boolean
+}
+
+const STORAGE_KEY = 'whirlpool.themePresets'
+/** Fired on `window` when this tab changes the saved presets */
+const CHANGE_EVENT = 'whirlpool:theme-presets'
+
+export const BUILT_IN_PRESETS: ThemePreset[] = [
+  {
+    name: 'Ocean',
+    builtIn: true,
+    theme: {
+      background: 'linear-gradient(145deg, #0e7490, #1e3a8a)',
+      header: { background: 'linear-gradient(90deg, rgba(8, 47, 73, 0.85), rgba(14, 116, 144, 0.6))', color: '#ffffff' },
+      imageArea: { border: '2px solid #67e8f9', boxShadow: '0 0 12px rgba(103, 232, 249, 0.5)' },
+      typeSection: { background: 'linear-gradient(90deg, #0891b2, #1d4ed8)', color: '#ffffff' },
+      stat: { background: 'rgba(34, 211, 238, 0.85)', color: '#111111', border: '1px solid #cffafe' },
+      flavorText: { background: 'rgba(236, 254, 255, 0.85)', color: '#111111', border: '1px solid #22d3ee' },
+      bottomSection: { background: '#082f49' },
+      rarity: { background: '#22d3ee', color: '#111111', border: '1px solid #cffafe' },
+    },
+  },
+  {
+    name: 'Sunset',
+    builtIn: true,
+    theme: {
+      background: 'linear-gradient(145deg, #FF613D, #7c2d12)',
+      header: { background: 'linear-gradient(90deg, rgba(67, 20, 7, 0.85), rgba(255, 97, 61, 0.6))', color: '#ffffff' },
+      imageArea: { border: '2px solid #fbbf24', boxShadow: '0 0 12px rgba(251, 191, 36, 0.5)' },
+      typeSection: { background: 'linear-gradient(90deg, #f97316, #be123c)', color: '#ffffff' },
+      stat: { background: 'rgba(251, 191, 36, 0.85)', color: '#111111', border: '1px solid #fef3c7' },
+      flavorText: { background: 'rgba(255, 247, 237, 0.85)', color: '#111111', border: '1px solid #fb923c' },
+      bottomSection: { background: '#431407' },
+      rarity: { background: '#fbbf24', color: '#111111', border: '1px solid #fef3c7' },
+    },
+  },
+  {
+    name: 'Forest',
+    builtIn: true,
+    theme: {
+      background: 'linear-gradient(145deg, #15803d, #14532d)',
+      header: { background: 'linear-gradient(90deg, rgba(5, 46, 22, 0.85), rgba(21, 128, 61, 0.6))', color: '#ffffff' },
+      imageArea: { border: '2px solid #a3e635', boxShadow: '0 0 12px rgba(163, 230, 53, 0.4)' },
+      typeSection: { background: 'linear-gradient(90deg, #65a30d, #166534)', color: '#ffffff' },
+      stat: { background: 'rgba(163, 230, 53, 0.85)', color: '#111111', border: '1px solid #ecfccb' },
+      flavorText: { background: 'rgba(240, 253, 244, 0.85)', color: '#111111', border: '1px solid #4ade80' },
+      bottomSection: { background: '#052e16' },
+      rarity: { background: '#a3e635', color: '#111111', border: '1px solid #ecfccb' },
+    },
+  },
+  {
+    name: 'Obsidian',
+    builtIn: true,
+    theme: {
+      background: 'linear-gradient(145deg, #27272a, #09090b)',
+      header: { background: 'rgba(0, 0, 0, 0.5)', color: '#e4e4e7', textShadow: '0px 0px 6px rgba(167, 139, 250, 0.8)' },
+      imageArea: { border: '2px solid #8b5cf6', boxShadow: '0 0 16px rgba(139, 92, 246, 0.6)' },
+      typeSection: { background: 'linear-gradient(90deg, #3f3f46, #18181b)', color: '#c4b5fd' },
+      stat: { background: 'rgba(139, 92, 246, 0.85)', color: '#ffffff', border: '1px solid #c4b5fd' },
+      flavorText: { background: 'rgba(24, 24, 27, 0.85)', color: '#d4d4d8', border: '1px solid #8b5cf6' },
+      bottomSection: { background: '#09090b' },
+      rarity: { background: '#8b5cf6', color: '#ffffff', border: '1px solid #c4b5fd', boxShadow: '0 0 8px rgba(139, 92, 246, 0.6)' },
+    },
+  },
+]
+
+let cache: { raw: string | null; presets: ThemePreset[] } | undefined
+
+function readSaved(): ThemePreset[] {
+  let raw: string | null = null
+  try {
+    raw = localStorage.getItem(STORAGE_KEY)
+  } catch {
+    // Storage disabled: behave as if nothing was saved
+  }
+  if (cache?.raw === raw) return cache.presets
+  let presets: ThemePreset[] = []
+  try {
+    const parsed: unknown = raw ? JSON.parse(raw) : []
+    if (Array.isArray(parsed)) {
+      presets = parsed.filter((p): p is ThemePreset => typeof p?.name === 'string' && typeof p?.theme === 'object' && p.theme !== null)
+    }
+  } catch {
+    presets = []
+  }
+  cache = { raw, presets }
+  return presets
+}
+
+function writeSaved(presets: ThemePreset[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(presets.map(({ name, theme }) => ({ name, theme }))))
+  window.dispatchEvent(new Event(CHANGE_EVENT))
+}
+
+/** Save `theme` as a user preset, replacing one with the same name */
+export function saveThemePreset(name: string, theme: CardTheme) {
+  const trimmed = name.trim()
+  if (!trimmed) throw new Error('Name the preset')
+  if (BUILT_IN_PRESETS.some(p => p.name.toLowerCase() === trimmed.toLowerCase())) {
+    throw new Error(`"${trimmed}" is a built-in preset`)
+  }
+  writeSaved([...readSaved().filter(p => p.name !== trimmed), { name: trimmed, theme }])
+}
+
+export function deleteThemePreset(name: string) {
+  writeSaved(readSaved().filter(p => p.name !== name))
+}
+
+function subscribe(onChange: () => void) {
+  const onStorage = (e: StorageEvent) => { if (e.key === STORAGE_KEY) onChange() }
+  window.addEventListener(CHANGE_EVENT, onChange)
+  window.addEventListener('storage', onStorage)
+  return () => {
+    window.removeEventListener(CHANGE_EVENT, onChange)
+    window.removeEventListener('storage', onStorage)
+  }
+}
+
+/** The designer's saved presets; re-renders when they change in any tab */
+export function useSavedThemePresets(): ThemePreset[] {
+  return useSyncExternalStore(subscribe, readSaved)
+}
@@ -0,0 +1,18 @@
+/** wagmi config — every configured network, active one first, with injected wallet connector (Rabby, MetaMask, etc.) */
+import { http, createConfig } from 'wagmi'
+import { injected } from 'wagmi/connectors'
+import type { WhirlpoolChain } from '@whirlpool/sdk'
+import { chainRegistry, deployment } from './deployment'
+
+/** Anvil has no canonical Multicall3 — batch reads through the one LocalDeploy.s.sol deployed */
+const chains = chainRegistry.networks.map(({ chain }) => (
+  chain.id === deployment.chainId
+    ? { ...chain, contracts: { ...chain.contracts, multicall3: { address: deployment.addresses.multicall3 } } }
+    : chain
+)) as [WhirlpoolChain, ...WhirlpoolChain[]]
+
+export const config = createConfig({
+  chains,
+  connectors: [injected()],
+  transports: Object.fromEntries(chains.map(chain => [chain.id, http(chain.rpcUrls.default.http[0])])),
+})
@@ -3,17 +3,23 @@ import { createRoot } from 'react-dom/client'
 import { WagmiProvider } from 'wagmi'
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
 import { config } from './lib/wagmi'
+import { deploymentError } from './lib/deployment'
 import App from './App'
+import NoDeployment from './components/NoDeployment'
 import './index.css'
 
 const queryClient = new QueryClient()
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <WagmiProvider config={config}>
-      <QueryClientProvider client={queryClient}>
-        <App />
-      </QueryClientProvider>
-    </WagmiProvider>
+    {deploymentError ? (
+      <NoDeployment error={deploymentError} />
+    ) : (
+      <WagmiProvider config={config}>
+        <QueryClientProvider client={queryClient}>
+          <App />
+        </QueryClientProvider>
+      </WagmiProvider>
+    )}
   </StrictMode>,
 )
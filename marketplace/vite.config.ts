@@ -1,7 +1,12 @@
 /** Vite config — React plugin for JSX/HMR */
-import { defineConfig } from 'vite'
+import { defineConfig, searchForWorkspaceRoot } from 'vite'
 import react from '@vitejs/plugin-react'
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react()],
+  server: {
+    // @whirlpool/sdk is linked from ../sdk and served as TypeScript source;
+    // deployment addresses are read from Forge's ../broadcast output
+    fs: { allow: [searchForWorkspaceRoot(process.cwd()), '../sdk', '../broadcast'] },
+  },
 })
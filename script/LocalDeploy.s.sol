@@ -18,6 +18,34 @@ contract MockWETH is ERC20 {
     receive() external payable { _mint(msg.sender, msg.value); }
 }
 
+/// @notice Minimal Multicall3 (aggregate3 only) — Anvil has no canonical
+///         0xcA11…CA11 deployment, and the frontends batch their reads through it.
+contract Multicall3 {
+    struct Call3 {
+        address target;
+        bool allowFailure;
+        bytes callData;
+    }
+
+    struct Result {
+        bool success;
+        bytes returnData;
+    }
+
+    function aggregate3(Call3[] calldata calls) external payable returns (Result[] memory returnData) {
+        returnData = new Result[](calls.length);
+        for (uint256 i = 0; i < calls.length; i++) {
+            (bool success, bytes memory ret) = calls[i].target.call(calls[i].callData);
+            require(success || calls[i].allowFailure, "Multicall3: call failed");
+            returnData[i] = Result(success, ret);
+        }
+    }
+
+    function getBlockNumber() external view returns (uint256) {
+        return block.number;
+    }
+}
+
 contract LocalDeployScript is Script {
     uint256 constant PK = 0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80;
 
@@ -61,6 +89,9 @@ contract LocalDeployScript is Script {
         require(address(wethPool) == predictedWethPool, "WethPool mismatch");
         require(address(router) == predictedRouter, "Router mismatch");
 
+        // Deployed after the system so the address predictions above are unaffected
+        Multicall3 multicall = new Multicall3();
+
         vm.stopBroadcast();
 
         console.log("=== Whirlpool System Deployed (Option B) ===");
@@ -72,6 +103,7 @@ contract LocalDeployScript is Script {
         console.log("WethPool:      ", address(wethPool));
         console.log("BidNFT:        ", address(bidNFT));
         console.log("Router:        ", address(router));
+        console.log("Multicall3:    ", address(multicall));
         console.log("Cards:         ", router.totalCards());
     }
 }
@@ -2,6 +2,7 @@
 # Mint all cards from cardData.json via WhirlpoolRouter.createCard
 # Expects metadata files at cog-works/public/data/metadata/<index>.json
 # (generated by generate-metadata.py)
+# For a resumable run with a report of card IDs and token addresses, use batch-mint/ instead
 set -e
 export PATH="$HOME/.foundry/bin:$PATH"
 
@@ -0,0 +1,206 @@
+/**
+ * @module generate-abis
+ * @description Code generator: Forge build artifacts → typed `as const` ABI modules.
+ *
+ * Reads `out/<File>.sol/<Contract>.json` for every contract in the repo's `src/`
+ * (plus the MockWETH used on Anvil) and writes one module per contract to
+ * `sdk/src/abis/`, along with an `index.ts` barrel. The apps import these
+ * through `@whirlpool/sdk`, so wagmi/viem infer `functionName`, `args` and
+ * return types straight from the compiled contracts.
+ *
+ * After generating, every `abi: X_ABI … functionName/eventName: '…'` call site
+ * in `frontend/src` and `marketplace/src` is checked against the fresh ABIs.
+ * A call to a function the compiled contract no longer has fails the run.
+ *
+ * Usage (from `sdk/`, after `forge build` at the repo root):
+ *   npm run generate:abis              # write modules, then check call sites
+ *   npm run generate:abis -- --check   # fail if committed modules are stale
+ *   npm run generate:abis -- --out ../out
+ */
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync, statSync } from 'node:fs'
+import path from 'node:path'
+import { fileURLToPath } from 'node:url'
+
+interface AbiParameter {
+  name: string
+  type: string
+  indexed?: boolean
+  internalType?: string
+  components?: AbiParameter[]
+}
+
+interface AbiItem {
+  type: string
+  name?: string
+  inputs?: AbiParameter[]
+  outputs?: AbiParameter[]
+  stateMutability?: string
+  anonymous?: boolean
+}
+
+/** A contract to emit: where its artifact lives and what the SDK calls it */
+interface ContractTarget {
+  /** Solidity file name as Forge names the `out/` folder, e.g. `SurfSwap.sol` */
+  file: string
+  /** Contract name inside that file */
+  contract: string
+  /** Exported constant name, e.g. `SURFSWAP_ABI` */
+  exportName: string
+}
+
+const SDK_ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..')
+const REPO_ROOT = path.resolve(SDK_ROOT, '..')
+const ABI_DIR = path.join(SDK_ROOT, 'src', 'abis')
+const APP_SOURCES = ['frontend/src', 'marketplace/src'].map(p => path.join(REPO_ROOT, p))
+
+/** Export names the apps already use; anything else gets SCREAMING_SNAKE + `_ABI`. */
+const EXPORT_NAMES: Record<string, string> = {
+  WhirlpoolRouter: 'ROUTER_ABI',
+  SurfSwap: 'SURFSWAP_ABI',
+  WhirlpoolStaking: 'WHIRLPOOL_ABI',
+  WAVES: 'WAVES_ABI',
+  BidNFT: 'BIDNFT_ABI',
+  MockWETH: 'WETH_ABI',
+}
+
+/** Artifacts outside `src/` that the apps still need. */
+const EXTRA_TARGETS: ContractTarget[] = [
+  { file: 'LocalDeploy.s.sol', contract: 'MockWETH', exportName: EXPORT_NAMES.MockWETH },
+]
+
+const HEADER = '// Generated by sdk/scripts/generate-abis.ts from Forge build artifacts — DO NOT EDIT.\n'
+
+function toExportName(contract: string): string {
+  if (EXPORT_NAMES[contract]) return EXPORT_NAMES[contract]
+  return contract.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toUpperCase() + '_ABI'
+}
+
+/** One target per top-level `src/*.sol` file (interfaces are not deployed, so skipped). */
+function discoverTargets(): ContractTarget[] {
+  const srcDir = path.join(REPO_ROOT, 'src')
+  const targets = readdirSync(srcDir)
+    .filter(f => f.endsWith('.sol') && statSync(path.join(srcDir, f)).isFile())
+    .sort()
+    .map(file => {
+      const contract = file.replace(/\.sol$/, '')
+      return { file, contract, exportName: toExportName(contract) }
+    })
+  return [...targets, ...EXTRA_TARGETS]
+}
+
+function readAbi(outDir: string, target: ContractTarget): AbiItem[] {
+  const artifact = path.join(outDir, target.file, `${target.contract}.json`)
+  if (!existsSync(artifact)) {
+    throw new Error(`Missing artifact ${path.relative(REPO_ROOT, artifact)} — run \`forge build\` at the repo root first`)
+  }
+  const json = JSON.parse(readFileSync(artifact, 'utf8')) as { abi?: AbiItem[] }
+  if (!Array.isArray(json.abi)) throw new Error(`Artifact ${artifact} has no "abi" array`)
+  return json.abi
+}
+
+/** Drop compiler-only noise (`internalType`) so the modules stay readable and diff-stable. */
+function stripParam(p: AbiParameter): AbiParameter {
+  const out: AbiParameter = { name: p.name, type: p.type }
+  if (p.indexed !== undefined) out.indexed = p.indexed
+  if (p.components) out.components = p.components.map(stripParam)
+  return out
+}
+
+function stripItem(item: AbiItem): AbiItem {
+  const out: AbiItem = { ...item }
+  if (item.inputs) out.inputs = item.inputs.map(stripParam)
+  if (item.outputs) out.outputs = item.outputs.map(stripParam)
+  return out
+}
+
+/** Serialize a JSON value as a TS literal in the repo's style (single quotes, bare keys). */
+function toTs(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(toTs).join(', ')}]`
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value).map(([k, v]) => `${k}: ${toTs(v)}`)
+    return entries.length ? `{ ${entries.join(', ')} }` : '{}'
+  }
+  if (typeof value === 'string') return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`
+  return String(value)
+}
+
+function renderModule(target: ContractTarget, abi: AbiItem[]): string {
+  const items = abi.map(item => `  ${toTs(stripItem(item))},`).join('\n')
+  return `${HEADER}/** ${target.contract} (${target.file}) */\nexport const ${target.exportName} = [\n${items}\n] as const\n`
+}
+
+function renderIndex(targets: ContractTarget[]): string {
+  return HEADER + targets.map(t => `export { ${t.exportName} } from './${t.contract}'`).join('\n') + '\n'
+}
+
+function listSources(dir: string): string[] {
+  if (!existsSync(dir)) return []
+  return readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    const full = path.join(dir, entry.name)
+    if (entry.isDirectory()) return listSources(full)
+    return /\.tsx?$/.test(entry.name) ? [full] : []
+  })
+}
+
+/**
+ * Find `abi: X_ABI, … functionName: 'foo'` (or `eventName`) inside one object
+ * literal and report references that the generated ABI does not contain.
+ */
+function checkCallSites(abis: Map<string, AbiItem[]>): string[] {
+  const pattern = /\babi:\s*(\w+_ABI)\b[^{}]*?\b(functionName|eventName):\s*['"](\w+)['"]/g
+  const problems: string[] = []
+  for (const file of APP_SOURCES.flatMap(listSources)) {
+    const text = readFileSync(file, 'utf8')
+    for (const match of text.matchAll(pattern)) {
+      const [, exportName, key, name] = match
+      const abi = abis.get(exportName)
+      if (!abi) continue
+      const kind = key === 'functionName' ? 'function' : 'event'
+      if (!abi.some(item => item.type === kind && item.name === name)) {
+        const line = text.slice(0, match.index).split('\n').length
+        problems.push(`${path.relative(REPO_ROOT, file)}:${line} — ${exportName} has no ${kind} '${name}'`)
+      }
+    }
+  }
+  return problems
+}
+
+function main() {
+  const args = process.argv.slice(2)
+  const check = args.includes('--check')
+  const outFlag = args.indexOf('--out')
+  const outDir = path.resolve(outFlag >= 0 ? args[outFlag + 1] : path.join(REPO_ROOT, 'out'))
+
+  const targets = discoverTargets()
+  const abis = new Map<string, AbiItem[]>()
+  const files = new Map<string, string>()
+  for (const target of targets) {
+    const abi = readAbi(outDir, target)
+    abis.set(target.exportName, abi)
+    files.set(path.join(ABI_DIR, `${target.contract}.ts`), renderModule(target, abi))
+  }
+  files.set(path.join(ABI_DIR, 'index.ts'), renderIndex(targets))
+
+  if (check) {
+    const stale = [...files].filter(([file, content]) => !existsSync(file) || readFileSync(file, 'utf8') !== content)
+    if (stale.length) {
+      console.error('ABI modules are out of date with the Forge artifacts:')
+      for (const [file] of stale) console.error(`  ${path.relative(REPO_ROOT, file)}`)
+      console.error('Run `npm run generate:abis` in sdk/.')
+      process.exitCode = 1
+    }
+  } else {
+    mkdirSync(ABI_DIR, { recursive: true })
+    for (const [file, content] of files) writeFileSync(file, content)
+    console.log(`Generated ${targets.length} ABI modules in ${path.relative(REPO_ROOT, ABI_DIR)}/`)
+  }
+
+  const problems = checkCallSites(abis)
+  if (problems.length) {
+    console.error(`\n${problems.length} front-end call(s) reference functions/events missing from the compiled contracts:`)
+    for (const p of problems) console.error(`  ${p}`)
+    process.exitCode = 1
+  }
+}
+
+main()
@@ -0,0 +1,33 @@
+// Generated by sdk/scripts/generate-abis.ts from Forge build artifacts — DO NOT EDIT.
+/** BidNFT (BidNFT.sol) */
+export const BIDNFT_ABI = [
+  { inputs: [{ name: 'cardStaking_', type: 'address' }, { name: 'router_', type: 'address' }], stateMutability: 'nonpayable', type: 'constructor' },
+  { inputs: [{ name: 'sender', type: 'address' }, { name: 'tokenId', type: 'uint256' }, { name: 'owner', type: 'address' }], name: 'ERC721IncorrectOwner', type: 'error' },
+  { inputs: [{ name: 'operator', type: 'address' }, { name: 'tokenId', type: 'uint256' }], name: 'ERC721InsufficientApproval', type: 'error' },
+  { inputs: [{ name: 'approver', type: 'address' }], name: 'ERC721InvalidApprover', type: 'error' },
+  { inputs: [{ name: 'operator', type: 'address' }], name: 'ERC721InvalidOperator', type: 'error' },
+  { inputs: [{ name: 'owner', type: 'address' }], name: 'ERC721InvalidOwner', type: 'error' },
+  { inputs: [{ name: 'receiver', type: 'address' }], name: 'ERC721InvalidReceiver', type: 'error' },
+  { inputs: [{ name: 'sender', type: 'address' }], name: 'ERC721InvalidSender', type: 'error' },
+  { inputs: [{ name: 'tokenId', type: 'uint256' }], name: 'ERC721NonexistentToken', type: 'error' },
+  { anonymous: false, inputs: [{ name: 'owner', type: 'address', indexed: true }, { name: 'approved', type: 'address', indexed: true }, { name: 'tokenId', type: 'uint256', indexed: true }], name: 'Approval', type: 'event' },
+  { anonymous: false, inputs: [{ name: 'owner', type: 'address', indexed: true }, { name: 'operator', type: 'address', indexed: true }, { name: 'approved', type: 'bool', indexed: false }], name: 'ApprovalForAll', type: 'event' },
+  { anonymous: false, inputs: [{ name: 'from', type: 'address', indexed: true }, { name: 'to', type: 'address', indexed: true }, { name: 'tokenId', type: 'uint256', indexed: true }], name: 'Transfer', type: 'event' },
+  { inputs: [{ name: '', type: 'address' }, { name: '', type: 'uint256' }], name: 'approve', outputs: [], stateMutability: 'pure', type: 'function' },
+  { inputs: [{ name: 'owner', type: 'address' }], name: 'balanceOf', outputs: [{ name: '', type: 'uint256' }], stateMutability: 'view', type: 'function' },
+  { inputs: [], name: 'cardStaking', outputs: [{ name: '', type: 'address' }], stateMutability: 'view', type: 'function' },
+  { inputs: [{ name: 'tokenId', type: 'uint256' }], name: 'exists', outputs: [{ name: '', type: 'bool' }], stateMutability: 'view', type: 'function' },
+  { inputs: [{ name: '', type: 'uint256' }], name: 'getApproved', outputs: [{ name: '', type: 'address' }], stateMutability: 'pure', type: 'function' },
+  { inputs: [{ name: '', type: 'address' }, { name: '', type: 'address' }], name: 'isApprovedForAll', outputs: [{ name: '', type: 'bool' }], stateMutability: 'pure', type: 'function' },
+  { inputs: [{ name: 'cardId', type: 'uint256' }, { name: 'tokenURI_', type: 'string' }], name: 'mint', outputs: [], stateMutability: 'nonpayable', type: 'function' },
+  { inputs: [], name: 'name', outputs: [{ name: '', type: 'string' }], stateMutability: 'view', type: 'function' },
+  { inputs: [{ name: 'tokenId', type: 'uint256' }], name: 'ownerOf', outputs: [{ name: '', type: 'address' }], stateMutability: 'view', type: 'function' },
+  { inputs: [], name: 'router', outputs: [{ name: '', type: 'address' }], stateMutability: 'view', type: 'function' },
+  { inputs: [{ name: 'from', type: 'address' }, { name: 'to', type: 'address' }, { name: 'tokenId', type: 'uint256' }], name: 'safeTransferFrom', outputs: [], stateMutability: 'nonpayable', type: 'function' },
+  { inputs: [{ name: '', type: 'address' }, { name: '', type: 'address' }, { name: '', type: 'uint256' }, { name: '', type: 'bytes' }], name: 'safeTransferFrom', outputs: [], stateMutability: 'pure', type: 'function' },
+  { inputs: [{ name: '', type: 'address' }, { name: '', type: 'bool' }], name: 'setApprovalForAll', outputs: [], stateMutability: 'pure', type: 'function' },
+  { inputs: [{ name: 'interfaceId', type: 'bytes4' }], name: 'supportsInterface', outputs: [{ name: '', type: 'bool' }], stateMutability: 'view', type: 'function' },
+  { inputs: [], name: 'symbol', outputs: [{ name: '', type: 'string' }], stateMutability: 'view', type: 'function' },
+  { inputs: [{ name: 'tokenId', type: 'uint256' }], name: 'tokenURI', outputs: [{ name: '', type: 'string' }], stateMutability: 'view', type: 'function' },
+  { inputs: [{ name: '', type: 'address' }, { name: '', type: 'address' }, { name: '', type: 'uint256' }], name: 'transferFrom', outputs: [], stateMutability: 'pure', type: 'function' },
+] as const
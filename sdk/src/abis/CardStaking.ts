@@ -0,0 +1,30 @@
+// Generated by sdk/scripts/generate-abis.ts from Forge build artifacts — DO NOT EDIT.
+/** CardStaking (CardStaking.sol) */
+export const CARD_STAKING_ABI = [
+  { inputs: [{ name: '_waves', type: 'address' }, { name: '_surfSwap', type: 'address' }, { name: '_router', type: 'address' }, { name: '_globalRewards', type: 'address' }], stateMutability: 'nonpayable', type: 'constructor' },
+  { inputs: [], name: 'ReentrancyGuardReentrantCall', type: 'error' },
+  { inputs: [{ name: 'token', type: 'address' }], name: 'SafeERC20FailedOperation', type: 'error' },
+  { anonymous: false, inputs: [{ name: 'cardId', type: 'uint256', indexed: true }, { name: 'previousOwner', type: 'address', indexed: true }, { name: 'newOwner', type: 'address', indexed: true }], name: 'OwnerChanged', type: 'event' },
+  { anonymous: false, inputs: [{ name: 'cardId', type: 'uint256', indexed: true }, { name: 'user', type: 'address', indexed: true }, { name: 'amount', type: 'uint256', indexed: false }], name: 'Staked', type: 'event' },
+  { anonymous: false, inputs: [{ name: 'cardId', type: 'uint256', indexed: true }, { name: 'user', type: 'address', indexed: true }, { name: 'amount', type: 'uint256', indexed: false }], name: 'Unstaked', type: 'event' },
+  { inputs: [{ name: 'cardId', type: 'uint256' }, { name: 'user', type: 'address' }, { name: 'amount', type: 'uint256' }], name: 'autoStake', outputs: [], stateMutability: 'nonpayable', type: 'function' },
+  { inputs: [{ name: 'fromCardIds', type: 'uint256[]' }, { name: 'toCardId', type: 'uint256' }], name: 'batchSwapStake', outputs: [], stateMutability: 'nonpayable', type: 'function' },
+  { inputs: [{ name: '', type: 'uint256' }, { name: '', type: 'uint256' }], name: 'cardStakers', outputs: [{ name: '', type: 'address' }], stateMutability: 'view', type: 'function' },
+  { inputs: [{ name: '', type: 'uint256' }], name: 'cardStakes', outputs: [{ name: 'token', type: 'address' }, { name: 'totalShares', type: 'uint256' }, { name: 'totalStaked', type: 'uint256' }, { name: 'currentOwner', type: 'address' }, { name: 'ownerShares', type: 'uint256' }, { name: 'accWavesPerShare', type: 'uint256' }], stateMutability: 'view', type: 'function' },
+  { inputs: [{ name: 'cardId', type: 'uint256' }], name: 'claimRewards', outputs: [], stateMutability: 'nonpayable', type: 'function' },
+  { inputs: [{ name: 'cardId', type: 'uint256' }, { name: 'wavesFee', type: 'uint256' }], name: 'distributeSwapFees', outputs: [], stateMutability: 'nonpayable', type: 'function' },
+  { inputs: [{ name: 'cardId', type: 'uint256' }, { name: 'user', type: 'address' }], name: 'effectiveBalance', outputs: [{ name: '', type: 'uint256' }], stateMutability: 'view', type: 'function' },
+  { inputs: [], name: 'globalRewards', outputs: [{ name: '', type: 'address' }], stateMutability: 'view', type: 'function' },
+  { inputs: [{ name: '', type: 'uint256' }, { name: '', type: 'address' }], name: 'isCardStaker', outputs: [{ name: '', type: 'bool' }], stateMutability: 'view', type: 'function' },
+  { inputs: [{ name: 'cardId', type: 'uint256' }], name: 'ownerOfCard', outputs: [{ name: '', type: 'address' }], stateMutability: 'view', type: 'function' },
+  { inputs: [{ name: 'cardId', type: 'uint256' }, { name: 'user', type: 'address' }], name: 'pendingRewards', outputs: [{ name: '', type: 'uint256' }], stateMutability: 'view', type: 'function' },
+  { inputs: [{ name: 'cardId', type: 'uint256' }, { name: 'token', type: 'address' }], name: 'registerCard', outputs: [], stateMutability: 'nonpayable', type: 'function' },
+  { inputs: [], name: 'router', outputs: [{ name: '', type: 'address' }], stateMutability: 'view', type: 'function' },
+  { inputs: [{ name: 'cardId', type: 'uint256' }, { name: 'amount', type: 'uint256' }], name: 'stake', outputs: [], stateMutability: 'nonpayable', type: 'function' },
+  { inputs: [], name: 'surfSwap', outputs: [{ name: '', type: 'address' }], stateMutability: 'view', type: 'function' },
+  { inputs: [{ name: 'fromCardId', type: 'uint256' }, { name: 'toCardId', type: 'uint256' }, { name: 'shares', type: 'uint256' }], name: 'swapStake', outputs: [], stateMutability: 'nonpayable', type: 'function' },
+  { inputs: [{ name: 'cardId', type: 'uint256' }, { name: 'shares', type: 'uint256' }], name: 'unstake', outputs: [], stateMutability: 'nonpayable', type: 'function' },
+  { inputs: [{ name: '', type: 'uint256' }, { name: '', type: 'address' }], name: 'userCardDebt', outputs: [{ name: '', type: 'uint256' }], stateMutability: 'view', type: 'function' },
+  { inputs: [{ name: '', type: 'uint256' }, { name: '', type: 'address' }], name: 'userCardShares', outputs: [{ name: '', type: 'uint256' }], stateMutability: 'view', type: 'function' },
+  { inputs: [], name: 'waves', outputs: [{ name: '', type: 'address' }], stateMutability: 'view', type: 'function' },
+] as const
@@ -0,0 +1,20 @@
+// Generated by sdk/scripts/generate-abis.ts from Forge build artifacts — DO NOT EDIT.
+/** GlobalRewards (GlobalRewards.sol) */
+export const GLOBAL_REWARDS_ABI = [
+  { inputs: [], stateMutability: 'nonpayable', type: 'constructor' },
+  { anonymous: false, inputs: [{ name: 'amount', type: 'uint256', indexed: false }], name: 'MintFeeDistributed', type: 'event' },
+  { anonymous: false, inputs: [{ name: 'operator', type: 'address', indexed: true }], name: 'OperatorRegistered', type: 'event' },
+  { inputs: [], name: 'accEthPerWeight', outputs: [{ name: '', type: 'uint256' }], stateMutability: 'view', type: 'function' },
+  { inputs: [{ name: 'user', type: 'address' }, { name: 'weight', type: 'uint256' }], name: 'addWeight', outputs: [], stateMutability: 'nonpayable', type: 'function' },
+  { inputs: [], name: 'deployer', outputs: [{ name: '', type: 'address' }], stateMutability: 'view', type: 'function' },
+  { inputs: [], name: 'distributeMintFee', outputs: [], stateMutability: 'payable', type: 'function' },
+  { inputs: [{ name: 'user', type: 'address' }], name: 'harvestGlobal', outputs: [], stateMutability: 'nonpayable', type: 'function' },
+  { inputs: [{ name: '', type: 'address' }], name: 'isOperator', outputs: [{ name: '', type: 'bool' }], stateMutability: 'view', type: 'function' },
+  { inputs: [{ name: 'user', type: 'address' }], name: 'pendingGlobalRewards', outputs: [{ name: '', type: 'uint256' }], stateMutability: 'view', type: 'function' },
+  { inputs: [{ name: 'operator', type: 'address' }], name: 'registerOperator', outputs: [], stateMutability: 'nonpayable', type: 'function' },
+  { inputs: [{ name: 'user', type: 'address' }, { name: 'weight', type: 'uint256' }], name: 'removeWeight', outputs: [], stateMutability: 'nonpayable', type: 'function' },
+  { inputs: [], name: 'totalGlobalWeight', outputs: [{ name: '', type: 'uint256' }], stateMutability: 'view', type: 'function' },
+  { inputs: [{ name: '', type: 'address' }], name: 'userGlobalDebt', outputs: [{ name: '', type: 'uint256' }], stateMutability: 'view', type: 'function' },
+  { inputs: [{ name: '', type: 'address' }], name: 'userGlobalWeight', outputs: [{ name: '', type: 'uint256' }], stateMutability: 'view', type: 'function' },
+  { stateMutability: 'payable', type: 'receive' },
+] as const
@@ -0,0 +1,32 @@
+// Generated by sdk/scripts/generate-abis.ts from Forge build artifacts — DO NOT EDIT.
+/** SurfSwap (SurfSwap.sol) */
+export const SURFSWAP_ABI = [
+  { inputs: [{ name: 'waves_', type: 'address' }, { name: 'weth_', type: 'address' }, { name: 'cardStaking_', type: 'address' }, { name: 'wethPool_', type: 'address' }, { name: 'router_', type: 'address' }], stateMutability: 'nonpayable', type: 'constructor' },
+  { inputs: [], name: 'ReentrancyGuardReentrantCall', type: 'error' },
+  { inputs: [{ name: 'token', type: 'address' }], name: 'SafeERC20FailedOperation', type: 'error' },
+  { anonymous: false, inputs: [{ name: 'cardId', type: 'uint256', indexed: true }, { name: 'token', type: 'address', indexed: true }, { name: 'wavesAmount', type: 'uint256', indexed: false }, { name: 'cardAmount', type: 'uint256', indexed: false }], name: 'PoolInitialized', type: 'event' },
+  { anonymous: false, inputs: [{ name: 'tokenIn', type: 'address', indexed: true }, { name: 'tokenOut', type: 'address', indexed: true }, { name: 'user', type: 'address', indexed: true }, { name: 'amountIn', type: 'uint256', indexed: false }, { name: 'amountOut', type: 'uint256', indexed: false }], name: 'Swap', type: 'event' },
+  { inputs: [], name: 'SWAP_FEE_BPS', outputs: [{ name: '', type: 'uint256' }], stateMutability: 'view', type: 'function' },
+  { inputs: [{ name: 'cardId', type: 'uint256' }, { name: 'amount', type: 'uint256' }], name: 'addToCardReserve', outputs: [], stateMutability: 'nonpayable', type: 'function' },
+  { inputs: [{ name: 'amount', type: 'uint256' }], name: 'addToWethReserve', outputs: [], stateMutability: 'nonpayable', type: 'function' },
+  { inputs: [], name: 'cardStaking', outputs: [{ name: '', type: 'address' }], stateMutability: 'view', type: 'function' },
+  { inputs: [{ name: '', type: 'uint256' }], name: 'cards', outputs: [{ name: 'token', type: 'address' }, { name: 'wavesReserve', type: 'uint256' }, { name: 'cardReserve', type: 'uint256' }, { name: 'stakedCards', type: 'uint256' }], stateMutability: 'view', type: 'function' },
+  { inputs: [{ name: 'cardId', type: 'uint256' }], name: 'getPrice', outputs: [{ name: '', type: 'uint256' }], stateMutability: 'view', type: 'function' },
+  { inputs: [{ name: 'cardId', type: 'uint256' }], name: 'getReserves', outputs: [{ name: 'wavesR', type: 'uint256' }, { name: 'cardsR', type: 'uint256' }], stateMutability: 'view', type: 'function' },
+  { inputs: [{ name: 'cardId', type: 'uint256' }], name: 'getStakedCards', outputs: [{ name: '', type: 'uint256' }], stateMutability: 'view', type: 'function' },
+  { inputs: [], name: 'getWethReserves', outputs: [{ name: 'wavesR', type: 'uint256' }, { name: 'wethR', type: 'uint256' }], stateMutability: 'view', type: 'function' },
+  { inputs: [{ name: 'cardId', type: 'uint256' }, { name: 'token', type: 'address' }, { name: 'wavesAmount', type: 'uint256' }, { name: 'cardAmount', type: 'uint256' }], name: 'initializePool', outputs: [], stateMutability: 'nonpayable', type: 'function' },
+  { inputs: [{ name: 'fromCardId', type: 'uint256' }, { name: 'toCardId', type: 'uint256' }, { name: 'cardAmountIn', type: 'uint256' }], name: 'internalSwapCardToCard', outputs: [{ name: 'cardAmountOut', type: 'uint256' }], stateMutability: 'nonpayable', type: 'function' },
+  { inputs: [{ name: '', type: 'address' }], name: 'isCardToken', outputs: [{ name: '', type: 'bool' }], stateMutability: 'view', type: 'function' },
+  { inputs: [{ name: 'cardId', type: 'uint256' }, { name: 'amount', type: 'uint256' }], name: 'removeFromCardReserve', outputs: [], stateMutability: 'nonpayable', type: 'function' },
+  { inputs: [{ name: 'amount', type: 'uint256' }], name: 'removeFromWavesWethReserve', outputs: [], stateMutability: 'nonpayable', type: 'function' },
+  { inputs: [{ name: 'amount', type: 'uint256' }], name: 'removeFromWethReserve', outputs: [], stateMutability: 'nonpayable', type: 'function' },
+  { inputs: [], name: 'router', outputs: [{ name: '', type: 'address' }], stateMutability: 'view', type: 'function' },
+  { inputs: [{ name: 'tokenIn', type: 'address' }, { name: 'tokenOut', type: 'address' }, { name: 'amountIn', type: 'uint256' }, { name: 'minAmountOut', type: 'uint256' }], name: 'swapExact', outputs: [{ name: 'amountOut', type: 'uint256' }], stateMutability: 'nonpayable', type: 'function' },
+  { inputs: [{ name: '', type: 'address' }], name: 'tokenToCard', outputs: [{ name: '', type: 'uint256' }], stateMutability: 'view', type: 'function' },
+  { inputs: [], name: 'waves', outputs: [{ name: '', type: 'address' }], stateMutability: 'view', type: 'function' },
+  { inputs: [], name: 'wavesWethReserve', outputs: [{ name: '', type: 'uint256' }], stateMutability: 'view', type: 'function' },
+  { inputs: [], name: 'weth', outputs: [{ name: '', type: 'address' }], stateMutability: 'view', type: 'function' },
+  { inputs: [], name: 'wethPool', outputs: [{ name: '', type: 'address' }], stateMutability: 'view', type: 'function' },
+  { inputs: [], name: 'wethReserve', outputs: [{ name: '', type: 'uint256' }], stateMutability: 'view', type: 'function' },
+] as const
@@ -0,0 +1,26 @@
+// Generated by sdk/scripts/generate-abis.ts from Forge build artifacts — DO NOT EDIT.
+/** WethPool (WethPool.sol) */
+export const WETH_POOL_ABI = [
+  { inputs: [{ name: '_waves', type: 'address' }, { name: '_weth', type: 'address' }, { name: '_surfSwap', type: 'address' }, { name: '_globalRewards', type: 'address' }], stateMutability: 'nonpayable', type: 'constructor' },
+  { inputs: [], name: 'ReentrancyGuardReentrantCall', type: 'error' },
+  { inputs: [{ name: 'token', type: 'address' }], name: 'SafeERC20FailedOperation', type: 'error' },
+  { anonymous: false, inputs: [{ name: 'user', type: 'address', indexed: true }, { name: 'amount', type: 'uint256', indexed: false }], name: 'WETHStaked', type: 'event' },
+  { anonymous: false, inputs: [{ name: 'user', type: 'address', indexed: true }, { name: 'wethAmount', type: 'uint256', indexed: false }], name: 'WETHUnstaked', type: 'event' },
+  { inputs: [], name: 'WETH_BOOST', outputs: [{ name: '', type: 'uint256' }], stateMutability: 'view', type: 'function' },
+  { inputs: [], name: 'accWavesPerWethShare', outputs: [{ name: '', type: 'uint256' }], stateMutability: 'view', type: 'function' },
+  { inputs: [], name: 'claimWETHRewards', outputs: [], stateMutability: 'nonpayable', type: 'function' },
+  { inputs: [{ name: 'user', type: 'address' }], name: 'claimableWeth', outputs: [{ name: '', type: 'uint256' }], stateMutability: 'view', type: 'function' },
+  { inputs: [{ name: 'user', type: 'address' }], name: 'claimableWethPool', outputs: [{ name: 'wethAmount', type: 'uint256' }, { name: 'wavesAmount', type: 'uint256' }], stateMutability: 'view', type: 'function' },
+  { inputs: [{ name: 'wavesFee', type: 'uint256' }], name: 'distributeWethSwapFees', outputs: [], stateMutability: 'nonpayable', type: 'function' },
+  { inputs: [], name: 'globalRewards', outputs: [{ name: '', type: 'address' }], stateMutability: 'view', type: 'function' },
+  { inputs: [{ name: 'amount', type: 'uint256' }], name: 'stakeWETH', outputs: [], stateMutability: 'nonpayable', type: 'function' },
+  { inputs: [], name: 'surfSwap', outputs: [{ name: '', type: 'address' }], stateMutability: 'view', type: 'function' },
+  { inputs: [], name: 'totalWethDeposited', outputs: [{ name: '', type: 'uint256' }], stateMutability: 'view', type: 'function' },
+  { inputs: [], name: 'totalWethShares', outputs: [{ name: '', type: 'uint256' }], stateMutability: 'view', type: 'function' },
+  { inputs: [{ name: 'shares', type: 'uint256' }], name: 'unstakeWETH', outputs: [], stateMutability: 'nonpayable', type: 'function' },
+  { inputs: [{ name: '', type: 'address' }], name: 'userWethDebt', outputs: [{ name: '', type: 'uint256' }], stateMutability: 'view', type: 'function' },
+  { inputs: [{ name: '', type: 'address' }], name: 'userWethShares', outputs: [{ name: '', type: 'uint256' }], stateMutability: 'view', type: 'function' },
+  { inputs: [{ name: 'user', type: 'address' }], name: 'userWethStake', outputs: [{ name: '', type: 'uint256' }], stateMutability: 'view', type: 'function' },
+  { inputs: [], name: 'waves', outputs: [{ name: '', type: 'address' }], stateMutability: 'view', type: 'function' },
+  { inputs: [], name: 'weth', outputs: [{ name: '', type: 'address' }], stateMutability: 'view', type: 'function' },
+] as const
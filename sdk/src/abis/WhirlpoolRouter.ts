@@ -0,0 +1,25 @@
+// Generated by sdk/scripts/generate-abis.ts from Forge build artifacts — DO NOT EDIT.
+/** WhirlpoolRouter (WhirlpoolRouter.sol) */
+export const ROUTER_ABI = [
+  { inputs: [{ name: 'waves_', type: 'address' }, { name: 'bidNFT_', type: 'address' }, { name: 'surfSwap_', type: 'address' }, { name: 'cardStaking_', type: 'address' }, { name: 'globalRewards_', type: 'address' }, { name: 'weth_', type: 'address' }, { name: 'protocol_', type: 'address' }], stateMutability: 'nonpayable', type: 'constructor' },
+  { inputs: [], name: 'ReentrancyGuardReentrantCall', type: 'error' },
+  { inputs: [{ name: 'token', type: 'address' }], name: 'SafeERC20FailedOperation', type: 'error' },
+  { anonymous: false, inputs: [{ name: 'cardId', type: 'uint256', indexed: true }, { name: 'minter', type: 'address', indexed: true }, { name: 'cardToken', type: 'address', indexed: false }, { name: 'wavesSeeded', type: 'uint256', indexed: false }], name: 'CardCreated', type: 'event' },
+  { inputs: [], name: 'CARD_SUPPLY', outputs: [{ name: '', type: 'uint256' }], stateMutability: 'view', type: 'function' },
+  { inputs: [], name: 'MAX_CARDS', outputs: [{ name: '', type: 'uint256' }], stateMutability: 'view', type: 'function' },
+  { inputs: [], name: 'MINT_FEE', outputs: [{ name: '', type: 'uint256' }], stateMutability: 'view', type: 'function' },
+  { inputs: [], name: 'WAVES_PER_CARD', outputs: [{ name: '', type: 'uint256' }], stateMutability: 'view', type: 'function' },
+  { inputs: [], name: 'bidNFT', outputs: [{ name: '', type: 'address' }], stateMutability: 'view', type: 'function' },
+  { inputs: [{ name: '', type: 'bytes32' }], name: 'cardNameTaken', outputs: [{ name: '', type: 'bool' }], stateMutability: 'view', type: 'function' },
+  { inputs: [], name: 'cardStaking', outputs: [{ name: '', type: 'address' }], stateMutability: 'view', type: 'function' },
+  { inputs: [{ name: 'cardId', type: 'uint256' }], name: 'cardToken', outputs: [{ name: '', type: 'address' }], stateMutability: 'view', type: 'function' },
+  { inputs: [{ name: '', type: 'uint256' }], name: 'cardTokens', outputs: [{ name: '', type: 'address' }], stateMutability: 'view', type: 'function' },
+  { inputs: [{ name: 'name', type: 'string' }, { name: 'symbol', type: 'string' }, { name: 'tokenURI', type: 'string' }], name: 'createCard', outputs: [{ name: 'cardId', type: 'uint256' }], stateMutability: 'payable', type: 'function' },
+  { inputs: [], name: 'globalRewards', outputs: [{ name: '', type: 'address' }], stateMutability: 'view', type: 'function' },
+  { inputs: [], name: 'protocol', outputs: [{ name: '', type: 'address' }], stateMutability: 'view', type: 'function' },
+  { inputs: [], name: 'surfSwap', outputs: [{ name: '', type: 'address' }], stateMutability: 'view', type: 'function' },
+  { inputs: [], name: 'totalCards', outputs: [{ name: '', type: 'uint256' }], stateMutability: 'view', type: 'function' },
+  { inputs: [], name: 'totalCards_', outputs: [{ name: '', type: 'uint256' }], stateMutability: 'view', type: 'function' },
+  { inputs: [], name: 'waves', outputs: [{ name: '', type: 'address' }], stateMutability: 'view', type: 'function' },
+  { inputs: [], name: 'weth', outputs: [{ name: '', type: 'address' }], stateMutability: 'view', type: 'function' },
+] as const
@@ -0,0 +1,11 @@
+// Generated by sdk/scripts/generate-abis.ts from Forge build artifacts — DO NOT EDIT.
+export { BIDNFT_ABI } from './BidNFT'
+export { CARD_STAKING_ABI } from './CardStaking'
+export { CARD_TOKEN_ABI } from './CardToken'
+export { GLOBAL_REWARDS_ABI } from './GlobalRewards'
+export { SURFSWAP_ABI } from './SurfSwap'
+export { WAVES_ABI } from './WAVES'
+export { WETH_POOL_ABI } from './WethPool'
+export { ROUTER_ABI } from './WhirlpoolRouter'
+export { WHIRLPOOL_ABI } from './WhirlpoolStaking'
+export { WETH_ABI } from './MockWETH'
@@ -0,0 +1,197 @@
+/**
+ * @module batchMint
+ * @description Mint a list of cards through `WhirlpoolRouter.createCard`, resumably.
+ *
+ * The run is transport-agnostic: callers pass a {@link BatchMintClient}
+ * (wagmi in the marketplace, a viem wallet client in `batch-mint/`) and, per
+ * card, an `upload` that stores its metadata and returns the token URI.
+ *
+ * Progress is kept in a {@link BatchMintReport} keyed by card name, handed to
+ * `onUpdate` after every step so it can be saved. Passing a saved report back
+ * in resumes the batch:
+ * - `minted` cards are skipped
+ * - cards with a transaction but no card ID (`sent`, or `failed` while
+ *   waiting) are confirmed from that transaction first. They are only sent
+ *   again when `confirmCard` rejects with {@link MintTxError} (the
+ *   transaction reverted or was dropped); any other failure — an RPC timeout,
+ *   a transaction still pending — leaves them `sent` with the error, to be
+ *   checked again next time rather than paid for twice
+ * - `uploaded` and `failed` cards reuse their stored URI, so nothing is
+ *   uploaded twice
+ *
+ * A failing card is recorded as `failed` and the batch moves on; only an
+ * aborted `signal` stops it early. Names are checked against `cardNameTaken`
+ * before each mint, so a card minted outside the batch fails instead of
+ * reverting on-chain.
+ */
+import type { Address } from './deployments'
+
+// The SDK's lib has no DOM/Node types; browsers and Node both provide TextEncoder
+declare const TextEncoder: { new (): { encode(input: string): Uint8Array } }
+
+/** Transaction hash */
+export type TxHash = `0x${string}`
+
+export type BatchMintStatus = 'pending' | 'uploaded' | 'sent' | 'minted' | 'failed'
+
+/** One card's progress */
+export interface BatchMintEntry {
+  name: string
+  symbol: string
+  status: BatchMintStatus
+  /** Token URI, once uploaded */
+  uri?: string
+  tx?: TxHash
+  cardId?: number
+  cardToken?: Address
+  error?: string
+}
+
+/** Progress of a batch against one Router: card name → entry */
+export interface BatchMintReport {
+  chainId: number
+  router: Address
+  /** ISO time of the last change */
+  updatedAt: string
+  cards: Record<string, BatchMintEntry>
+}
+
+/** A card to mint */
+export interface BatchMintItem {
+  name: string
+  symbol: string
+  /** Store the card's metadata (and image) and resolve to its token URI */
+  upload: () => Promise<string>
+}
+
+/** The Router calls a batch needs */
+export interface BatchMintClient {
+  chainId: number
+  router: Address
+  mintFee(): Promise<bigint>
+  /** `cardNameTaken` for `name` */
+  isNameTaken(name: string): Promise<boolean>
+  /** Send `createCard(name, symbol, uri)` with `value` attached */
+  createCard(name: string, symbol: string, uri: string, value: bigint): Promise<TxHash>
+  /**
+   * Wait for `tx` and read its `CardCreated` event. Rejects with
+   * {@link MintTxError} only when the transaction can no longer mint the card
+   * (reverted, or dropped); other rejections are taken as "not known yet"
+   */
+  confirmCard(tx: TxHash): Promise<{ cardId: number; cardToken: Address }>
+}
+
+export interface BatchMintOptions {
+  /** A saved report to resume */
+  report?: BatchMintReport
+  /** Called after every change to the report (save it here) */
+  onUpdate?: (report: BatchMintReport, entry: BatchMintEntry) => void | Promise<void>
+  /** Longest token URI accepted, in UTF-8 bytes (BidNFT stores it on-chain) */
+  maxUriBytes?: number
+  /** Stop before the next step once aborted */
+  signal?: { readonly aborted: boolean }
+}
+
+/** Thrown for a report that belongs to another deployment */
+export class BatchMintError extends Error {
+  name = 'BatchMintError'
+}
+
+/** Thrown by {@link BatchMintClient.confirmCard} for a transaction that reverted or was dropped — safe to send again */
+export class MintTxError extends Error {
+  name = 'MintTxError'
+}
+
+/** Ticker suggested for a card name: its letters and digits, upper-cased, at most 8 */
+export function deriveSymbol(name: string): string {
+  return name.toUpperCase().replace(/[^A-Z0-9]/g, '').slice(0, 8)
+}
+
+/** How the Router compares names: ASCII letters lower-cased */
+const nameKey = (name: string) => name.replace(/[A-Z]/g, c => c.toLowerCase())
+
+const describe = (e: unknown) => (e as { shortMessage?: string }).shortMessage ?? (e as Error).message ?? String(e)
+
+/** Counts by status */
+export function summarizeReport(report: BatchMintReport): Record<BatchMintStatus, number> {
+  const counts: Record<BatchMintStatus, number> = { pending: 0, uploaded: 0, sent: 0, minted: 0, failed: 0 }
+  for (const entry of Object.values(report.cards)) counts[entry.status]++
+  return counts
+}
+
+/**
+ * Mint `items` in order, recording each card's outcome.
+ *
+ * @throws BatchMintError if `options.report` is for a different chain or Router
+ */
+export async function batchMint(items: BatchMintItem[], client: BatchMintClient, options: BatchMintOptions = {}): Promise<BatchMintReport> {
+  const { onUpdate, maxUriBytes = Infinity, signal } = options
+  const report: BatchMintReport = options.report
+    ? { ...options.report, cards: { ...options.report.cards } }
+    : { chainId: client.chainId, router: client.router, updatedAt: new Date().toISOString(), cards: {} }
+  if (report.chainId !== client.chainId || report.router.toLowerCase() !== client.router.toLowerCase()) {
+    throw new BatchMintError(`The report is for Router ${report.router} on chain ${report.chainId}, not ${client.router} on chain ${client.chainId}`)
+  }
+
+  const save = async (entry: BatchMintEntry) => {
+    report.cards[entry.name] = entry
+    report.updatedAt = new Date().toISOString()
+    await onUpdate?.(report, entry)
+  }
+
+  let fee: bigint | undefined
+  const seen = new Set<string>()
+
+  for (const item of items) {
+    if (signal?.aborted) break
+    const previous = report.cards[item.name]
+    if (previous?.status === 'minted') continue
+
+    let entry: BatchMintEntry = { ...previous, name: item.name, symbol: previous?.symbol ?? item.symbol, status: previous?.status ?? 'pending', error: undefined }
+    try {
+      if (seen.has(nameKey(item.name))) throw new Error('Another card in this batch has the same name')
+      seen.add(nameKey(item.name))
+      if (!item.name.trim()) throw new Error('The card has no name')
+      if (!entry.symbol.trim()) throw new Error('The card has no token symbol')
+
+      if (entry.tx) {
+        // Broadcast last time; find out whether it landed before sending again
+        try {
+          const card = await client.confirmCard(entry.tx)
+          await save({ ...entry, ...card, status: 'minted' })
+          continue
+        } catch (e) {
+          if (!(e instanceof MintTxError)) {
+            await save({ ...entry, status: 'sent', error: describe(e) })
+            continue
+          }
+          entry = { ...entry, status: entry.uri ? 'uploaded' : 'pending', tx: undefined }
+        }
+      }
+
+      if (await client.isNameTaken(item.name)) throw new Error('A card with this name already exists')
+
+      if (!entry.uri) {
+        const uri = await item.upload()
+        const bytes = new TextEncoder().encode(uri).length
+        if (bytes > maxUriBytes) {
+          throw new Error(`Token URI is ${Math.ceil(bytes / 1024)} KB; the limit is ${Math.floor(maxUriBytes / 1024)} KB`)
+        }
+        entry = { ...entry, uri, status: 'uploaded' }
+        await save(entry)
+      }
+      if (signal?.aborted) break
+
+      fee ??= await client.mintFee()
+      const tx = await client.createCard(item.name, entry.symbol, entry.uri!, fee)
+      entry = { ...entry, tx, status: 'sent' }
+      await save(entry)
+
+      const card = await client.confirmCard(tx)
+      await save({ ...entry, ...card, status: 'minted' })
+    } catch (e) {
+      await save({ ...entry, status: 'failed', error: describe(e) })
+    }
+  }
+  return report
+}
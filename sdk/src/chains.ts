@@ -0,0 +1,151 @@
+/**
+ * @module chains
+ * @description Chain registry — named networks configured from Vite env variables.
+ *
+ * Each app passes `import.meta.env` to {@link createChainRegistry}. Three named
+ * networks are known; Anvil is always available, the others only once an RPC
+ * URL is set for them:
+ *
+ * | Network   | RPC URL               | Chain ID (default)            |
+ * |-----------|-----------------------|-------------------------------|
+ * | `anvil`   | `VITE_ANVIL_RPC_URL`  | `VITE_ANVIL_CHAIN_ID` (31337) |
+ * | `fork`    | `VITE_FORK_RPC_URL`   | `VITE_FORK_CHAIN_ID` (1)      |
+ * | `sepolia` | `VITE_SEPOLIA_RPC_URL`| `VITE_SEPOLIA_CHAIN_ID` (11155111) |
+ *
+ * `VITE_NETWORK` selects the network the app reads from (default `anvil`).
+ * A forked Anvil keeps the upstream chain ID unless started with `--chain-id`,
+ * hence the mainnet default for `fork`.
+ */
+import { MULTICALL3_ADDRESS } from './deployments'
+import type { Address } from './deployments'
+
+/** Named networks the apps can target */
+export type NetworkName = 'anvil' | 'fork' | 'sepolia'
+
+/** Chain definition (viem `Chain`-compatible shape) */
+export interface WhirlpoolChain {
+  id: number
+  name: string
+  nativeCurrency: { name: string; symbol: string; decimals: number }
+  rpcUrls: { default: { http: readonly string[] } }
+  blockExplorers?: { default: { name: string; url: string } }
+  contracts?: { multicall3?: { address: Address } }
+  testnet?: boolean
+}
+
+/** One configured network */
+export interface Network {
+  name: NetworkName
+  chain: WhirlpoolChain
+}
+
+/** All configured networks plus the one the app reads from */
+export interface ChainRegistry {
+  /** Configured networks, active network first */
+  networks: [Network, ...Network[]]
+  active: Network
+  /** Configured network for a chain ID (e.g. the wallet's), if any */
+  byChainId(chainId: number | undefined): Network | undefined
+}
+
+/** Vite `import.meta.env` (or any string map with the same keys) */
+export type ChainEnv = Record<string, string | boolean | undefined>
+
+/** Thrown when the env variables describe an impossible configuration */
+export class ChainConfigError extends Error {
+  name = 'ChainConfigError'
+}
+
+interface NetworkPreset {
+  label: string
+  chainId: number
+  /** Used when no RPC URL is configured; networks without one are disabled */
+  rpcUrl?: string
+  explorer?: { name: string; url: string }
+  /** Whether the canonical Multicall3 exists on this network */
+  multicall3: boolean
+  testnet: boolean
+}
+
+const PRESETS: Record<NetworkName, NetworkPreset> = {
+  anvil: { label: 'Anvil Local', chainId: 31337, rpcUrl: 'http://127.0.0.1:8545', multicall3: false, testnet: true },
+  fork: { label: 'Anvil Fork', chainId: 1, multicall3: true, testnet: true },
+  sepolia: {
+    label: 'Sepolia',
+    chainId: 11155111,
+    explorer: { name: 'Etherscan', url: 'https://sepolia.etherscan.io' },
+    multicall3: true,
+    testnet: true,
+  },
+}
+
+const NETWORK_NAMES = Object.keys(PRESETS) as NetworkName[]
+
+function readEnv(env: ChainEnv, key: string): string | undefined {
+  const value = env[key]
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined
+}
+
+function buildNetwork(name: NetworkName, env: ChainEnv): Network | undefined {
+  const preset = PRESETS[name]
+  const prefix = `VITE_${name.toUpperCase()}`
+  const rpcUrl = readEnv(env, `${prefix}_RPC_URL`) ?? preset.rpcUrl
+  if (!rpcUrl) return undefined
+
+  const rawId = readEnv(env, `${prefix}_CHAIN_ID`)
+  const chainId = rawId === undefined ? preset.chainId : Number(rawId)
+  if (!Number.isSafeInteger(chainId) || chainId <= 0) {
+    throw new ChainConfigError(`${prefix}_CHAIN_ID must be a positive integer, got "${rawId}"`)
+  }
+
+  return {
+    name,
+    chain: {
+      id: chainId,
+      name: preset.label,
+      nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+      rpcUrls: { default: { http: [rpcUrl] } },
+      ...(preset.explorer && { blockExplorers: { default: preset.explorer } }),
+      ...(preset.multicall3 && { contracts: { multicall3: { address: MULTICALL3_ADDRESS } } }),
+      testnet: preset.testnet,
+    },
+  }
+}
+
+/**
+ * Build the chain registry from env variables.
+ *
+ * @param env - Usually `import.meta.env`
+ * @throws ChainConfigError if `VITE_NETWORK` is unknown or has no RPC URL,
+ *         a chain ID is malformed, or two networks share a chain ID
+ */
+export function createChainRegistry(env: ChainEnv): ChainRegistry {
+  const activeName = (readEnv(env, 'VITE_NETWORK') ?? 'anvil') as NetworkName
+  if (!NETWORK_NAMES.includes(activeName)) {
+    throw new ChainConfigError(`VITE_NETWORK must be one of ${NETWORK_NAMES.join(', ')}, got "${activeName}"`)
+  }
+
+  const configured = NETWORK_NAMES
+    .map(name => buildNetwork(name, env))
+    .filter((network): network is Network => network !== undefined)
+
+  const active = configured.find(network => network.name === activeName)
+  if (!active) {
+    throw new ChainConfigError(`VITE_NETWORK is "${activeName}" but VITE_${activeName.toUpperCase()}_RPC_URL is not set`)
+  }
+
+  const byId = new Map<number, Network>()
+  for (const network of configured) {
+    const clash = byId.get(network.chain.id)
+    if (clash) {
+      throw new ChainConfigError(`Networks "${clash.name}" and "${network.name}" both use chain ID ${network.chain.id}`)
+    }
+    byId.set(network.chain.id, network)
+  }
+
+  return {
+    networks: [active, ...configured.filter(network => network !== active)],
+    active,
+    byChainId: chainId => (chainId === undefined ? undefined : byId.get(chainId)),
+  }
+}
@@ -0,0 +1,186 @@
+/**
+ * @module deployments
+ * @description Deployment manifest loader — Forge broadcast output → typed per-chain address book.
+ *
+ * `forge script … --broadcast` writes `broadcast/<Script>.s.sol/<chainId>/run-latest.json`.
+ * Every CREATE transaction in that file names the deployed contract, so the
+ * Whirlpool addresses can be read straight from it instead of being copied
+ * into source after each deploy.
+ *
+ * Both `Deploy.s.sol` and `LocalDeploy.s.sol` are understood. WETH is taken
+ * from the MockWETH CREATE when present (Anvil), otherwise from the Router's
+ * constructor arguments (public networks, where WETH already exists).
+ * Multicall3 likewise comes from the manifest on Anvil — nothing lives at the
+ * canonical address there — and falls back to the canonical deployment on
+ * public chains.
+ *
+ * A manifest that can't be used (another chain's stale deploy, a local deploy
+ * from before `LocalDeploy.s.sol` added Multicall3) only matters for its own
+ * chain: {@link buildAddressBook} sets it aside, and {@link resolveDeployment}
+ * reports why when that chain has no usable deployment.
+ */
+
+/** Hex-encoded EVM address */
+export type Address = `0x${string}`
+
+/** Addresses of one full Whirlpool system (Option B deployment) */
+export interface WhirlpoolAddresses {
+  weth: Address
+  waves: Address
+  globalRewards: Address
+  surfSwap: Address
+  cardStaking: Address
+  wethPool: Address
+  bidNFT: Address
+  router: Address
+  /** Multicall3 used for batched reads */
+  multicall3: Address
+}
+
+/** One parsed deployment: which script produced it, on which chain, when */
+export interface WhirlpoolDeployment {
+  chainId: number
+  script: string
+  /** Unix seconds from the broadcast file (newest wins when scripts overlap) */
+  timestamp: number
+  addresses: WhirlpoolAddresses
+}
+
+/** Usable deployments keyed by chain ID, and why the other manifests weren't */
+export interface AddressBook {
+  deployments: Record<number, WhirlpoolDeployment>
+  /** Errors from manifests that failed to parse, by chain ID */
+  errors: Record<number, DeploymentError[]>
+}
+
+/** The subset of Forge's `run-latest.json` this loader reads */
+export interface ForgeBroadcast {
+  chain?: number
+  timestamp?: number
+  transactions: {
+    transactionType: string
+    contractName: string | null
+    contractAddress: Address | null
+    arguments?: string[] | null
+  }[]
+}
+
+/** Canonical Multicall3 address — identical on mainnet, Sepolia and most public chains */
+export const MULTICALL3_ADDRESS: Address = '0xcA11bde05977b3631167028862bE2a173976CA11'
+
+/** Thrown when a manifest is malformed or no deployment exists for a chain */
+export class DeploymentError extends Error {
+  name = 'DeploymentError'
+}
+
+/** Forge contract name → address book key (every key except `multicall3` is required) */
+const CONTRACT_KEYS: Record<string, keyof WhirlpoolAddresses> = {
+  MockWETH: 'weth',
+  WAVES: 'waves',
+  GlobalRewards: 'globalRewards',
+  SurfSwap: 'surfSwap',
+  CardStaking: 'cardStaking',
+  WethPool: 'wethPool',
+  BidNFT: 'bidNFT',
+  WhirlpoolRouter: 'router',
+  Multicall3: 'multicall3',
+}
+
+/** Anvil's default chain ID, where `LocalDeploy.s.sol` must supply Multicall3 */
+const ANVIL_CHAIN_ID = 31337
+const LOCAL_SCRIPT = 'LocalDeploy.s.sol'
+
+/** Position of `weth_` in the WhirlpoolRouter constructor */
+const ROUTER_WETH_ARG = 5
+
+const MANIFEST_PATH = /broadcast\/([^/]+)\/(\d+)\/run-latest\.json$/
+
+/**
+ * Parse one broadcast manifest into a deployment.
+ *
+ * @param manifest - Contents of `run-latest.json`
+ * @param script - Script file name, e.g. `LocalDeploy.s.sol`
+ * @param chainId - Chain ID (defaults to the manifest's own `chain` field)
+ * @throws DeploymentError if any Whirlpool contract is missing from the manifest,
+ * or an Anvil (chain 31337) deployment predates `LocalDeploy.s.sol` deploying Multicall3
+ */
+export function parseBroadcast(manifest: ForgeBroadcast, script: string, chainId = manifest.chain): WhirlpoolDeployment {
+  if (chainId === undefined) throw new DeploymentError(`${script}: manifest has no chain ID`)
+  if (!Array.isArray(manifest.transactions)) throw new DeploymentError(`${script} on chain ${chainId}: manifest has no transactions`)
+
+  const found: Partial<WhirlpoolAddresses> = {}
+  for (const tx of manifest.transactions) {
+    if (tx.transactionType !== 'CREATE' || !tx.contractName || !tx.contractAddress) continue
+    const key = CONTRACT_KEYS[tx.contractName]
+    if (key) found[key] = tx.contractAddress
+    if (tx.contractName === 'WhirlpoolRouter' && !found.weth) {
+      const weth = tx.arguments?.[ROUTER_WETH_ARG]
+      if (weth) found.weth = weth as Address
+    }
+  }
+
+  if (!found.multicall3) {
+    if (chainId === ANVIL_CHAIN_ID) {
+      throw new DeploymentError(`${script} on chain ${chainId} has no Multicall3 — redeploy with ${LOCAL_SCRIPT} to get Multicall3`)
+    }
+    found.multicall3 = MULTICALL3_ADDRESS
+  }
+
+  const missing = Object.values(CONTRACT_KEYS).filter(key => !found[key])
+  if (missing.length) {
+    throw new DeploymentError(`${script} on chain ${chainId} is missing: ${missing.join(', ')}`)
+  }
+
+  return {
+    chainId,
+    script,
+    timestamp: manifest.timestamp ?? 0,
+    addresses: found as WhirlpoolAddresses,
+  }
+}
+
+/**
+ * Build an address book from manifests keyed by file path — the shape an eager
+ * Vite `import.meta.glob` over `broadcast/<Script>/<chainId>/run-latest.json`
+ * returns. Script name and chain ID come from the path. When several scripts
+ * deployed to the same chain, the most recent usable broadcast wins; manifests
+ * that fail to parse are kept in `errors` instead of failing the whole book.
+ */
+export function buildAddressBook(manifests: Record<string, ForgeBroadcast>): AddressBook {
+  const book: AddressBook = { deployments: {}, errors: {} }
+  for (const [file, manifest] of Object.entries(manifests)) {
+    const match = file.match(MANIFEST_PATH)
+    if (!match) continue
+    const [, script, chain] = match
+    const chainId = Number(chain)
+    let deployment: WhirlpoolDeployment
+    try {
+      deployment = parseBroadcast(manifest, script, chainId)
+    } catch (e) {
+      if (!(e instanceof DeploymentError)) throw e
+      book.errors[chainId] = [...(book.errors[chainId] ?? []), e]
+      continue
+    }
+    const existing = book.deployments[chainId]
+    if (!existing || deployment.timestamp >= existing.timestamp) book.deployments[chainId] = deployment
+  }
+  return book
+}
+
+/**
+ * Look up the deployment for a chain.
+ * @throws DeploymentError with deploy instructions if the chain has none, or
+ * with the manifests' errors if it has only unusable ones
+ */
+export function resolveDeployment(book: AddressBook, chainId: number): WhirlpoolDeployment {
+  const deployment = book.deployments[chainId]
+  if (deployment) return deployment
+
+  const errors = book.errors[chainId]
+  if (errors?.length) throw new DeploymentError(errors.map(e => e.message).join('; '))
+  const known = Object.keys(book.deployments).join(', ') || 'none'
+  throw new DeploymentError(
+    `No Whirlpool deployment for chain ${chainId} (found: ${known}). ` +
+    'Run `forge script script/LocalDeploy.s.sol --rpc-url <rpc> --broadcast` to create one.',
+  )
+}
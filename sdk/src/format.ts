@@ -0,0 +1,44 @@
+/** Display helpers for on-chain values (18-decimal amounts and addresses) */
+
+const DECIMALS = 18
+const WAD = 10n ** BigInt(DECIMALS)
+
+/**
+ * Format an 18-decimal token amount (WAVES, card tokens, WETH) for display.
+ *
+ * Amounts >= 1 are shown with thousands separators and up to `decimals`
+ * fractional digits. Amounts below 1 keep `decimals` significant digits so
+ * tiny AMM prices (e.g. 0.00005263 WAVES per card token) don't collapse to 0.
+ *
+ * @param value - Raw on-chain amount (wei units)
+ * @param decimals - Fractional digits / significant digits to keep (default 2)
+ * @returns Human-readable amount, e.g. "1,500" or "0.0000526"
+ */
+export function formatWaves(value: bigint, decimals = 2): string {
+  const negative = value < 0n
+  const abs = negative ? -value : value
+  const whole = abs / WAD
+  const frac = (abs % WAD).toString().padStart(DECIMALS, '0')
+
+  let fracDigits: string
+  if (whole > 0n) {
+    fracDigits = frac.slice(0, decimals)
+  } else {
+    const firstSignificant = frac.search(/[1-9]/)
+    fracDigits = firstSignificant === -1 ? '' : frac.slice(0, firstSignificant + decimals)
+  }
+  fracDigits = fracDigits.replace(/0+$/, '')
+
+  const wholeStr = whole.toString().replace(/\B(?=(\d{3})+(?!\d))/g, ',')
+  const out = fracDigits ? `${wholeStr}.${fracDigits}` : wholeStr
+  return negative && out !== '0' ? `-${out}` : out
+}
+
+/**
+ * Shorten an address for display: `0x1234…abcd`.
+ * Returns an em dash for empty input so unloaded owners render cleanly.
+ */
+export function shortenAddress(address: string, chars = 4): string {
+  if (!address) return '—'
+  return `${address.slice(0, chars + 2)}…${address.slice(-chars)}`
+}
@@ -0,0 +1,40 @@
+/**
+ * @module @whirlpool/sdk
+ * @description Shared contract bindings for the Whirlpool front-ends.
+ *
+ * Both `frontend` (the AMM terminal) and `marketplace` consume this package
+ * instead of keeping their own copies of ABIs and addresses:
+ *
+ * - `abis/`        — typed (`as const`) ABIs, generated from Forge artifacts
+ *                    by `scripts/generate-abis.ts`
+ * - `deployments`  — Forge broadcast manifests → per-chain address book
+ * - `chains`       — env-driven registry of named networks (Anvil, fork, Sepolia)
+ * - `format`       — display helpers (`formatWaves`, `shortenAddress`)
+ * - `batchMint`    — resumable `Router.createCard` runs over a list of cards
+ * - `swap`         — `SurfSwap.swapExact` quotes, routes and slippage limits
+ */
+export * from './abis'
+export * from './deployments'
+export { createChainRegistry, ChainConfigError } from './chains'
+export type { ChainEnv, ChainRegistry, Network, NetworkName, WhirlpoolChain } from './chains'
+export { TEST_ACCOUNTS } from './accounts'
+export { formatWaves, shortenAddress } from './format'
+export { BatchMintError, MintTxError, batchMint, deriveSymbol, summarizeReport } from './batchMint'
+export type {
+  BatchMintClient,
+  BatchMintEntry,
+  BatchMintItem,
+  BatchMintOptions,
+  BatchMintReport,
+  BatchMintStatus,
+  TxHash,
+} from './batchMint'
+export {
+  DEFAULT_SLIPPAGE_BPS,
+  SWAP_FEE_BPS,
+  SwapQuoteError,
+  minAmountOut,
+  quoteSwap,
+  sameAsset,
+} from './swap'
+export type { PoolReserves, SwapAsset, SwapLeg, SwapPools, SwapQuote } from './swap'
@@ -0,0 +1,144 @@
+/**
+ * @module swap
+ * @description Off-chain quotes for `SurfSwap.swapExact`, from the reserves
+ * `getReserves(cardId)` and `getWethReserves()` return.
+ *
+ * Every pool pairs WAVES with one other token (a card token, or WETH), so
+ * WAVES is the hub: a swap is one leg when either side is WAVES and two legs
+ * through WAVES otherwise. The math mirrors the contract's integer arithmetic:
+ * - selling into WAVES takes `SWAP_FEE_BPS` from the input and again from the
+ *   WAVES out of the curve
+ * - buying with WAVES takes `SWAP_FEE_BPS` from the WAVES in only
+ *
+ * so a quote matches what `swapExact` pays against the same reserves.
+ * {@link minAmountOut} turns a quote and a slippage tolerance into the
+ * `minAmountOut` argument that makes the swap revert if reserves move further.
+ */
+
+/** Fee SurfSwap takes per fee step, in basis points (`SurfSwap.SWAP_FEE_BPS`) */
+export const SWAP_FEE_BPS = 30n
+/** Slippage tolerance used when the user hasn't picked one: 0.5% */
+export const DEFAULT_SLIPPAGE_BPS = 50
+
+const BPS = 10_000n
+
+/** A token `swapExact` can trade */
+export type SwapAsset = { kind: 'waves' } | { kind: 'weth' } | { kind: 'card'; cardId: number }
+
+/** `[wavesR, otherR]`, in the order `getReserves`/`getWethReserves` return them */
+export type PoolReserves = readonly [bigint, bigint]
+
+/** Reserves of the pools a quote may route through */
+export interface SwapPools {
+  /** `getWethReserves()` */
+  weth?: PoolReserves
+  /** `getReserves(cardId)`, by card ID */
+  cards: Record<number, PoolReserves | undefined>
+}
+
+/** One pool a swap passes through */
+export interface SwapLeg {
+  from: SwapAsset
+  to: SwapAsset
+  amountIn: bigint
+  amountOut: bigint
+}
+
+export interface SwapQuote {
+  amountIn: bigint
+  amountOut: bigint
+  /** Tokens in order, WAVES in the middle when routed through the hub */
+  route: SwapAsset[]
+  legs: SwapLeg[]
+  /** What `amountIn` would buy at the current pool prices, with no fees and no curve */
+  spotAmountOut: bigint
+  /** Output lost to the curve (trade size against reserves), in basis points; fees excluded */
+  priceImpactBps: number
+  /** Output lost to fees across all legs, in basis points */
+  feeBps: number
+}
+
+/** Thrown for a swap SurfSwap would reject: same token, zero amount, or a pool without liquidity */
+export class SwapQuoteError extends Error {
+  name = 'SwapQuoteError'
+}
+
+const WAVES: SwapAsset = { kind: 'waves' }
+
+export const sameAsset = (a: SwapAsset, b: SwapAsset) =>
+  a.kind === b.kind && (a.kind !== 'card' || a.cardId === (b as { cardId: number }).cardId)
+
+/** `WAVES`, `WETH`, `card #3` — for errors */
+const assetLabel = (asset: SwapAsset) => (asset.kind === 'card' ? `card #${asset.cardId}` : asset.kind.toUpperCase())
+
+function poolOf(asset: SwapAsset, pools: SwapPools): PoolReserves {
+  const reserves = asset.kind === 'weth' ? pools.weth : asset.kind === 'card' ? pools.cards[asset.cardId] : undefined
+  if (!reserves || reserves[0] === 0n || reserves[1] === 0n) throw new SwapQuoteError(`The ${assetLabel(asset)} pool has no liquidity`)
+  return reserves
+}
+
+/** `_swapCardToWaves` / `_swapWethToWaves` */
+function sellIntoWaves(amountIn: bigint, [wavesR, otherR]: PoolReserves, feeBps: bigint): bigint {
+  const afterFee = amountIn - (amountIn * feeBps) / BPS
+  const grossOut = wavesR - (wavesR * otherR) / (otherR + afterFee)
+  return grossOut - (grossOut * feeBps) / BPS
+}
+
+/** `_swapWavesToCard` / `_swapWavesToWeth` */
+function buyWithWaves(amountIn: bigint, [wavesR, otherR]: PoolReserves, feeBps: bigint): bigint {
+  const afterFee = amountIn - (amountIn * feeBps) / BPS
+  return otherR - (wavesR * otherR) / (wavesR + afterFee)
+}
+
+/** Losses as basis points of `of`, rounded up so a non-zero loss never shows as 0 */
+const lossBps = (of: bigint, kept: bigint) => (of === 0n ? 0 : Number(((of - kept) * BPS + of - 1n) / of))
+
+/**
+ * Quote swapping `amountIn` of `from` for `to` against `pools`.
+ *
+ * @throws SwapQuoteError when `swapExact` would revert on the route itself
+ */
+export function quoteSwap(from: SwapAsset, to: SwapAsset, amountIn: bigint, pools: SwapPools): SwapQuote {
+  if (sameAsset(from, to)) throw new SwapQuoteError('Pick two different tokens')
+  if (amountIn <= 0n) throw new SwapQuoteError('Enter an amount to swap')
+
+  const route = from.kind === 'waves' || to.kind === 'waves' ? [from, to] : [from, WAVES, to]
+  const legs: SwapLeg[] = []
+  let amount = amountIn
+  let spot = amountIn
+  let feeless = amountIn
+  for (let i = 0; i < route.length - 1; i++) {
+    const [legFrom, legTo] = [route[i], route[i + 1]]
+    const selling = legTo.kind === 'waves'
+    const reserves = poolOf(selling ? legFrom : legTo, pools)
+    const swap = selling ? sellIntoWaves : buyWithWaves
+    const amountOut = swap(amount, reserves, SWAP_FEE_BPS)
+    legs.push({ from: legFrom, to: legTo, amountIn: amount, amountOut })
+    feeless = swap(feeless, reserves, 0n)
+    spot = selling ? (spot * reserves[0]) / reserves[1] : (spot * reserves[1]) / reserves[0]
+    amount = amountOut
+  }
+
+  return {
+    amountIn,
+    amountOut: amount,
+    route,
+    legs,
+    spotAmountOut: spot,
+    priceImpactBps: lossBps(spot, feeless),
+    feeBps: lossBps(feeless, amount),
+  }
+}
+
+/**
+ * The least `quote` may pay out once reserves move by up to `slippageBps`
+ * (50 = 0.5%) — the `minAmountOut` to pass to `swapExact`.
+ *
+ * @throws SwapQuoteError for a tolerance outside 0–100%
+ */
+export function minAmountOut(amountOut: bigint, slippageBps: number): bigint {
+  if (!Number.isInteger(slippageBps) || slippageBps < 0 || slippageBps >= 10_000) {
+    throw new SwapQuoteError('Slippage tolerance must be at least 0% and below 100%')
+  }
+  return (amountOut * (BPS - BigInt(slippageBps))) / BPS
+}
@@ -0,0 +1,148 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { batchMint, BatchMintError, MintTxError } from '../src/batchMint'
+import type { BatchMintClient, BatchMintEntry, BatchMintItem, BatchMintReport, TxHash } from '../src/batchMint'
+import type { Address } from '../src/deployments'
+
+const ROUTER: Address = '0x00000000000000000000000000000000000000aa'
+const OLD_TX: TxHash = '0x01'
+
+/** How the client's `confirmCard` answers for the transaction sent last run */
+type Outcome = 'minted' | 'reverted' | 'dropped' | 'timeout'
+
+/** A Router stand-in that records what it was asked to do */
+function mockClient(previous: Outcome = 'minted') {
+  const calls = { sent: [] as string[], uploads: 0 }
+  let nextId = 10
+  const client: BatchMintClient = {
+    chainId: 31337,
+    router: ROUTER,
+    mintFee: async () => 5n,
+    isNameTaken: async name => name === 'Taken',
+    createCard: async name => {
+      calls.sent.push(name)
+      return `0x${String(calls.sent.length).padStart(4, '0')}` as TxHash
+    },
+    confirmCard: async tx => {
+      if (tx === OLD_TX) {
+        if (previous === 'reverted') throw new MintTxError('Transaction reverted')
+        if (previous === 'dropped') throw new MintTxError('The transaction was dropped')
+        if (previous === 'timeout') throw new Error('Timed out while waiting for transaction')
+      }
+      return { cardId: nextId++, cardToken: ROUTER }
+    },
+  }
+  const item = (name: string, uri = `ipfs://${name}`): BatchMintItem => ({
+    name,
+    symbol: name.toUpperCase(),
+    upload: async () => {
+      calls.uploads++
+      return uri
+    },
+  })
+  return { client, calls, item }
+}
+
+const reportWith = (...entries: BatchMintEntry[]): BatchMintReport => ({
+  chainId: 31337,
+  router: ROUTER,
+  updatedAt: '2026-01-01T00:00:00.000Z',
+  cards: Object.fromEntries(entries.map(entry => [entry.name, entry])),
+})
+
+describe('batchMint', () => {
+  it('uploads, sends and confirms each card', async () => {
+    const { client, calls, item } = mockClient()
+    const statuses: string[] = []
+    const report = await batchMint([item('Alpha'), item('Beta')], client, {
+      onUpdate: (_, entry) => void statuses.push(`${entry.name}:${entry.status}`),
+    })
+    assert.deepEqual(calls.sent, ['Alpha', 'Beta'])
+    assert.deepEqual(statuses, ['Alpha:uploaded', 'Alpha:sent', 'Alpha:minted', 'Beta:uploaded', 'Beta:sent', 'Beta:minted'])
+    assert.equal(report.cards.Beta.cardId, 11)
+  })
+
+  it('fails a card without stopping the batch', async () => {
+    const { client, calls, item } = mockClient()
+    const report = await batchMint([item('Taken'), item('alpha'), item('ALPHA'), item('Long', 'ü'.repeat(600))], client, { maxUriBytes: 1024 })
+    assert.deepEqual(calls.sent, ['alpha'])
+    assert.match(report.cards.Taken.error!, /already exists/)
+    assert.match(report.cards.ALPHA.error!, /same name/)
+    // 600 characters, but 1200 UTF-8 bytes
+    assert.match(report.cards.Long.error!, /Token URI is 2 KB; the limit is 1 KB/)
+  })
+
+  const resumes: { name: string; entry: BatchMintEntry; previous: Outcome; status: string; sent: string[]; uploads: number }[] = [
+    {
+      name: 'skips a minted card',
+      entry: { name: 'Alpha', symbol: 'ALPHA', status: 'minted', uri: 'ipfs://a', tx: OLD_TX, cardId: 1 },
+      previous: 'minted', status: 'minted', sent: [], uploads: 0,
+    },
+    {
+      name: 'confirms a sent card that landed without sending it again',
+      entry: { name: 'Alpha', symbol: 'ALPHA', status: 'sent', uri: 'ipfs://a', tx: OLD_TX },
+      previous: 'minted', status: 'minted', sent: [], uploads: 0,
+    },
+    {
+      name: 'confirms a card that failed while waiting',
+      entry: { name: 'Alpha', symbol: 'ALPHA', status: 'failed', uri: 'ipfs://a', tx: OLD_TX, error: 'RPC down' },
+      previous: 'minted', status: 'minted', sent: [], uploads: 0,
+    },
+    {
+      name: 'sends a reverted card again with its stored URI',
+      entry: { name: 'Alpha', symbol: 'ALPHA', status: 'sent', uri: 'ipfs://a', tx: OLD_TX },
+      previous: 'reverted', status: 'minted', sent: ['Alpha'], uploads: 0,
+    },
+    {
+      name: 'sends a dropped card again',
+      entry: { name: 'Alpha', symbol: 'ALPHA', status: 'sent', uri: 'ipfs://a', tx: OLD_TX },
+      previous: 'dropped', status: 'minted', sent: ['Alpha'], uploads: 0,
+    },
+    {
+      name: 'keeps a card sent when its transaction is still unknown',
+      entry: { name: 'Alpha', symbol: 'ALPHA', status: 'sent', uri: 'ipfs://a', tx: OLD_TX },
+      previous: 'timeout', status: 'sent', sent: [], uploads: 0,
+    },
+    {
+      name: 'reuses the URI of an uploaded card',
+      entry: { name: 'Alpha', symbol: 'ALPHA', status: 'uploaded', uri: 'ipfs://a' },
+      previous: 'minted', status: 'minted', sent: ['Alpha'], uploads: 0,
+    },
+    {
+      name: 'uploads a pending card',
+      entry: { name: 'Alpha', symbol: 'ALPHA', status: 'pending' },
+      previous: 'minted', status: 'minted', sent: ['Alpha'], uploads: 1,
+    },
+  ]
+  for (const { name, entry, previous, status, sent, uploads } of resumes) {
+    it(`resume ${name}`, async () => {
+      const { client, calls, item } = mockClient(previous)
+      const report = await batchMint([item('Alpha')], client, { report: reportWith(entry) })
+      assert.equal(report.cards.Alpha.status, status)
+      assert.deepEqual(calls.sent, sent)
+      assert.equal(calls.uploads, uploads)
+      if (status === 'sent') {
+        assert.equal(report.cards.Alpha.tx, OLD_TX)
+        assert.match(report.cards.Alpha.error!, /Timed out/)
+      }
+    })
+  }
+
+  it('refuses a report from another Router', async () => {
+    const { client, item } = mockClient()
+    const report = { ...reportWith(), router: '0x00000000000000000000000000000000000000bb' as Address }
+    await assert.rejects(batchMint([item('Alpha')], client, { report }), BatchMintError)
+  })
+
+  it('stops before the next card once aborted', async () => {
+    const { client, calls, item } = mockClient()
+    const signal = { aborted: false }
+    await batchMint([item('Alpha'), item('Beta')], client, {
+      signal,
+      onUpdate: (_, entry) => {
+        if (entry.status === 'minted') signal.aborted = true
+      },
+    })
+    assert.deepEqual(calls.sent, ['Alpha'])
+  })
+})
@@ -0,0 +1,108 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { buildAddressBook, DeploymentError, MULTICALL3_ADDRESS, parseBroadcast, resolveDeployment } from '../src/deployments'
+import type { Address, ForgeBroadcast } from '../src/deployments'
+
+const address = (n: number) => `0x${n.toString(16).padStart(40, '0')}` as Address
+const create = (contractName: string, n: number, args?: string[]) => ({ transactionType: 'CREATE', contractName, contractAddress: address(n), arguments: args })
+
+const WETH = address(0xeee)
+/** WhirlpoolRouter's constructor arguments, `weth_` sixth */
+const ROUTER_ARGS = [address(2), address(7), address(4), address(5), address(3), WETH, address(0xfee)]
+
+/** The contracts every deployment creates, without WETH or Multicall3 */
+const CORE = [
+  create('WAVES', 2),
+  create('GlobalRewards', 3),
+  create('SurfSwap', 4),
+  create('CardStaking', 5),
+  create('WethPool', 6),
+  create('BidNFT', 7),
+  create('WhirlpoolRouter', 8, ROUTER_ARGS),
+]
+
+const manifest = (transactions: ForgeBroadcast['transactions'], timestamp = 1_700_000_000): ForgeBroadcast => ({ timestamp, transactions })
+const LOCAL = manifest([create('MockWETH', 1), ...CORE, create('Multicall3', 9)])
+const PUBLIC = manifest(CORE)
+
+describe('parseBroadcast', () => {
+  const cases: { name: string; manifest: ForgeBroadcast; script: string; chainId: number; weth: Address; multicall3: Address }[] = [
+    { name: 'a local deploy takes MockWETH and Multicall3 from the manifest', manifest: LOCAL, script: 'LocalDeploy.s.sol', chainId: 31337, weth: address(1), multicall3: address(9) },
+    { name: 'a public deploy reads WETH from the Router arguments and uses canonical Multicall3', manifest: PUBLIC, script: 'Deploy.s.sol', chainId: 11155111, weth: WETH, multicall3: MULTICALL3_ADDRESS },
+    { name: 'LocalDeploy on a public chain falls back to canonical Multicall3', manifest: manifest([create('MockWETH', 1), ...CORE]), script: 'LocalDeploy.s.sol', chainId: 1, weth: address(1), multicall3: MULTICALL3_ADDRESS },
+  ]
+  for (const { name, manifest, script, chainId, weth, multicall3 } of cases) {
+    it(name, () => {
+      const deployment = parseBroadcast(manifest, script, chainId)
+      assert.equal(deployment.chainId, chainId)
+      assert.equal(deployment.script, script)
+      assert.equal(deployment.addresses.weth, weth)
+      assert.equal(deployment.addresses.multicall3, multicall3)
+      assert.equal(deployment.addresses.router, address(8))
+    })
+  }
+
+  it('takes the chain ID from the manifest when none is given', () => {
+    assert.equal(parseBroadcast({ ...PUBLIC, chain: 1 }, 'Deploy.s.sol').chainId, 1)
+  })
+
+  it('ignores calls and unnamed transactions', () => {
+    const deployment = parseBroadcast(manifest([
+      { transactionType: 'CALL', contractName: 'SurfSwap', contractAddress: address(0xbad), arguments: null },
+      { transactionType: 'CREATE', contractName: null, contractAddress: address(0xbad), arguments: null },
+      ...CORE,
+    ]), 'Deploy.s.sol', 1)
+    assert.equal(deployment.addresses.surfSwap, address(4))
+  })
+
+  const rejected: { name: string; manifest: ForgeBroadcast; chainId?: number; message: RegExp }[] = [
+    { name: 'no chain ID', manifest: PUBLIC, message: /no chain ID/ },
+    { name: 'no transactions', manifest: {} as ForgeBroadcast, chainId: 1, message: /no transactions/ },
+    { name: 'a missing contract', manifest: manifest(CORE.filter(tx => tx.contractName !== 'BidNFT')), chainId: 1, message: /missing: bidNFT/ },
+    { name: 'an Anvil deploy without Multicall3', manifest: manifest([create('MockWETH', 1), ...CORE]), chainId: 31337, message: /no Multicall3 — redeploy/ },
+  ]
+  for (const { name, manifest, chainId, message } of rejected) {
+    it(`rejects ${name}`, () => {
+      assert.throws(() => parseBroadcast(manifest, 'Deploy.s.sol', chainId), (e: unknown) => e instanceof DeploymentError && message.test(e.message))
+    })
+  }
+})
+
+describe('buildAddressBook / resolveDeployment', () => {
+  const path = (script: string, chainId: number) => `../../broadcast/${script}/${chainId}/run-latest.json`
+
+  it('keeps the newest usable deployment per chain', () => {
+    const book = buildAddressBook({
+      [path('Deploy.s.sol', 31337)]: manifest([create('MockWETH', 1), ...CORE, create('Multicall3', 9)], 100),
+      [path('LocalDeploy.s.sol', 31337)]: manifest([create('MockWETH', 1), ...CORE, create('Multicall3', 10)], 200),
+      [path('Deploy.s.sol', 11155111)]: PUBLIC,
+      'broadcast/not-a-manifest.json': PUBLIC,
+    })
+    assert.deepEqual(Object.keys(book.deployments), ['31337', '11155111'])
+    assert.equal(resolveDeployment(book, 31337).script, 'LocalDeploy.s.sol')
+    assert.equal(resolveDeployment(book, 31337).addresses.multicall3, address(10))
+  })
+
+  it('sets a broken manifest aside without affecting other chains', () => {
+    const book = buildAddressBook({
+      [path('LocalDeploy.s.sol', 31337)]: manifest([create('MockWETH', 1), ...CORE]),
+      [path('Deploy.s.sol', 11155111)]: PUBLIC,
+    })
+    assert.equal(resolveDeployment(book, 11155111).addresses.weth, WETH)
+    assert.equal(book.errors[31337].length, 1)
+    assert.throws(() => resolveDeployment(book, 31337), /no Multicall3/)
+  })
+
+  it('prefers an older usable deployment over a newer broken one', () => {
+    const book = buildAddressBook({
+      [path('Deploy.s.sol', 1)]: manifest(CORE, 100),
+      [path('LocalDeploy.s.sol', 1)]: manifest(CORE.slice(1), 200),
+    })
+    assert.equal(resolveDeployment(book, 1).script, 'Deploy.s.sol')
+  })
+
+  it('names the deployed chains when the active one has none', () => {
+    const book = buildAddressBook({ [path('Deploy.s.sol', 1)]: PUBLIC })
+    assert.throws(() => resolveDeployment(book, 31337), /No Whirlpool deployment for chain 31337 \(found: 1\)/)
+  })
+})
@@ -0,0 +1,96 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { minAmountOut, quoteSwap, SwapQuoteError } from '../src/swap'
+import type { PoolReserves, SwapAsset } from '../src/swap'
+
+const E = 10n ** 18n
+const waves: SwapAsset = { kind: 'waves' }
+const weth: SwapAsset = { kind: 'weth' }
+const card = (cardId: number): SwapAsset => ({ kind: 'card', cardId })
+
+/** A freshly minted card's pool, as `testMintSeedsPool` asserts: 500 WAVES, 9.5M cards */
+const FRESH: PoolReserves = [500n * E, 9_500_000n * E]
+/** The pool after `testSwapWavesToCard` bought with 100 WAVES (`_swapWavesToCard` keeps the fee out of the reserve) */
+const AFTER_BUY: PoolReserves = [599_700_000_000_000_000_000n, 7_920_626_980_156_745_039_186_259n]
+const WETH_POOL: PoolReserves = [1000n * E, 10n * E]
+
+// Expected outputs replay SurfSwap's integer arithmetic on the forge test scenarios in test/Whirlpool.t.sol
+describe('quoteSwap', () => {
+  const cases: { name: string; from: SwapAsset; to: SwapAsset; amountIn: bigint; cards: Record<number, PoolReserves>; amountOut: bigint; legs: number }[] = [
+    {
+      name: 'WAVES → card (testSwapWavesToCard)',
+      from: waves, to: card(0), amountIn: 100n * E, cards: { 0: FRESH },
+      amountOut: 1_579_373_019_843_254_960_813_741n, legs: 1,
+    },
+    {
+      name: 'card → WAVES (testSwapCardToWaves)',
+      from: card(0), to: waves, amountIn: 1_579_373_019_843_254_960_813_741n, cards: { 0: AFTER_BUY },
+      amountOut: 99_152_149_372_498_439_693n, legs: 1,
+    },
+    {
+      name: 'card → card through WAVES (testSwapCardToCard)',
+      from: card(0), to: card(1), amountIn: 1_579_373_019_843_254_960_813_741n, cards: { 0: AFTER_BUY, 1: FRESH },
+      amountOut: 1_568_192_741_707_718_779_988_730n, legs: 2,
+    },
+    {
+      name: 'WETH → WAVES',
+      from: weth, to: waves, amountIn: 1n * E, cards: {},
+      amountOut: 90_389_106_119_850_868_420n, legs: 1,
+    },
+    {
+      name: 'WAVES → WETH',
+      from: waves, to: weth, amountIn: 100n * E, cards: {},
+      amountOut: 906_610_893_880_149_132n, legs: 1,
+    },
+  ]
+
+  for (const { name, from, to, amountIn, cards, amountOut, legs } of cases) {
+    it(name, () => {
+      const quote = quoteSwap(from, to, amountIn, { weth: WETH_POOL, cards })
+      assert.equal(quote.amountOut, amountOut)
+      assert.equal(quote.legs.length, legs)
+      assert.equal(quote.legs[0].amountIn, amountIn)
+      assert.equal(quote.legs.at(-1)!.amountOut, amountOut)
+      assert.ok(quote.feeBps > 0)
+    })
+  }
+
+  it('routes card → card through WAVES with the first leg feeding the second', () => {
+    const quote = quoteSwap(card(0), card(1), 1_579_373_019_843_254_960_813_741n, { cards: { 0: AFTER_BUY, 1: FRESH } })
+    assert.deepEqual(quote.route, [card(0), waves, card(1)])
+    assert.equal(quote.legs[0].amountOut, 99_152_149_372_498_439_693n)
+    assert.equal(quote.legs[1].amountIn, quote.legs[0].amountOut)
+  })
+
+  const rejected: { name: string; from: SwapAsset; to: SwapAsset; amountIn: bigint; message: RegExp }[] = [
+    { name: 'the same token', from: card(0), to: card(0), amountIn: E, message: /two different tokens/ },
+    { name: 'a zero amount', from: waves, to: card(0), amountIn: 0n, message: /Enter an amount/ },
+    { name: 'a pool that does not exist', from: waves, to: card(7), amountIn: E, message: /card #7 pool has no liquidity/ },
+    { name: 'an empty WETH pool', from: weth, to: waves, amountIn: E, message: /WETH pool has no liquidity/ },
+  ]
+  for (const { name, from, to, amountIn, message } of rejected) {
+    it(`rejects ${name}`, () => {
+      assert.throws(() => quoteSwap(from, to, amountIn, { weth: [0n, 0n], cards: { 0: FRESH } }), (e: unknown) => e instanceof SwapQuoteError && message.test(e.message))
+    })
+  }
+})
+
+describe('minAmountOut', () => {
+  const cases: [amountOut: bigint, slippageBps: number, expected: bigint][] = [
+    [1_579_373_019_843_254_960_813_741n, 50, 1_571_476_154_744_038_686_009_672n],
+    [99_152_149_372_498_439_693n, 0, 99_152_149_372_498_439_693n],
+    [99_152_149_372_498_439_693n, 9_999, 9_915_214_937_249_843n],
+    [1n, 50, 0n],
+  ]
+  for (const [amountOut, slippageBps, expected] of cases) {
+    it(`${amountOut} at ${slippageBps} bps → ${expected}`, () => {
+      assert.equal(minAmountOut(amountOut, slippageBps), expected)
+    })
+  }
+
+  for (const slippageBps of [-1, 10_000, 0.5, NaN]) {
+    it(`rejects a tolerance of ${slippageBps} bps`, () => {
+      assert.throws(() => minAmountOut(E, slippageBps), SwapQuoteError)
+    })
+  }
+})